@@ -1,7 +1,7 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { StyleSheet, Dimensions, Alert, Pressable, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { router } from 'expo-router';
+import { router, useLocalSearchParams } from 'expo-router';
 
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
@@ -9,29 +9,43 @@ import { FlowchartViewer } from '@/components/FlowchartViewer';
 import { GradientBackground } from '@/components/ui/GradientBackground';
 import { IconSymbol } from '@/components/ui/IconSymbol';
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { useFlowchartUndo } from '@/hooks/useFlowchartUndo';
 import { TextInputModal } from '@/components/TextInputModal';
 import { NodeEditModal } from '@/components/NodeEditModal';
 import { EdgeEditModal } from '@/components/EdgeEditModal';
-import { FlowchartStructure, FlowchartNode, FlowchartEdge, PartType } from '@/lib/types/flowchart';
+import { FlowchartHistoryModal } from '@/components/FlowchartHistoryModal';
+import { FlowchartShareModal, FlowchartShareFormat } from '@/components/FlowchartShareModal';
+import { FlowchartSnapshotRenderer } from '@/components/FlowchartSnapshotRenderer';
+import { BodyMapPanel } from '@/components/BodyMapPanel';
+import { FlowchartStructure, FlowchartNode, FlowchartEdge, FlowchartVersionAuthor, PartType } from '@/lib/types/flowchart';
 import { 
   getUserFlowchart,
   getUserFlowchartWithId, 
+  getFlowchartById,
   updateFlowchartWithDescription,
   subscribeToFlowchartChanges,
   FlowchartRow,
   generateFlowchartFromRequirements,
   createFlowchart,
-  exportFlowchartAsTemplate
+  exportFlowchartAsTemplate,
+  exportFlowchartAsDiagram,
+  exportFlowchartAsSvg,
+  exportFlowchartSnapshotPng
 } from '@/lib/services/flowcharts';
+import { layoutFlowchart, LayoutMode } from '@/lib/services/flowchartLayout';
+import { MutationConflictError } from '@/lib/services/offlineQueue';
 import { useAuth } from '@/contexts/AuthContext';
 
 const { width: screenWidth } = Dimensions.get('window');
+const EXPORT_NAME = 'empart-flowchart';
 
 export default function BodygraphScreen() {
   const { user } = useAuth();
+  const { flowchartId: requestedFlowchartId } = useLocalSearchParams<{ flowchartId?: string }>();
   const colorScheme = useColorScheme();
   const [flowchart, setFlowchart] = useState<FlowchartStructure | null>(null);
   const [currentFlowchartId, setCurrentFlowchartId] = useState<string | null>(null);
+  const [currentFlowchartName, setCurrentFlowchartName] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isEditMode, setIsEditMode] = useState(false);
@@ -43,14 +57,29 @@ export default function BodygraphScreen() {
   const [edgeToEdit, setEdgeToEdit] = useState<FlowchartEdge | null>(null);
   const [isConnectMode, setIsConnectMode] = useState(false);
   const [connectingFromNode, setConnectingFromNode] = useState<FlowchartNode | null>(null);
+  const [historyModalVisible, setHistoryModalVisible] = useState(false);
+  const [shareModalVisible, setShareModalVisible] = useState(false);
+  const [snapshotFlowchart, setSnapshotFlowchart] = useState<FlowchartStructure | null>(null);
+  // The parts flowchart, or the body map of where emotions are felt
+  const [screenMode, setScreenMode] = useState<'parts' | 'body'>('parts');
+  const [lastSelectedNodeId, setLastSelectedNodeId] = useState<string | null>(null);
+  const {
+    record: recordCommand,
+    undo: undoCommand,
+    redo: redoCommand,
+    clear: clearUndoHistory,
+    canUndo,
+    canRedo
+  } = useFlowchartUndo();
   
-  // Debounced position update
+  // Debounced save for drags and undo/redo
   const positionUpdateTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
-  // Load flowchart on component mount
+  // Realtime callbacks need the open map's ID without resubscribing
+  const currentFlowchartIdRef = useRef<string | null>(null);
   useEffect(() => {
-    loadFlowchart();
-  }, [user]);
+    currentFlowchartIdRef.current = currentFlowchartId;
+  }, [currentFlowchartId]);
 
   // Clean up position update timeout on unmount
   useEffect(() => {
@@ -66,22 +95,31 @@ export default function BodygraphScreen() {
     if (!user) return;
 
     const subscription = subscribeToFlowchartChanges((flowcharts: FlowchartRow[]) => {
-      const defaultFlowchart = flowcharts.find(f => f.is_default);
-      if (defaultFlowchart) {
-        setFlowchart(defaultFlowchart.structure);
-        setCurrentFlowchartId(defaultFlowchart.id);
+      // Follow the open map, falling back to the default if it was deleted
+      const openFlowchart = flowcharts.find(f => f.id === currentFlowchartIdRef.current)
+        || flowcharts.find(f => f.is_default);
+      if (openFlowchart) {
+        setFlowchart(openFlowchart.structure);
+        setCurrentFlowchartId(openFlowchart.id);
+        setCurrentFlowchartName(openFlowchart.name);
       }
     });
 
     return () => subscription.unsubscribe();
   }, [user]);
 
-  const loadFlowchart = async () => {
+  const loadFlowchart = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
       
-      const { structure, id } = await getUserFlowchartWithId();
+      const requested = user && requestedFlowchartId
+        ? await getFlowchartById(requestedFlowchartId)
+        : null;
+      const { structure, id } = requested
+        ? { structure: requested.structure, id: requested.id }
+        : await getUserFlowchartWithId();
+      setCurrentFlowchartName(requested?.name ?? null);
       
       // Fix any nodes that don't have x,y coordinates
       const fixedStructure = {
@@ -107,6 +145,7 @@ export default function BodygraphScreen() {
       };
       
       setFlowchart(fixedStructure);
+      clearUndoHistory();
       
       // Set the flowchart ID for updates
       if (id) {
@@ -138,10 +177,16 @@ export default function BodygraphScreen() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [user, requestedFlowchartId, clearUndoHistory]);
+
+  // Load flowchart on mount and when a map is opened from the library
+  useEffect(() => {
+    loadFlowchart();
+  }, [loadFlowchart]);
 
   const handleNodeSelect = (node: FlowchartNode) => {
     console.log('📍 Selected node:', node.id, '(', node.type, ')');
+    setLastSelectedNodeId(node.id);
     
     // If in connect mode, create a relationship
     if (isConnectMode && connectingFromNode && node.id !== connectingFromNode.id) {
@@ -233,13 +278,16 @@ export default function BodygraphScreen() {
 
               const changeDescription = `Deleted node "${nodeToEdit.id}" and all connected relationships`;
 
-              await updateFlowchartWithDescription(
-                currentFlowchartId,
-                updatedStructure,
-                changeDescription
-              );
+              await saveFlowchart(updatedStructure, changeDescription);
 
               // Update local state
+              recordCommand({
+                type: 'deleteNode',
+                description: changeDescription,
+                before: flowchart,
+                after: updatedStructure,
+                nodeId: nodeToEdit.id
+              });
               setFlowchart(updatedStructure);
               setNodeEditModalVisible(false);
               setNodeToEdit(null);
@@ -276,7 +324,7 @@ export default function BodygraphScreen() {
       const newEdge: FlowchartEdge = {
         from: fromNode.id,
         to: toNode.id,
-        type: 'protects' // Default relationship type
+        type: 'protection' // Default relationship type
       };
 
       const updatedStructure: FlowchartStructure = {
@@ -284,14 +332,16 @@ export default function BodygraphScreen() {
         edges: [...flowchart.edges, newEdge]
       };
 
-      const changeDescription = `Created relationship from "${fromNode.id}" to "${toNode.id}" (protects)`;
+      const changeDescription = `Created relationship from "${fromNode.id}" to "${toNode.id}" (protection)`;
 
-      await updateFlowchartWithDescription(
-        currentFlowchartId,
-        updatedStructure,
-        changeDescription
-      );
+      await saveFlowchart(updatedStructure, changeDescription);
 
+      recordCommand({
+        type: 'addEdge',
+        description: changeDescription,
+        before: flowchart,
+        after: updatedStructure
+      });
       setFlowchart(updatedStructure);
       console.log('✅ Created relationship');
       Alert.alert('Success', `Connected "${fromNode.id}" to "${toNode.id}"`);
@@ -364,15 +414,18 @@ export default function BodygraphScreen() {
       });
 
       // Update in Supabase and append to markdown
-      const result = await updateFlowchartWithDescription(
-        currentFlowchartId,
-        updatedStructure,
-        changeDescription
-      );
+      const result = await saveFlowchart(updatedStructure, changeDescription);
 
       console.log('✅ Successfully updated flowchart in Supabase:', result);
 
       // Update local state
+      recordCommand({
+        type: 'updateNode',
+        description: changeDescription,
+        before: flowchart,
+        after: updatedStructure,
+        nodeId: newNodeId
+      });
       setFlowchart(updatedStructure);
 
       console.log('✅ Updated node properties successfully');
@@ -382,25 +435,21 @@ export default function BodygraphScreen() {
     }
   };
 
-  // Debounced function to save position changes to database
-  const debouncedPositionUpdate = (
-    nodeId: string, 
-    x: number, 
-    y: number, 
-    updatedStructure: FlowchartStructure
+  // Debounced function to save drags and undo/redo steps to database
+  const debouncedFlowchartSave = (
+    updatedStructure: FlowchartStructure,
+    changeDescription: string
   ) => {
-    // Clear any existing timeout
+    // Clear any existing timeout - only the latest structure needs saving
     if (positionUpdateTimeoutRef.current) {
       clearTimeout(positionUpdateTimeoutRef.current);
     }
 
-    // Set a new timeout to save after 1 second of no movement
+    // Set a new timeout to save after 1 second of no further changes
     positionUpdateTimeoutRef.current = setTimeout(async () => {
+      positionUpdateTimeoutRef.current = null;
       try {
-        const node = updatedStructure.nodes.find(n => n.id === nodeId);
-        const changeDescription = `Moved node "${node?.id}" to position (${Math.round(x)}, ${Math.round(y)})`;
-
-        console.log('💾 Saving node position to database:', { nodeId, x: Math.round(x), y: Math.round(y) });
+        console.log('💾 Saving flowchart to database:', changeDescription);
 
         await updateFlowchartWithDescription(
           currentFlowchartId!,
@@ -408,12 +457,41 @@ export default function BodygraphScreen() {
           changeDescription
         );
 
-        console.log('✅ Node position saved successfully');
+        console.log('✅ Flowchart saved successfully');
       } catch (err) {
-        console.error('❌ Error saving node position:', err);
-        // Don't show alert for position save errors as it's not critical UX
+        console.error('❌ Error saving flowchart:', err);
+        // Don't show alert for debounced save errors as it's not critical UX,
+        // but don't keep showing a change the server threw away either
+        if (err instanceof MutationConflictError) {
+          setFlowchart(err.serverRow.structure);
+          clearUndoHistory();
+        }
+      }
+    }, 1000); // Wait 1 second after last change
+  };
+
+  // Save an edit right away. Edits are built on the structure on screen,
+  // which already has any drag or undo/redo still waiting in the debounced
+  // save, so that save is dropped rather than left to overwrite this one
+  const saveFlowchart = async (
+    updatedStructure: FlowchartStructure,
+    changeDescription: string,
+    author?: FlowchartVersionAuthor
+  ) => {
+    if (positionUpdateTimeoutRef.current) {
+      clearTimeout(positionUpdateTimeoutRef.current);
+      positionUpdateTimeoutRef.current = null;
+    }
+    try {
+      return await updateFlowchartWithDescription(currentFlowchartId!, updatedStructure, changeDescription, author);
+    } catch (error) {
+      // The map changed on another device first; show what was kept
+      if (error instanceof MutationConflictError) {
+        setFlowchart(error.serverRow.structure);
+        clearUndoHistory();
       }
-    }, 1000); // Wait 1 second after last movement
+      throw error;
+    }
   };
 
   const handleNodeMove = async (nodeId: string, x: number, y: number) => {
@@ -430,11 +508,22 @@ export default function BodygraphScreen() {
         nodes: updatedNodes
       };
 
+      const changeDescription = `Moved node "${nodeId}" to position (${Math.round(x)}, ${Math.round(y)})`;
+
+      // Consecutive drag events of the same node collapse into one undo step
+      recordCommand({
+        type: 'moveNode',
+        description: changeDescription,
+        before: flowchart,
+        after: updatedStructure,
+        nodeId
+      });
+
       // Update local state immediately
       setFlowchart(updatedStructure);
 
       // Debounced database update (saves after 1 second of no movement)
-      debouncedPositionUpdate(nodeId, x, y, updatedStructure);
+      debouncedFlowchartSave(updatedStructure, changeDescription);
 
     } catch (err) {
       console.error('❌ Error moving node:', err);
@@ -460,13 +549,16 @@ export default function BodygraphScreen() {
       const changeDescription = `Renamed node "${flowchart.nodes.find(n => n.id === nodeId)?.id}" to "${newLabel}"`;
 
       // Update in Supabase and append to markdown
-      await updateFlowchartWithDescription(
-        currentFlowchartId,
-        updatedStructure,
-        changeDescription
-      );
+      await saveFlowchart(updatedStructure, changeDescription);
 
       // Update local state
+      recordCommand({
+        type: 'renameNode',
+        description: changeDescription,
+        before: flowchart,
+        after: updatedStructure,
+        nodeId
+      });
       setFlowchart(updatedStructure);
 
       console.log('✅ Updated node label:', newLabel);
@@ -523,13 +615,15 @@ export default function BodygraphScreen() {
       const toNode = flowchart.nodes.find(n => n.id === edgeToEdit.to);
       const changeDescription = `Updated relationship from "${fromNode?.id || edgeToEdit.from}" to "${toNode?.id || edgeToEdit.to}" to type "${updates.type}"${updates.label ? ` with label "${updates.label}"` : ''}`;
 
-      await updateFlowchartWithDescription(
-        currentFlowchartId,
-        updatedStructure,
-        changeDescription
-      );
+      await saveFlowchart(updatedStructure, changeDescription);
 
       // Update local state
+      recordCommand({
+        type: 'updateEdge',
+        description: changeDescription,
+        before: flowchart,
+        after: updatedStructure
+      });
       setFlowchart(updatedStructure);
       setEdgeEditModalVisible(false);
       setEdgeToEdit(null);
@@ -560,13 +654,15 @@ export default function BodygraphScreen() {
       const toNode = flowchart.nodes.find(n => n.id === edgeToEdit.to);
       const changeDescription = `Deleted relationship from "${fromNode?.id || edgeToEdit.from}" to "${toNode?.id || edgeToEdit.to}"`;
 
-      await updateFlowchartWithDescription(
-        currentFlowchartId,
-        updatedStructure,
-        changeDescription
-      );
+      await saveFlowchart(updatedStructure, changeDescription);
 
       // Update local state
+      recordCommand({
+        type: 'deleteEdge',
+        description: changeDescription,
+        before: flowchart,
+        after: updatedStructure
+      });
       setFlowchart(updatedStructure);
       setEdgeEditModalVisible(false);
       setEdgeToEdit(null);
@@ -589,77 +685,153 @@ export default function BodygraphScreen() {
       'This will analyze your requirements file and generate a new flowchart structure. Continue?',
       [
         { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Generate',
-          onPress: async () => {
-            try {
-              setLoading(true);
-              setError(null);
-              
-              const aiStructure = await generateFlowchartFromRequirements(
-                flowchart || undefined
-              );
-              
-              if (currentFlowchartId) {
-                await updateFlowchartWithDescription(
-                  currentFlowchartId,
-                  aiStructure,
-                  'Generated flowchart structure using AI based on requirements'
-                );
-              } else {
-                const newFlowchart = await createFlowchart(
-                  'AI Generated Flowchart',
-                  aiStructure,
-                  true
-                );
-                setCurrentFlowchartId(newFlowchart.id);
-              }
-              
-              setFlowchart(aiStructure);
-              Alert.alert('Success', 'Flowchart generated successfully!');
-              
-            } catch (err) {
-              console.error('❌ Error generating flowchart:', err);
-              Alert.alert('Error', 'Failed to generate flowchart. Please check your API key.');
-            } finally {
-              setLoading(false);
-            }
-          }
-        }
+        { text: 'Generate', onPress: () => generateWithAI() },
+        { text: 'Generate & Arrange', onPress: () => generateWithAI('layered') }
       ]
     );
   };
 
+  const generateWithAI = async (autoArrange?: LayoutMode) => {
+    try {
+      setLoading(true);
+      setError(null);
+      
+      const aiStructure = await generateFlowchartFromRequirements(
+        flowchart || undefined,
+        undefined,
+        { autoArrange }
+      );
+      
+      if (currentFlowchartId) {
+        await saveFlowchart(aiStructure, 'Generated flowchart structure using AI based on requirements', 'ai');
+      } else {
+        const newFlowchart = await createFlowchart(
+          'AI Generated Flowchart',
+          aiStructure,
+          true,
+          'ai'
+        );
+        setCurrentFlowchartId(newFlowchart.id);
+      }
+      
+      if (flowchart) {
+        recordCommand({
+          type: 'replace',
+          description: 'Generated flowchart structure using AI',
+          before: flowchart,
+          after: aiStructure
+        });
+      }
+      setFlowchart(aiStructure);
+      Alert.alert('Success', 'Flowchart generated successfully!');
+      
+    } catch (err) {
+      console.error('❌ Error generating flowchart:', err);
+      Alert.alert('Error', 'Failed to generate flowchart. Please check your connection and try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAutoArrange = () => {
+    if (!user || !flowchart || !currentFlowchartId) return;
+
+    Alert.alert(
+      'Auto-arrange',
+      'Rearrange the nodes so parts sit on top, emotions in the middle and needs at the core.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Layered', onPress: () => applyLayout('layered') },
+        { text: 'Force-directed', onPress: () => applyLayout('force') }
+      ]
+    );
+  };
+
+  const applyLayout = async (mode: LayoutMode) => {
+    if (!flowchart || !currentFlowchartId) return;
+
+    try {
+      const updatedStructure = layoutFlowchart(flowchart, { mode });
+      const changeDescription = `Auto-arranged flowchart (${mode === 'force' ? 'force-directed' : 'layered'} layout)`;
+
+      await saveFlowchart(updatedStructure, changeDescription);
+
+      recordCommand({
+        type: 'replace',
+        description: changeDescription,
+        before: flowchart,
+        after: updatedStructure
+      });
+      setFlowchart(updatedStructure);
+
+      console.log('✅ Auto-arranged flowchart:', mode);
+    } catch (err) {
+      console.error('❌ Error arranging flowchart:', err);
+      Alert.alert('Error', 'Failed to arrange flowchart');
+    }
+  };
+
   const handleEditRequirements = () => {
     router.push('/requirements-editor');
   };
 
-  const handleExportTemplate = async () => {
+  const handleImport = () => {
+    router.push('/import-flowchart');
+  };
+
+  const handleOpenLibrary = () => {
+    router.push('/maps');
+  };
+
+  const handleExport = () => {
     if (!flowchart) {
       Alert.alert('No Flowchart', 'There is no flowchart to export.');
       return;
     }
 
-    Alert.alert(
-      'Export Template',
-      'This will export the current flowchart structure as a JSON template file that can be used as a reference for AI generation.',
-      [
-        { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Export',
-          onPress: async () => {
-            try {
-              const templateName = 'empart-flowchart';
-              await exportFlowchartAsTemplate(flowchart, templateName);
-              Alert.alert('Success', 'Flowchart template exported successfully!');
-            } catch (error) {
-              console.error('❌ Error exporting template:', error);
-              Alert.alert('Error', 'Failed to export template. Please try again.');
-            }
-          }
-        }
-      ]
-    );
+    setShareModalVisible(true);
+  };
+
+  const handleShareSelect = async (format: FlowchartShareFormat) => {
+    setShareModalVisible(false);
+    if (!flowchart) return;
+
+    try {
+      switch (format) {
+        case 'png':
+          // Rendered off-screen by FlowchartSnapshotRenderer, shared in handleSnapshotCaptured
+          setSnapshotFlowchart(flowchart);
+          break;
+        case 'svg':
+          await exportFlowchartAsSvg(flowchart, EXPORT_NAME);
+          break;
+        case 'mermaid':
+        case 'dot':
+          await exportFlowchartAsDiagram(flowchart, format, EXPORT_NAME);
+          break;
+        case 'template':
+          await exportFlowchartAsTemplate(flowchart, EXPORT_NAME);
+          break;
+      }
+    } catch (error) {
+      // The export services already alert the user
+      console.error('❌ Error exporting flowchart:', error);
+    }
+  };
+
+  const handleSnapshotCaptured = async (base64Png: string) => {
+    setSnapshotFlowchart(null);
+    try {
+      await exportFlowchartSnapshotPng(base64Png, EXPORT_NAME);
+    } catch (error) {
+      console.error('❌ Error sharing snapshot:', error);
+    }
+  };
+
+  const handleSnapshotError = (error: unknown) => {
+    setSnapshotFlowchart(null);
+    console.error('❌ Error rendering snapshot:', error);
+    Alert.alert('Export Error', 'Failed to render snapshot. Please try again.');
   };
 
 
@@ -698,11 +870,14 @@ export default function BodygraphScreen() {
     };
 
     try {
-      await updateFlowchartWithDescription(
-        currentFlowchartId,
-        updatedStructure,
-        `Added new node "${newNode.id}" at center position`
-      );
+      await saveFlowchart(updatedStructure, `Added new node "${newNode.id}" at center position`);
+      recordCommand({
+        type: 'addNode',
+        description: `Added new node "${newNode.id}"`,
+        before: flowchart,
+        after: updatedStructure,
+        nodeId: newNode.id
+      });
       setFlowchart(updatedStructure);
       
       // Immediately prompt to rename the new node
@@ -716,6 +891,44 @@ export default function BodygraphScreen() {
     }
   };
 
+  const handleUndo = () => {
+    if (!currentFlowchartId) return;
+
+    const command = undoCommand();
+    if (!command) return;
+
+    setIsConnectMode(false);
+    setConnectingFromNode(null);
+    setFlowchart(command.before);
+    debouncedFlowchartSave(command.before, `Undo: ${command.description}`);
+    console.log('↩️ Undid:', command.description);
+  };
+
+  const handleRedo = () => {
+    if (!currentFlowchartId) return;
+
+    const command = redoCommand();
+    if (!command) return;
+
+    setIsConnectMode(false);
+    setConnectingFromNode(null);
+    setFlowchart(command.after);
+    debouncedFlowchartSave(command.after, `Redo: ${command.description}`);
+    console.log('↪️ Redid:', command.description);
+  };
+
+  const handleVersionRestored = (structure: FlowchartStructure) => {
+    if (flowchart) {
+      recordCommand({
+        type: 'replace',
+        description: 'Restored earlier version',
+        before: flowchart,
+        after: structure
+      });
+    }
+    setFlowchart(structure);
+  };
+
   const toggleEditMode = () => {
     if (!user) {
       Alert.alert('Sign In Required', 'Please sign in to edit the flowchart');
@@ -756,76 +969,165 @@ export default function BodygraphScreen() {
       <SafeAreaView style={styles.safeArea} edges={[]}>
         <ThemedView style={styles.headerContainer} transparent>
           <ThemedText style={styles.headerText}>Body</ThemedText>
+          {currentFlowchartName && (
+            <ThemedText style={styles.mapNameText} numberOfLines={1}>{currentFlowchartName}</ThemedText>
+          )}
+          {user && (
+            <View style={styles.screenModeToggle}>
+              {(['parts', 'body'] as const).map(mode => (
+                <Pressable
+                  key={mode}
+                  style={[styles.screenModeOption, screenMode === mode && styles.screenModeOptionActive]}
+                  onPress={() => setScreenMode(mode)}
+                >
+                  <ThemedText style={[styles.screenModeText, screenMode === mode && styles.screenModeTextActive]}>
+                    {mode === 'parts' ? 'Parts' : 'Body'}
+                  </ThemedText>
+                </Pressable>
+              ))}
+            </View>
+          )}
         </ThemedView>
-        {/* AI Generate Button - Top Right */}
-        {user && (
-          <Pressable 
-            style={styles.aiButton}
-            onPress={handleGenerateWithAI}
-          >
-            <ThemedText style={styles.refreshIcon}>↻</ThemedText>
-          </Pressable>
-        )}
-
-        {/* Edit Mode Toggle - Bottom Left */}
-        {user && (
-          <Pressable 
-            style={[styles.editModeButton, isEditMode && styles.editModeButtonActive]}
-            onPress={toggleEditMode}
-          >
-            <ThemedText style={styles.editModeIcon}>{isEditMode ? '✓' : '✏️'}</ThemedText>
-          </Pressable>
-        )}
-
-        {/* Add Node Button - Shows only in edit mode */}
-        {user && isEditMode && (
-          <Pressable 
-            style={styles.addNodeButton}
-            onPress={handleAddNode}
-          >
-            <ThemedText style={styles.addNodeIcon}>+</ThemedText>
-          </Pressable>
-        )}
-
-
-        {/* Edit Requirements Button - Top Right */}
-        <Pressable 
-          style={styles.editButton}
-          onPress={handleEditRequirements}
-        >
-          <ThemedText style={styles.editIcon}>✎</ThemedText>
-        </Pressable>
+        {screenMode === 'parts' ? (
+          <>
+            {/* AI Generate Button - Top Right */}
+            {user && (
+              <Pressable 
+                style={styles.aiButton}
+                onPress={handleGenerateWithAI}
+              >
+                <ThemedText style={styles.refreshIcon}>↻</ThemedText>
+              </Pressable>
+            )}
+
+            {/* Edit Mode Toggle - Bottom Left */}
+            {user && (
+              <Pressable 
+                style={[styles.editModeButton, isEditMode && styles.editModeButtonActive]}
+                onPress={toggleEditMode}
+              >
+                <ThemedText style={styles.editModeIcon}>{isEditMode ? '✓' : '✏️'}</ThemedText>
+              </Pressable>
+            )}
+
+            {/* Add Node Button - Shows only in edit mode */}
+            {user && isEditMode && (
+              <Pressable 
+                style={styles.addNodeButton}
+                onPress={handleAddNode}
+              >
+                <ThemedText style={styles.addNodeIcon}>+</ThemedText>
+              </Pressable>
+            )}
+
+            {/* Undo/Redo Buttons - Bottom Left, next to edit mode toggle */}
+            {user && isEditMode && (
+              <>
+                <Pressable 
+                  style={[styles.undoButton, !canUndo && styles.undoButtonDisabled]}
+                  onPress={handleUndo}
+                  disabled={!canUndo}
+                >
+                  <ThemedText style={styles.editModeIcon}>↶</ThemedText>
+                </Pressable>
+                <Pressable 
+                  style={[styles.undoButton, { left: 140 }, !canRedo && styles.undoButtonDisabled]}
+                  onPress={handleRedo}
+                  disabled={!canRedo}
+                >
+                  <ThemedText style={styles.editModeIcon}>↷</ThemedText>
+                </Pressable>
+              </>
+            )}
+
+
+            {/* Edit Requirements Button - Top Right */}
+            <Pressable 
+              style={styles.editButton}
+              onPress={handleEditRequirements}
+            >
+              <ThemedText style={styles.editIcon}>✎</ThemedText>
+            </Pressable>
         
-        {/* Export Template Button - Top Right (below edit) */}
-        {flowchart && (
-          <Pressable 
-            style={[styles.editButton, { top: 110 }]}
-            onPress={handleExportTemplate}
-          >
-            <ThemedText style={styles.editIcon}>📤</ThemedText>
-          </Pressable>
-        )}
+            {/* Export Button - Top Right (below edit) */}
+            {flowchart && (
+              <Pressable 
+                style={[styles.editButton, { top: 110 }]}
+                onPress={handleExport}
+              >
+                <ThemedText style={styles.editIcon}>📤</ThemedText>
+              </Pressable>
+            )}
         
         
-        {flowchart && (
-          <ThemedView style={styles.flowchartContainer}>
-            <FlowchartViewer
-              flowchart={flowchart}
-              onNodeSelect={handleNodeSelect}
-              onNodeEdit={handleNodeEdit}
-              onNodeDescriptionEdit={handleNodeDescriptionEdit}
-              onNodeMove={handleNodeMove}
-              onEdgeEdit={handleEdgeEdit}
-              onEdgeEditFromPopup={handleEdgeEditFromPopup}
-              onEmptySpaceTap={() => {}}
-              width={screenWidth}
-              height={screenWidth}
-              editable={isEditMode}
-              isEditMode={isEditMode}
-              isConnectMode={isConnectMode}
-              connectingFromNode={connectingFromNode}
-            />
-          </ThemedView>
+            {/* Auto-arrange Button - Top Right (below history) */}
+            {user && flowchart && currentFlowchartId && (
+              <Pressable 
+                style={[styles.editButton, { top: 210 }]}
+                onPress={handleAutoArrange}
+              >
+                <ThemedText style={styles.editIcon}>⊞</ThemedText>
+              </Pressable>
+            )}
+        
+            {/* Version History Button - Top Right (below export) */}
+            {user && flowchart && currentFlowchartId && (
+              <Pressable 
+                style={[styles.editButton, { top: 160 }]}
+                onPress={() => setHistoryModalVisible(true)}
+              >
+                <ThemedText style={styles.editIcon}>🕘</ThemedText>
+              </Pressable>
+            )}
+        
+            {/* Map Library Button - Top Right (below import) */}
+            {user && (
+              <Pressable 
+                style={[styles.editButton, { top: 310 }]}
+                onPress={handleOpenLibrary}
+              >
+                <ThemedText style={styles.editIcon}>🗂</ThemedText>
+              </Pressable>
+            )}
+        
+            {/* Import Button - Top Right (below auto-arrange) */}
+            {user && (
+              <Pressable 
+                style={[styles.editButton, { top: 260 }]}
+                onPress={handleImport}
+              >
+                <ThemedText style={styles.editIcon}>📥</ThemedText>
+              </Pressable>
+            )}
+        
+            {flowchart && (
+              <ThemedView style={styles.flowchartContainer}>
+                <FlowchartViewer
+                  flowchart={flowchart}
+                  onNodeSelect={handleNodeSelect}
+                  onNodeEdit={handleNodeEdit}
+                  onNodeDescriptionEdit={handleNodeDescriptionEdit}
+                  onNodeMove={handleNodeMove}
+                  onEdgeEdit={handleEdgeEdit}
+                  onEdgeEditFromPopup={handleEdgeEditFromPopup}
+                  onEmptySpaceTap={() => {}}
+                  width={screenWidth}
+                  height={screenWidth}
+                  editable={isEditMode}
+                  isEditMode={isEditMode}
+                  isConnectMode={isConnectMode}
+                  connectingFromNode={connectingFromNode}
+                />
+              </ThemedView>
+            )}
+          </>
+        ) : (
+          <BodyMapPanel
+            flowchart={flowchart}
+            flowchartId={currentFlowchartId}
+            initialNodeId={lastSelectedNodeId}
+            width={screenWidth}
+          />
         )}
       </SafeAreaView>
       
@@ -861,6 +1163,28 @@ export default function BodygraphScreen() {
         onSubmit={handleEdgeUpdate}
         onDelete={handleEdgeDelete}
       />
+      
+      <FlowchartHistoryModal
+        visible={historyModalVisible}
+        flowchartId={currentFlowchartId}
+        currentStructure={flowchart}
+        onClose={() => setHistoryModalVisible(false)}
+        onRestored={handleVersionRestored}
+      />
+      
+      <FlowchartShareModal
+        visible={shareModalVisible}
+        onSelect={handleShareSelect}
+        onClose={() => setShareModalVisible(false)}
+      />
+      
+      {snapshotFlowchart && (
+        <FlowchartSnapshotRenderer
+          flowchart={snapshotFlowchart}
+          onCapture={handleSnapshotCaptured}
+          onError={handleSnapshotError}
+        />
+      )}
     </GradientBackground>
   );
 }
@@ -886,6 +1210,32 @@ const styles = StyleSheet.create({
     fontFamily: 'Georgia',
     lineHeight: 50,
   },
+  mapNameText: {
+    fontSize: 14,
+    opacity: 0.7,
+    fontFamily: 'Georgia',
+  },
+  screenModeToggle: {
+    flexDirection: 'row',
+    marginTop: 8,
+    gap: 8,
+  },
+  screenModeOption: {
+    paddingHorizontal: 14,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: 'rgba(128, 128, 128, 0.2)',
+  },
+  screenModeOptionActive: {
+    backgroundColor: '#007AFF',
+  },
+  screenModeText: {
+    fontSize: 14,
+    fontFamily: 'Georgia',
+  },
+  screenModeTextActive: {
+    color: '#FFFFFF',
+  },
   flowchartContainer: {
     flex: 1,
     alignItems: 'center',
@@ -970,6 +1320,26 @@ const styles = StyleSheet.create({
   editModeButtonActive: {
     backgroundColor: '#FF9500',
   },
+  undoButton: {
+    position: 'absolute',
+    bottom: 120,
+    left: 80,
+    width: 50,
+    height: 50,
+    borderRadius: 25,
+    backgroundColor: '#007AFF',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: 1000,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  undoButtonDisabled: {
+    opacity: 0.4,
+  },
   editModeIcon: {
     color: '#FFFFFF',
     fontSize: 20,
@@ -1,34 +1,73 @@
 import { StyleSheet, View, Pressable } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useState } from 'react';
-import { router } from 'expo-router';
+import { useState, useRef, useEffect } from 'react';
+import { router, useLocalSearchParams } from 'expo-router';
 
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
 import { VoiceFlowchartCreator } from '@/components/VoiceFlowchartCreator';
+import { FlowchartMergeReviewModal } from '@/components/FlowchartMergeReviewModal';
 import { IconSymbol } from '@/components/ui/IconSymbol';
 import { GradientBackground } from '@/components/ui/GradientBackground';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { FlowchartStructure } from '@/lib/types/flowchart';
 import { createFlowchart, updateFlowchartWithDescription, getUserFlowchartWithId } from '@/lib/services/flowcharts';
+import { FlowchartMergeResult, summarizeMerge } from '@/lib/services/flowchartMerge';
+import { linkConversationToFlowchart } from '@/lib/services/conversations';
 import { useAuth } from '@/contexts/AuthContext';
 import { Alert } from 'react-native';
 
+interface PendingMerge {
+  flowchartId: string;
+  base: FlowchartStructure;
+  incoming: FlowchartStructure;
+  topic: string;
+  conversationId: string | null;
+}
+
 export default function ChatScreen() {
   const colorScheme = useColorScheme();
   const { user } = useAuth();
   const [voiceModalVisible, setVoiceModalVisible] = useState(false);
   const [selectedTopic, setSelectedTopic] = useState<string>('');
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
+  const [isSavingMerge, setIsSavingMerge] = useState(false);
+  // Saved transcript of the open voice session
+  const conversationIdRef = useRef<string | null>(null);
+  // Saved conversation being continued, opened from the history screen
+  const [resumeConversationId, setResumeConversationId] = useState<string | null>(null);
+  const params = useLocalSearchParams<{ resumeConversationId?: string; topic?: string }>();
+
+  useEffect(() => {
+    if (!params.resumeConversationId) return;
+
+    conversationIdRef.current = params.resumeConversationId;
+    setResumeConversationId(params.resumeConversationId);
+    setSelectedTopic(params.topic || '');
+    setVoiceModalVisible(true);
+    // Consume the params so coming back to the tab doesn't resume again
+    router.setParams({ resumeConversationId: undefined, topic: undefined });
+  }, [params.resumeConversationId, params.topic]);
   
   const handleButtonPress = (type: string) => {
     console.log(`${type} button pressed`);
     setSelectedTopic(type);
+    setResumeConversationId(null);
     setVoiceModalVisible(true);
   };
 
   const handleVoiceModalClose = () => {
     setVoiceModalVisible(false);
     setSelectedTopic('');
+    setResumeConversationId(null);
+    conversationIdRef.current = null;
+  };
+
+  // Best-effort: the map is saved even if the transcript can't be linked to it
+  const linkConversation = (conversationId: string | null, flowchartId: string) => {
+    if (!conversationId) return;
+    linkConversationToFlowchart(conversationId, flowchartId)
+      .catch(error => console.error('❌ Error linking conversation to flowchart:', error));
   };
 
   const handleFlowchartCreated = async (flowchart: FlowchartStructure) => {
@@ -45,25 +84,38 @@ export default function ChatScreen() {
       // Check if user has an existing default flowchart
       const { structure: existingFlowchart, id: existingId } = await getUserFlowchartWithId();
       
-      if (existingId) {
-        // Update existing flowchart
+      if (existingId && existingFlowchart.nodes.length > 0) {
+        // Merge into the existing map after the user has reviewed the conflicts
+        setPendingMerge({
+          flowchartId: existingId,
+          base: existingFlowchart,
+          incoming: flowchart,
+          topic: selectedTopic,
+          conversationId: conversationIdRef.current
+        });
+      } else if (existingId) {
+        // Nothing to merge with yet
         await updateFlowchartWithDescription(
           existingId,
           flowchart,
-          `Generated flowchart via voice conversation about ${selectedTopic}`
+          `Generated flowchart via voice conversation about ${selectedTopic}`,
+          'voice'
         );
-        console.log('✅ Updated existing flowchart with voice-generated content');
+        linkConversation(conversationIdRef.current, existingId);
+        console.log('✅ Updated empty flowchart with voice-generated content');
+        Alert.alert('Success', 'Your flowchart has been saved! View it on the Body page.');
       } else {
         // Create new flowchart
         const newFlowchart = await createFlowchart(
           `${selectedTopic} Conversation Flowchart`,
           flowchart,
-          true // Set as default
+          true, // Set as default
+          'voice'
         );
+        linkConversation(conversationIdRef.current, newFlowchart.id);
         console.log('✅ Created new flowchart:', newFlowchart.id);
+        Alert.alert('Success', 'Your flowchart has been saved! View it on the Body page.');
       }
-      
-      Alert.alert('Success', 'Your flowchart has been saved! View it on the Body page.');
     } catch (error) {
       console.error('❌ Error saving flowchart:', error);
       Alert.alert('Error', 'Failed to save your flowchart. Please try again.');
@@ -71,6 +123,65 @@ export default function ChatScreen() {
     
     setVoiceModalVisible(false);
     setSelectedTopic('');
+    setResumeConversationId(null);
+    conversationIdRef.current = null;
+  };
+
+  const handleMergeConfirm = async (result: FlowchartMergeResult) => {
+    if (!pendingMerge) return;
+
+    try {
+      setIsSavingMerge(true);
+      await updateFlowchartWithDescription(
+        pendingMerge.flowchartId,
+        result.flowchart,
+        `Merged voice conversation about ${pendingMerge.topic}: ${summarizeMerge(result)}`,
+        'voice'
+      );
+      linkConversation(pendingMerge.conversationId, pendingMerge.flowchartId);
+      console.log('✅ Merged voice-generated content into existing flowchart');
+      setPendingMerge(null);
+      Alert.alert('Success', 'Your map has been updated! View it on the Body page.');
+    } catch (error) {
+      console.error('❌ Error merging flowchart:', error);
+      Alert.alert('Error', 'Failed to save your flowchart. Please try again.');
+    } finally {
+      setIsSavingMerge(false);
+    }
+  };
+
+  const handleMergeSaveSeparately = async () => {
+    if (!pendingMerge) return;
+
+    try {
+      setIsSavingMerge(true);
+      const newFlowchart = await createFlowchart(
+        `${pendingMerge.topic} Conversation Flowchart`,
+        pendingMerge.incoming,
+        false,
+        'voice'
+      );
+      linkConversation(pendingMerge.conversationId, newFlowchart.id);
+      console.log('✅ Saved voice flowchart separately:', newFlowchart.id);
+      setPendingMerge(null);
+      Alert.alert('Saved', 'The conversation was saved as a separate map.');
+    } catch (error) {
+      console.error('❌ Error saving flowchart:', error);
+      Alert.alert('Error', 'Failed to save your flowchart. Please try again.');
+    } finally {
+      setIsSavingMerge(false);
+    }
+  };
+
+  const handleMergeCancel = () => {
+    Alert.alert(
+      'Discard Conversation Map?',
+      'The parts from this conversation will not be saved.',
+      [
+        { text: 'Keep Reviewing', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: () => setPendingMerge(null) }
+      ]
+    );
   };
 
   const buttonData = [
@@ -125,6 +236,19 @@ export default function ChatScreen() {
         visible={voiceModalVisible}
         onClose={handleVoiceModalClose}
         onFlowchartCreated={handleFlowchartCreated}
+        topic={selectedTopic}
+        onConversationStarted={(conversationId) => { conversationIdRef.current = conversationId; }}
+        resumeConversationId={resumeConversationId}
+      />
+
+      <FlowchartMergeReviewModal
+        visible={!!pendingMerge}
+        base={pendingMerge?.base || null}
+        incoming={pendingMerge?.incoming || null}
+        saving={isSavingMerge}
+        onConfirm={handleMergeConfirm}
+        onSaveSeparately={handleMergeSaveSeparately}
+        onCancel={handleMergeCancel}
       />
     </GradientBackground>
   );
@@ -2,7 +2,6 @@ import React, { useState, useMemo, useEffect } from 'react';
 import { StyleSheet, FlatList, Alert, TouchableOpacity, View, Pressable } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
@@ -13,8 +12,11 @@ import { EmotionFilters, SortOption, SortDirection } from '@/components/EmotionF
 import { ConversationModal } from '@/components/ConversationModal';
 import { Emotion, calculateEmotionScore, convertToLegacyEmotion } from '@/lib/types/emotion';
 import { getEmotionsSorted, deleteEmotion, releaseEmotion, EmotionWithScore, subscribeToEmotions, setGlobalSyncCallback, clearGlobalSyncCallback } from '@/lib/services/emotions';
+import { describeSyncStatus } from '@/lib/services/offlineQueue';
+import { addGuestReleasedBelief, setGuestReleasedBeliefs } from '@/lib/services/guestData';
 import { useAuth } from '@/contexts/AuthContext';
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { useSyncStatus } from '@/hooks/useSyncStatus';
 
 export default function ConversationsScreen() {
   const { user, signOut } = useAuth();
@@ -26,7 +28,7 @@ export default function ConversationsScreen() {
   const [emotions, setEmotions] = useState<Emotion[]>([]);
   const [loading, setLoading] = useState(true);
   const [isConnected, setIsConnected] = useState(true);
-  const [syncStatus, setSyncStatus] = useState<'CONNECTING' | 'REALTIME_ACTIVE' | 'SMART_POLLING_ACTIVE' | 'DISCONNECTED'>('CONNECTING');
+  const syncStatus = useSyncStatus();
   const [syncManager, setSyncManager] = useState<{ unsubscribe: () => void; syncAfterAction: () => void } | null>(null);
 
   // Load emotions from Supabase for all users
@@ -88,21 +90,6 @@ export default function ConversationsScreen() {
       (error) => {
         console.error('❌ Real-time subscription error:', error);
         setIsConnected(false);
-      },
-      // Status callback
-      (status) => {
-        setSyncStatus(status);
-        const connected = status === 'REALTIME_ACTIVE' || status === 'SMART_POLLING_ACTIVE';
-        setIsConnected(connected);
-        
-        const statusMessages: Record<string, string> = {
-          'CONNECTING': 'Connecting...',
-          'REALTIME_ACTIVE': '✅ Real-time sync active',
-          'SMART_POLLING_ACTIVE': '🎯 Smart sync active',
-          'DISCONNECTED': '🔌 Sync disconnected'
-        };
-        
-        console.log(statusMessages[status] || `Status: ${status}`);
       }
     );
 
@@ -156,7 +143,7 @@ export default function ConversationsScreen() {
 
   const clearReleasedConversations = async () => {
     try {
-      await AsyncStorage.removeItem('releasedConversations');
+      await setGuestReleasedBeliefs([]);
       Alert.alert('Success', 'Released conversations cleared!');
     } catch (error) {
       console.error('Error clearing released conversations:', error);
@@ -170,16 +157,12 @@ export default function ConversationsScreen() {
         try {
           console.log('🔧 Releasing emotion (no auth):', emotion);
           
-          const existingReleased = await AsyncStorage.getItem('releasedConversations');
-          const releasedConversations = existingReleased ? JSON.parse(existingReleased) : [];
-          
-          const releasedConversation = {
+          // Moved into the account on sign-in (see guestMigration)
+          await addGuestReleasedBelief({
             ...emotion,
+            timestamp: new Date(emotion.timestamp).toISOString(),
             releasedAt: new Date().toISOString()
-          };
-          
-          releasedConversations.push(releasedConversation);
-          await AsyncStorage.setItem('releasedConversations', JSON.stringify(releasedConversations));
+          });
           
           // Remove from active emotions list
           setEmotions(prevEmotions => prevEmotions.filter(e => e.id !== emotion.id));
@@ -211,6 +194,8 @@ export default function ConversationsScreen() {
   };
 
 
+  const syncMessage = user ? describeSyncStatus(syncStatus) : null;
+
   const sortedEmotions = useMemo(() => {
     // All data comes from Supabase, already sorted
     return emotions;
@@ -221,6 +206,18 @@ export default function ConversationsScreen() {
       <SafeAreaView style={styles.safeArea}>
         <ThemedView style={styles.headerContainer} transparent>
           <ThemedText style={styles.headerText}>Conversations</ThemedText>
+          <TouchableOpacity
+            style={styles.historyButton}
+            onPress={() => router.push('/emotion-space')}
+          >
+            <IconSymbol size={24} name="cube" color={colorScheme === 'dark' ? '#fff' : '#000'} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.historyButton}
+            onPress={() => router.push('/timeline')}
+          >
+            <IconSymbol size={24} name="chart.xyaxis.line" color={colorScheme === 'dark' ? '#fff' : '#000'} />
+          </TouchableOpacity>
           <TouchableOpacity 
             style={styles.historyButton}
             onPress={() => router.push('/conversations/history')}
@@ -229,6 +226,10 @@ export default function ConversationsScreen() {
           </TouchableOpacity>
         </ThemedView>
         
+        {syncMessage && (
+          <ThemedText style={styles.syncStatusText}>{syncMessage}</ThemedText>
+        )}
+
         <EmotionFilters 
           sortBy={sortBy}
           sortDirection={sortDirection}
@@ -308,6 +309,12 @@ const styles = StyleSheet.create({
     padding: 8,
     borderRadius: 8,
   },
+  syncStatusText: {
+    fontSize: 13,
+    opacity: 0.7,
+    paddingHorizontal: 20,
+    paddingBottom: 8,
+  },
   list: {
     flex: 1,
   },
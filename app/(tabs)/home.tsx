@@ -9,6 +9,7 @@ import { IconSymbol } from '@/components/ui/IconSymbol';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { useAuth } from '@/contexts/AuthContext';
 import { LearningCarousel } from '@/components/LearningCarousel';
+import { getDailyJournalPrompt } from '@/lib/services/journal';
 import Hypher from 'hypher';
 import english from 'hyphenation.en-us';
 
@@ -73,11 +74,11 @@ export default function HomeScreen() {
           Inflection of the day:
         </ThemedText>
         
-        <View style={styles.aiQuestionCard}>
+        <Pressable style={styles.aiQuestionCard} onPress={() => router.push('/journal')}>
           <ThemedText style={styles.aiQuestionText}>
-            Have we been able to relax lately?
+            {getDailyJournalPrompt()}
           </ThemedText>
-        </View>
+        </Pressable>
         
         <ThemedText style={styles.themesTitle}>
           Common themes:
@@ -1,8 +1,7 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { StyleSheet, FlatList, TouchableOpacity, View } from 'react-native';
+import { StyleSheet, FlatList, TouchableOpacity, View, ActivityIndicator } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
@@ -10,11 +9,17 @@ import { IconSymbol } from '@/components/ui/IconSymbol';
 import { ConversationListItem } from '@/components/ConversationListItem';
 import { EmotionFilters, SortOption, SortDirection } from '@/components/EmotionFilters';
 import { ConversationModal } from '@/components/ConversationModal';
+import { ConversationTranscriptModal } from '@/components/ConversationTranscriptModal';
 import { Emotion, calculateEmotionScore, convertToLegacyEmotion } from '@/lib/types/emotion';
 import { getReleasedEmotions } from '@/lib/services/emotions';
+import { getUserConversations, ConversationRow } from '@/lib/services/conversations';
+import { getGuestReleasedBeliefs } from '@/lib/services/guestData';
+import { ConversationWithMessages } from '@/lib/types/conversation';
 import { useAuth } from '@/contexts/AuthContext';
 import { useColorScheme } from '@/hooks/useColorScheme';
 
+type HistoryView = 'sessions' | 'released';
+
 export default function ConversationsHistoryScreen() {
   const colorScheme = useColorScheme();
   const { user } = useAuth();
@@ -23,6 +28,31 @@ export default function ConversationsHistoryScreen() {
   const [selectedEmotion, setSelectedEmotion] = useState<Emotion | null>(null);
   const [modalVisible, setModalVisible] = useState(false);
   const [releasedConversations, setReleasedConversations] = useState<Emotion[]>([]);
+  const [view, setView] = useState<HistoryView>('sessions');
+  const [sessions, setSessions] = useState<ConversationRow[]>([]);
+  const [sessionsLoading, setSessionsLoading] = useState(false);
+  const [transcriptId, setTranscriptId] = useState<string | null>(null);
+
+  // Load saved session transcripts (signed-in users only)
+  useEffect(() => {
+    if (!user) {
+      setSessions([]);
+      return;
+    }
+
+    const loadSessions = async () => {
+      try {
+        setSessionsLoading(true);
+        setSessions(await getUserConversations());
+      } catch (error) {
+        console.error('Error loading saved conversations:', error);
+      } finally {
+        setSessionsLoading(false);
+      }
+    };
+
+    loadSessions();
+  }, [user]);
 
   // Load released conversations
   useEffect(() => {
@@ -43,18 +73,15 @@ export default function ConversationsHistoryScreen() {
           console.error('Error loading released conversations from Supabase:', error);
         }
       } else {
-        // For non-authenticated users, load from AsyncStorage
+        // For non-authenticated users, load from the device
         try {
-          const stored = await AsyncStorage.getItem('releasedConversations');
-          if (stored) {
-            const conversations = JSON.parse(stored);
-            const conversationsWithDates = conversations.map((conversation: any) => ({
-              ...conversation,
-              timestamp: new Date(conversation.timestamp),
-              releasedAt: new Date(conversation.releasedAt)
-            }));
-            setReleasedConversations(conversationsWithDates);
-          }
+          const conversations = await getGuestReleasedBeliefs();
+          const conversationsWithDates = conversations.map(conversation => ({
+            ...conversation,
+            timestamp: new Date(conversation.timestamp),
+            releasedAt: new Date(conversation.releasedAt)
+          }));
+          setReleasedConversations(conversationsWithDates);
         } catch (error) {
           console.error('Error loading released conversations from AsyncStorage:', error);
         }
@@ -64,6 +91,15 @@ export default function ConversationsHistoryScreen() {
     loadReleasedConversations();
   }, [user]);
 
+  // Reopen the chat with the saved conversation restored
+  const handleContinueConversation = (conversation: ConversationWithMessages) => {
+    setTranscriptId(null);
+    router.navigate({
+      pathname: '/(tabs)/chat',
+      params: { resumeConversationId: conversation.id, topic: conversation.topic || '' }
+    });
+  };
+
   const handleEmotionPress = (emotion: Emotion) => {
     setSelectedEmotion(emotion);
     setModalVisible(true);
@@ -113,6 +149,49 @@ export default function ConversationsHistoryScreen() {
     }
   }, [releasedConversations, sortBy, sortDirection]);
 
+  const isDark = colorScheme === 'dark';
+
+  const renderSession = ({ item }: { item: ConversationRow }) => {
+    const lastActive = new Date(item.last_message_at);
+    return (
+      <TouchableOpacity
+        style={[styles.sessionRow, { borderColor: isDark ? '#38383A' : '#E5E5EA' }]}
+        onPress={() => setTranscriptId(item.id)}
+      >
+        <View style={styles.sessionInfo}>
+          <ThemedText type="defaultSemiBold" style={styles.sessionTitle}>{item.title}</ThemedText>
+          <ThemedText style={[styles.sessionMeta, { color: isDark ? '#8E8E93' : '#6D6D72' }]}>
+            {lastActive.toLocaleDateString()} · {item.message_count} messages{item.flowchart_id ? ' · Saved to a map' : ''}
+          </ThemedText>
+        </View>
+        <IconSymbol size={18} name="chevron.right" color={isDark ? '#8E8E93' : '#6D6D72'} />
+      </TouchableOpacity>
+    );
+  };
+
+  const renderSessions = () => {
+    if (sessionsLoading) {
+      return <ActivityIndicator style={styles.loading} />;
+    }
+    if (!user || sessions.length === 0) {
+      return (
+        <ThemedText style={[styles.emptyText, { color: isDark ? '#8E8E93' : '#6D6D72' }]}>
+          {user ? 'No saved conversations yet' : 'Sign in to save your conversations'}
+        </ThemedText>
+      );
+    }
+    return (
+      <FlatList
+        data={sessions}
+        keyExtractor={(item) => item.id}
+        renderItem={renderSession}
+        style={styles.list}
+        contentContainerStyle={styles.listContent}
+        showsVerticalScrollIndicator={false}
+      />
+    );
+  };
+
   return (
     <SafeAreaView style={styles.safeArea}>
       <ThemedView style={styles.container}>
@@ -124,31 +203,54 @@ export default function ConversationsHistoryScreen() {
             <IconSymbol size={24} name="chevron.left" color={colorScheme === 'dark' ? '#fff' : '#000'} />
           </TouchableOpacity>
           <View style={styles.titleContainer}>
-            <ThemedText type="title" style={styles.title}>Released Conversations</ThemedText>
+            <ThemedText type="title" style={styles.title}>
+              {view === 'sessions' ? 'Past Sessions' : 'Released Conversations'}
+            </ThemedText>
             <ThemedText type="default" style={styles.subtitle}>
-              {sortedConversations.length} total
+              {view === 'sessions' ? sessions.length : sortedConversations.length} total
             </ThemedText>
           </View>
           <View style={styles.rightSpacer} />
         </ThemedView>
+
+        <View style={[styles.segmentedControl, { backgroundColor: isDark ? '#2C2C2E' : '#E5E5EA' }]}>
+          {(['sessions', 'released'] as HistoryView[]).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[
+                styles.segment,
+                view === option && { backgroundColor: isDark ? '#636366' : '#FFFFFF' }
+              ]}
+              onPress={() => setView(option)}
+            >
+              <ThemedText style={styles.segmentText}>
+                {option === 'sessions' ? 'Sessions' : 'Released'}
+              </ThemedText>
+            </TouchableOpacity>
+          ))}
+        </View>
         
-        <EmotionFilters 
-          sortBy={sortBy}
-          sortDirection={sortDirection}
-          onSortChange={setSortBy}
-          onSortDirectionChange={setSortDirection}
-        />
-        
-        <FlatList
-          data={sortedConversations}
-          keyExtractor={(item) => item.id}
-          renderItem={({ item }) => (
-            <ConversationListItem emotion={item} onPress={handleEmotionPress} />
-          )}
-          style={styles.list}
-          contentContainerStyle={styles.listContent}
-          showsVerticalScrollIndicator={false}
-        />
+        {view === 'sessions' ? renderSessions() : (
+          <>
+            <EmotionFilters 
+              sortBy={sortBy}
+              sortDirection={sortDirection}
+              onSortChange={setSortBy}
+              onSortDirectionChange={setSortDirection}
+            />
+            
+            <FlatList
+              data={sortedConversations}
+              keyExtractor={(item) => item.id}
+              renderItem={({ item }) => (
+                <ConversationListItem emotion={item} onPress={handleEmotionPress} />
+              )}
+              style={styles.list}
+              contentContainerStyle={styles.listContent}
+              showsVerticalScrollIndicator={false}
+            />
+          </>
+        )}
         
         <ConversationModal
           emotion={selectedEmotion}
@@ -157,6 +259,13 @@ export default function ConversationsHistoryScreen() {
           onEdit={handleEdit}
           onDelete={handleDelete}
         />
+
+        <ConversationTranscriptModal
+          visible={!!transcriptId}
+          conversationId={transcriptId}
+          onClose={() => setTranscriptId(null)}
+          onContinue={handleContinueConversation}
+        />
       </ThemedView>
     </SafeAreaView>
   );
@@ -202,4 +311,49 @@ const styles = StyleSheet.create({
   listContent: {
     paddingBottom: 100,
   },
+  segmentedControl: {
+    flexDirection: 'row',
+    marginHorizontal: 20,
+    marginBottom: 10,
+    borderRadius: 8,
+    padding: 2,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 6,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  segmentText: {
+    fontSize: 14,
+    fontFamily: 'Georgia',
+  },
+  sessionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    gap: 12,
+  },
+  sessionInfo: {
+    flex: 1,
+  },
+  sessionTitle: {
+    fontFamily: 'Georgia',
+  },
+  sessionMeta: {
+    fontSize: 12,
+    marginTop: 2,
+    fontFamily: 'Georgia',
+  },
+  loading: {
+    marginVertical: 24,
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginVertical: 24,
+    fontSize: 14,
+    fontFamily: 'Georgia',
+  },
 });
\ No newline at end of file
@@ -0,0 +1,264 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Alert,
+  ActivityIndicator,
+  useWindowDimensions,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { EmotionSpaceScatter } from '@/components/EmotionSpaceScatter';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { convertToLegacyEmotion, formatEmotionVector, getFrequencyColor } from '@/lib/types/emotion';
+import { EmotionSpaceFilter } from '@/lib/types/emotionSpace';
+import { clusterEmotions, describeEmotionVector, getClusterColor, toEmotionVector } from '@/lib/services/emotionSpace';
+import { getEmotions, getReleasedEmotions, EmotionWithScore } from '@/lib/services/emotions';
+
+const FILTERS: { filter: EmotionSpaceFilter; label: string }[] = [
+  { filter: 'active', label: 'Active' },
+  { filter: 'released', label: 'Released' },
+  { filter: 'all', label: 'All' },
+];
+
+const beliefLabel = (emotion: EmotionWithScore) => emotion.emotion || emotion.belief || 'Untitled';
+
+export default function EmotionSpaceScreen() {
+  const [emotions, setEmotions] = useState<EmotionWithScore[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<EmotionSpaceFilter>('active');
+  const [showClusters, setShowClusters] = useState(true);
+  const [selected, setSelected] = useState<EmotionWithScore | null>(null);
+  const colorScheme = useColorScheme();
+  const { width } = useWindowDimensions();
+
+  const isDark = colorScheme === 'dark';
+  const textColor = isDark ? '#FFFFFF' : '#000000';
+  const mutedColor = isDark ? '#8E8E93' : '#6D6D72';
+  const chipBackground = isDark ? '#2C2C2E' : '#F2F2F7';
+
+  useEffect(() => {
+    Promise.all([getEmotions(), getReleasedEmotions()])
+      .then(([active, released]) => setEmotions([...active, ...released]))
+      .catch(error => {
+        console.error('❌ Error loading beliefs for emotion space:', error);
+        Alert.alert('Error', 'Failed to load your beliefs');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const visible = useMemo(
+    () => emotions.filter(emotion => filter === 'all' || emotion.released === (filter === 'released')),
+    [emotions, filter]
+  );
+  const clusters = useMemo(() => clusterEmotions(visible), [visible]);
+  const labelsById = useMemo(() => new Map(visible.map(emotion => [emotion.id, beliefLabel(emotion)])), [visible]);
+
+  const handleFilterChange = (next: EmotionSpaceFilter) => {
+    setFilter(next);
+    setSelected(null);
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: isDark ? '#000' : '#fff' }]}>
+      <ThemedView style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.headerButton}>
+          <ThemedText style={styles.headerButtonText}>✕</ThemedText>
+        </Pressable>
+        <ThemedText style={styles.title}>Emotion Space</ThemedText>
+        <View style={styles.headerButton} />
+      </ThemedView>
+
+      {loading ? (
+        <ActivityIndicator style={styles.loading} />
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          <View style={styles.chipRow}>
+            {FILTERS.map(option => (
+              <Pressable
+                key={option.filter}
+                style={[styles.chip, { backgroundColor: filter === option.filter ? '#007AFF' : chipBackground }]}
+                onPress={() => handleFilterChange(option.filter)}
+              >
+                <Text style={[styles.chipText, { color: filter === option.filter ? '#FFFFFF' : textColor }]}>
+                  {option.label}
+                </Text>
+              </Pressable>
+            ))}
+            <Pressable
+              style={[styles.chip, { backgroundColor: showClusters ? '#007AFF' : chipBackground }]}
+              onPress={() => setShowClusters(previous => !previous)}
+            >
+              <Text style={[styles.chipText, { color: showClusters ? '#FFFFFF' : textColor }]}>Groups</Text>
+            </Pressable>
+          </View>
+
+          {visible.length === 0 ? (
+            <Text style={[styles.emptyText, { color: mutedColor }]}>
+              {filter === 'released' ? 'No released beliefs yet.' : 'No beliefs recorded yet.'}
+            </Text>
+          ) : (
+            <>
+              <EmotionSpaceScatter
+                emotions={visible}
+                clusters={showClusters ? clusters : []}
+                selectedId={selected?.id}
+                onSelect={setSelected}
+                size={Math.min(width - 32, 420)}
+              />
+              <Text style={[styles.hint, { color: mutedColor }]}>
+                Drag to rotate. Colour shows frequency; tap a belief for details.
+              </Text>
+
+              {selected && (
+                <View style={[styles.card, { backgroundColor: chipBackground }]}>
+                  <View style={styles.cardHeader}>
+                    <View style={[styles.frequencyDot, { backgroundColor: getFrequencyColor(selected.frequency) }]} />
+                    <Text style={[styles.cardTitle, { color: textColor }]} numberOfLines={1}>{beliefLabel(selected)}</Text>
+                  </View>
+                  <Text style={[styles.cardText, { color: mutedColor }]}>
+                    {formatEmotionVector(convertToLegacyEmotion(selected))} · {describeEmotionVector(toEmotionVector(selected))} · frequency {selected.frequency}
+                    {selected.released ? ' · released' : ''}
+                  </Text>
+                  {selected.belief && selected.belief !== beliefLabel(selected) && (
+                    <Text style={[styles.cardText, { color: textColor }]}>{selected.belief}</Text>
+                  )}
+                </View>
+              )}
+
+              {showClusters && clusters.length > 1 && (
+                <>
+                  <Text style={[styles.sectionTitle, { color: textColor }]}>Groups</Text>
+                  {clusters.map(cluster => (
+                    <View key={cluster.id} style={styles.clusterRow}>
+                      <View style={[styles.frequencyDot, { backgroundColor: getClusterColor(cluster.id) }]} />
+                      <View style={styles.clusterInfo}>
+                        <Text style={[styles.cardTitle, { color: textColor }]}>
+                          {cluster.label} · {cluster.beliefIds.length}
+                        </Text>
+                        <Text style={[styles.cardText, { color: mutedColor }]} numberOfLines={2}>
+                          {cluster.beliefIds.map(id => labelsById.get(id)).join(', ')}
+                        </Text>
+                      </View>
+                    </View>
+                  ))}
+                </>
+              )}
+            </>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#333',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerButtonText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    fontFamily: 'Georgia',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    flex: 1,
+    textAlign: 'center',
+    fontFamily: 'Georgia',
+  },
+  loading: {
+    marginTop: 40,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  chipText: {
+    fontSize: 14,
+    fontFamily: 'Georgia',
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginVertical: 20,
+    fontFamily: 'Georgia',
+  },
+  hint: {
+    fontSize: 12,
+    textAlign: 'center',
+    marginBottom: 12,
+    fontFamily: 'Georgia',
+  },
+  card: {
+    borderRadius: 12,
+    padding: 12,
+    gap: 4,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    flexShrink: 1,
+    fontFamily: 'Georgia',
+  },
+  cardText: {
+    fontSize: 13,
+    fontFamily: 'Georgia',
+  },
+  frequencyDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 20,
+    marginBottom: 8,
+    fontFamily: 'Georgia',
+  },
+  clusterRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    marginBottom: 10,
+  },
+  clusterInfo: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,392 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Alert,
+  Switch,
+  Dimensions,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { FlowchartViewer } from '@/components/FlowchartViewer';
+import { FlowchartMergeReviewModal } from '@/components/FlowchartMergeReviewModal';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { parseFlowchartImport, FlowchartImportResult } from '@/lib/services/flowchartImport';
+import { FlowchartMergeResult, summarizeMerge } from '@/lib/services/flowchartMerge';
+import { FlowchartStructure } from '@/lib/types/flowchart';
+import {
+  createFlowchart,
+  getUserFlowchartWithId,
+  updateFlowchartWithDescription
+} from '@/lib/services/flowcharts';
+
+const { width: screenWidth } = Dimensions.get('window');
+
+const FORMAT_LABELS: Record<FlowchartImportResult['format'], string> = {
+  template: 'Flowchart template',
+  structure: 'Flowchart JSON',
+  mermaid: 'Mermaid diagram',
+};
+
+export default function ImportFlowchartScreen() {
+  const [pastedText, setPastedText] = useState('');
+  const [result, setResult] = useState<FlowchartImportResult | null>(null);
+  const [name, setName] = useState('');
+  const [makeDefault, setMakeDefault] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [mergeTarget, setMergeTarget] = useState<{ id: string; structure: FlowchartStructure } | null>(null);
+  const colorScheme = useColorScheme();
+
+  const isDark = colorScheme === 'dark';
+
+  const previewText = (text: string, fallbackName: string) => {
+    if (!text.trim()) {
+      Alert.alert('Nothing to Import', 'Paste a flowchart template, JSON structure or Mermaid diagram first.');
+      return;
+    }
+
+    const parsed = parseFlowchartImport(text);
+    if (!parsed.isValid) {
+      Alert.alert(
+        'Invalid Flowchart',
+        parsed.errors.map(issue => issue.message).join('\n') || 'The file could not be read as a flowchart.'
+      );
+      return;
+    }
+
+    setResult(parsed);
+    setName(parsed.name || fallbackName);
+  };
+
+  const handlePickFile = async () => {
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: ['application/json', 'text/plain', 'text/*', '*/*'],
+        copyToCacheDirectory: true,
+      });
+
+      if (picked.canceled || !picked.assets?.length) {
+        return;
+      }
+
+      const file = picked.assets[0];
+      const content = await FileSystem.readAsStringAsync(file.uri);
+      previewText(content, file.name.replace(/\.[^.]+$/, ''));
+    } catch (error) {
+      console.error('❌ Error reading import file:', error);
+      Alert.alert('Error', 'Failed to read the selected file');
+    }
+  };
+
+  const handleSaveAsNew = async () => {
+    if (!result) return;
+
+    try {
+      setIsSaving(true);
+      const mapName = name.trim() || 'Imported Map';
+      await createFlowchart(mapName, result.flowchart, makeDefault);
+      Alert.alert('Imported', `"${mapName}" was saved as a new map.`, [
+        { text: 'OK', onPress: () => router.back() }
+      ]);
+    } catch (error) {
+      console.error('❌ Error saving imported flowchart:', error);
+      Alert.alert('Error', 'Failed to save the imported map');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!result) return;
+
+    try {
+      setIsSaving(true);
+      const { structure, id } = await getUserFlowchartWithId();
+
+      if (!id) {
+        Alert.alert('No Current Map', 'Save the import as a new map instead.');
+        return;
+      }
+
+      // Conflicts are reviewed before anything is written
+      setMergeTarget({ id, structure });
+    } catch (error) {
+      console.error('❌ Error loading current flowchart:', error);
+      Alert.alert('Error', 'Failed to load your current map');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleMergeConfirm = async (merge: FlowchartMergeResult) => {
+    if (!mergeTarget) return;
+
+    try {
+      setIsSaving(true);
+      const summary = summarizeMerge(merge);
+      await updateFlowchartWithDescription(
+        mergeTarget.id,
+        merge.flowchart,
+        `Merged imported map "${name.trim() || 'Imported Map'}": ${summary}`
+      );
+
+      setMergeTarget(null);
+      Alert.alert('Merged', `${summary}.`, [
+        { text: 'OK', onPress: () => router.back() }
+      ]);
+    } catch (error) {
+      console.error('❌ Error merging imported flowchart:', error);
+      Alert.alert('Error', 'Failed to merge the imported map');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const repairedIssues = result?.issues.filter(issue => issue.repaired) || [];
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: isDark ? '#000' : '#fff' }]}>
+      <ThemedView style={styles.header}>
+        <Pressable
+          onPress={() => (result ? setResult(null) : router.back())}
+          style={styles.closeButton}
+        >
+          <ThemedText style={styles.closeButtonText}>{result ? '‹' : '✕'}</ThemedText>
+        </Pressable>
+        <ThemedText style={styles.title}>{result ? 'Preview Import' : 'Import Map'}</ThemedText>
+        <View style={styles.closeButton} />
+      </ThemedView>
+
+      {!result ? (
+        <ScrollView style={styles.content} contentContainerStyle={styles.scrollContent}>
+          <Pressable style={styles.primaryButton} onPress={handlePickFile}>
+            <Text style={styles.primaryButtonText}>Choose File</Text>
+          </Pressable>
+
+          <ThemedText style={styles.sectionLabel}>Or paste a template, JSON structure or Mermaid diagram</ThemedText>
+          <TextInput
+            style={[
+              styles.textInput,
+              {
+                backgroundColor: isDark ? '#1a1a1a' : '#f5f5f5',
+                color: isDark ? '#fff' : '#000',
+                borderColor: isDark ? '#333' : '#ddd',
+              },
+            ]}
+            value={pastedText}
+            onChangeText={setPastedText}
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+            placeholder={'{ "nodes": [...], "edges": [...] }\n\nor\n\nflowchart TD\n  A((Self)) --> B{{Manager}}'}
+            placeholderTextColor={isDark ? '#666' : '#999'}
+            textAlignVertical="top"
+          />
+          <Pressable style={styles.secondaryButton} onPress={() => previewText(pastedText, 'Imported Map')}>
+            <Text style={styles.secondaryButtonText}>Preview</Text>
+          </Pressable>
+        </ScrollView>
+      ) : (
+        <ScrollView style={styles.content} contentContainerStyle={styles.scrollContent}>
+          <ThemedText style={styles.summaryText}>
+            {FORMAT_LABELS[result.format]} · {result.flowchart.nodes.length} nodes · {result.flowchart.edges.length} relationships
+          </ThemedText>
+
+          <View style={[styles.previewContainer, { backgroundColor: isDark ? '#0a0a0a' : '#f8f8f8' }]}>
+            <FlowchartViewer
+              flowchart={result.flowchart}
+              width={screenWidth - 32}
+              height={screenWidth - 32}
+            />
+          </View>
+
+          {repairedIssues.length > 0 && (
+            <View style={styles.issuesContainer}>
+              <ThemedText style={styles.sectionLabel}>
+                {repairedIssues.length} problem{repairedIssues.length === 1 ? ' was' : 's were'} fixed automatically
+              </ThemedText>
+              {repairedIssues.slice(0, 5).map((issue, index) => (
+                <Text key={index} style={[styles.issueText, { color: isDark ? '#8E8E93' : '#6D6D72' }]}>
+                  • {issue.message}
+                </Text>
+              ))}
+            </View>
+          )}
+
+          <ThemedText style={styles.sectionLabel}>Map name</ThemedText>
+          <TextInput
+            style={[
+              styles.nameInput,
+              {
+                backgroundColor: isDark ? '#1a1a1a' : '#f5f5f5',
+                color: isDark ? '#fff' : '#000',
+                borderColor: isDark ? '#333' : '#ddd',
+              },
+            ]}
+            value={name}
+            onChangeText={setName}
+            placeholder="Imported Map"
+            placeholderTextColor={isDark ? '#666' : '#999'}
+          />
+
+          <View style={styles.switchRow}>
+            <ThemedText style={styles.switchLabel}>Use as my current map</ThemedText>
+            <Switch value={makeDefault} onValueChange={setMakeDefault} />
+          </View>
+
+          {isSaving ? (
+            <ActivityIndicator style={styles.saving} />
+          ) : (
+            <>
+              <Pressable style={styles.primaryButton} onPress={handleSaveAsNew}>
+                <Text style={styles.primaryButtonText}>Save as New Map</Text>
+              </Pressable>
+              <Pressable style={styles.secondaryButton} onPress={handleMerge}>
+                <Text style={styles.secondaryButtonText}>Merge into Current Map</Text>
+              </Pressable>
+            </>
+          )}
+        </ScrollView>
+      )}
+
+      <FlowchartMergeReviewModal
+        visible={!!mergeTarget}
+        base={mergeTarget?.structure || null}
+        incoming={result?.flowchart || null}
+        saving={isSaving}
+        onConfirm={handleMergeConfirm}
+        onCancel={() => setMergeTarget(null)}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#333',
+  },
+  closeButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    fontFamily: 'Georgia',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    flex: 1,
+    textAlign: 'center',
+    fontFamily: 'Georgia',
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    marginTop: 16,
+    marginBottom: 8,
+    fontFamily: 'Georgia',
+  },
+  textInput: {
+    minHeight: 240,
+    padding: 16,
+    borderWidth: 1,
+    borderRadius: 8,
+    fontSize: 14,
+    fontFamily: 'monospace',
+    lineHeight: 20,
+  },
+  nameInput: {
+    height: 44,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderRadius: 8,
+    fontSize: 16,
+    fontFamily: 'Georgia',
+  },
+  summaryText: {
+    fontSize: 14,
+    marginBottom: 12,
+    opacity: 0.7,
+    fontFamily: 'Georgia',
+  },
+  previewContainer: {
+    borderRadius: 12,
+    overflow: 'hidden',
+    alignItems: 'center',
+  },
+  issuesContainer: {
+    marginTop: 4,
+  },
+  issueText: {
+    fontSize: 12,
+    marginBottom: 2,
+    fontFamily: 'Georgia',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  switchLabel: {
+    fontSize: 14,
+    fontFamily: 'Georgia',
+  },
+  saving: {
+    marginTop: 24,
+  },
+  primaryButton: {
+    height: 44,
+    borderRadius: 8,
+    backgroundColor: '#007AFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+    fontFamily: 'Georgia',
+  },
+  secondaryButton: {
+    height: 44,
+    borderRadius: 8,
+    backgroundColor: '#E5E5EA',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  secondaryButtonText: {
+    color: '#000000',
+    fontSize: 16,
+    fontWeight: '500',
+    fontFamily: 'Georgia',
+  },
+});
@@ -0,0 +1,439 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { JournalEntryModal } from '@/components/JournalEntryModal';
+import { CrisisResourcesModal } from '@/components/CrisisResourcesModal';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { FlowchartNode } from '@/lib/types/flowchart';
+import { JournalDraft, JournalPartSuggestion } from '@/lib/types/journal';
+import { SafetyAssessment } from '@/lib/types/safety';
+import {
+  createJournalEntry,
+  deleteJournalEntry,
+  getJournalEntries,
+  getJournalMood,
+  updateJournalEntry,
+  JournalEntryRow,
+} from '@/lib/services/journal';
+import { addJournalSuggestionsToFlowchart, reflectOnJournalEntry } from '@/lib/services/journalReflection';
+import { describeEmotionVector } from '@/lib/services/emotionSpace';
+import { getEmotions, EmotionWithScore } from '@/lib/services/emotions';
+import { getUserFlowchartWithId } from '@/lib/services/flowcharts';
+
+export default function JournalScreen() {
+  const [entries, setEntries] = useState<JournalEntryRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [composerVisible, setComposerVisible] = useState(false);
+  const [editingEntry, setEditingEntry] = useState<JournalEntryRow | null>(null);
+  const [beliefs, setBeliefs] = useState<EmotionWithScore[]>([]);
+  const [parts, setParts] = useState<FlowchartNode[]>([]);
+  const [flowchartId, setFlowchartId] = useState<string | null>(null);
+  const [reflectingId, setReflectingId] = useState<string | null>(null);
+  // Suggestions from the latest reflection, per entry, until added or dismissed
+  const [suggestions, setSuggestions] = useState<Record<string, JournalPartSuggestion[]>>({});
+  const [safetyAssessment, setSafetyAssessment] = useState<SafetyAssessment | null>(null);
+  const colorScheme = useColorScheme();
+
+  const isDark = colorScheme === 'dark';
+  const textColor = isDark ? '#FFFFFF' : '#000000';
+  const mutedColor = isDark ? '#8E8E93' : '#6D6D72';
+  const cardBackground = isDark ? '#1C1C1E' : '#F2F2F7';
+  const chipBackground = isDark ? '#2C2C2E' : '#E5E5EA';
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setEntries(await getJournalEntries());
+    } catch (error) {
+      console.error('❌ Error loading journal:', error);
+      Alert.alert('Error', 'Failed to load your journal');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEntries();
+
+    getEmotions()
+      .then(setBeliefs)
+      .catch(error => console.error('❌ Error loading beliefs for journal:', error));
+    getUserFlowchartWithId()
+      .then(({ structure, id }) => {
+        setParts(structure.nodes.filter(node => node.type !== 'self'));
+        setFlowchartId(id);
+      })
+      .catch(error => console.error('❌ Error loading map for journal:', error));
+  }, [loadEntries]);
+
+  const allTags = useMemo(() => Array.from(new Set(entries.flatMap(entry => entry.tags))).sort(), [entries]);
+  const visibleEntries = tagFilter ? entries.filter(entry => entry.tags.includes(tagFilter)) : entries;
+  const labelsByNode = useMemo(() => new Map(parts.map(node => [node.id, node.label || node.id])), [parts]);
+  const labelsByBelief = useMemo(
+    () => new Map(beliefs.map(belief => [belief.id, belief.emotion || belief.belief || 'Untitled'])),
+    [beliefs]
+  );
+
+  const replaceEntry = (updated: JournalEntryRow) => {
+    setEntries(previous => previous.map(entry => (entry.id === updated.id ? updated : entry)));
+  };
+
+  const openComposer = (entry: JournalEntryRow | null) => {
+    setEditingEntry(entry);
+    setComposerVisible(true);
+  };
+
+  const handleSave = async (draft: JournalDraft) => {
+    const entry = editingEntry;
+    setComposerVisible(false);
+    setEditingEntry(null);
+
+    try {
+      if (entry) {
+        replaceEntry(await updateJournalEntry(entry.id, draft));
+      } else {
+        const created = await createJournalEntry(draft);
+        setEntries(previous => [created, ...previous]);
+        setExpandedId(created.id);
+      }
+    } catch (error) {
+      console.error('❌ Error saving journal entry:', error);
+      Alert.alert('Error', 'Failed to save your entry. Please try again.');
+    }
+  };
+
+  const handleDelete = (entry: JournalEntryRow) => {
+    Alert.alert('Delete Entry', 'Delete this journal entry?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteJournalEntry(entry.id);
+            setEntries(previous => previous.filter(other => other.id !== entry.id));
+          } catch (error) {
+            console.error('❌ Error deleting journal entry:', error);
+            Alert.alert('Error', 'Failed to delete the entry. Please try again.');
+          }
+        }
+      }
+    ]);
+  };
+
+  const handleReflect = async (entry: JournalEntryRow) => {
+    try {
+      setReflectingId(entry.id);
+      const result = await reflectOnJournalEntry(entry);
+      if (result.kind === 'safety') {
+        setSafetyAssessment(result.assessment);
+        return;
+      }
+      replaceEntry(result.entry);
+      setSuggestions(previous => ({ ...previous, [entry.id]: result.suggestions }));
+    } catch (error) {
+      console.error('❌ Error reflecting on journal entry:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to reflect on this entry');
+    } finally {
+      setReflectingId(null);
+    }
+  };
+
+  const dismissSuggestion = (entryId: string, suggestion: JournalPartSuggestion) => {
+    setSuggestions(previous => ({
+      ...previous,
+      [entryId]: (previous[entryId] || []).filter(other => other !== suggestion),
+    }));
+  };
+
+  const handleAddSuggestion = async (entry: JournalEntryRow, suggestion: JournalPartSuggestion) => {
+    try {
+      setReflectingId(entry.id);
+      const updated = await addJournalSuggestionsToFlowchart(entry, [suggestion]);
+      replaceEntry(updated);
+      dismissSuggestion(entry.id, suggestion);
+
+      const { structure } = await getUserFlowchartWithId();
+      setParts(structure.nodes.filter(node => node.type !== 'self'));
+      setFlowchartId(updated.flowchart_id);
+    } catch (error) {
+      console.error('❌ Error adding journal suggestion to map:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to add to your map');
+    } finally {
+      setReflectingId(null);
+    }
+  };
+
+  const renderEntry = (entry: JournalEntryRow) => {
+    const expanded = expandedId === entry.id;
+    const mood = getJournalMood(entry);
+    const linkedParts = entry.flowchart_id === flowchartId ? entry.node_ids.map(id => labelsByNode.get(id)).filter(Boolean) : [];
+    const linkedBeliefs = entry.belief_ids.map(id => labelsByBelief.get(id)).filter(Boolean);
+    const entrySuggestions = suggestions[entry.id] || [];
+    const busy = reflectingId === entry.id;
+
+    return (
+      <Pressable
+        key={entry.id}
+        style={[styles.entryCard, { backgroundColor: cardBackground }]}
+        onPress={() => setExpandedId(expanded ? null : entry.id)}
+        onLongPress={() => handleDelete(entry)}
+      >
+        <View style={styles.entryHeader}>
+          <Text style={[styles.entryTitle, { color: textColor }]} numberOfLines={1}>
+            {entry.title || entry.prompt || entry.body.split('\n')[0]}
+          </Text>
+          <Text style={[styles.entryMeta, { color: mutedColor }]}>
+            {new Date(entry.created_at).toLocaleDateString()}
+          </Text>
+        </View>
+
+        <Text style={[styles.entryBody, { color: textColor }]} numberOfLines={expanded ? undefined : 3}>
+          {entry.body}
+        </Text>
+
+        {(mood || entry.tags.length > 0) && (
+          <Text style={[styles.entryMeta, { color: mutedColor }]}>
+            {[mood ? describeEmotionVector([mood['feminine-masculine'], mood['dark-light'], mood['child-parent']]) : null, ...entry.tags.map(tag => `#${tag}`)]
+              .filter(Boolean)
+              .join(' · ')}
+          </Text>
+        )}
+
+        {expanded && (
+          <View style={styles.expanded}>
+            {(linkedParts.length > 0 || linkedBeliefs.length > 0) && (
+              <Text style={[styles.entryMeta, { color: mutedColor }]}>
+                Linked: {[...linkedParts, ...linkedBeliefs].join(', ')}
+              </Text>
+            )}
+
+            {entry.reflection && (
+              <View style={[styles.reflection, { borderLeftColor: '#007AFF' }]}>
+                <Text style={[styles.entryBody, { color: textColor }]}>{entry.reflection}</Text>
+              </View>
+            )}
+
+            {entrySuggestions.map(suggestion => (
+              <View key={`${suggestion.type}-${suggestion.label}`} style={[styles.suggestion, { backgroundColor: chipBackground }]}>
+                <Text style={[styles.suggestionTitle, { color: textColor }]}>
+                  {suggestion.label} <Text style={{ color: mutedColor }}>({suggestion.type})</Text>
+                </Text>
+                {suggestion.reason ? (
+                  <Text style={[styles.entryMeta, { color: mutedColor }]}>{suggestion.reason}</Text>
+                ) : null}
+                <View style={styles.actions}>
+                  <Pressable style={styles.actionButton} onPress={() => handleAddSuggestion(entry, suggestion)} disabled={busy}>
+                    <Text style={styles.actionText}>Add to my map</Text>
+                  </Pressable>
+                  <Pressable style={styles.actionButton} onPress={() => dismissSuggestion(entry.id, suggestion)}>
+                    <Text style={[styles.actionText, { color: mutedColor }]}>Dismiss</Text>
+                  </Pressable>
+                </View>
+              </View>
+            ))}
+
+            <View style={styles.actions}>
+              {busy ? (
+                <ActivityIndicator />
+              ) : (
+                <Pressable style={styles.actionButton} onPress={() => handleReflect(entry)}>
+                  <Text style={styles.actionText}>{entry.reflection ? 'Reflect again' : 'Reflect on this'}</Text>
+                </Pressable>
+              )}
+              <Pressable style={styles.actionButton} onPress={() => openComposer(entry)}>
+                <Text style={styles.actionText}>Edit</Text>
+              </Pressable>
+            </View>
+          </View>
+        )}
+      </Pressable>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: isDark ? '#000' : '#fff' }]}>
+      <ThemedView style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.headerButton}>
+          <ThemedText style={styles.headerButtonText}>✕</ThemedText>
+        </Pressable>
+        <ThemedText style={styles.title}>Journal</ThemedText>
+        <Pressable onPress={() => openComposer(null)} style={styles.headerButton}>
+          <ThemedText style={styles.headerButtonText}>+</ThemedText>
+        </Pressable>
+      </ThemedView>
+
+      {loading ? (
+        <ActivityIndicator style={styles.loading} />
+      ) : entries.length === 0 ? (
+        <ThemedText style={styles.emptyText}>No entries yet. Tap + to start writing.</ThemedText>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          {allTags.length > 0 && (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.tagRow}>
+              {[null, ...allTags].map(tag => (
+                <Pressable
+                  key={tag || 'all'}
+                  style={[styles.tagChip, { backgroundColor: tagFilter === tag ? '#007AFF' : chipBackground }]}
+                  onPress={() => setTagFilter(tag)}
+                >
+                  <Text style={[styles.tagText, { color: tagFilter === tag ? '#FFFFFF' : textColor }]}>
+                    {tag ? `#${tag}` : 'All'}
+                  </Text>
+                </Pressable>
+              ))}
+            </ScrollView>
+          )}
+          {visibleEntries.map(renderEntry)}
+        </ScrollView>
+      )}
+
+      <JournalEntryModal
+        visible={composerVisible}
+        entry={editingEntry}
+        beliefs={beliefs}
+        parts={parts}
+        flowchartId={flowchartId}
+        onCancel={() => {
+          setComposerVisible(false);
+          setEditingEntry(null);
+        }}
+        onSubmit={handleSave}
+      />
+
+      <CrisisResourcesModal
+        visible={!!safetyAssessment}
+        assessment={safetyAssessment}
+        onContinue={() => setSafetyAssessment(null)}
+        onEndSession={() => setSafetyAssessment(null)}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#333',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerButtonText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    fontFamily: 'Georgia',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    flex: 1,
+    textAlign: 'center',
+    fontFamily: 'Georgia',
+  },
+  loading: {
+    marginTop: 40,
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginTop: 40,
+    opacity: 0.7,
+    fontFamily: 'Georgia',
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 40,
+    gap: 12,
+  },
+  tagRow: {
+    gap: 8,
+  },
+  tagChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  tagText: {
+    fontSize: 14,
+    fontFamily: 'Georgia',
+  },
+  entryCard: {
+    borderRadius: 12,
+    padding: 14,
+    gap: 6,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    gap: 8,
+  },
+  entryTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    fontFamily: 'Georgia',
+  },
+  entryBody: {
+    fontSize: 15,
+    lineHeight: 21,
+    fontFamily: 'Georgia',
+  },
+  entryMeta: {
+    fontSize: 12,
+    fontFamily: 'Georgia',
+  },
+  expanded: {
+    gap: 10,
+    marginTop: 6,
+  },
+  reflection: {
+    borderLeftWidth: 3,
+    paddingLeft: 10,
+  },
+  suggestion: {
+    borderRadius: 8,
+    padding: 10,
+    gap: 4,
+  },
+  suggestionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    fontFamily: 'Georgia',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  actionButton: {
+    paddingVertical: 4,
+  },
+  actionText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '500',
+    fontFamily: 'Georgia',
+  },
+});
@@ -0,0 +1,308 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { FlowchartThumbnail } from '@/components/FlowchartThumbnail';
+import { TextInputModal } from '@/components/TextInputModal';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import {
+  getUserFlowcharts,
+  createEmptyFlowchart,
+  renameFlowchart,
+  duplicateFlowchart,
+  deleteFlowchart,
+  setDefaultFlowchart,
+  subscribeToFlowchartChanges,
+  FlowchartRow,
+} from '@/lib/services/flowcharts';
+
+export default function MapLibraryScreen() {
+  const [flowcharts, setFlowcharts] = useState<FlowchartRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [createModalVisible, setCreateModalVisible] = useState(false);
+  const [mapToRename, setMapToRename] = useState<FlowchartRow | null>(null);
+  const colorScheme = useColorScheme();
+
+  const isDark = colorScheme === 'dark';
+
+  const loadFlowcharts = useCallback(async () => {
+    try {
+      setFlowcharts(await getUserFlowcharts());
+    } catch (error) {
+      console.error('❌ Error loading flowcharts:', error);
+      Alert.alert('Error', 'Failed to load your maps');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadFlowcharts();
+
+    const subscription = subscribeToFlowchartChanges(setFlowcharts);
+    return () => subscription.unsubscribe();
+  }, [loadFlowcharts]);
+
+  // Run a change against one map, then refresh the list
+  const runAction = async (id: string, action: () => Promise<unknown>, failure: string) => {
+    try {
+      setBusyId(id);
+      await action();
+      await loadFlowcharts();
+    } catch (error) {
+      console.error(`❌ ${failure}:`, error);
+      Alert.alert('Error', failure);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleOpen = (flowchart: FlowchartRow) => {
+    router.navigate({ pathname: '/(tabs)/bodygraph', params: { flowchartId: flowchart.id } });
+  };
+
+  const handleCreate = async (name: string) => {
+    setCreateModalVisible(false);
+    try {
+      setLoading(true);
+      const created = await createEmptyFlowchart(name, flowcharts.length === 0);
+      await loadFlowcharts();
+      handleOpen(created);
+    } catch (error) {
+      console.error('❌ Error creating flowchart:', error);
+      Alert.alert('Error', 'Failed to create map');
+      setLoading(false);
+    }
+  };
+
+  const handleRename = (name: string) => {
+    const flowchart = mapToRename;
+    setMapToRename(null);
+    if (!flowchart || name === flowchart.name) return;
+    runAction(flowchart.id, () => renameFlowchart(flowchart.id, name), 'Failed to rename map');
+  };
+
+  const handleDuplicate = (flowchart: FlowchartRow) => {
+    runAction(flowchart.id, () => duplicateFlowchart(flowchart.id), 'Failed to duplicate map');
+  };
+
+  const handleSetDefault = (flowchart: FlowchartRow) => {
+    runAction(flowchart.id, () => setDefaultFlowchart(flowchart.id), 'Failed to set default map');
+  };
+
+  const handleDelete = (flowchart: FlowchartRow) => {
+    Alert.alert(
+      'Delete Map',
+      `Delete "${flowchart.name}"? Its version history will be deleted too.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => runAction(flowchart.id, async () => {
+            await deleteFlowchart(flowchart.id);
+
+            // Keep a default: promote the most recently updated remaining map
+            const next = flowcharts.find(other => other.id !== flowchart.id);
+            if (flowchart.is_default && next) {
+              await setDefaultFlowchart(next.id);
+            }
+          }, 'Failed to delete map')
+        }
+      ]
+    );
+  };
+
+  const renderMap = (flowchart: FlowchartRow) => {
+    const updatedAt = new Date(flowchart.last_updated);
+    const isBusy = busyId === flowchart.id;
+
+    return (
+      <View
+        key={flowchart.id}
+        style={[styles.mapRow, { borderColor: isDark ? '#38383A' : '#E5E5EA' }]}
+      >
+        <Pressable style={styles.mapMain} onPress={() => handleOpen(flowchart)}>
+          <FlowchartThumbnail flowchart={flowchart.structure} />
+          <View style={styles.mapInfo}>
+            <Text
+              style={[styles.mapName, { color: isDark ? '#FFFFFF' : '#000000' }]}
+              numberOfLines={1}
+            >
+              {flowchart.name}
+            </Text>
+            <Text style={[styles.mapMeta, { color: isDark ? '#8E8E93' : '#6D6D72' }]}>
+              {flowchart.structure.nodes.length} parts · {updatedAt.toLocaleDateString()}
+            </Text>
+            {flowchart.is_default && <Text style={styles.defaultLabel}>Default</Text>}
+          </View>
+        </Pressable>
+
+        {isBusy ? (
+          <ActivityIndicator style={styles.rowSpinner} />
+        ) : (
+          <View style={styles.actions}>
+            {!flowchart.is_default && (
+              <Pressable style={styles.actionButton} onPress={() => handleSetDefault(flowchart)}>
+                <ThemedText style={styles.actionIcon}>★</ThemedText>
+              </Pressable>
+            )}
+            <Pressable style={styles.actionButton} onPress={() => setMapToRename(flowchart)}>
+              <ThemedText style={styles.actionIcon}>✎</ThemedText>
+            </Pressable>
+            <Pressable style={styles.actionButton} onPress={() => handleDuplicate(flowchart)}>
+              <ThemedText style={styles.actionIcon}>⧉</ThemedText>
+            </Pressable>
+            <Pressable style={styles.actionButton} onPress={() => handleDelete(flowchart)}>
+              <ThemedText style={styles.actionIcon}>🗑</ThemedText>
+            </Pressable>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: isDark ? '#000' : '#fff' }]}>
+      <ThemedView style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.headerButton}>
+          <ThemedText style={styles.headerButtonText}>✕</ThemedText>
+        </Pressable>
+        <ThemedText style={styles.title}>My Maps</ThemedText>
+        <Pressable onPress={() => setCreateModalVisible(true)} style={styles.headerButton}>
+          <ThemedText style={styles.headerButtonText}>+</ThemedText>
+        </Pressable>
+      </ThemedView>
+
+      {loading ? (
+        <ActivityIndicator style={styles.loading} />
+      ) : flowcharts.length === 0 ? (
+        <ThemedText style={styles.emptyText}>No maps yet. Tap + to start one.</ThemedText>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          {flowcharts.map(renderMap)}
+        </ScrollView>
+      )}
+
+      <TextInputModal
+        visible={createModalVisible}
+        title="New Map"
+        placeholder="Map name"
+        onCancel={() => setCreateModalVisible(false)}
+        onSubmit={handleCreate}
+      />
+
+      <TextInputModal
+        key={mapToRename?.id}
+        visible={!!mapToRename}
+        title="Rename Map"
+        placeholder="Map name"
+        initialValue={mapToRename?.name}
+        onCancel={() => setMapToRename(null)}
+        onSubmit={handleRename}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#333',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerButtonText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    fontFamily: 'Georgia',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    flex: 1,
+    textAlign: 'center',
+    fontFamily: 'Georgia',
+  },
+  loading: {
+    marginTop: 40,
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginTop: 40,
+    opacity: 0.7,
+    fontFamily: 'Georgia',
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  mapRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  mapMain: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  mapInfo: {
+    flex: 1,
+  },
+  mapName: {
+    fontSize: 16,
+    fontWeight: '600',
+    fontFamily: 'Georgia',
+  },
+  mapMeta: {
+    fontSize: 12,
+    marginTop: 2,
+    fontFamily: 'Georgia',
+  },
+  defaultLabel: {
+    color: '#34C759',
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 2,
+    fontFamily: 'Georgia',
+  },
+  actions: {
+    flexDirection: 'row',
+  },
+  actionButton: {
+    width: 34,
+    height: 34,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  actionIcon: {
+    fontSize: 16,
+  },
+  rowSpinner: {
+    marginHorizontal: 16,
+  },
+});
@@ -0,0 +1,278 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Alert,
+  ActivityIndicator,
+  useWindowDimensions,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { TimelineChart } from '@/components/TimelineChart';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { TimelineBucket, TimelineMetric } from '@/lib/types/timeline';
+import {
+  TIMELINE_METRICS,
+  buildEmotionTimeline,
+  countNodeMentions,
+  formatPeriodLabel,
+  loadTimelineSource,
+  TimelineSource,
+} from '@/lib/services/timeline';
+
+const BUCKETS: { bucket: TimelineBucket; label: string }[] = [
+  { bucket: 'day', label: 'Daily' },
+  { bucket: 'week', label: 'Weekly' },
+  { bucket: 'month', label: 'Monthly' },
+];
+
+export default function TimelineScreen() {
+  const [source, setSource] = useState<TimelineSource | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [bucket, setBucket] = useState<TimelineBucket>('week');
+  const [metric, setMetric] = useState<TimelineMetric>('dark-light');
+  const colorScheme = useColorScheme();
+  const { width } = useWindowDimensions();
+
+  const isDark = colorScheme === 'dark';
+  const textColor = isDark ? '#FFFFFF' : '#000000';
+  const mutedColor = isDark ? '#8E8E93' : '#6D6D72';
+  const chipBackground = isDark ? '#2C2C2E' : '#F2F2F7';
+
+  useEffect(() => {
+    loadTimelineSource()
+      .then(setSource)
+      .catch(error => {
+        console.error('❌ Error loading timeline:', error);
+        Alert.alert('Error', 'Failed to load your timeline');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const timeline = useMemo(
+    () => buildEmotionTimeline(source?.emotions || [], bucket),
+    [source, bucket]
+  );
+  const mentions = useMemo(
+    () => countNodeMentions(source?.flowchart || null, source?.messages || [], bucket).filter(stat => stat.mentions > 0),
+    [source, bucket]
+  );
+  const maxMentions = mentions.length ? mentions[0].mentions : 0;
+
+  const renderOptions = <T extends string>(
+    options: { value: T; label: string }[],
+    selected: T,
+    onSelect: (value: T) => void
+  ) => (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+      {options.map(option => (
+        <Pressable
+          key={option.value}
+          style={[styles.chip, { backgroundColor: option.value === selected ? '#007AFF' : chipBackground }]}
+          onPress={() => onSelect(option.value)}
+        >
+          <Text style={[styles.chipText, { color: option.value === selected ? '#FFFFFF' : textColor }]}>
+            {option.label}
+          </Text>
+        </Pressable>
+      ))}
+    </ScrollView>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: isDark ? '#000' : '#fff' }]}>
+      <ThemedView style={styles.header}>
+        <Pressable onPress={() => router.back()} style={styles.headerButton}>
+          <ThemedText style={styles.headerButtonText}>✕</ThemedText>
+        </Pressable>
+        <ThemedText style={styles.title}>Timeline</ThemedText>
+        <View style={styles.headerButton} />
+      </ThemedView>
+
+      {loading ? (
+        <ActivityIndicator style={styles.loading} />
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          {renderOptions(BUCKETS.map(({ bucket: value, label }) => ({ value, label })), bucket, setBucket)}
+
+          <Text style={[styles.sectionTitle, { color: textColor }]}>Beliefs</Text>
+          {renderOptions(TIMELINE_METRICS.map(({ metric: value, label }) => ({ value, label })), metric, setMetric)}
+
+          {timeline.periods.length === 0 ? (
+            <Text style={[styles.emptyText, { color: mutedColor }]}>No beliefs recorded yet.</Text>
+          ) : (
+            <>
+              <TimelineChart timeline={timeline} metric={metric} bucket={bucket} width={width - 32} />
+              <View style={styles.legend}>
+                <View style={[styles.legendSwatch, { backgroundColor: '#007AFF' }]} />
+                <Text style={[styles.legendText, { color: mutedColor }]}>Average</Text>
+                <View style={[styles.legendSwatch, styles.legendDot]} />
+                <Text style={[styles.legendText, { color: mutedColor }]}>Belief</Text>
+                <View style={[styles.legendSwatch, { backgroundColor: '#34C759' }]} />
+                <Text style={[styles.legendText, { color: mutedColor }]}>Released</Text>
+              </View>
+              {timeline.releases.length > 0 && (
+                <View style={styles.list}>
+                  {timeline.releases.map(release => (
+                    <Text key={release.beliefId} style={[styles.listText, { color: textColor }]}>
+                      Released “{release.label}” · {formatPeriodLabel(release.period, bucket)}
+                    </Text>
+                  ))}
+                </View>
+              )}
+            </>
+          )}
+
+          <Text style={[styles.sectionTitle, { color: textColor }]}>Parts in conversations</Text>
+          {mentions.length === 0 ? (
+            <Text style={[styles.emptyText, { color: mutedColor }]}>
+              None of your map&apos;s parts have come up in conversations yet.
+            </Text>
+          ) : (
+            <View style={styles.list}>
+              {mentions.map(stat => (
+                <View key={stat.nodeId} style={styles.mentionRow}>
+                  <View style={styles.mentionHeader}>
+                    <Text style={[styles.listText, { color: textColor }]} numberOfLines={1}>{stat.label}</Text>
+                    <Text style={[styles.mentionMeta, { color: mutedColor }]}>
+                      {stat.mentions} {stat.mentions === 1 ? 'mention' : 'mentions'} in {stat.conversations} {stat.conversations === 1 ? 'conversation' : 'conversations'}
+                    </Text>
+                  </View>
+                  <View style={[styles.mentionTrack, { backgroundColor: chipBackground }]}>
+                    <View style={[styles.mentionBar, { width: `${(stat.mentions / maxMentions) * 100}%` }]} />
+                  </View>
+                  <Text style={[styles.mentionMeta, { color: mutedColor }]} numberOfLines={1}>
+                    {stat.timeline.slice(-4).map(entry => `${formatPeriodLabel(entry.period, bucket)}: ${entry.count}`).join(' · ')}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#333',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerButtonText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    fontFamily: 'Georgia',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    flex: 1,
+    textAlign: 'center',
+    fontFamily: 'Georgia',
+  },
+  loading: {
+    marginTop: 40,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 20,
+    marginBottom: 8,
+    fontFamily: 'Georgia',
+  },
+  chipRow: {
+    gap: 8,
+    paddingBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  chipText: {
+    fontSize: 14,
+    fontFamily: 'Georgia',
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginVertical: 20,
+    fontFamily: 'Georgia',
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  legendSwatch: {
+    width: 12,
+    height: 3,
+    borderRadius: 1.5,
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: 'rgba(0, 122, 255, 0.35)',
+  },
+  legendText: {
+    fontSize: 12,
+    marginRight: 8,
+    fontFamily: 'Georgia',
+  },
+  list: {
+    marginTop: 12,
+    gap: 10,
+  },
+  listText: {
+    fontSize: 14,
+    flexShrink: 1,
+    fontFamily: 'Georgia',
+  },
+  mentionRow: {
+    gap: 4,
+  },
+  mentionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    gap: 8,
+  },
+  mentionMeta: {
+    fontSize: 12,
+    fontFamily: 'Georgia',
+  },
+  mentionTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  mentionBar: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#007AFF',
+  },
+});
@@ -4,14 +4,15 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useEffect } from 'react';
 import { ThemedView } from '@/components/ThemedView';
 import { ThemedText } from '@/components/ThemedText';
-import { ActivityIndicator, StyleSheet } from 'react-native';
+import { ActivityIndicator, Alert, StyleSheet } from 'react-native';
+import { describeGuestMigration } from '@/lib/services/guestMigration';
 
 interface AuthGuardProps {
   children: React.ReactNode;
 }
 
 export const AuthGuard: React.FC<AuthGuardProps> = ({ children }) => {
-  const { user, loading } = useAuth();
+  const { user, loading, guestMigration, dismissGuestMigration } = useAuth();
   const segments = useSegments();
   const router = useRouter();
 
@@ -29,6 +30,17 @@ export const AuthGuard: React.FC<AuthGuardProps> = ({ children }) => {
     }
   }, [user, loading, segments]);
 
+  // Tell the user what came across from before they signed in
+  useEffect(() => {
+    if (!guestMigration) return;
+
+    const message = describeGuestMigration(guestMigration);
+    dismissGuestMigration();
+    if (message) {
+      Alert.alert('Welcome', message);
+    }
+  }, [guestMigration, dismissGuestMigration]);
+
   if (loading) {
     return (
       <ThemedView style={styles.loadingContainer}>
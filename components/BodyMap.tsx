@@ -0,0 +1,162 @@
+import React, { useMemo } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import Svg, { Circle, Ellipse, G, Rect } from 'react-native-svg';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { BodyRegion, BodyRegionId, BodyView, RegionHeat } from '@/lib/types/body';
+import { BODY_VIEWBOX, getRegionCenter, getRegionsForView, getTemperatureColor } from '@/lib/services/bodyRegions';
+import { BodySensationRow } from '@/lib/services/bodySensations';
+
+interface BodyMapProps {
+  view: BodyView;
+  onViewChange: (view: BodyView) => void;
+  // 'sensations' marks each sensation; 'heatmap' shades regions by how active they are
+  mode: 'sensations' | 'heatmap';
+  sensations?: BodySensationRow[];
+  heat?: RegionHeat[];
+  selectedRegion?: BodyRegionId | null;
+  // Regions outlined as recurring patterns
+  highlightedRegions?: BodyRegionId[];
+  onRegionPress?: (region: BodyRegionId, view: BodyView) => void;
+  width?: number;
+}
+
+// Most markers drawn side by side in one region
+const MAX_MARKERS_PER_REGION = 5;
+
+/**
+ * Front and back body diagram with tappable regions.
+ */
+export function BodyMap({
+  view,
+  onViewChange,
+  mode,
+  sensations = [],
+  heat = [],
+  selectedRegion,
+  highlightedRegions = [],
+  onRegionPress,
+  width = 220,
+}: BodyMapProps) {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const height = width * (BODY_VIEWBOX.height / BODY_VIEWBOX.width);
+
+  const regions = useMemo(() => getRegionsForView(view), [view]);
+  const heatByRegion = useMemo(() => new Map(heat.map(entry => [entry.region, entry])), [heat]);
+  const sensationsByRegion = useMemo(() => {
+    const byRegion = new Map<BodyRegionId, BodySensationRow[]>();
+    sensations
+      .filter(sensation => sensation.body_view === view)
+      .forEach(sensation => byRegion.set(sensation.region, [...(byRegion.get(sensation.region) || []), sensation]));
+    return byRegion;
+  }, [sensations, view]);
+
+  const baseFill = isDark ? '#2C2C2E' : '#E5E5EA';
+  const outline = isDark ? '#48484A' : '#C7C7CC';
+
+  const regionFill = (region: BodyRegion): string => {
+    if (mode === 'heatmap') {
+      const entry = heatByRegion.get(region.id);
+      return entry ? `rgba(226, 87, 76, ${0.15 + entry.heat * 0.75})` : baseFill;
+    }
+    return baseFill;
+  };
+
+  const renderShape = (region: BodyRegion) => {
+    const selected = region.id === selectedRegion;
+    const highlighted = highlightedRegions.includes(region.id);
+    const shapeProps = {
+      fill: regionFill(region),
+      stroke: selected ? '#007AFF' : highlighted ? '#FF9500' : outline,
+      strokeWidth: selected || highlighted ? 3 : 1,
+      onPress: onRegionPress ? () => onRegionPress(region.id, view) : undefined,
+    };
+
+    return region.shape.kind === 'ellipse'
+      ? <Ellipse key={region.id} cx={region.shape.cx} cy={region.shape.cy} rx={region.shape.rx} ry={region.shape.ry} {...shapeProps} />
+      : (
+        <Rect
+          key={region.id}
+          x={region.shape.x}
+          y={region.shape.y}
+          width={region.shape.width}
+          height={region.shape.height}
+          rx={region.shape.radius}
+          {...shapeProps}
+        />
+      );
+  };
+
+  const renderMarkers = (region: BodyRegion) => {
+    const markers = (sensationsByRegion.get(region.id) || []).slice(0, MAX_MARKERS_PER_REGION);
+    const center = getRegionCenter(region.shape);
+
+    return (
+      <G key={`${region.id}-markers`}>
+        {markers.map((sensation, index) => (
+          <Circle
+            key={sensation.id}
+            cx={center.x + (index - (markers.length - 1) / 2) * 9}
+            cy={center.y}
+            r={3 + sensation.intensity * 0.5}
+            fill={getTemperatureColor(sensation.temperature)}
+            stroke="#FFFFFF"
+            strokeWidth={1}
+            onPress={onRegionPress ? () => onRegionPress(region.id, view) : undefined}
+          />
+        ))}
+      </G>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.viewToggle, { backgroundColor: isDark ? '#2C2C2E' : '#F2F2F7' }]}>
+        {(['front', 'back'] as BodyView[]).map(option => (
+          <Pressable
+            key={option}
+            style={[styles.viewOption, view === option && styles.viewOptionActive]}
+            onPress={() => onViewChange(option)}
+          >
+            <Text style={[
+              styles.viewOptionText,
+              { color: view === option ? '#FFFFFF' : isDark ? '#FFFFFF' : '#000000' }
+            ]}>
+              {option === 'front' ? 'Front' : 'Back'}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <Svg width={width} height={height} viewBox={`0 0 ${BODY_VIEWBOX.width} ${BODY_VIEWBOX.height}`}>
+        {regions.map(renderShape)}
+        {mode === 'sensations' && regions.map(renderMarkers)}
+      </Svg>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  viewToggle: {
+    flexDirection: 'row',
+    borderRadius: 8,
+    padding: 2,
+    marginBottom: 12,
+  },
+  viewOption: {
+    paddingHorizontal: 20,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  viewOptionActive: {
+    backgroundColor: '#007AFF',
+  },
+  viewOptionText: {
+    fontSize: 14,
+    fontWeight: '500',
+    fontFamily: 'Georgia',
+  },
+});
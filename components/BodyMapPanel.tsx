@@ -0,0 +1,359 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, Text, Pressable, ScrollView, StyleSheet, Alert } from 'react-native';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { BodyMap } from '@/components/BodyMap';
+import { BodySensationModal } from '@/components/BodySensationModal';
+import { FlowchartStructure } from '@/lib/types/flowchart';
+import { BodyPattern, BodyRegionId, BodySensation, BodySensationTarget, BodyView } from '@/lib/types/body';
+import {
+  addBodySensation,
+  aggregateSensationsByRegion,
+  deleteBodySensation,
+  getSensationsForTarget,
+  getUserSensations,
+  BodySensationRow,
+} from '@/lib/services/bodySensations';
+import { getBodyRegion, getRegionLabel, getSensationTypeLabel, getTemperatureColor } from '@/lib/services/bodyRegions';
+import { getBodyPatternReport } from '@/lib/services/bodyPatterns';
+import { getEmotions, EmotionWithScore } from '@/lib/services/emotions';
+
+interface BodyMapPanelProps {
+  flowchart: FlowchartStructure | null;
+  flowchartId: string | null;
+  // Part to start on, e.g. the node last tapped on the map
+  initialNodeId?: string | null;
+  width: number;
+}
+
+type PanelMode = 'pin' | 'heatmap';
+
+// Patterns listed and outlined on the heatmap
+const MAX_PATTERNS_SHOWN = 3;
+
+const targetKey = (target: BodySensationTarget | null) =>
+  !target ? '' : target.kind === 'belief' ? `belief:${target.beliefId}` : `node:${target.flowchartId}:${target.nodeId}`;
+
+/**
+ * Body mapping: pin sensations to body regions for a belief or a part of the
+ * current map, or see all sensations as a heatmap.
+ */
+export function BodyMapPanel({ flowchart, flowchartId, initialNodeId, width }: BodyMapPanelProps) {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const [mode, setMode] = useState<PanelMode>('pin');
+  const [view, setView] = useState<BodyView>('front');
+  const [beliefs, setBeliefs] = useState<EmotionWithScore[]>([]);
+  const [target, setTarget] = useState<BodySensationTarget | null>(
+    initialNodeId && flowchartId ? { kind: 'node', flowchartId, nodeId: initialNodeId } : null
+  );
+  const [sensations, setSensations] = useState<BodySensationRow[]>([]);
+  const [allSensations, setAllSensations] = useState<BodySensationRow[]>([]);
+  const [patterns, setPatterns] = useState<BodyPattern[]>([]);
+  const [selectedPattern, setSelectedPattern] = useState<BodyPattern | null>(null);
+  const [pendingRegion, setPendingRegion] = useState<{ region: BodyRegionId; view: BodyView } | null>(null);
+
+  const textColor = isDark ? '#FFFFFF' : '#000000';
+  const chipBackground = isDark ? '#2C2C2E' : '#F2F2F7';
+
+  useEffect(() => {
+    getEmotions()
+      .then(setBeliefs)
+      .catch(error => console.error('Error loading beliefs for body map:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!target) {
+      setSensations([]);
+      return;
+    }
+    getSensationsForTarget(target)
+      .then(setSensations)
+      .catch(error => console.error('Error loading body sensations:', error));
+  }, [target]);
+
+  useEffect(() => {
+    if (mode !== 'heatmap') return;
+    getUserSensations()
+      .then(setAllSensations)
+      .catch(error => console.error('Error loading body sensations for heatmap:', error));
+    getBodyPatternReport()
+      .then(report => setPatterns(report.patterns.slice(0, MAX_PATTERNS_SHOWN)))
+      .catch(error => console.error('Error loading body patterns:', error));
+  }, [mode]);
+
+  const heat = useMemo(() => aggregateSensationsByRegion(allSensations), [allSensations]);
+
+  // Outline the selected pattern, or all of the strongest ones
+  const highlightedRegions = selectedPattern ? [selectedPattern.region] : patterns.map(pattern => pattern.region);
+
+  const handlePatternPress = (pattern: BodyPattern) => {
+    if (selectedPattern === pattern) {
+      setSelectedPattern(null);
+      return;
+    }
+    setSelectedPattern(pattern);
+    const regionViews = getBodyRegion(pattern.region)?.views || [];
+    if (!regionViews.includes(view) && regionViews.length) {
+      setView(regionViews[0]);
+    }
+  };
+
+  const parts = (flowchart?.nodes || []).filter(node => node.type !== 'self');
+
+  const handleRegionPress = (region: BodyRegionId, regionView: BodyView) => {
+    if (mode !== 'pin') return;
+    if (!target) {
+      Alert.alert('Choose an entry', 'Pick a belief or a part first, then tap where you feel it.');
+      return;
+    }
+    setPendingRegion({ region, view: regionView });
+  };
+
+  const handleSubmit = async (sensation: Omit<BodySensation, 'region' | 'view'>) => {
+    if (!target || !pendingRegion) return;
+    const region = pendingRegion;
+    setPendingRegion(null);
+
+    try {
+      const row = await addBodySensation(target, { ...sensation, region: region.region, view: region.view });
+      setSensations(previous => [row, ...previous]);
+    } catch (error) {
+      console.error('Error saving body sensation:', error);
+      Alert.alert('Error', 'Failed to save the sensation. Please try again.');
+    }
+  };
+
+  const handleDelete = (sensation: BodySensationRow) => {
+    Alert.alert('Remove sensation', `Remove ${getSensationTypeLabel(sensation.sensation_type).toLowerCase()} in ${getRegionLabel(sensation.region).toLowerCase()}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteBodySensation(sensation.id);
+            setSensations(previous => previous.filter(other => other.id !== sensation.id));
+          } catch (error) {
+            console.error('Error removing body sensation:', error);
+            Alert.alert('Error', 'Failed to remove the sensation. Please try again.');
+          }
+        }
+      }
+    ]);
+  };
+
+  const renderChip = (key: string, label: string, chipTarget: BodySensationTarget) => {
+    const active = targetKey(chipTarget) === targetKey(target);
+    return (
+      <Pressable
+        key={key}
+        style={[styles.chip, { backgroundColor: active ? '#007AFF' : chipBackground }]}
+        onPress={() => setTarget(chipTarget)}
+      >
+        <Text style={[styles.chipText, { color: active ? '#FFFFFF' : textColor }]} numberOfLines={1}>
+          {label}
+        </Text>
+      </Pressable>
+    );
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <View style={[styles.modeToggle, { backgroundColor: chipBackground }]}>
+        {(['pin', 'heatmap'] as PanelMode[]).map(option => (
+          <Pressable
+            key={option}
+            style={[styles.modeOption, mode === option && styles.modeOptionActive]}
+            onPress={() => setMode(option)}
+          >
+            <Text style={[styles.modeOptionText, { color: mode === option ? '#FFFFFF' : textColor }]}>
+              {option === 'pin' ? 'Sensations' : 'Heatmap'}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {mode === 'pin' && (
+        <>
+          {parts.length > 0 && flowchartId && (
+            <>
+              <Text style={[styles.sectionLabel, { color: textColor }]}>Parts</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                {parts.map(node => renderChip(`node-${node.id}`, node.label || node.id, { kind: 'node', flowchartId, nodeId: node.id }))}
+              </ScrollView>
+            </>
+          )}
+          {beliefs.length > 0 && (
+            <>
+              <Text style={[styles.sectionLabel, { color: textColor }]}>Beliefs</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                {beliefs.map(belief => renderChip(
+                  `belief-${belief.id}`,
+                  belief.emotion || belief.belief || 'Untitled',
+                  { kind: 'belief', beliefId: belief.id }
+                ))}
+              </ScrollView>
+            </>
+          )}
+        </>
+      )}
+
+      <View style={styles.mapContainer}>
+        <BodyMap
+          view={view}
+          onViewChange={setView}
+          mode={mode === 'pin' ? 'sensations' : 'heatmap'}
+          sensations={sensations}
+          heat={heat}
+          selectedRegion={pendingRegion?.region}
+          highlightedRegions={mode === 'heatmap' ? highlightedRegions : []}
+          onRegionPress={handleRegionPress}
+          width={Math.min(width * 0.6, 260)}
+        />
+      </View>
+
+      {mode === 'pin' && target && (
+        <View style={styles.list}>
+          {sensations.length === 0 && (
+            <Text style={[styles.emptyText, { color: textColor }]}>Tap the body where you feel it.</Text>
+          )}
+          {sensations.map(sensation => (
+            <Pressable key={sensation.id} style={styles.listItem} onLongPress={() => handleDelete(sensation)}>
+              <View style={[styles.temperatureDot, { backgroundColor: getTemperatureColor(sensation.temperature) }]} />
+              <Text style={[styles.listText, { color: textColor }]}>
+                {getRegionLabel(sensation.region)}: {getSensationTypeLabel(sensation.sensation_type).toLowerCase()}, {sensation.intensity}/10, {sensation.temperature}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+      )}
+
+      {mode === 'heatmap' && patterns.length > 0 && (
+        <View style={styles.list}>
+          <Text style={[styles.sectionLabel, { color: textColor }]}>Patterns</Text>
+          {patterns.map(pattern => (
+            <Pressable
+              key={`${pattern.subject.kind}-${pattern.subject.kind === 'emotion' ? pattern.subject.label : pattern.subject.partType}-${pattern.region}`}
+              style={[
+                styles.patternCard,
+                { backgroundColor: chipBackground },
+                selectedPattern === pattern && styles.patternCardSelected,
+              ]}
+              onPress={() => handlePatternPress(pattern)}
+            >
+              <Text style={[styles.listText, { color: textColor }]}>{pattern.explanation}</Text>
+            </Pressable>
+          ))}
+        </View>
+      )}
+
+      {mode === 'heatmap' && (
+        <View style={styles.list}>
+          {heat.length === 0 && (
+            <Text style={[styles.emptyText, { color: textColor }]}>No sensations recorded yet.</Text>
+          )}
+          {heat.map(entry => (
+            <View key={entry.region} style={styles.listItem}>
+              <View style={[styles.temperatureDot, { backgroundColor: `rgba(226, 87, 76, ${0.15 + entry.heat * 0.75})` }]} />
+              <Text style={[styles.listText, { color: textColor }]}>
+                {getRegionLabel(entry.region)}: {entry.count} {entry.count === 1 ? 'entry' : 'entries'}, average {entry.averageIntensity}/10, mostly {getSensationTypeLabel(entry.dominantType).toLowerCase()}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <BodySensationModal
+        visible={!!pendingRegion}
+        regionLabel={pendingRegion ? getRegionLabel(pendingRegion.region) : ''}
+        onCancel={() => setPendingRegion(null)}
+        onSubmit={handleSubmit}
+      />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 20,
+    paddingBottom: 120,
+  },
+  modeToggle: {
+    flexDirection: 'row',
+    alignSelf: 'center',
+    borderRadius: 8,
+    padding: 2,
+    marginBottom: 12,
+  },
+  modeOption: {
+    paddingHorizontal: 20,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  modeOptionActive: {
+    backgroundColor: '#007AFF',
+  },
+  modeOptionText: {
+    fontSize: 14,
+    fontWeight: '500',
+    fontFamily: 'Georgia',
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginBottom: 6,
+    fontFamily: 'Georgia',
+  },
+  chipRow: {
+    gap: 8,
+    paddingBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    maxWidth: 180,
+  },
+  chipText: {
+    fontSize: 14,
+    fontFamily: 'Georgia',
+  },
+  mapContainer: {
+    alignItems: 'center',
+    marginVertical: 8,
+  },
+  list: {
+    marginTop: 12,
+    gap: 8,
+  },
+  listItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  patternCard: {
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  patternCardSelected: {
+    borderColor: '#FF9500',
+  },
+  temperatureDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  listText: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: 'Georgia',
+  },
+  emptyText: {
+    fontSize: 14,
+    opacity: 0.7,
+    textAlign: 'center',
+    fontFamily: 'Georgia',
+  },
+});
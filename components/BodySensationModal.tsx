@@ -0,0 +1,300 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from 'react-native';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { SensationTemperature, SensationType } from '@/lib/types/body';
+import { SENSATION_TEMPERATURES, SENSATION_TYPES } from '@/lib/services/bodyRegions';
+
+interface BodySensationModalProps {
+  visible: boolean;
+  regionLabel: string;
+  onCancel: () => void;
+  onSubmit: (sensation: {
+    type: SensationType;
+    intensity: number;
+    temperature: SensationTemperature;
+    notes: string;
+  }) => void;
+}
+
+const INTENSITIES = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+export function BodySensationModal({
+  visible,
+  regionLabel,
+  onCancel,
+  onSubmit,
+}: BodySensationModalProps) {
+  const [type, setType] = useState<SensationType>('tension');
+  const [intensity, setIntensity] = useState(5);
+  const [temperature, setTemperature] = useState<SensationTemperature>('neutral');
+  const [notes, setNotes] = useState('');
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+
+  // Start each new sensation from the defaults
+  useEffect(() => {
+    if (visible) {
+      setType('tension');
+      setIntensity(5);
+      setTemperature('neutral');
+      setNotes('');
+    }
+  }, [visible]);
+
+  const textColor = isDark ? '#FFFFFF' : '#000000';
+  const optionBackground = isDark ? '#2C2C2E' : '#F2F2F7';
+
+  return (
+    <Modal
+      animationType="fade"
+      transparent
+      visible={visible}
+      onRequestClose={onCancel}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.centeredView}
+      >
+        <View style={styles.modalBackdrop}>
+          <View style={[
+            styles.modalView,
+            { backgroundColor: isDark ? '#1C1C1E' : '#FFFFFF' }
+          ]}>
+            <Text style={[styles.modalTitle, { color: textColor }]}>
+              What do you feel in your {regionLabel.toLowerCase()}?
+            </Text>
+
+            <ScrollView style={styles.formContainer}>
+              <View style={styles.inputGroup}>
+                <Text style={[styles.inputLabel, { color: textColor }]}>Sensation</Text>
+                <View style={styles.optionRow}>
+                  {SENSATION_TYPES.map(option => (
+                    <Pressable
+                      key={option.type}
+                      style={[
+                        styles.option,
+                        { backgroundColor: type === option.type ? '#007AFF' : optionBackground }
+                      ]}
+                      onPress={() => setType(option.type)}
+                    >
+                      <Text style={[
+                        styles.optionText,
+                        { color: type === option.type ? '#FFFFFF' : textColor }
+                      ]}>
+                        {option.label}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </View>
+
+              <View style={styles.inputGroup}>
+                <Text style={[styles.inputLabel, { color: textColor }]}>Intensity: {intensity}</Text>
+                <View style={styles.intensityRow}>
+                  {INTENSITIES.map(value => (
+                    <Pressable
+                      key={value}
+                      style={[
+                        styles.intensityOption,
+                        { backgroundColor: value <= intensity ? '#E2574C' : optionBackground }
+                      ]}
+                      onPress={() => setIntensity(value)}
+                    >
+                      <Text style={[
+                        styles.intensityText,
+                        { color: value <= intensity ? '#FFFFFF' : textColor }
+                      ]}>
+                        {value}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </View>
+
+              <View style={styles.inputGroup}>
+                <Text style={[styles.inputLabel, { color: textColor }]}>Temperature</Text>
+                <View style={styles.optionRow}>
+                  {SENSATION_TEMPERATURES.map(option => (
+                    <Pressable
+                      key={option.temperature}
+                      style={[
+                        styles.option,
+                        { backgroundColor: temperature === option.temperature ? option.color : optionBackground }
+                      ]}
+                      onPress={() => setTemperature(option.temperature)}
+                    >
+                      <Text style={[
+                        styles.optionText,
+                        { color: temperature === option.temperature ? '#FFFFFF' : textColor }
+                      ]}>
+                        {option.label}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </View>
+
+              <View style={styles.inputGroup}>
+                <Text style={[styles.inputLabel, { color: textColor }]}>Notes</Text>
+                <TextInput
+                  style={[
+                    styles.input,
+                    { backgroundColor: optionBackground, color: textColor }
+                  ]}
+                  placeholder="Anything else about it..."
+                  placeholderTextColor={isDark ? '#8E8E93' : '#C7C7CC'}
+                  value={notes}
+                  onChangeText={setNotes}
+                  multiline
+                  numberOfLines={3}
+                />
+              </View>
+            </ScrollView>
+
+            <View style={styles.buttonContainer}>
+              <Pressable
+                style={[styles.button, styles.cancelButton]}
+                onPress={onCancel}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </Pressable>
+
+              <Pressable
+                style={[styles.button, styles.submitButton]}
+                onPress={() => onSubmit({ type, intensity, temperature, notes })}
+              >
+                <Text style={styles.submitButtonText}>Save</Text>
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  centeredView: {
+    flex: 1,
+  },
+  modalBackdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalView: {
+    width: '90%',
+    maxWidth: 400,
+    maxHeight: '80%',
+    borderRadius: 20,
+    padding: 24,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 20,
+    textAlign: 'center',
+    fontFamily: 'Georgia',
+  },
+  formContainer: {
+    marginBottom: 20,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginBottom: 8,
+    fontFamily: 'Georgia',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '500',
+    fontFamily: 'Georgia',
+  },
+  intensityRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  intensityOption: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  intensityText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  input: {
+    height: 80,
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    paddingBottom: 12,
+    fontSize: 16,
+    fontFamily: 'Georgia',
+    textAlignVertical: 'top',
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  button: {
+    flex: 1,
+    height: 44,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#E5E5EA',
+  },
+  cancelButtonText: {
+    color: '#000000',
+    fontSize: 16,
+    fontWeight: '500',
+    fontFamily: 'Georgia',
+  },
+  submitButton: {
+    backgroundColor: '#007AFF',
+  },
+  submitButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+    fontFamily: 'Georgia',
+  },
+});
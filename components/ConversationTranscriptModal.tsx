@@ -0,0 +1,241 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  Pressable,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { ConversationWithMessages, ConversationMessageRow } from '@/lib/types/conversation';
+import { getConversationWithMessages } from '@/lib/services/conversations';
+
+interface ConversationTranscriptModalProps {
+  visible: boolean;
+  conversationId: string | null;
+  onClose: () => void;
+  // Offered when set: pick the conversation up again in a new session
+  onContinue?: (conversation: ConversationWithMessages) => void;
+}
+
+// m:ss for recorded audio
+const formatDuration = (ms: number): string => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export function ConversationTranscriptModal({
+  visible,
+  conversationId,
+  onClose,
+  onContinue,
+}: ConversationTranscriptModalProps) {
+  const [conversation, setConversation] = useState<ConversationWithMessages | null>(null);
+  const [loading, setLoading] = useState(false);
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+
+  useEffect(() => {
+    if (visible && conversationId) {
+      loadConversation(conversationId);
+    } else if (!visible) {
+      setConversation(null);
+    }
+  }, [visible, conversationId]);
+
+  const loadConversation = async (id: string) => {
+    try {
+      setLoading(true);
+      setConversation(await getConversationWithMessages(id));
+    } catch (error) {
+      console.error('❌ Error loading conversation:', error);
+      Alert.alert('Error', 'Failed to load conversation');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderMessage = (message: ConversationMessageRow) => {
+    const isUser = message.role === 'user';
+    if (message.role === 'system') return null;
+
+    return (
+      <View
+        key={message.id}
+        style={[
+          styles.messageBubble,
+          isUser ? styles.userBubble : styles.assistantBubble,
+          { backgroundColor: isUser ? '#007AFF' : (isDark ? '#2C2C2E' : '#E5E5EA') }
+        ]}
+      >
+        <Text style={[styles.messageText, { color: isUser ? '#FFFFFF' : (isDark ? '#FFFFFF' : '#000000') }]}>
+          {message.content}
+        </Text>
+        <Text style={[styles.messageMeta, { color: isUser ? 'rgba(255,255,255,0.7)' : (isDark ? '#8E8E93' : '#6D6D72') }]}>
+          {new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          {message.audio_duration_ms ? ` · 🎙️ ${formatDuration(message.audio_duration_ms)}` : ''}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      animationType="fade"
+      transparent
+      visible={visible}
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalBackdrop}>
+        <View style={[
+          styles.modalView,
+          { backgroundColor: isDark ? '#1C1C1E' : '#FFFFFF' }
+        ]}>
+          <Text style={[
+            styles.modalTitle,
+            { color: isDark ? '#FFFFFF' : '#000000' }
+          ]}>
+            {conversation?.title || 'Conversation'}
+          </Text>
+          {conversation && (
+            <Text style={[styles.subtitle, { color: isDark ? '#8E8E93' : '#6D6D72' }]}>
+              {new Date(conversation.started_at).toLocaleString()}
+              {' · '}{conversation.messages.length} messages
+              {conversation.flowchart_id ? ' · Saved to a map' : ''}
+            </Text>
+          )}
+
+          {loading ? (
+            <ActivityIndicator style={styles.loading} />
+          ) : !conversation || conversation.messages.length === 0 ? (
+            <Text style={[styles.emptyText, { color: isDark ? '#8E8E93' : '#6D6D72' }]}>
+              No messages in this conversation
+            </Text>
+          ) : (
+            <ScrollView style={styles.transcript} contentContainerStyle={styles.transcriptContent}>
+              {conversation.messages.map(renderMessage)}
+            </ScrollView>
+          )}
+
+          {onContinue && conversation && (
+            <Pressable
+              style={[styles.button, styles.continueButton]}
+              onPress={() => onContinue(conversation)}
+            >
+              <Text style={styles.continueButtonText}>Continue this conversation</Text>
+            </Pressable>
+          )}
+
+          <Pressable
+            style={[styles.button, styles.closeButton]}
+            onPress={onClose}
+          >
+            <Text style={styles.closeButtonText}>Close</Text>
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalBackdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalView: {
+    width: '90%',
+    maxWidth: 500,
+    maxHeight: '85%',
+    borderRadius: 20,
+    padding: 24,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+    fontFamily: 'Georgia',
+  },
+  subtitle: {
+    fontSize: 12,
+    marginTop: 4,
+    marginBottom: 16,
+    textAlign: 'center',
+    fontFamily: 'Georgia',
+  },
+  loading: {
+    marginVertical: 24,
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginVertical: 24,
+    fontSize: 14,
+    fontFamily: 'Georgia',
+  },
+  transcript: {
+    marginBottom: 16,
+  },
+  transcriptContent: {
+    gap: 8,
+  },
+  messageBubble: {
+    maxWidth: '85%',
+    borderRadius: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  userBubble: {
+    alignSelf: 'flex-end',
+  },
+  assistantBubble: {
+    alignSelf: 'flex-start',
+  },
+  messageText: {
+    fontSize: 15,
+    lineHeight: 21,
+    fontFamily: 'Georgia',
+  },
+  messageMeta: {
+    fontSize: 11,
+    marginTop: 4,
+    fontFamily: 'Georgia',
+  },
+  button: {
+    height: 44,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  continueButton: {
+    backgroundColor: '#007AFF',
+    marginBottom: 8,
+  },
+  continueButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '500',
+    fontFamily: 'Georgia',
+  },
+  closeButton: {
+    backgroundColor: '#E5E5EA',
+  },
+  closeButtonText: {
+    color: '#000000',
+    fontSize: 16,
+    fontWeight: '500',
+    fontFamily: 'Georgia',
+  },
+});
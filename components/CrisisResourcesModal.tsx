@@ -0,0 +1,238 @@
+import React, { useMemo } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  Pressable,
+  StyleSheet,
+  ScrollView,
+  Linking,
+  Platform,
+} from 'react-native';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { SafetyAssessment } from '@/lib/types/safety';
+import { CrisisResource, getCrisisResources } from '@/lib/services/crisisResources';
+
+interface CrisisResourcesModalProps {
+  visible: boolean;
+  assessment: SafetyAssessment | null;
+  // The user says they're safe and wants to keep talking
+  onContinue: () => void;
+  onEndSession: () => void;
+  onResourceContacted?: (resource: CrisisResource) => void;
+}
+
+const openLink = (url: string) => {
+  Linking.openURL(url).catch(error => console.error('❌ Error opening crisis resource:', error));
+};
+
+// iOS separates the sms body with "&", Android with "?"
+const smsUrl = (sms: NonNullable<CrisisResource['sms']>): string =>
+  sms.body
+    ? `sms:${sms.number}${Platform.OS === 'ios' ? '&' : '?'}body=${encodeURIComponent(sms.body)}`
+    : `sms:${sms.number}`;
+
+export function CrisisResourcesModal({
+  visible,
+  assessment,
+  onContinue,
+  onEndSession,
+  onResourceContacted,
+}: CrisisResourcesModalProps) {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const { emergencyNumber, resources } = useMemo(() => getCrisisResources(), []);
+  const isHighRisk = assessment?.level === 'high';
+
+  const contact = (resource: CrisisResource, url: string) => {
+    onResourceContacted?.(resource);
+    openLink(url);
+  };
+
+  const renderResource = (resource: CrisisResource) => (
+    <View
+      key={resource.name}
+      style={[styles.resource, { backgroundColor: isDark ? '#2C2C2E' : '#F2F2F7' }]}
+    >
+      <Text style={[styles.resourceName, { color: isDark ? '#FFFFFF' : '#000000' }]}>{resource.name}</Text>
+      <Text style={[styles.resourceDescription, { color: isDark ? '#8E8E93' : '#6D6D72' }]}>
+        {resource.description}
+      </Text>
+      <View style={styles.resourceActions}>
+        {resource.phone && (
+          <Pressable style={styles.resourceButton} onPress={() => contact(resource, `tel:${resource.phone}`)}>
+            <Text style={styles.resourceButtonText}>Call {resource.phone}</Text>
+          </Pressable>
+        )}
+        {resource.sms && (
+          <Pressable style={styles.resourceButton} onPress={() => contact(resource, smsUrl(resource.sms!))}>
+            <Text style={styles.resourceButtonText}>
+              Text {resource.sms.body ? `${resource.sms.body} to ` : ''}{resource.sms.number}
+            </Text>
+          </Pressable>
+        )}
+        {resource.url && (
+          <Pressable style={styles.resourceButton} onPress={() => contact(resource, resource.url!)}>
+            <Text style={styles.resourceButtonText}>Website</Text>
+          </Pressable>
+        )}
+      </View>
+    </View>
+  );
+
+  return (
+    <Modal
+      animationType="fade"
+      transparent
+      visible={visible}
+      onRequestClose={onContinue}
+    >
+      <View style={styles.modalBackdrop}>
+        <View style={[
+          styles.modalView,
+          { backgroundColor: isDark ? '#1C1C1E' : '#FFFFFF' }
+        ]}>
+          <Text style={[styles.modalTitle, { color: isDark ? '#FFFFFF' : '#000000' }]}>
+            {isHighRisk ? 'Your safety matters' : 'It sounds like things are really hard'}
+          </Text>
+          <Text style={[styles.message, { color: isDark ? '#FFFFFF' : '#000000' }]}>
+            {isHighRisk
+              ? "We've paused the conversation. You don't have to go through this alone - please reach out to someone who can help right now."
+              : "We've paused the conversation. If you're struggling, talking to someone can help."}
+          </Text>
+
+          {emergencyNumber && (
+            <Pressable
+              style={[styles.button, styles.emergencyButton]}
+              onPress={() => openLink(`tel:${emergencyNumber}`)}
+            >
+              <Text style={styles.emergencyButtonText}>In danger now? Call {emergencyNumber}</Text>
+            </Pressable>
+          )}
+
+          <ScrollView style={styles.resources} contentContainerStyle={styles.resourcesContent}>
+            {resources.map(renderResource)}
+          </ScrollView>
+
+          <Pressable style={[styles.button, styles.continueButton]} onPress={onContinue}>
+            <Text style={styles.continueButtonText}>{"I'm safe, continue"}</Text>
+          </Pressable>
+          <Pressable style={[styles.button, styles.closeButton]} onPress={onEndSession}>
+            <Text style={styles.closeButtonText}>End session</Text>
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalBackdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalView: {
+    width: '90%',
+    maxWidth: 500,
+    maxHeight: '85%',
+    borderRadius: 20,
+    padding: 24,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginBottom: 8,
+    fontFamily: 'Georgia',
+  },
+  message: {
+    fontSize: 15,
+    lineHeight: 21,
+    textAlign: 'center',
+    marginBottom: 16,
+    fontFamily: 'Georgia',
+  },
+  resources: {
+    marginBottom: 16,
+  },
+  resourcesContent: {
+    gap: 8,
+  },
+  resource: {
+    borderRadius: 12,
+    padding: 12,
+  },
+  resourceName: {
+    fontSize: 16,
+    fontWeight: '600',
+    fontFamily: 'Georgia',
+  },
+  resourceDescription: {
+    fontSize: 13,
+    marginTop: 2,
+    fontFamily: 'Georgia',
+  },
+  resourceActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  resourceButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#007AFF',
+  },
+  resourceButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '500',
+    fontFamily: 'Georgia',
+  },
+  button: {
+    height: 44,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emergencyButton: {
+    backgroundColor: '#FF3B30',
+    marginBottom: 16,
+  },
+  emergencyButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+    fontFamily: 'Georgia',
+  },
+  continueButton: {
+    backgroundColor: '#007AFF',
+    marginBottom: 8,
+  },
+  continueButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '500',
+    fontFamily: 'Georgia',
+  },
+  closeButton: {
+    backgroundColor: '#E5E5EA',
+  },
+  closeButtonText: {
+    color: '#000000',
+    fontSize: 16,
+    fontWeight: '500',
+    fontFamily: 'Georgia',
+  },
+});
@@ -0,0 +1,161 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { PanResponder, Pressable, StyleSheet, Text, View } from 'react-native';
+import Svg, { Circle, G, Line, Text as SvgText } from 'react-native-svg';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { getFrequencyColor } from '@/lib/types/emotion';
+import { EmotionCluster, EmotionSpaceRotation, EmotionVector } from '@/lib/types/emotionSpace';
+import { AXIS_LIMIT, EMOTION_AXES, getClusterColor, projectVector, toEmotionVector } from '@/lib/services/emotionSpace';
+import { EmotionWithScore } from '@/lib/services/emotions';
+
+interface EmotionSpaceScatterProps {
+  emotions: EmotionWithScore[];
+  clusters?: EmotionCluster[];
+  selectedId?: string | null;
+  onSelect?: (emotion: EmotionWithScore) => void;
+  size: number;
+}
+
+const INITIAL_ROTATION: EmotionSpaceRotation = { yaw: -0.6, pitch: 0.35 };
+// Radians per pixel dragged
+const ROTATION_SPEED = 0.01;
+const MAX_PITCH = Math.PI / 2;
+
+const L = AXIS_LIMIT;
+const CUBE_CORNERS: EmotionVector[] = [
+  [-L, -L, -L], [L, -L, -L], [L, L, -L], [-L, L, -L],
+  [-L, -L, L], [L, -L, L], [L, L, L], [-L, L, L],
+];
+const CUBE_EDGES: [number, number][] = [
+  [0, 1], [1, 2], [2, 3], [3, 0],
+  [4, 5], [5, 6], [6, 7], [7, 4],
+  [0, 4], [1, 5], [2, 6], [3, 7],
+];
+
+/**
+ * Beliefs as points in the three slider dimensions, coloured by frequency.
+ * Drag to rotate; tap a point to select it.
+ */
+export function EmotionSpaceScatter({ emotions, clusters = [], selectedId, onSelect, size }: EmotionSpaceScatterProps) {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const [rotation, setRotation] = useState<EmotionSpaceRotation>(INITIAL_ROTATION);
+  const dragStart = useRef(rotation);
+  // Latest rotation, read when a drag starts
+  const rotationRef = useRef(rotation);
+  rotationRef.current = rotation;
+
+  const panResponder = useMemo(() => PanResponder.create({
+    // Let taps through to the points; only claim actual drags
+    onMoveShouldSetPanResponder: (_, gesture) => Math.abs(gesture.dx) > 4 || Math.abs(gesture.dy) > 4,
+    // Keep rotating rather than handing vertical drags to a parent ScrollView
+    onPanResponderTerminationRequest: () => false,
+    onPanResponderGrant: () => {
+      dragStart.current = rotationRef.current;
+    },
+    onPanResponderMove: (_, gesture) => {
+      setRotation({
+        yaw: dragStart.current.yaw + gesture.dx * ROTATION_SPEED,
+        pitch: Math.max(-MAX_PITCH, Math.min(MAX_PITCH, dragStart.current.pitch + gesture.dy * ROTATION_SPEED)),
+      });
+    },
+  }), []);
+
+  const clusterByBelief = useMemo(() => {
+    const byBelief = new Map<string, number>();
+    clusters.forEach(cluster => cluster.beliefIds.forEach(id => byBelief.set(id, cluster.id)));
+    return byBelief;
+  }, [clusters]);
+
+  const project = (vector: EmotionVector) => projectVector(vector, rotation, size);
+
+  // Far points first so nearer ones are drawn on top
+  const points = emotions
+    .map(emotion => ({ emotion, point: project(toEmotionVector(emotion)) }))
+    .sort((a, b) => a.point.depth - b.point.depth);
+
+  const edgeColor = isDark ? 'rgba(255, 255, 255, 0.15)' : 'rgba(0, 0, 0, 0.12)';
+  const axisColor = isDark ? 'rgba(255, 255, 255, 0.4)' : 'rgba(0, 0, 0, 0.35)';
+  const labelColor = isDark ? '#8E8E93' : '#6D6D72';
+
+  return (
+    <View style={styles.container}>
+      <View {...panResponder.panHandlers}>
+        <Svg width={size} height={size}>
+          {CUBE_EDGES.map(([from, to]) => {
+            const a = project(CUBE_CORNERS[from]);
+            const b = project(CUBE_CORNERS[to]);
+            return <Line key={`edge-${from}-${to}`} x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke={edgeColor} strokeWidth={1} />;
+          })}
+
+          {EMOTION_AXES.map((axis, index) => {
+            const negative: EmotionVector = [0, 0, 0];
+            const positive: EmotionVector = [0, 0, 0];
+            negative[index] = -L;
+            positive[index] = L;
+            const a = project(negative);
+            const b = project(positive);
+            return (
+              <G key={axis.key}>
+                <Line x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke={axisColor} strokeWidth={1} strokeDasharray="3,3" />
+                <SvgText x={a.x} y={a.y} fontSize={10} fill={labelColor} textAnchor="middle">{axis.negative}</SvgText>
+                <SvgText x={b.x} y={b.y} fontSize={10} fill={labelColor} textAnchor="middle">{axis.positive}</SvgText>
+              </G>
+            );
+          })}
+
+          {clusters.map(cluster => {
+            const center = project(cluster.centroid);
+            return (
+              <Circle
+                key={`cluster-${cluster.id}`}
+                cx={center.x}
+                cy={center.y}
+                r={14 * center.scale}
+                fill={getClusterColor(cluster.id)}
+                fillOpacity={0.12}
+                stroke={getClusterColor(cluster.id)}
+                strokeDasharray="4,3"
+              />
+            );
+          })}
+
+          {points.map(({ emotion, point }) => {
+            const cluster = clusterByBelief.get(emotion.id);
+            const selected = emotion.id === selectedId;
+            return (
+              <Circle
+                key={emotion.id}
+                cx={point.x}
+                cy={point.y}
+                r={(selected ? 8 : 6) * point.scale}
+                fill={getFrequencyColor(emotion.frequency)}
+                fillOpacity={emotion.released ? 0.45 : 0.9}
+                stroke={selected ? (isDark ? '#FFFFFF' : '#000000') : cluster !== undefined ? getClusterColor(cluster) : 'none'}
+                strokeWidth={selected ? 2.5 : 2}
+                onPress={onSelect ? () => onSelect(emotion) : undefined}
+              />
+            );
+          })}
+        </Svg>
+      </View>
+
+      <Pressable style={styles.resetButton} onPress={() => setRotation(INITIAL_ROTATION)}>
+        <Text style={[styles.resetText, { color: labelColor }]}>Reset view</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  resetButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  resetText: {
+    fontSize: 13,
+    fontFamily: 'Georgia',
+  },
+});
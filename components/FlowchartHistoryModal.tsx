@@ -0,0 +1,288 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  Pressable,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { FlowchartStructure, FlowchartVersionRow, FlowchartVersionAuthor } from '@/lib/types/flowchart';
+import {
+  getFlowchartVersions,
+  diffFlowcharts,
+  isEmptyDiff,
+  summarizeFlowchartDiff,
+} from '@/lib/services/flowchartVersions';
+import { restoreFlowchartVersion } from '@/lib/services/flowcharts';
+
+interface FlowchartHistoryModalProps {
+  visible: boolean;
+  flowchartId: string | null;
+  currentStructure: FlowchartStructure | null;
+  onClose: () => void;
+  onRestored: (structure: FlowchartStructure) => void;
+}
+
+const AUTHOR_LABELS: Record<FlowchartVersionAuthor, string> = {
+  user: '✏️ You',
+  ai: '🤖 AI',
+  voice: '🎙️ Voice',
+};
+
+export function FlowchartHistoryModal({
+  visible,
+  flowchartId,
+  currentStructure,
+  onClose,
+  onRestored,
+}: FlowchartHistoryModalProps) {
+  const [versions, setVersions] = useState<FlowchartVersionRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+
+  useEffect(() => {
+    if (visible && flowchartId) {
+      loadVersions(flowchartId);
+    }
+  }, [visible, flowchartId]);
+
+  const loadVersions = async (id: string) => {
+    try {
+      setLoading(true);
+      setVersions(await getFlowchartVersions(id));
+    } catch (error) {
+      console.error('❌ Error loading flowchart history:', error);
+      Alert.alert('Error', 'Failed to load version history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestore = (version: FlowchartVersionRow) => {
+    Alert.alert(
+      'Restore Version',
+      `Restore version ${version.version_number}? Your current map will be kept in the history.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Restore',
+          onPress: async () => {
+            try {
+              setRestoringId(version.id);
+              const structure = await restoreFlowchartVersion(version.id);
+              onRestored(structure);
+              onClose();
+            } catch (error) {
+              console.error('❌ Error restoring version:', error);
+              Alert.alert('Error', 'Failed to restore version');
+            } finally {
+              setRestoringId(null);
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const renderVersion = (version: FlowchartVersionRow, index: number) => {
+    // Compare each version with the one saved before it
+    const previous = versions[index + 1];
+    const changeSummary = previous
+      ? summarizeFlowchartDiff(diffFlowcharts(previous.structure, version.structure))
+      : `${version.structure.nodes.length} nodes, ${version.structure.edges.length} edges`;
+    const matchesCurrent = currentStructure
+      ? isEmptyDiff(diffFlowcharts(currentStructure, version.structure))
+      : false;
+    const createdAt = new Date(version.created_at);
+
+    return (
+      <View
+        key={version.id}
+        style={[styles.versionRow, { borderColor: isDark ? '#38383A' : '#E5E5EA' }]}
+      >
+        <View style={styles.versionInfo}>
+          <Text style={[styles.versionTitle, { color: isDark ? '#FFFFFF' : '#000000' }]}>
+            Version {version.version_number} · {AUTHOR_LABELS[version.author] || version.author}
+          </Text>
+          <Text style={[styles.versionMeta, { color: isDark ? '#8E8E93' : '#6D6D72' }]}>
+            {createdAt.toLocaleDateString()} {createdAt.toLocaleTimeString()}
+          </Text>
+          {version.description && (
+            <Text style={[styles.versionDescription, { color: isDark ? '#CCCCCC' : '#333333' }]}>
+              {version.description}
+            </Text>
+          )}
+          <Text style={[styles.versionMeta, { color: isDark ? '#8E8E93' : '#6D6D72' }]}>
+            {changeSummary}
+          </Text>
+        </View>
+        {matchesCurrent ? (
+          <Text style={styles.currentLabel}>Current</Text>
+        ) : (
+          <Pressable
+            style={styles.restoreButton}
+            onPress={() => handleRestore(version)}
+            disabled={restoringId !== null}
+          >
+            {restoringId === version.id ? (
+              <ActivityIndicator color="#FFFFFF" size="small" />
+            ) : (
+              <Text style={styles.restoreButtonText}>Restore</Text>
+            )}
+          </Pressable>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      animationType="fade"
+      transparent
+      visible={visible}
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalBackdrop}>
+        <View style={[
+          styles.modalView,
+          { backgroundColor: isDark ? '#1C1C1E' : '#FFFFFF' }
+        ]}>
+          <Text style={[
+            styles.modalTitle,
+            { color: isDark ? '#FFFFFF' : '#000000' }
+          ]}>
+            Version History
+          </Text>
+
+          {loading ? (
+            <ActivityIndicator style={styles.loading} />
+          ) : versions.length === 0 ? (
+            <Text style={[styles.emptyText, { color: isDark ? '#8E8E93' : '#6D6D72' }]}>
+              No saved versions yet
+            </Text>
+          ) : (
+            <ScrollView style={styles.versionList}>
+              {versions.map(renderVersion)}
+            </ScrollView>
+          )}
+
+          <Pressable
+            style={[styles.button, styles.closeButton]}
+            onPress={onClose}
+          >
+            <Text style={styles.closeButtonText}>Close</Text>
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalBackdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalView: {
+    width: '90%',
+    maxWidth: 500,
+    maxHeight: '80%',
+    borderRadius: 20,
+    padding: 24,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 16,
+    textAlign: 'center',
+    fontFamily: 'Georgia',
+  },
+  loading: {
+    marginVertical: 24,
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginVertical: 24,
+    fontSize: 14,
+    fontFamily: 'Georgia',
+  },
+  versionList: {
+    marginBottom: 16,
+  },
+  versionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    gap: 12,
+  },
+  versionInfo: {
+    flex: 1,
+  },
+  versionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: 'Georgia',
+  },
+  versionMeta: {
+    fontSize: 12,
+    marginTop: 2,
+    fontFamily: 'Georgia',
+  },
+  versionDescription: {
+    fontSize: 13,
+    marginTop: 4,
+    fontFamily: 'Georgia',
+  },
+  currentLabel: {
+    color: '#34C759',
+    fontSize: 13,
+    fontWeight: '600',
+    fontFamily: 'Georgia',
+  },
+  restoreButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  restoreButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+    fontFamily: 'Georgia',
+  },
+  button: {
+    height: 44,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  closeButton: {
+    backgroundColor: '#E5E5EA',
+  },
+  closeButtonText: {
+    color: '#000000',
+    fontSize: 16,
+    fontWeight: '500',
+    fontFamily: 'Georgia',
+  },
+});
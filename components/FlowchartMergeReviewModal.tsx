@@ -0,0 +1,284 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  Pressable,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { FlowchartStructure } from '@/lib/types/flowchart';
+import {
+  mergeFlowcharts,
+  summarizeMerge,
+  FlowchartMergeResult,
+  MergeConflict,
+  MergeResolution,
+  MergeResolutions,
+} from '@/lib/services/flowchartMerge';
+
+interface FlowchartMergeReviewModalProps {
+  visible: boolean;
+  base: FlowchartStructure | null;
+  incoming: FlowchartStructure | null;
+  saving?: boolean;
+  onConfirm: (result: FlowchartMergeResult) => void;
+  // Offered as an alternative to merging when provided
+  onSaveSeparately?: () => void;
+  onCancel: () => void;
+}
+
+const RESOLUTION_LABELS: Record<MergeResolution, string> = {
+  merge: 'Same part',
+  separate: 'Keep both',
+  keep_existing: 'Keep mine',
+  use_incoming: 'Use new',
+};
+
+export function FlowchartMergeReviewModal({
+  visible,
+  base,
+  incoming,
+  saving = false,
+  onConfirm,
+  onSaveSeparately,
+  onCancel,
+}: FlowchartMergeReviewModalProps) {
+  const [resolutions, setResolutions] = useState<MergeResolutions>({});
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+
+  // Start every review from the default resolutions
+  useEffect(() => {
+    if (visible) {
+      setResolutions({});
+    }
+  }, [visible, base, incoming]);
+
+  const result = useMemo(
+    () => (base && incoming ? mergeFlowcharts(base, incoming, resolutions) : null),
+    [base, incoming, resolutions]
+  );
+
+  const handleResolve = (conflict: MergeConflict, resolution: MergeResolution) => {
+    setResolutions(previous => ({ ...previous, [conflict.id]: resolution }));
+  };
+
+  const renderConflict = (conflict: MergeConflict) => (
+    <View
+      key={conflict.id}
+      style={[styles.conflictRow, { borderColor: isDark ? '#38383A' : '#E5E5EA' }]}
+    >
+      <Text style={[styles.conflictMessage, { color: isDark ? '#FFFFFF' : '#000000' }]}>
+        {conflict.message}
+      </Text>
+      {conflict.kind === 'description' && (
+        <Text style={[styles.conflictDetail, { color: isDark ? '#8E8E93' : '#6D6D72' }]}>
+          Mine: {conflict.existing}{'\n'}New: {conflict.incoming}
+        </Text>
+      )}
+      <View style={styles.optionRow}>
+        {conflict.options.map(option => {
+          const selected = conflict.resolution === option;
+          return (
+            <Pressable
+              key={option}
+              style={[
+                styles.optionButton,
+                selected
+                  ? styles.optionButtonSelected
+                  : { backgroundColor: isDark ? '#2C2C2E' : '#F2F2F7' }
+              ]}
+              onPress={() => handleResolve(conflict, option)}
+            >
+              <Text style={[
+                styles.optionText,
+                { color: selected ? '#FFFFFF' : (isDark ? '#FFFFFF' : '#000000') }
+              ]}>
+                {RESOLUTION_LABELS[option]}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+    </View>
+  );
+
+  return (
+    <Modal
+      animationType="fade"
+      transparent
+      visible={visible}
+      onRequestClose={onCancel}
+    >
+      <View style={styles.modalBackdrop}>
+        <View style={[
+          styles.modalView,
+          { backgroundColor: isDark ? '#1C1C1E' : '#FFFFFF' }
+        ]}>
+          <Text style={[
+            styles.modalTitle,
+            { color: isDark ? '#FFFFFF' : '#000000' }
+          ]}>
+            Review Changes
+          </Text>
+
+          {result && (
+            <>
+              <Text style={[styles.summaryText, { color: isDark ? '#8E8E93' : '#6D6D72' }]}>
+                {summarizeMerge(result)}
+              </Text>
+
+              {result.conflicts.length === 0 ? (
+                <Text style={[styles.emptyText, { color: isDark ? '#8E8E93' : '#6D6D72' }]}>
+                  No conflicts - the new parts fit into your map as they are.
+                </Text>
+              ) : (
+                <ScrollView style={styles.conflictList}>
+                  {result.conflicts.map(renderConflict)}
+                </ScrollView>
+              )}
+            </>
+          )}
+
+          {saving ? (
+            <ActivityIndicator style={styles.saving} />
+          ) : (
+            <>
+              <Pressable
+                style={[styles.button, styles.confirmButton]}
+                onPress={() => result && onConfirm(result)}
+                disabled={!result}
+              >
+                <Text style={styles.confirmButtonText}>Merge into My Map</Text>
+              </Pressable>
+              {onSaveSeparately && (
+                <Pressable
+                  style={[styles.button, styles.closeButton]}
+                  onPress={onSaveSeparately}
+                >
+                  <Text style={styles.closeButtonText}>Save as Separate Map</Text>
+                </Pressable>
+              )}
+              <Pressable
+                style={[styles.button, styles.closeButton]}
+                onPress={onCancel}
+              >
+                <Text style={styles.closeButtonText}>Cancel</Text>
+              </Pressable>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalBackdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalView: {
+    width: '90%',
+    maxWidth: 500,
+    maxHeight: '80%',
+    borderRadius: 20,
+    padding: 24,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 4,
+    textAlign: 'center',
+    fontFamily: 'Georgia',
+  },
+  summaryText: {
+    fontSize: 13,
+    textAlign: 'center',
+    marginBottom: 12,
+    fontFamily: 'Georgia',
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginVertical: 16,
+    fontSize: 14,
+    fontFamily: 'Georgia',
+  },
+  conflictList: {
+    marginBottom: 8,
+  },
+  conflictRow: {
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  conflictMessage: {
+    fontSize: 14,
+    fontFamily: 'Georgia',
+  },
+  conflictDetail: {
+    fontSize: 12,
+    marginTop: 4,
+    fontFamily: 'Georgia',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  optionButton: {
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  optionButtonSelected: {
+    backgroundColor: '#007AFF',
+  },
+  optionText: {
+    fontSize: 13,
+    fontWeight: '500',
+    fontFamily: 'Georgia',
+  },
+  saving: {
+    marginVertical: 16,
+  },
+  button: {
+    height: 44,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  confirmButton: {
+    backgroundColor: '#007AFF',
+  },
+  confirmButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+    fontFamily: 'Georgia',
+  },
+  closeButton: {
+    backgroundColor: '#E5E5EA',
+  },
+  closeButtonText: {
+    color: '#000000',
+    fontSize: 16,
+    fontWeight: '500',
+    fontFamily: 'Georgia',
+  },
+});
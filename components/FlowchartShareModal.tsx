@@ -0,0 +1,139 @@
+import React from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  Pressable,
+  StyleSheet,
+} from 'react-native';
+import { useColorScheme } from '@/hooks/useColorScheme';
+
+export type FlowchartShareFormat = 'png' | 'svg' | 'mermaid' | 'dot' | 'template';
+
+interface FlowchartShareModalProps {
+  visible: boolean;
+  onSelect: (format: FlowchartShareFormat) => void;
+  onClose: () => void;
+}
+
+const SHARE_OPTIONS: { format: FlowchartShareFormat; title: string; subtitle: string }[] = [
+  { format: 'png', title: '🖼️ Image (PNG)', subtitle: 'A picture of your map' },
+  { format: 'svg', title: '📐 Vector image (SVG)', subtitle: 'Scales to any size' },
+  { format: 'mermaid', title: '🧜 Mermaid diagram', subtitle: 'Paste into notes apps' },
+  { format: 'dot', title: '🕸️ Graphviz DOT', subtitle: 'For diagram tools' },
+  { format: 'template', title: '📄 JSON template', subtitle: 'Reference for AI generation' },
+];
+
+export function FlowchartShareModal({
+  visible,
+  onSelect,
+  onClose,
+}: FlowchartShareModalProps) {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+
+  return (
+    <Modal
+      animationType="fade"
+      transparent
+      visible={visible}
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalBackdrop}>
+        <View style={[
+          styles.modalView,
+          { backgroundColor: isDark ? '#1C1C1E' : '#FFFFFF' }
+        ]}>
+          <Text style={[
+            styles.modalTitle,
+            { color: isDark ? '#FFFFFF' : '#000000' }
+          ]}>
+            Share Map
+          </Text>
+
+          {SHARE_OPTIONS.map(option => (
+            <Pressable
+              key={option.format}
+              style={[styles.optionRow, { borderColor: isDark ? '#38383A' : '#E5E5EA' }]}
+              onPress={() => onSelect(option.format)}
+            >
+              <Text style={[styles.optionTitle, { color: isDark ? '#FFFFFF' : '#000000' }]}>
+                {option.title}
+              </Text>
+              <Text style={[styles.optionSubtitle, { color: isDark ? '#8E8E93' : '#6D6D72' }]}>
+                {option.subtitle}
+              </Text>
+            </Pressable>
+          ))}
+
+          <Pressable
+            style={[styles.button, styles.closeButton]}
+            onPress={onClose}
+          >
+            <Text style={styles.closeButtonText}>Cancel</Text>
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalBackdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalView: {
+    width: '90%',
+    maxWidth: 400,
+    borderRadius: 20,
+    padding: 24,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 8,
+    textAlign: 'center',
+    fontFamily: 'Georgia',
+  },
+  optionRow: {
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  optionTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    fontFamily: 'Georgia',
+  },
+  optionSubtitle: {
+    fontSize: 12,
+    marginTop: 2,
+    fontFamily: 'Georgia',
+  },
+  button: {
+    height: 44,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  closeButton: {
+    backgroundColor: '#E5E5EA',
+  },
+  closeButtonText: {
+    color: '#000000',
+    fontSize: 16,
+    fontWeight: '500',
+    fontFamily: 'Georgia',
+  },
+});
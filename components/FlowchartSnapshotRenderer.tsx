@@ -0,0 +1,63 @@
+import React, { useMemo, useRef } from 'react';
+import { View, StyleSheet } from 'react-native';
+import Svg, { parse } from 'react-native-svg';
+import { FlowchartStructure } from '@/lib/types/flowchart';
+import { renderFlowchartToSvg, getSnapshotViewBox } from '@/lib/services/flowchartSnapshot';
+
+interface FlowchartSnapshotRendererProps {
+  flowchart: FlowchartStructure;
+  onCapture: (base64Png: string) => void;
+  onError: (error: unknown) => void;
+}
+
+// Render at twice the map size so the PNG stays sharp on retina screens
+const PNG_SCALE = 2;
+
+/**
+ * Renders the snapshot SVG off-screen and rasterizes it to a base64 PNG.
+ * Mount it when a PNG is needed and unmount it once onCapture fires.
+ */
+export function FlowchartSnapshotRenderer({ flowchart, onCapture, onError }: FlowchartSnapshotRendererProps) {
+  const svgRef = useRef<Svg>(null);
+  const capturedRef = useRef(false);
+
+  const { ast, viewBox } = useMemo(() => ({
+    ast: parse(renderFlowchartToSvg(flowchart)),
+    viewBox: getSnapshotViewBox(flowchart)
+  }), [flowchart]);
+
+  const handleLayout = () => {
+    if (capturedRef.current || !svgRef.current) return;
+    capturedRef.current = true;
+
+    try {
+      svgRef.current.toDataURL(
+        (base64: string) => onCapture(base64),
+        { width: viewBox.width * PNG_SCALE, height: viewBox.height * PNG_SCALE }
+      );
+    } catch (error) {
+      onError(error);
+    }
+  };
+
+  if (!ast) {
+    return null;
+  }
+
+  return (
+    <View style={styles.offscreen} pointerEvents="none" onLayout={handleLayout}>
+      <Svg ref={svgRef} {...ast.props}>
+        {ast.children}
+      </Svg>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  offscreen: {
+    position: 'absolute',
+    left: -10000,
+    top: 0,
+    opacity: 0,
+  },
+});
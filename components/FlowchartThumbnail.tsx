@@ -0,0 +1,31 @@
+import React, { useMemo } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { SvgXml } from 'react-native-svg';
+import { FlowchartStructure } from '@/lib/types/flowchart';
+import { renderFlowchartToSvg } from '@/lib/services/flowchartSnapshot';
+
+interface FlowchartThumbnailProps {
+  flowchart: FlowchartStructure;
+  size?: number;
+}
+
+/**
+ * Static preview of a map, drawn from the same SVG as the snapshot export.
+ */
+export function FlowchartThumbnail({ flowchart, size = 72 }: FlowchartThumbnailProps) {
+  const xml = useMemo(() => renderFlowchartToSvg(flowchart, { padding: 20 }), [flowchart]);
+
+  return (
+    <View style={[styles.container, { width: size, height: size }]}>
+      <SvgXml xml={xml} width={size} height={size} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 8,
+    overflow: 'hidden',
+    backgroundColor: '#0a0a0a',
+  },
+});
@@ -12,6 +12,15 @@ import {
   PartType 
 } from '@/lib/types/flowchart';
 import { useColorScheme } from '@/hooks/useColorScheme';
+import {
+  wrapTextForCircle,
+  calculateMaxNodeRadius,
+  getShapeRadiusForEqualArea,
+  generatePolygonPoints,
+  getEdgeLabelPosition,
+  getEdgeDisplayLabel,
+  MIN_NODE_RADIUS
+} from '@/lib/services/flowchartGeometry';
 
 interface FlowchartViewerProps {
   flowchart: FlowchartStructure;
@@ -66,100 +75,6 @@ export function FlowchartViewer({
   const focalY = useSharedValue(0);
   const opacity = useSharedValue(0); // Start with 0 opacity
 
-  // Helper functions to generate shape paths
-  const generatePentagonPath = (centerX: number, centerY: number, radius: number): string => {
-    const points = [];
-    for (let i = 0; i < 5; i++) {
-      const angle = (i * 2 * Math.PI / 5) - (Math.PI / 2); // Start from top
-      const x = centerX + radius * Math.cos(angle);
-      const y = centerY + radius * Math.sin(angle);
-      points.push(`${x},${y}`);
-    }
-    return points.join(' ');
-  };
-
-  const generateHexagonPath = (centerX: number, centerY: number, radius: number): string => {
-    const points = [];
-    for (let i = 0; i < 6; i++) {
-      const angle = (i * 2 * Math.PI / 6) - (Math.PI / 2); // Start from top
-      const x = centerX + radius * Math.cos(angle);
-      const y = centerY + radius * Math.sin(angle);
-      points.push(`${x},${y}`);
-    }
-    return points.join(' ');
-  };
-
-  const generateTrianglePath = (centerX: number, centerY: number, radius: number): string => {
-    const points = [];
-    for (let i = 0; i < 3; i++) {
-      const angle = (i * 2 * Math.PI / 3) - (Math.PI / 2); // Start from top
-      const x = centerX + radius * Math.cos(angle);
-      const y = centerY + radius * Math.sin(angle);
-      points.push(`${x},${y}`);
-    }
-    return points.join(' ');
-  };
-
-  // Simplified helper function to get approximate edge position for label placement
-  const getApproximateEdgePosition = (fromNode: FlowchartNode, toNode: FlowchartNode) => {
-    // Calculate direction from fromNode to toNode
-    const dx = toNode.x - fromNode.x;
-    const dy = toNode.y - fromNode.y;
-    const distance = Math.sqrt(dx * dx + dy * dy);
-    
-    if (distance === 0) return { x: fromNode.x, y: fromNode.y };
-    
-    // Get the shape radii for both nodes
-    const fromRadius = getShapeRadiusForEqualArea(maxNodeRadius, fromNode.type);
-    const toRadius = getShapeRadiusForEqualArea(maxNodeRadius, toNode.type);
-    
-    // Calculate approximate edge positions by moving inward from center by radius
-    const unitX = dx / distance;
-    const unitY = dy / distance;
-    
-    const fromEdgeX = fromNode.x + unitX * fromRadius;
-    const fromEdgeY = fromNode.y + unitY * fromRadius;
-    
-    const toEdgeX = toNode.x - unitX * toRadius;
-    const toEdgeY = toNode.y - unitY * toRadius;
-    
-    // Return midpoint between approximate edge positions
-    const midX = (fromEdgeX + toEdgeX) / 2;
-    const midY = (fromEdgeY + toEdgeY) / 2;
-    
-    return { x: midX, y: midY };
-  };
-
-  // Helper function to wrap text optimally for circular display
-  const wrapTextForCircle = (text: string, maxCharsPerLine: number = 12): string[] => {
-    const words = text.split(' ');
-    const lines: string[] = [];
-    let currentLine = '';
-    
-    for (const word of words) {
-      const testLine = currentLine ? `${currentLine} ${word}` : word;
-      
-      if (testLine.length <= maxCharsPerLine) {
-        currentLine = testLine;
-      } else {
-        if (currentLine) {
-          lines.push(currentLine);
-          currentLine = word;
-        } else {
-          // Word itself is too long, break it
-          lines.push(word.substring(0, maxCharsPerLine));
-          currentLine = word.substring(maxCharsPerLine);
-        }
-      }
-    }
-    
-    if (currentLine) {
-      lines.push(currentLine);
-    }
-    
-    return lines;
-  };
-
   // Helper function to calculate node radius (matches renderNode logic)
   const calculateNodeRadius = (node: FlowchartNode) => {
     // For bounds calculation, use the maximum radius to ensure proper spacing
@@ -175,20 +90,8 @@ export function FlowchartViewer({
   
   // Calculate the maximum radius needed for all nodes to ensure uniform sizing
   const maxNodeRadius = useMemo(() => {
-    if (!flowchart || flowchart.nodes.length === 0) return 35;
-    
-    const lineHeight = 16; // Define lineHeight constant
-    
-    const radii = flowchart.nodes.map(node => {
-      const nodeLabel = node.id || 'Untitled';
-      const wrappedLines = wrapTextForCircle(nodeLabel);
-      const maxLineLength = Math.max(...wrappedLines.map(line => line.length));
-      const textHeight = wrappedLines.length * lineHeight;
-      const textWidth = maxLineLength * 8; // Approximate character width
-      return Math.max(35, Math.max(textWidth / 2, textHeight / 2) + 15);
-    });
-    
-    return Math.max(...radii);
+    if (!flowchart) return MIN_NODE_RADIUS;
+    return calculateMaxNodeRadius(flowchart.nodes);
   }, [flowchart?.nodes, flowchart?.nodes?.map(n => n.type).join(',')]);
   
   // Track node count and IDs to detect structural changes vs position changes
@@ -444,46 +347,6 @@ export function FlowchartViewer({
     };
   });
 
-  // Helper function to calculate equivalent radius for equal area shapes
-  const getShapeRadiusForEqualArea = (baseRadius: number, shapeType: string): number => {
-    // Base area is a circle: π * r²
-    const baseArea = Math.PI * baseRadius * baseRadius;
-    
-    const nodeType = String(shapeType).toLowerCase().trim();
-    
-    switch (nodeType) {
-      case 'need': // Pentagon
-        // Pentagon area = (1/4) * √(25 + 10√5) * s²
-        // Where s is the side length, and for a regular pentagon inscribed in a circle: s = 2r * sin(π/5)
-        // Simplifying: Pentagon area ≈ 2.377 * r²
-        // To get equal area: baseArea = 2.377 * r², so r = √(baseArea / 2.377)
-        return Math.sqrt(baseArea / 2.377);
-        
-      case 'self': // Circle
-        // Circle area = π * r², so radius stays the same
-        return baseRadius;
-        
-      case 'manager': // Hexagon
-        // Hexagon area = (3√3/2) * r² ≈ 2.598 * r²
-        // To get equal area: baseArea = 2.598 * r², so r = √(baseArea / 2.598)
-        return Math.sqrt(baseArea / 2.598);
-        
-      case 'exile': // Square
-        // Square area = (2r)² = 4r² (where 2r is the side length for a square inscribed in a circle)
-        // To get equal area: baseArea = 4 * r², so r = √(baseArea / 4)
-        return Math.sqrt(baseArea / 4);
-        
-      case 'firefighter': // Triangle
-        // Equilateral triangle area = (3√3/4) * s²
-        // For triangle inscribed in circle: s = r * √3, so area = (3√3/4) * (r√3)² = (3√3/4) * 3r² ≈ 2.598 * r²
-        // To get equal area: baseArea = 2.598 * r², so r = √(baseArea / 2.598)
-        return Math.sqrt(baseArea / 2.598);
-        
-      default:
-        return baseRadius;
-    }
-  };
-
   // Helper function to render the appropriate shape based on node type
   const renderNodeShape = (node: FlowchartNode, baseRadius: number, circleColor: string, strokeColor: string, strokeWidth: number, opacity: number) => {
     const { x, y, type } = node;
@@ -508,7 +371,7 @@ export function FlowchartViewer({
       case 'need':
         return (
           <Polygon
-            points={generatePentagonPath(x, y, shapeRadius)}
+            points={generatePolygonPoints(x, y, shapeRadius, 5)}
             {...commonProps}
           />
         );
@@ -524,7 +387,7 @@ export function FlowchartViewer({
       case 'manager':
         return (
           <Polygon
-            points={generateHexagonPath(x, y, shapeRadius)}
+            points={generatePolygonPoints(x, y, shapeRadius, 6)}
             {...commonProps}
           />
         );
@@ -541,7 +404,7 @@ export function FlowchartViewer({
       case 'firefighter':
         return (
           <Polygon
-            points={generateTrianglePath(x, y, shapeRadius)}
+            points={generatePolygonPoints(x, y, shapeRadius, 3)}
             {...commonProps}
           />
         );
@@ -640,7 +503,7 @@ export function FlowchartViewer({
     const opacity = isSelected ? 1 : 0.7; // More opaque when selected
 
     // Calculate approximate midpoint between node edges for label placement
-    const labelPosition = getApproximateEdgePosition(fromNode, toNode);
+    const labelPosition = getEdgeLabelPosition(fromNode, toNode, maxNodeRadius);
     const midX = labelPosition.x;
     const midY = labelPosition.y;
     
@@ -648,7 +511,7 @@ export function FlowchartViewer({
     const angle = Math.atan2(toNode.y - fromNode.y, toNode.x - fromNode.x) * (180 / Math.PI);
     
     // Capitalize first letter of relationship type for display
-    const displayLabel = edge.label || edge.type.charAt(0).toUpperCase() + edge.type.slice(1);
+    const displayLabel = getEdgeDisplayLabel(edge);
 
     return (
       <G key={`${edge.from}-${edge.to}`}>
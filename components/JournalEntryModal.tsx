@@ -0,0 +1,395 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from 'react-native';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { FlowchartNode } from '@/lib/types/flowchart';
+import { JournalDraft, JournalMood } from '@/lib/types/journal';
+import { EMOTION_AXES } from '@/lib/services/emotionSpace';
+import { EmotionWithScore } from '@/lib/services/emotions';
+import { JOURNAL_PROMPTS, getDailyJournalPrompt, getJournalMood, JournalEntryRow } from '@/lib/services/journal';
+
+interface JournalEntryModalProps {
+  visible: boolean;
+  // Entry being edited; a new entry when null
+  entry: JournalEntryRow | null;
+  beliefs: EmotionWithScore[];
+  // Parts of the default map, for linking
+  parts: FlowchartNode[];
+  flowchartId: string | null;
+  onCancel: () => void;
+  onSubmit: (draft: JournalDraft) => void;
+}
+
+const AXIS_VALUES = [-3, -2, -1, 0, 1, 2, 3];
+const NEUTRAL_MOOD: JournalMood = { 'feminine-masculine': 0, 'dark-light': 0, 'child-parent': 0 };
+
+export function JournalEntryModal({
+  visible,
+  entry,
+  beliefs,
+  parts,
+  flowchartId,
+  onCancel,
+  onSubmit,
+}: JournalEntryModalProps) {
+  const [title, setTitle] = useState('');
+  const [body, setBody] = useState('');
+  const [prompt, setPrompt] = useState<string | null>(null);
+  const [mood, setMood] = useState<JournalMood | null>(null);
+  const [tags, setTags] = useState('');
+  const [beliefIds, setBeliefIds] = useState<string[]>([]);
+  const [nodeIds, setNodeIds] = useState<string[]>([]);
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+
+  // Start from the entry being edited, or from scratch
+  useEffect(() => {
+    if (visible) {
+      setTitle(entry?.title || '');
+      setBody(entry?.body || '');
+      setPrompt(entry?.prompt || null);
+      setMood(entry ? getJournalMood(entry) : null);
+      setTags(entry?.tags.join(', ') || '');
+      setBeliefIds(entry?.belief_ids || []);
+      setNodeIds(entry && entry.flowchart_id === flowchartId ? entry.node_ids : []);
+    }
+  }, [visible, entry, flowchartId]);
+
+  const textColor = isDark ? '#FFFFFF' : '#000000';
+  const optionBackground = isDark ? '#2C2C2E' : '#F2F2F7';
+  const placeholderColor = isDark ? '#8E8E93' : '#C7C7CC';
+
+  const suggestedPrompt = prompt || getDailyJournalPrompt();
+
+  const handleNextPrompt = () => {
+    const index = JOURNAL_PROMPTS.indexOf(suggestedPrompt);
+    setPrompt(JOURNAL_PROMPTS[(index + 1) % JOURNAL_PROMPTS.length]);
+  };
+
+  const toggle = (ids: string[], id: string) =>
+    ids.includes(id) ? ids.filter(other => other !== id) : [...ids, id];
+
+  const handleSubmit = () => {
+    // Keep links to another map untouched unless parts of this one were picked
+    const linksCurrentMap = !!flowchartId && (nodeIds.length > 0 || entry?.flowchart_id === flowchartId);
+    onSubmit({
+      title,
+      body,
+      prompt,
+      mood,
+      tags: tags.split(','),
+      beliefIds,
+      flowchartId: linksCurrentMap ? flowchartId : entry?.flowchart_id ?? null,
+      nodeIds: linksCurrentMap ? nodeIds : entry?.node_ids || [],
+    });
+  };
+
+  const renderChip = (key: string, label: string, active: boolean, onPress: () => void) => (
+    <Pressable
+      key={key}
+      style={[styles.option, { backgroundColor: active ? '#007AFF' : optionBackground }]}
+      onPress={onPress}
+    >
+      <Text style={[styles.optionText, { color: active ? '#FFFFFF' : textColor }]} numberOfLines={1}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+
+  return (
+    <Modal
+      animationType="slide"
+      transparent
+      visible={visible}
+      onRequestClose={onCancel}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.centeredView}
+      >
+        <View style={styles.modalBackdrop}>
+          <View style={[
+            styles.modalView,
+            { backgroundColor: isDark ? '#1C1C1E' : '#FFFFFF' }
+          ]}>
+            <Text style={[styles.modalTitle, { color: textColor }]}>
+              {entry ? 'Edit Entry' : 'New Entry'}
+            </Text>
+
+            <ScrollView style={styles.formContainer} keyboardShouldPersistTaps="handled">
+              <View style={[styles.promptCard, { backgroundColor: optionBackground }]}>
+                <Text style={[styles.promptText, { color: textColor }]}>{suggestedPrompt}</Text>
+                <View style={styles.promptActions}>
+                  {renderChip('use-prompt', prompt ? 'Using prompt' : 'Use prompt', !!prompt, () => setPrompt(prompt ? null : suggestedPrompt))}
+                  {renderChip('next-prompt', 'Another', false, handleNextPrompt)}
+                </View>
+              </View>
+
+              <View style={styles.inputGroup}>
+                <TextInput
+                  style={[styles.input, { backgroundColor: optionBackground, color: textColor }]}
+                  placeholder="Title (optional)"
+                  placeholderTextColor={placeholderColor}
+                  value={title}
+                  onChangeText={setTitle}
+                />
+              </View>
+
+              <View style={styles.inputGroup}>
+                <TextInput
+                  style={[styles.input, styles.bodyInput, { backgroundColor: optionBackground, color: textColor }]}
+                  placeholder="Write freely..."
+                  placeholderTextColor={placeholderColor}
+                  value={body}
+                  onChangeText={setBody}
+                  multiline
+                />
+              </View>
+
+              <View style={styles.inputGroup}>
+                <View style={styles.labelRow}>
+                  <Text style={[styles.inputLabel, { color: textColor }]}>Mood</Text>
+                  {renderChip('mood-toggle', mood ? 'Clear' : 'Add mood', false, () => setMood(mood ? null : NEUTRAL_MOOD))}
+                </View>
+                {mood && EMOTION_AXES.map(axis => (
+                  <View key={axis.key} style={styles.axisRow}>
+                    <Text style={[styles.axisLabel, { color: textColor }]}>{axis.negative}</Text>
+                    <View style={styles.axisValues}>
+                      {AXIS_VALUES.map(value => (
+                        <Pressable
+                          key={value}
+                          style={[
+                            styles.axisValue,
+                            { backgroundColor: mood[axis.key] === value ? '#007AFF' : optionBackground }
+                          ]}
+                          onPress={() => setMood({ ...mood, [axis.key]: value })}
+                        />
+                      ))}
+                    </View>
+                    <Text style={[styles.axisLabel, styles.axisLabelRight, { color: textColor }]}>{axis.positive}</Text>
+                  </View>
+                ))}
+              </View>
+
+              <View style={styles.inputGroup}>
+                <Text style={[styles.inputLabel, { color: textColor }]}>Tags</Text>
+                <TextInput
+                  style={[styles.input, { backgroundColor: optionBackground, color: textColor }]}
+                  placeholder="work, family, sleep"
+                  placeholderTextColor={placeholderColor}
+                  value={tags}
+                  onChangeText={setTags}
+                  autoCapitalize="none"
+                />
+              </View>
+
+              {parts.length > 0 && flowchartId && (
+                <View style={styles.inputGroup}>
+                  <Text style={[styles.inputLabel, { color: textColor }]}>Parts</Text>
+                  <View style={styles.optionRow}>
+                    {parts.map(node => renderChip(
+                      `node-${node.id}`,
+                      node.label || node.id,
+                      nodeIds.includes(node.id),
+                      () => setNodeIds(toggle(nodeIds, node.id))
+                    ))}
+                  </View>
+                </View>
+              )}
+
+              {beliefs.length > 0 && (
+                <View style={styles.inputGroup}>
+                  <Text style={[styles.inputLabel, { color: textColor }]}>Beliefs</Text>
+                  <View style={styles.optionRow}>
+                    {beliefs.map(belief => renderChip(
+                      `belief-${belief.id}`,
+                      belief.emotion || belief.belief || 'Untitled',
+                      beliefIds.includes(belief.id),
+                      () => setBeliefIds(toggle(beliefIds, belief.id))
+                    ))}
+                  </View>
+                </View>
+              )}
+            </ScrollView>
+
+            <View style={styles.buttonContainer}>
+              <Pressable
+                style={[styles.button, styles.cancelButton]}
+                onPress={onCancel}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </Pressable>
+
+              <Pressable
+                style={[styles.button, styles.submitButton, !body.trim() && styles.disabledButton]}
+                onPress={handleSubmit}
+                disabled={!body.trim()}
+              >
+                <Text style={styles.submitButtonText}>Save</Text>
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  centeredView: {
+    flex: 1,
+  },
+  modalBackdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalView: {
+    width: '92%',
+    maxWidth: 500,
+    maxHeight: '88%',
+    borderRadius: 20,
+    padding: 24,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 16,
+    textAlign: 'center',
+    fontFamily: 'Georgia',
+  },
+  formContainer: {
+    marginBottom: 20,
+  },
+  promptCard: {
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+    gap: 8,
+  },
+  promptText: {
+    fontSize: 15,
+    fontStyle: 'italic',
+    fontFamily: 'Georgia',
+  },
+  promptActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  inputGroup: {
+    marginBottom: 16,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginBottom: 8,
+    fontFamily: 'Georgia',
+  },
+  input: {
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    fontFamily: 'Georgia',
+  },
+  bodyInput: {
+    minHeight: 160,
+    textAlignVertical: 'top',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    maxWidth: 200,
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '500',
+    fontFamily: 'Georgia',
+  },
+  axisRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  axisLabel: {
+    width: 72,
+    fontSize: 12,
+    fontFamily: 'Georgia',
+  },
+  axisLabelRight: {
+    textAlign: 'right',
+  },
+  axisValues: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  axisValue: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  button: {
+    flex: 1,
+    height: 44,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#E5E5EA',
+  },
+  cancelButtonText: {
+    color: '#000000',
+    fontSize: 16,
+    fontWeight: '500',
+    fontFamily: 'Georgia',
+  },
+  submitButton: {
+    backgroundColor: '#007AFF',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  submitButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+    fontFamily: 'Georgia',
+  },
+});
@@ -0,0 +1,120 @@
+import React, { useMemo } from 'react';
+import { ScrollView } from 'react-native';
+import Svg, { Circle, G, Line, Polyline, Text as SvgText } from 'react-native-svg';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { EmotionTimeline, TimelineBucket, TimelineMetric } from '@/lib/types/timeline';
+import { TIMELINE_METRICS, formatPeriodLabel } from '@/lib/services/timeline';
+
+interface TimelineChartProps {
+  timeline: EmotionTimeline;
+  metric: TimelineMetric;
+  bucket: TimelineBucket;
+  width: number;
+  height?: number;
+}
+
+// Narrowest a period gets before the chart scrolls sideways
+const MIN_PERIOD_WIDTH = 28;
+const PADDING = { top: 12, right: 16, bottom: 28, left: 32 };
+const RELEASE_COLOR = '#34C759';
+
+/**
+ * One belief metric over time: a dot per belief, a line through the period
+ * averages, and a dashed marker wherever a belief was released.
+ */
+export function TimelineChart({ timeline, metric, bucket, width, height = 220 }: TimelineChartProps) {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const { periods, points, releases } = timeline;
+  const range = TIMELINE_METRICS.find(option => option.metric === metric) || TIMELINE_METRICS[0];
+
+  const chartWidth = Math.max(width, PADDING.left + PADDING.right + periods.length * MIN_PERIOD_WIDTH);
+  const plotWidth = chartWidth - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+
+  const indexByPeriod = useMemo(() => new Map(periods.map((entry, index) => [entry.period, index])), [periods]);
+
+  const x = (period: string) => {
+    const index = indexByPeriod.get(period) ?? 0;
+    return PADDING.left + (periods.length > 1 ? (index / (periods.length - 1)) * plotWidth : plotWidth / 2);
+  };
+  const y = (value: number) =>
+    PADDING.top + (1 - (value - range.min) / (range.max - range.min)) * plotHeight;
+
+  const axisColor = isDark ? '#48484A' : '#C7C7CC';
+  const labelColor = isDark ? '#8E8E93' : '#6D6D72';
+
+  const averageLine = periods
+    .filter(entry => entry.averages)
+    .map(entry => `${x(entry.period)},${y(entry.averages![metric])}`)
+    .join(' ');
+
+  // Label the first and last periods, and a few in between when there's room
+  const labelStep = Math.max(1, Math.ceil(periods.length / Math.max(2, Math.floor(plotWidth / 70))));
+  const labelled = periods.filter((_, index) => index % labelStep === 0 || index === periods.length - 1);
+
+  const gridValues = range.min < 0 ? [range.min, 0, range.max] : [range.min, Math.round((range.min + range.max) / 2), range.max];
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+      <Svg width={chartWidth} height={height}>
+        {gridValues.map(value => (
+          <G key={`grid-${value}`}>
+            <Line
+              x1={PADDING.left}
+              x2={chartWidth - PADDING.right}
+              y1={y(value)}
+              y2={y(value)}
+              stroke={axisColor}
+              strokeWidth={value === 0 ? 1 : 0.5}
+            />
+            <SvgText x={PADDING.left - 6} y={y(value) + 4} fontSize={10} fill={labelColor} textAnchor="end">
+              {value}
+            </SvgText>
+          </G>
+        ))}
+
+        {releases.map(release => (
+          <Line
+            key={`release-${release.beliefId}`}
+            x1={x(release.period)}
+            x2={x(release.period)}
+            y1={PADDING.top}
+            y2={PADDING.top + plotHeight}
+            stroke={RELEASE_COLOR}
+            strokeWidth={1.5}
+            strokeDasharray="4,3"
+          />
+        ))}
+
+        {averageLine.length > 0 && (
+          <Polyline points={averageLine} fill="none" stroke="#007AFF" strokeWidth={2} />
+        )}
+
+        {points.map(point => (
+          <Circle
+            key={point.beliefId}
+            cx={x(point.period)}
+            cy={y(point.values[metric])}
+            r={4}
+            fill="#007AFF"
+            fillOpacity={0.35}
+          />
+        ))}
+
+        {labelled.map(entry => (
+          <SvgText
+            key={`label-${entry.period}`}
+            x={x(entry.period)}
+            y={height - 8}
+            fontSize={10}
+            fill={labelColor}
+            textAnchor="middle"
+          >
+            {formatPeriodLabel(entry.period, bucket)}
+          </SvgText>
+        ))}
+      </Svg>
+    </ScrollView>
+  );
+}
@@ -30,21 +30,46 @@ import {
   IncrementalFlowchartCallbacks 
 } from '@/lib/services/incrementalFlowchartGenerator';
 import { getSelectedVoice, VoiceType } from '@/lib/services/voiceSettings';
+import {
+  createConversation,
+  appendConversationMessage,
+  endConversation,
+  loadConversationForResume,
+  NewConversationMessage
+} from '@/lib/services/conversations';
+import { formatConversationSummary } from '@/lib/services/conversationMemory';
+import { appendGuestConversationMessage } from '@/lib/services/guestData';
+import { screenMessage, isRiskDetected } from '@/lib/services/safetyScreening';
+import { recordSafetyEvent, updateSafetyEventAction } from '@/lib/services/safetyEvents';
+import { getDeviceRegion } from '@/lib/services/crisisResources';
+import { SafetyAssessment, SafetyChannel, SafetyUserAction } from '@/lib/types/safety';
+import { CrisisResourcesModal } from '@/components/CrisisResourcesModal';
+import { useAuth } from '@/contexts/AuthContext';
 import * as DocumentPicker from 'expo-document-picker';
 
 interface VoiceFlowchartCreatorProps {
   visible: boolean;
   onClose: () => void;
   onFlowchartCreated: (flowchart: FlowchartStructure) => void;
+  // What the session is about (emotion, need, belief, part) - used as the saved title
+  topic?: string;
+  // Called once the saved transcript exists, so the caller can link it to a map
+  onConversationStarted?: (conversationId: string) => void;
+  // Saved conversation to continue instead of starting a new one
+  resumeConversationId?: string | null;
 }
 
 export function VoiceFlowchartCreator({
   visible,
   onClose,
-  onFlowchartCreated
+  onFlowchartCreated,
+  topic,
+  onConversationStarted,
+  resumeConversationId
 }: VoiceFlowchartCreatorProps) {
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
+  const { user } = useAuth();
   
   const [isConnected, setIsConnected] = useState(false);
   const [isListening, setIsListening] = useState(false);
@@ -76,12 +101,136 @@ export function VoiceFlowchartCreator({
   const [showIncrementalFlowchart, setShowIncrementalFlowchart] = useState(true);
   const [showTextInput, setShowTextInput] = useState(false);
   const [showWelcomeTooltip, setShowWelcomeTooltip] = useState(false);
+  const [safetyAssessment, setSafetyAssessment] = useState<SafetyAssessment | null>(null);
   
   const sessionRef = useRef<VoiceFlowchartSession | null>(null);
   const textInputRef = useRef<any>(null);
   const recordingTimerRef = useRef<NodeJS.Timeout | null>(null);
   const scrollViewRef = useRef<ScrollView>(null);
   const colorPulseAnim = useRef(new Animated.Value(0)).current;
+  // Saved transcript of this session, created with its first message
+  const conversationIdRef = useRef<Promise<string | null> | null>(null);
+  const guestConversationIdRef = useRef<string | null>(null);
+  const listeningStartedAtRef = useRef<number | null>(null);
+  const userAudioDurationRef = useRef<number | null>(null);
+  const assistantResponseRef = useRef('');
+  // Set while crisis resources are shown; replies arriving meanwhile are dropped
+  const safetyPausedRef = useRef(false);
+  const safetyEventIdRef = useRef<Promise<string | null> | null>(null);
+  const safetyResourceContactedRef = useRef(false);
+
+  // Save a message to the transcript. Best-effort: a failed save never interrupts the session
+  const persistMessage = (message: NewConversationMessage) => {
+    if (!message.content.trim()) return;
+
+    if (!user) {
+      // Guests keep the transcript on the device until they sign in
+      if (!guestConversationIdRef.current) {
+        guestConversationIdRef.current = `guest-${Date.now()}`;
+      }
+      appendGuestConversationMessage(guestConversationIdRef.current, topic || null, message);
+      return;
+    }
+
+    if (!conversationIdRef.current) {
+      conversationIdRef.current = createConversation({ topic: topic || null })
+        .then(row => {
+          onConversationStarted?.(row.id);
+          return row.id;
+        })
+        .catch(error => {
+          console.error('❌ Error starting saved conversation:', error);
+          return null;
+        });
+    }
+
+    const createdAt = new Date();
+    conversationIdRef.current
+      .then(conversationId => {
+        if (conversationId) {
+          return appendConversationMessage(conversationId, { ...message, createdAt });
+        }
+      })
+      .catch(error => console.error('❌ Error saving conversation message:', error));
+  };
+
+  const finishSavedConversation = () => {
+    const pending = conversationIdRef.current;
+    conversationIdRef.current = null;
+    guestConversationIdRef.current = null;
+    assistantResponseRef.current = '';
+    pending
+      ?.then(conversationId => {
+        if (conversationId) {
+          return endConversation(conversationId);
+        }
+      })
+      .catch(error => console.error('❌ Error ending saved conversation:', error));
+  };
+
+  // Screen a user turn. When it's flagged, pause the AI and show crisis resources
+  const checkSafety = async (text: string, channel: SafetyChannel): Promise<boolean> => {
+    const assessment = await screenMessage(text);
+    if (!isRiskDetected(assessment)) return false;
+
+    console.log('🛟 Safety concern detected:', assessment.level, assessment.categories);
+    safetyPausedRef.current = true;
+    safetyResourceContactedRef.current = false;
+    sessionRef.current?.cancelResponse();
+    incrementalFlowchartGenerator.pauseAnalysis();
+    setIsAIResponding(false);
+    setSafetyAssessment(assessment);
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+
+    if (user) {
+      const conversationId = conversationIdRef.current ? await conversationIdRef.current : null;
+      safetyEventIdRef.current = recordSafetyEvent(assessment, { channel, conversationId, region: getDeviceRegion() })
+        .then(row => row?.id || null)
+        .catch(error => {
+          console.error('❌ Error recording safety event:', error);
+          return null;
+        });
+    }
+    return true;
+  };
+
+  const recordSafetyAction = (action: SafetyUserAction) => {
+    safetyEventIdRef.current
+      ?.then(eventId => {
+        if (eventId) {
+          return updateSafetyEventAction(eventId, action);
+        }
+      })
+      .catch(error => console.error('❌ Error updating safety event:', error));
+  };
+
+  const clearSafetyPause = () => {
+    safetyPausedRef.current = false;
+    safetyEventIdRef.current = null;
+    setSafetyAssessment(null);
+  };
+
+  const handleSafetyContinue = () => {
+    // Reaching out is the outcome worth keeping
+    if (!safetyResourceContactedRef.current) {
+      recordSafetyAction('continued');
+    }
+    clearSafetyPause();
+    incrementalFlowchartGenerator.resumeAnalysis();
+  };
+
+  const handleSafetyEndSession = () => {
+    if (!safetyResourceContactedRef.current) {
+      recordSafetyAction('ended');
+    }
+    clearSafetyPause();
+    onClose();
+  };
+
+  const handleSafetyResourceContacted = () => {
+    safetyResourceContactedRef.current = true;
+    recordSafetyAction('contacted_resource');
+  };
 
   // Helper function to add user message with fade-in animation
   const addUserMessageWithAnimation = (text: string) => {
@@ -153,7 +302,7 @@ export function VoiceFlowchartCreator({
       loadVoiceSettingAndInitialize();
       
       // Show welcome tooltip if this is a fresh conversation
-      if (conversation.length === 0) {
+      if (conversation.length === 0 && !resumeConversationId) {
         setTimeout(() => {
           setShowWelcomeTooltip(true);
         }, 1000); // Delay to allow UI to settle
@@ -236,6 +385,43 @@ export function VoiceFlowchartCreator({
   };
 
 
+  // Restore a saved conversation: prior messages on screen, new messages
+  // appended to the same transcript, and analysis building on its map
+  const loadResumeContext = async () => {
+    if (!resumeConversationId || !user) return null;
+
+    try {
+      const resumed = await loadConversationForResume(resumeConversationId);
+      const messages: ConversationMessage[] = resumed.recentMessages.map(message => ({
+        role: message.role,
+        content: message.content,
+        timestamp: message.timestamp || new Date()
+      }));
+
+      conversationIdRef.current = Promise.resolve(resumed.conversation.id);
+      incrementalFlowchartGenerator.resume(resumed.summary, messages, resumed.flowchart);
+      setIncrementalFlowchart(resumed.flowchart);
+      setConversation(resumed.conversation.messages
+        .filter(message => message.role !== 'system')
+        .map(message => ({
+          type: message.role === 'user' ? 'user' as const : 'assistant' as const,
+          text: message.content,
+          id: message.id
+        })));
+      console.log('💬 Resumed conversation:', resumed.conversation.id);
+
+      return {
+        summary: formatConversationSummary(resumed.summary),
+        recentMessages: messages,
+        flowchart: resumed.flowchart
+      };
+    } catch (error) {
+      console.error('❌ Error resuming conversation:', error);
+      Alert.alert('Error', 'Could not load the previous conversation. Starting a new one instead.');
+      return null;
+    }
+  };
+
   const initializeSession = async () => {
     try {
       setIsLoading(true);
@@ -243,8 +429,10 @@ export function VoiceFlowchartCreator({
       // Load the flowchart template
       const template = await loadFlowchartTemplate();
       
+      const resumeContext = await loadResumeContext();
+
       // Generate instructions from the centralized prompt file
-      const sessionInstructions = await generateVoiceInstructions(template);
+      const sessionInstructions = await generateVoiceInstructions(template, resumeContext || undefined);
       
       const session = createVoiceFlowchartSession(
         {
@@ -266,6 +454,7 @@ export function VoiceFlowchartCreator({
             console.log('🎤 VOICE: Started recording');
             console.log('🔵 Button State: isListening=true, isAIResponding=false → RED');
             setIsListeningWithLogging(true);
+            listeningStartedAtRef.current = Date.now();
             // Clear AI responding state when we start listening for user input
             setIsAIResponding(false);
           },
@@ -274,6 +463,8 @@ export function VoiceFlowchartCreator({
             console.log('🔵 Button State: isListening=false, isAIResponding=true → BLUE');
             setIsListeningWithLogging(false);
             setIsAIResponding(true); // Set AI responding immediately when recording stops
+            userAudioDurationRef.current = listeningStartedAtRef.current ? Date.now() - listeningStartedAtRef.current : null;
+            listeningStartedAtRef.current = null;
             // Clear any lingering transcript when recording stops
             setTimeout(() => setTranscript(''), 500);
           },
@@ -289,6 +480,9 @@ export function VoiceFlowchartCreator({
               
               // Add user message to conversation with fade-in animation
               addUserMessageWithAnimation(transcriptText);
+              persistMessage({ role: 'user', content: transcriptText, audioDurationMs: userAudioDurationRef.current });
+              userAudioDurationRef.current = null;
+              checkSafety(transcriptText, 'voice');
               
               // Clear pending after a short delay
               setTimeout(() => setPendingUserMessage(null), 1000);
@@ -298,7 +492,7 @@ export function VoiceFlowchartCreator({
             }
           },
           onResponse: (response) => {
-            if (!response) return;
+            if (!response || safetyPausedRef.current) return;
             
             // Don't start AI response if user is actively recording
             if (isListening) {
@@ -309,6 +503,7 @@ export function VoiceFlowchartCreator({
             // Mark AI as responding when we start receiving response
             console.log('💬 AI Response started - Setting button to BLUE');
             setIsAIResponding(true);
+            assistantResponseRef.current += response;
             
             setConversation(prev => {
               const lastMessage = prev[prev.length - 1];
@@ -361,6 +556,10 @@ export function VoiceFlowchartCreator({
             console.log('✅ AI Response complete - Setting button to GREEN');
             console.log('🔵 Button State: isListening=false, isAIResponding=false → GREEN');
             setIsAIResponding(false);
+            if (!safetyPausedRef.current) {
+              persistMessage({ role: 'assistant', content: assistantResponseRef.current });
+            }
+            assistantResponseRef.current = '';
           },
           onFlowchartGenerated: (flowchart) => {
             // Flowchart generation temporarily disabled
@@ -406,6 +605,9 @@ export function VoiceFlowchartCreator({
       recordingTimerRef.current = null;
     }
     
+    finishSavedConversation();
+    clearSafetyPause();
+
     // Reset incremental flowchart generator
     incrementalFlowchartGenerator.reset();
     setIncrementalFlowchart(null);
@@ -565,12 +767,19 @@ export function VoiceFlowchartCreator({
   };
 
 
-  const handleSendText = () => {
+  const handleSendText = async () => {
     if (sessionRef.current && isConnected && textInput.trim()) {
       const messageText = textInput.trim();
       
       // Add user message to conversation with fade-in animation
       addUserMessageWithAnimation(messageText);
+      persistMessage({ role: 'user', content: messageText });
+
+      // A flagged message isn't sent to the model
+      setTextInput('');
+      if (await checkSafety(messageText, 'text')) {
+        return;
+      }
       
       // Incremental flowchart generation disabled
       // try {
@@ -598,10 +807,7 @@ export function VoiceFlowchartCreator({
       }
       
       // Send to OpenAI
-      sessionRef.current.sendMessage(finalMessage);
-      
-      // Clear input but keep text input visible and focused
-      setTextInput('');
+      sessionRef.current?.sendMessage(finalMessage);
       
       // Keep focus on the text input to maintain keyboard
       setTimeout(() => {
@@ -996,6 +1202,14 @@ export function VoiceFlowchartCreator({
         </View>
       </View>
       </KeyboardAvoidingView>
+
+      <CrisisResourcesModal
+        visible={!!safetyAssessment}
+        assessment={safetyAssessment}
+        onContinue={handleSafetyContinue}
+        onEndSession={handleSafetyEndSession}
+        onResourceContacted={handleSafetyResourceContacted}
+      />
     </Modal>
   );
 }
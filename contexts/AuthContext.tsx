@@ -1,8 +1,11 @@
-import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase';
 import { Profile, getCurrentUser, getUserProfile, getUserProfileForUser } from '@/lib/services/auth';
 import { signInWithGoogle } from '@/lib/services/oauth';
+import { clearOfflineData, flushQueue } from '@/lib/services/offlineQueue';
+import { migrateGuestData } from '@/lib/services/guestMigration';
+import { GuestMigrationResult } from '@/lib/types/guest';
 
 interface AuthContextType {
   user: User | null;
@@ -14,6 +17,9 @@ interface AuthContextType {
   signInWithGoogle: () => Promise<void>;
   signOut: () => Promise<void>;
   refreshProfile: () => Promise<void>;
+  // What was moved from the device into the account on sign-in, until dismissed
+  guestMigration: GuestMigrationResult | null;
+  dismissGuestMigration: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -35,6 +41,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [profile, setProfile] = useState<Profile | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  const [guestMigration, setGuestMigration] = useState<GuestMigrationResult | null>(null);
+  // Users whose guest data has been migrated during this app session
+  const migratedUserIdsRef = useRef(new Set<string>());
 
 
   // Load initial session
@@ -113,6 +122,14 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Move anything saved while signed out into the account on its first session
+  useEffect(() => {
+    if (!user || migratedUserIdsRef.current.has(user.id)) return;
+    migratedUserIdsRef.current.add(user.id);
+
+    migrateGuestData(user.id).then(setGuestMigration);
+  }, [user]);
+
 
   const signIn = async (email: string, password: string) => {
     setLoading(true);
@@ -194,6 +211,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     console.log('🚪 Starting sign-out...');
     
     try {
+      // Send anything still queued while the session is valid, then make sure
+      // the next user on this device doesn't replay or see it
+      await flushQueue();
+      await clearOfflineData();
+
       console.log('🚪 Calling supabase.auth.signOut()...');
       const { error } = await supabase.auth.signOut();
       
@@ -225,6 +247,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  // Stable, so screens can run effects on it
+  const dismissGuestMigration = useCallback(() => setGuestMigration(null), []);
+
   const value: AuthContextType = {
     user,
     profile,
@@ -235,6 +260,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     signInWithGoogle: handleSignInWithGoogle,
     signOut,
     refreshProfile,
+    guestMigration,
+    dismissGuestMigration,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
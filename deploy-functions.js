@@ -1,61 +1,47 @@
 #!/usr/bin/env node
 
-// Simple function deployment script using Supabase Management API
-const fs = require('fs')
-const path = require('path')
-
-async function deployFunction(functionName, functionCode, projectRef, accessToken) {
-  const url = `https://api.supabase.com/v1/projects/${projectRef}/functions`
-  
-  const payload = {
-    slug: functionName,
-    name: functionName,
-    source_code: functionCode,
-    verify_jwt: false,
-    import_map: {},
-    entrypoint: 'index.ts'
-  }
-  
+// Deploy every edge function with the Supabase CLI. The CLI bundles each
+// function together with its ../_shared imports, which a raw upload of
+// index.ts through the Management API does not.
+const { spawnSync } = require('child_process')
+
+const FUNCTIONS = ['transcribe', 'chat-stream', 'llm-proxy', 'tts', 'realtime-session']
+
+function deployFunction(functionName, projectRef) {
   console.log(`Deploying function: ${functionName}`)
-  
-  try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(payload)
-    })
-    
-    if (response.ok) {
-      console.log(`✅ Successfully deployed ${functionName}`)
-    } else {
-      const error = await response.text()
-      console.error(`❌ Failed to deploy ${functionName}:`, error)
-    }
-  } catch (error) {
-    console.error(`❌ Error deploying ${functionName}:`, error.message)
+
+  const result = spawnSync(
+    'npx',
+    ['supabase', 'functions', 'deploy', functionName, '--project-ref', projectRef],
+    { stdio: 'inherit', shell: process.platform === 'win32' }
+  )
+
+  if (result.status === 0) {
+    console.log(`✅ Successfully deployed ${functionName}`)
+    return true
   }
+
+  console.error(`❌ Failed to deploy ${functionName}`)
+  return false
 }
 
-async function main() {
+function main() {
   const projectRef = 'fppphepgzcxiiobezfow'
   const accessToken = process.env.SUPABASE_ACCESS_TOKEN
-  
+
   if (!accessToken) {
     console.error('❌ SUPABASE_ACCESS_TOKEN environment variable is required')
     console.log('Please get your access token from: https://app.supabase.com/account/tokens')
     process.exit(1)
   }
-  
-  // Read function files
-  const transcribeCode = fs.readFileSync(path.join(__dirname, 'supabase/functions/transcribe/index.ts'), 'utf8')
-  const chatStreamCode = fs.readFileSync(path.join(__dirname, 'supabase/functions/chat-stream/index.ts'), 'utf8')
-  
-  // Deploy functions
-  await deployFunction('transcribe', transcribeCode, projectRef, accessToken)
-  await deployFunction('chat-stream', chatStreamCode, projectRef, accessToken)
+
+  // Deploy functions, one at a time so the output stays readable
+  const failed = FUNCTIONS.filter(name => !deployFunction(name, projectRef))
+
+  if (failed.length > 0) {
+    console.error(`❌ Not deployed: ${failed.join(', ')}`)
+    process.exit(1)
+  }
 }
 
-main().catch(console.error)
\ No newline at end of file
+main()
@@ -0,0 +1,42 @@
+import { useCallback, useRef, useState } from 'react';
+
+import { FlowchartCommand, FlowchartUndoStack } from '@/lib/services/flowchartUndo';
+
+/**
+ * React wrapper around FlowchartUndoStack that re-renders when the
+ * availability of undo/redo changes.
+ */
+export function useFlowchartUndo() {
+  const stackRef = useRef(new FlowchartUndoStack());
+  const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
+
+  const sync = useCallback(() => {
+    setCanUndo(stackRef.current.canUndo());
+    setCanRedo(stackRef.current.canRedo());
+  }, []);
+
+  const record = useCallback((command: Omit<FlowchartCommand, 'timestamp'>) => {
+    stackRef.current.push(command);
+    sync();
+  }, [sync]);
+
+  const undo = useCallback((): FlowchartCommand | null => {
+    const command = stackRef.current.undo();
+    sync();
+    return command;
+  }, [sync]);
+
+  const redo = useCallback((): FlowchartCommand | null => {
+    const command = stackRef.current.redo();
+    sync();
+    return command;
+  }, [sync]);
+
+  const clear = useCallback(() => {
+    stackRef.current.clear();
+    sync();
+  }, [sync]);
+
+  return { record, undo, redo, clear, canUndo, canRedo };
+}
@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+
+import { getSyncStatus, subscribeToSyncStatus } from '@/lib/services/offlineQueue';
+import { SyncStatus } from '@/lib/types/sync';
+
+/**
+ * The offline queue's sync status: connectivity, how server changes arrive
+ * and how many local changes are still waiting to sync.
+ */
+export function useSyncStatus(): SyncStatus {
+  const [status, setStatus] = useState<SyncStatus>(getSyncStatus);
+
+  useEffect(() => {
+    // Catch up on anything that changed before the effect ran
+    setStatus(getSyncStatus());
+    return subscribeToSyncStatus(setStatus);
+  }, []);
+
+  return status;
+}
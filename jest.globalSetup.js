@@ -0,0 +1,5 @@
+// Dates are bucketed in local time; run tests in a zone that is behind UTC
+// and has daylight saving, whatever the machine is set to.
+module.exports = () => {
+  process.env.TZ = 'America/New_York';
+};
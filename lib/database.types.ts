@@ -1,4 +1,14 @@
-import { FlowchartRow, FlowchartInsert, FlowchartUpdate } from './types/flowchart';
+import { FlowchartRow, FlowchartInsert, FlowchartUpdate, FlowchartVersionRow, FlowchartVersionInsert } from './types/flowchart';
+import {
+  ConversationRow,
+  ConversationInsert,
+  ConversationUpdate,
+  ConversationMessageRow,
+  ConversationMessageInsert,
+} from './types/conversation';
+import { SafetyEventRow, SafetyEventInsert } from './types/safety';
+import { BodySensationRow, BodySensationInsert } from './types/body';
+import { JournalEntryRow, JournalEntryInsert } from './types/journal';
 
 export interface Database {
   public: {
@@ -81,6 +91,60 @@ export interface Database {
         Insert: FlowchartInsert;
         Update: FlowchartUpdate;
       };
+      flowchart_versions: {
+        Row: FlowchartVersionRow;
+        Insert: FlowchartVersionInsert;
+        Update: Partial<FlowchartVersionInsert>;
+      };
+      conversations: {
+        Row: ConversationRow;
+        Insert: ConversationInsert;
+        Update: ConversationUpdate;
+      };
+      conversation_messages: {
+        Row: ConversationMessageRow;
+        Insert: ConversationMessageInsert;
+        Update: Partial<ConversationMessageInsert>;
+      };
+      safety_events: {
+        Row: SafetyEventRow;
+        Insert: SafetyEventInsert;
+        Update: Partial<SafetyEventInsert>;
+      };
+      body_sensations: {
+        Row: BodySensationRow;
+        Insert: BodySensationInsert;
+        Update: Partial<BodySensationInsert>;
+      };
+      journal_entries: {
+        Row: JournalEntryRow;
+        Insert: JournalEntryInsert;
+        Update: Partial<JournalEntryInsert>;
+      };
+      // Written only by edge functions through consume_usage_tokens
+      usage_counters: {
+        Row: {
+          user_id: string;
+          bucket: string;
+          tokens: number;
+          request_count: number;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          bucket: string;
+          tokens: number;
+          request_count?: number;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          bucket?: string;
+          tokens?: number;
+          request_count?: number;
+          updated_at?: string;
+        };
+      };
     };
   };
 }
\ No newline at end of file
@@ -0,0 +1,133 @@
+import { ConversationMemory, MemoryTurn, parseConversationSummary } from '../conversationMemory';
+
+// Summaries come from the excerpt fallback unless a test configures the model
+let mockLLMConfigured = false;
+const mockJson = jest.fn();
+jest.mock('../llmConfig', () => ({
+  getLLMClient: () => ({ json: mockJson }),
+  isLLMConfigured: () => mockLLMConfigured,
+}));
+
+// 40 characters, about 14 tokens with the per-message overhead
+const turn = (index: number, role: MemoryTurn['role'] = index % 2 === 0 ? 'user' : 'assistant'): MemoryTurn => ({
+  role,
+  content: `Turn ${String(index).padStart(2, '0')} `.padEnd(40, '.'),
+});
+
+const turns = (count: number, from = 0): MemoryTurn[] =>
+  Array.from({ length: count }, (_, index) => turn(from + index));
+
+const foldedMemory = async (count: number) => {
+  const memory = new ConversationMemory({ keepRecentTurns: 2, tokenBudget: 50 });
+  turns(count).forEach(next => memory.addTurn(next));
+  await memory.compressIfNeeded();
+  return memory;
+};
+
+beforeEach(() => {
+  mockLLMConfigured = false;
+  mockJson.mockReset();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('compressIfNeeded', () => {
+  it('folds older turns and keeps the recent ones verbatim', async () => {
+    const memory = await foldedMemory(8);
+
+    expect(memory.getSummary().turnsSummarized).toBeGreaterThan(0);
+    expect(memory.getTotalTurns()).toBe(8);
+    expect(memory.getRecentTurns().slice(-2)).toEqual(turns(2, 6));
+    expect(memory.getSummary().notes).toContain('Turn 00');
+  });
+
+  it('leaves a conversation under budget alone', async () => {
+    const memory = await foldedMemory(3);
+
+    expect(memory.getSummary().turnsSummarized).toBe(0);
+    expect(memory.getRecentTurns()).toEqual(turns(3));
+  });
+
+  it('folds in batches within the token budget', async () => {
+    mockLLMConfigured = true;
+    mockJson.mockResolvedValue({ parts: [], needs: [], beliefs: [], notes: 'Talked about work.' });
+
+    const memory = await foldedMemory(10);
+
+    expect(mockJson.mock.calls.length).toBeGreaterThan(1);
+    mockJson.mock.calls.forEach(([messages]) => {
+      const newMessages = messages[1].content.split('NEW MESSAGES:\n')[1].split('\n');
+      expect(newMessages.length).toBeLessThanOrEqual(3);
+    });
+    expect(memory.getSummary().turnsSummarized).toBe(8);
+    expect(memory.getRecentTurns()).toEqual(turns(2, 8));
+  });
+});
+
+describe('getTurnsSince', () => {
+  it('counts positions from the start of the conversation after folding', async () => {
+    const memory = await foldedMemory(8);
+    const summarized = memory.getSummary().turnsSummarized;
+
+    expect(memory.getTurnsSince(7)).toEqual([turn(7)]);
+    expect(memory.getTurnsSince(summarized)).toEqual(turns(8 - summarized, summarized));
+    expect(memory.getTurnsSince(8)).toEqual([]);
+  });
+
+  it('skips turns already folded into the summary', async () => {
+    const memory = await foldedMemory(8);
+
+    expect(memory.getTurnsSince(0)).toEqual(memory.getRecentTurns());
+  });
+
+  it('counts from the saved summary after a restore', () => {
+    const memory = new ConversationMemory();
+    const summary = parseConversationSummary({ parts: [], needs: [], beliefs: [], notes: 'Earlier.', turnsSummarized: 5 });
+    memory.restore(summary!, turns(3, 5));
+
+    expect(memory.getTotalTurns()).toBe(8);
+    expect(memory.getTurnsSince(6)).toEqual(turns(2, 6));
+  });
+});
+
+describe('sync', () => {
+  it('adds only the messages it has not seen, including folded ones', async () => {
+    const memory = await foldedMemory(8);
+    const before = memory.getRecentTurns();
+
+    memory.sync(turns(9));
+
+    expect(memory.getTotalTurns()).toBe(9);
+    expect(memory.getRecentTurns()).toEqual([...before, turn(8)]);
+  });
+
+  it('starts over when given a shorter list', async () => {
+    const memory = await foldedMemory(8);
+
+    memory.sync(turns(2, 20));
+
+    expect(memory.getSummary().turnsSummarized).toBe(0);
+    expect(memory.getSummary().notes).toBe('');
+    expect(memory.getTotalTurns()).toBe(2);
+    expect(memory.getRecentTurns()).toEqual(turns(2, 20));
+  });
+});
+
+describe('parseConversationSummary', () => {
+  it('ignores saved state without a usable turn count', () => {
+    expect(parseConversationSummary(null)).toBeNull();
+    expect(parseConversationSummary({ notes: 'Earlier.' })).toBeNull();
+    expect(parseConversationSummary({ notes: 'Earlier.', turnsSummarized: -1 })).toBeNull();
+    expect(parseConversationSummary({ notes: 'Earlier.', turnsSummarized: 2.5 })).toBeNull();
+  });
+
+  it('keeps the turn count of valid saved state', () => {
+    expect(parseConversationSummary({ notes: 'Earlier.', turnsSummarized: 4 })).toMatchObject({
+      notes: 'Earlier.',
+      turnsSummarized: 4,
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { FlowchartNode, FlowchartStructure } from '../../types/flowchart';
+import { applyFlowchartPatch, parsePatchOp, summarizePatch } from '../flowchartPatch';
+
+const node = (id: string, overrides: Partial<FlowchartNode> = {}): FlowchartNode => ({
+  id,
+  label: id,
+  type: 'manager',
+  x: 200,
+  y: 150,
+  ...overrides,
+});
+
+const baseFlowchart = (): FlowchartStructure => ({
+  nodes: [node('critic'), node('shame', { type: 'exile', x: 200, y: 550 })],
+  edges: [{ from: 'critic', to: 'shame', type: 'protection' }],
+  metadata: { version: '1.0' },
+});
+
+describe('parsePatchOp', () => {
+  it('accepts the loose type names the model uses', () => {
+    expect(parsePatchOp({ op: 'addNode', node: { id: 'numb', type: 'Firefighter' } })).toMatchObject({
+      op: 'addNode',
+      node: { id: 'numb', type: 'firefighter' },
+    });
+  });
+
+  it('explains why an operation is unusable', () => {
+    expect(parsePatchOp(null)).toBe('Operation is not an object');
+    expect(parsePatchOp({ op: 'renameNode' })).toBe('Unknown operation "renameNode"');
+    expect(parsePatchOp({ op: 'updateNode', id: 'critic' })).toBe('updateNode "critic" changes nothing');
+  });
+});
+
+describe('applyFlowchartPatch', () => {
+  it('applies operations in order, so later ones can use earlier results', () => {
+    const result = applyFlowchartPatch(baseFlowchart(), [
+      { op: 'addNode', node: { id: 'numb', type: 'firefighter' } },
+      { op: 'addEdge', from: 'numb', to: 'shame', type: 'protection' },
+    ]);
+
+    expect(result.rejected).toEqual([]);
+    expect(result.applied.map(op => op.op)).toEqual(['addNode', 'addEdge']);
+    expect(result.flowchart.edges).toContainEqual({ from: 'numb', to: 'shame', type: 'protection' });
+  });
+
+  it('rejects an operation that depends on a later one', () => {
+    const result = applyFlowchartPatch(baseFlowchart(), [
+      { op: 'addEdge', from: 'numb', to: 'shame', type: 'protection' },
+      { op: 'addNode', node: { id: 'numb', type: 'firefighter' } },
+    ]);
+
+    expect(result.applied.map(op => op.op)).toEqual(['addNode']);
+    expect(result.rejected).toHaveLength(1);
+    expect(result.rejected[0].reason).toBe('Edge numb → shame references a missing node');
+    expect(result.flowchart.edges).toHaveLength(1);
+  });
+
+  it('rejects operations on a node removed earlier in the same patch', () => {
+    const result = applyFlowchartPatch(baseFlowchart(), [
+      { op: 'removeNode', id: 'critic' },
+      { op: 'updateNode', id: 'critic', label: 'Inner critic' },
+      { op: 'removeEdge', from: 'critic', to: 'shame' },
+    ]);
+
+    expect(result.applied.map(op => op.op)).toEqual(['removeNode']);
+    expect(result.rejected.map(rejection => rejection.reason)).toEqual([
+      'Node "critic" does not exist',
+      'Edge critic → shame does not exist',
+    ]);
+    // Removing a node takes its edges with it
+    expect(result.flowchart.edges).toEqual([]);
+  });
+
+  it('keeps applying the operations after a rejected one', () => {
+    const raw = { op: 'addNode', node: { id: 'ghost', type: 'poltergeist' } };
+    const result = applyFlowchartPatch(baseFlowchart(), [
+      raw,
+      { op: 'updateNode', id: 'critic', label: 'Inner critic' },
+    ]);
+
+    // Unparseable operations are reported as received
+    expect(result.rejected).toEqual([{ op: raw, reason: 'addNode "ghost" has an unknown type "poltergeist"' }]);
+    expect(result.flowchart.nodes.find(other => other.id === 'critic')?.label).toBe('Inner critic');
+  });
+
+  it('rejects a duplicate of an operation applied earlier in the patch', () => {
+    const append = { op: 'appendTranscript', id: 'shame', transcript: 'I am not enough' };
+    const result = applyFlowchartPatch(baseFlowchart(), [append, append]);
+
+    expect(result.applied).toHaveLength(1);
+    expect(result.rejected[0].reason).toBe('Transcript already recorded on "shame"');
+    expect(result.flowchart.nodes.find(other => other.id === 'shame')?.transcripts).toEqual(['I am not enough']);
+  });
+
+  it('reports the flowchart after each applied operation', () => {
+    const onApplied = jest.fn();
+    applyFlowchartPatch(
+      baseFlowchart(),
+      [
+        { op: 'addNode', node: { id: 'numb', type: 'firefighter' } },
+        { op: 'removeNode', id: 'missing' },
+        { op: 'removeNode', id: 'critic' },
+      ],
+      onApplied
+    );
+
+    expect(onApplied).toHaveBeenCalledTimes(2);
+    expect(onApplied.mock.calls[0][0].nodes.map((other: FlowchartNode) => other.id)).toEqual(['critic', 'shame', 'numb']);
+    expect(onApplied.mock.calls[1][0].nodes.map((other: FlowchartNode) => other.id)).toEqual(['shame', 'numb']);
+  });
+
+  it('leaves the flowchart untouched when nothing applies', () => {
+    const flowchart = baseFlowchart();
+    const result = applyFlowchartPatch(flowchart, [{ op: 'removeNode', id: 'missing' }]);
+
+    expect(result.flowchart).toBe(flowchart);
+    expect(result.applied).toEqual([]);
+  });
+
+  it('never moves existing nodes', () => {
+    const result = applyFlowchartPatch(baseFlowchart(), [
+      { op: 'updateNode', id: 'critic', changes: { type: 'firefighter', x: 900, y: 900 } },
+    ]);
+
+    expect(result.flowchart.nodes[0]).toMatchObject({ type: 'firefighter', x: 200, y: 150 });
+  });
+});
+
+describe('summarizePatch', () => {
+  it('counts applied operations by kind', () => {
+    const { applied } = applyFlowchartPatch(baseFlowchart(), [
+      { op: 'addNode', node: { id: 'numb', type: 'firefighter' } },
+      { op: 'addNode', node: { id: 'calm', type: 'self' } },
+      { op: 'addEdge', from: 'calm', to: 'shame', type: 'healing' },
+    ]);
+
+    expect(summarizePatch(applied)).toBe('2 parts added, 1 relationship added');
+    expect(summarizePatch([])).toBe('No changes');
+  });
+});
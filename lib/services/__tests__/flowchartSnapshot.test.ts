@@ -0,0 +1,45 @@
+import { FlowchartStructure } from '../../types/flowchart';
+import { getSnapshotViewBox, renderFlowchartToSvg } from '../flowchartSnapshot';
+import smallFlowchart from './fixtures/smallFlowchart.json';
+
+const flowchart = smallFlowchart as FlowchartStructure;
+
+describe('renderFlowchartToSvg', () => {
+  it('renders the fixture map', () => {
+    expect(renderFlowchartToSvg(flowchart)).toMatchSnapshot();
+  });
+
+  it('renders without a background and with custom padding', () => {
+    expect(renderFlowchartToSvg(flowchart, { background: null, padding: 10 })).toMatchSnapshot();
+  });
+
+  it('sizes the document to the view box', () => {
+    const viewBox = getSnapshotViewBox(flowchart, 40);
+    const svg = renderFlowchartToSvg(flowchart);
+
+    expect(svg).toContain(`width="${viewBox.width}" height="${viewBox.height}" viewBox="${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}"`);
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true);
+    expect(svg.endsWith('</svg>\n')).toBe(true);
+  });
+
+  it('escapes labels', () => {
+    const svg = renderFlowchartToSvg(flowchart);
+
+    expect(svg).toContain('&amp;');
+    expect(svg).toContain('&lt;Snacking&gt;');
+    expect(svg).not.toContain('<Snacking>');
+  });
+
+  it('skips edges to missing nodes', () => {
+    const withDangling: FlowchartStructure = {
+      ...flowchart,
+      edges: [...flowchart.edges, { from: 'Inner Critic', to: 'Gone', type: 'protection' }],
+    };
+
+    expect(renderFlowchartToSvg(withDangling)).toBe(renderFlowchartToSvg(flowchart));
+  });
+
+  it('renders an empty map', () => {
+    expect(renderFlowchartToSvg({ nodes: [], edges: [] })).toMatchSnapshot();
+  });
+});
@@ -0,0 +1,280 @@
+import {
+  MutationConflictError,
+  MutationRejectedError,
+  clearOfflineData,
+  describeSyncStatus,
+  enqueueMutation,
+  flushQueue,
+  getLocalRow,
+  getSyncStatus,
+  rememberRows,
+  sendMutation,
+  SyncRow,
+} from '../offlineQueue';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-crypto', () => ({ randomUUID: () => jest.requireActual('crypto').randomUUID() }));
+jest.mock('../flowchartVersions', () => ({ recordFlowchartVersion: jest.fn() }));
+jest.mock('../../supabase', () => ({ supabase: { from: (table: string) => mockQuery(table) } }));
+
+// An in-memory stand-in for the PostgREST calls the queue makes. Updates get
+// a new server timestamp, like the updated_at trigger.
+const mockTables: Record<string, Map<string, SyncRow>> = {};
+// Rows row-level security won't let this user update
+const mockDeniedIds = new Set<string>();
+// Error the next request answers with
+let mockNextError: { code: string; message: string } | null = null;
+let mockClock = 0;
+
+const serverTimestamp = () => new Date(Date.UTC(2025, 0, 1, 0, 0, ++mockClock)).toISOString();
+
+function mockQuery(table: string) {
+  const rows = (mockTables[table] ||= new Map());
+  const filters: [string, unknown][] = [];
+  let action: 'select' | 'update' | 'delete' | 'upsert' = 'select';
+  let payload: any = null;
+  let ignoreDuplicates = false;
+
+  const matching = () => [...rows.values()].filter(row => filters.every(([column, value]) => row[column] === value));
+
+  const run = () => {
+    if (mockNextError) {
+      const error = mockNextError;
+      mockNextError = null;
+      return { data: null, error };
+    }
+    if (action === 'delete') {
+      matching().forEach(row => rows.delete(row.id));
+      return { data: null, error: null };
+    }
+    if (action === 'upsert') {
+      if (rows.has(payload.id) && ignoreDuplicates) return { data: [], error: null };
+      rows.set(payload.id, { ...payload });
+      return { data: [{ ...payload }], error: null };
+    }
+    if (action === 'update') {
+      const updated = matching()
+        .filter(row => !mockDeniedIds.has(row.id))
+        .map(row => ({ ...row, ...payload, updated_at: serverTimestamp() }));
+      updated.forEach(row => rows.set(row.id, row));
+      return { data: updated, error: null };
+    }
+    return { data: matching(), error: null };
+  };
+
+  const builder: any = {
+    select: () => builder,
+    eq: (column: string, value: unknown) => {
+      filters.push([column, value]);
+      return builder;
+    },
+    update: (values: any) => {
+      action = 'update';
+      payload = values;
+      return builder;
+    },
+    delete: () => {
+      action = 'delete';
+      return builder;
+    },
+    upsert: (values: any, options: { ignoreDuplicates?: boolean } = {}) => {
+      action = 'upsert';
+      payload = values;
+      ignoreDuplicates = !!options.ignoreDuplicates;
+      return builder;
+    },
+    maybeSingle: async () => {
+      const result = run();
+      return { data: result.data?.[0] ?? null, error: result.error };
+    },
+    then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+      Promise.resolve(run()).then(resolve, reject),
+  };
+  return builder;
+}
+
+const belief = (id: string, overrides: Partial<SyncRow> = {}): SyncRow => ({
+  id,
+  user_id: 'user-1',
+  emotion: 'Fear',
+  frequency: 5,
+  updated_at: serverTimestamp(),
+  ...overrides,
+});
+
+// A row as both the server and this device last saw it
+const seedBelief = async (id: string, overrides: Partial<SyncRow> = {}) => {
+  const row = belief(id, overrides);
+  mockQuery('beliefs');
+  mockTables.beliefs.set(id, row);
+  await rememberRows('beliefs', [row]);
+  return row;
+};
+
+// Someone else changes the row on the server
+const editOnServer = (id: string, changes: Partial<SyncRow>) => {
+  mockTables.beliefs.set(id, { ...mockTables.beliefs.get(id)!, ...changes, updated_at: serverTimestamp() });
+};
+
+const update = (rowId: string, values: Record<string, any>) =>
+  ({ table: 'beliefs', kind: 'update', rowId, values }) as const;
+
+beforeEach(async () => {
+  // The queue logs every drop and retry; the assertions cover them
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  await clearOfflineData();
+  Object.keys(mockTables).forEach(table => delete mockTables[table]);
+  mockDeniedIds.clear();
+  mockNextError = null;
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('inserts', () => {
+  it('creates the row with its client-generated id', async () => {
+    await sendMutation({ table: 'beliefs', kind: 'insert', rowId: 'b1', values: belief('b1') });
+
+    expect(mockTables.beliefs.get('b1')?.emotion).toBe('Fear');
+    expect(getSyncStatus().pendingCount).toBe(0);
+  });
+
+  it('changes nothing when replayed after reaching the server', async () => {
+    const row = belief('b1');
+    await sendMutation({ table: 'beliefs', kind: 'insert', rowId: 'b1', values: row });
+    editOnServer('b1', { emotion: 'Grief' });
+
+    // The same insert again, e.g. the app was killed before the queue was saved
+    await sendMutation({ table: 'beliefs', kind: 'insert', rowId: 'b1', values: row });
+
+    expect(mockTables.beliefs.size).toBe(1);
+    expect(mockTables.beliefs.get('b1')?.emotion).toBe('Grief');
+    expect(getSyncStatus()).toMatchObject({ pendingCount: 0, rejectedCount: 0, conflictCount: 0 });
+  });
+
+  it('drops later changes to a row whose insert was refused', async () => {
+    await enqueueMutation({ table: 'beliefs', kind: 'insert', rowId: 'b1', values: belief('b1') });
+    await enqueueMutation(update('b1', { frequency: 9 }));
+    mockNextError = { code: '23505', message: 'duplicate key value' };
+
+    await flushQueue();
+
+    expect(mockTables.beliefs?.has('b1')).toBeFalsy();
+    expect(await getLocalRow('beliefs', 'b1')).toBeNull();
+    expect(getSyncStatus()).toMatchObject({ pendingCount: 0, rejectedCount: 2 });
+  });
+});
+
+describe('updates', () => {
+  it('applies a change based on the current server copy', async () => {
+    await seedBelief('b1');
+
+    await sendMutation(update('b1', { frequency: 8 }));
+
+    expect(mockTables.beliefs.get('b1')?.frequency).toBe(8);
+    expect((await getLocalRow('beliefs', 'b1'))?.frequency).toBe(8);
+  });
+
+  it('rebases later updates to the same row on the one before', async () => {
+    await seedBelief('b1');
+    // Made offline, both based on the same server copy
+    await enqueueMutation(update('b1', { frequency: 8 }));
+    await enqueueMutation(update('b1', { emotion: 'Calm' }));
+
+    await flushQueue();
+
+    expect(mockTables.beliefs.get('b1')).toMatchObject({ frequency: 8, emotion: 'Calm' });
+    expect(getSyncStatus()).toMatchObject({ pendingCount: 0, conflictCount: 0, rejectedCount: 0 });
+  });
+
+  it('rebases an update queued behind the insert of its row', async () => {
+    await enqueueMutation({ table: 'beliefs', kind: 'insert', rowId: 'b1', values: belief('b1') });
+    await enqueueMutation(update('b1', { frequency: 2 }));
+
+    await flushQueue();
+
+    expect(mockTables.beliefs.get('b1')?.frequency).toBe(2);
+    expect(getSyncStatus().conflictCount).toBe(0);
+  });
+
+  it('drops a change to a row that was deleted on the server', async () => {
+    await seedBelief('b1');
+    mockTables.beliefs.delete('b1');
+
+    await expect(sendMutation(update('b1', { frequency: 8 }))).resolves.toBeDefined();
+
+    expect(await getLocalRow('beliefs', 'b1')).toBeNull();
+    expect(getSyncStatus()).toMatchObject({ pendingCount: 0, conflictCount: 0, rejectedCount: 0 });
+  });
+});
+
+describe('conflicts', () => {
+  it('rejects an awaited change when the server copy changed first', async () => {
+    await seedBelief('b1');
+    editOnServer('b1', { emotion: 'Grief' });
+
+    const sent = sendMutation(update('b1', { frequency: 8 }));
+
+    await expect(sent).rejects.toBeInstanceOf(MutationConflictError);
+    await expect(sent).rejects.toMatchObject({ serverRow: { id: 'b1', emotion: 'Grief', frequency: 5 } });
+    expect(mockTables.beliefs.get('b1')?.frequency).toBe(5);
+    // Reads are back to the server copy
+    expect(await getLocalRow('beliefs', 'b1')).toMatchObject({ emotion: 'Grief', frequency: 5 });
+    // Reported to the caller, so not counted again
+    expect(getSyncStatus().conflictCount).toBe(0);
+  });
+
+  it('counts a conflict nobody is waiting on in the sync status', async () => {
+    await seedBelief('b1');
+    await enqueueMutation(update('b1', { frequency: 8 }));
+    editOnServer('b1', { emotion: 'Grief' });
+
+    await flushQueue();
+
+    expect(getSyncStatus()).toMatchObject({ pendingCount: 0, conflictCount: 1, rejectedCount: 0 });
+    expect(describeSyncStatus(getSyncStatus())).toBe('1 change was replaced by a newer version');
+  });
+
+  it('keeps replaying the changes behind a conflict', async () => {
+    await seedBelief('b1');
+    await seedBelief('b2');
+    await enqueueMutation(update('b1', { frequency: 8 }));
+    await enqueueMutation(update('b2', { frequency: 3 }));
+    editOnServer('b1', { emotion: 'Grief' });
+
+    await flushQueue();
+
+    expect(mockTables.beliefs.get('b2')?.frequency).toBe(3);
+    expect(getSyncStatus()).toMatchObject({ pendingCount: 0, conflictCount: 1 });
+  });
+});
+
+describe('rejections', () => {
+  it('treats an update row-level security hides as refused, not as a conflict', async () => {
+    await seedBelief('b1');
+    mockDeniedIds.add('b1');
+
+    const sent = sendMutation(update('b1', { frequency: 8 }));
+
+    await expect(sent).rejects.toBeInstanceOf(MutationRejectedError);
+    await expect(sent).rejects.not.toBeInstanceOf(MutationConflictError);
+    expect(await getLocalRow('beliefs', 'b1')).toMatchObject({ frequency: 5 });
+  });
+
+  it('drops a change the server refuses with an error code', async () => {
+    await seedBelief('b1');
+    mockNextError = { code: '42501', message: 'permission denied' };
+
+    await expect(sendMutation(update('b1', { frequency: 8 }))).rejects.toThrow('permission denied');
+    expect(getSyncStatus()).toMatchObject({ pendingCount: 0, rejectedCount: 0 });
+  });
+
+  it('reports refusals and conflicts together', () => {
+    expect(describeSyncStatus({ ...getSyncStatus(), rejectedCount: 2, conflictCount: 1 }))
+      .toBe("2 changes couldn't be saved; 1 change was replaced by a newer version");
+  });
+});
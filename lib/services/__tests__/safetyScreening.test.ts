@@ -0,0 +1,30 @@
+import { screenMessageLocally } from '../safetyScreening';
+import { screenMessage as screenMessageOnServer } from '../../../supabase/functions/_shared/safety';
+import phrases from './fixtures/safetyPhrases.json';
+
+// The local tier never reaches the model
+jest.mock('../llmConfig', () => ({ getLLMClient: jest.fn(), isLLMConfigured: () => false }));
+
+// The app's local tier and the edge functions' screening, run over the same
+// fixture corpus: each must flag every positive phrase and none of the others.
+const screeners = [
+  ['app', screenMessageLocally],
+  ['server', screenMessageOnServer],
+] as const;
+
+describe.each(screeners)('%s safety rules', (_name, screen) => {
+  it.each(phrases.positive)('flags "$text"', ({ text, level, category }) => {
+    const assessment = screen(text);
+    expect(assessment.level).toBe(level);
+    expect(assessment.categories).toContain(category);
+    expect(assessment.matchedRules.length).toBeGreaterThan(0);
+  });
+
+  it.each(phrases.negated)('discounts negated "%s"', text => {
+    expect(screen(text)).toMatchObject({ level: 'none', categories: [], matchedRules: [] });
+  });
+
+  it.each(phrases.benign)('ignores benign "%s"', text => {
+    expect(screen(text)).toMatchObject({ level: 'none', categories: [], matchedRules: [] });
+  });
+});
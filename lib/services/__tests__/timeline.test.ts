@@ -0,0 +1,257 @@
+import { ConversationMessageRow } from '../../types/conversation';
+import { FlowchartStructure } from '../../types/flowchart';
+import { EmotionWithScore } from '../emotions';
+import {
+  buildEmotionTimeline,
+  countNodeMentions,
+  getPeriodKey,
+  getPeriodRange,
+  getPeriodStart,
+} from '../timeline';
+
+// Only loadTimelineSource fetches; keep supabase out of the test
+jest.mock('../conversations', () => ({ getUserConversationMessages: jest.fn() }));
+jest.mock('../emotions', () => ({ getEmotions: jest.fn(), getReleasedEmotions: jest.fn() }));
+jest.mock('../flowcharts', () => ({ getUserFlowchartWithId: jest.fn() }));
+
+const emotion = (overrides: Partial<EmotionWithScore>): EmotionWithScore => ({
+  id: 'belief',
+  user_id: 'user-1',
+  emotion: null,
+  notes: null,
+  'feminine-masculine': 0,
+  'dark-light': 0,
+  'child-parent': 0,
+  frequency: 5,
+  ai_conversation_summary: null,
+  belief: null,
+  released: false,
+  released_at: null,
+  created_at: '2025-01-01T12:00:00.000Z',
+  updated_at: '2025-01-01T12:00:00.000Z',
+  score: 0,
+  ...overrides,
+});
+
+const message = (content: string, createdAt: string, conversationId = 'conversation-1'): ConversationMessageRow => ({
+  id: `${conversationId}-${createdAt}`,
+  conversation_id: conversationId,
+  user_id: 'user-1',
+  role: 'user',
+  content,
+  audio_duration_ms: null,
+  created_at: createdAt,
+});
+
+// Periods are local dates. Tests run in New York time (jest.globalSetup.js),
+// which is behind UTC and moves its clocks on 2025-03-09 and 2025-11-02.
+describe('time zone', () => {
+  it('runs in New York time', () => {
+    expect(new Date('2025-01-01T12:00:00Z').getTimezoneOffset()).toBe(300);
+    expect(new Date('2025-07-01T12:00:00Z').getTimezoneOffset()).toBe(240);
+  });
+});
+
+describe('getPeriodStart', () => {
+  it('starts a day at local midnight', () => {
+    const start = getPeriodStart(new Date(2025, 4, 14, 23, 59, 59), 'day');
+    expect(start).toEqual(new Date(2025, 4, 14));
+  });
+
+  it('starts a week on Monday', () => {
+    // Wednesday, Sunday and Monday
+    expect(getPeriodStart(new Date(2025, 4, 14), 'week')).toEqual(new Date(2025, 4, 12));
+    expect(getPeriodStart(new Date(2025, 4, 18, 23, 30), 'week')).toEqual(new Date(2025, 4, 12));
+    expect(getPeriodStart(new Date(2025, 4, 19, 0, 0), 'week')).toEqual(new Date(2025, 4, 19));
+  });
+
+  it('starts a week in the previous month or year', () => {
+    expect(getPeriodStart(new Date(2025, 0, 1), 'week')).toEqual(new Date(2024, 11, 30));
+  });
+
+  it('starts a month on the first', () => {
+    expect(getPeriodStart(new Date(2024, 1, 29, 18), 'month')).toEqual(new Date(2024, 1, 1));
+  });
+});
+
+describe('getPeriodKey', () => {
+  it('buckets by local date, not UTC date', () => {
+    // 01:30 UTC on the 15th is still the evening of the 14th in New York
+    expect(getPeriodKey('2025-05-15T01:30:00.000Z', 'day')).toBe('2025-05-14');
+    expect(getPeriodKey('2025-05-15T04:00:00.000Z', 'day')).toBe('2025-05-15');
+  });
+
+  it('puts late Sunday UTC-next-day times in the week they happened', () => {
+    // Sunday 2025-05-18 at 22:00 local is Monday in UTC
+    expect(getPeriodKey('2025-05-19T02:00:00.000Z', 'week')).toBe('2025-05-12');
+  });
+
+  it('puts New Year\'s Eve evening in December', () => {
+    expect(getPeriodKey('2026-01-01T03:00:00.000Z', 'month')).toBe('2025-12-01');
+  });
+
+  it('keeps the day around daylight saving changes', () => {
+    // Just before and after clocks go forward at 02:00 on 2025-03-09
+    expect(getPeriodKey('2025-03-09T06:59:00.000Z', 'day')).toBe('2025-03-09');
+    expect(getPeriodKey('2025-03-09T07:01:00.000Z', 'day')).toBe('2025-03-09');
+    // The repeated hour when clocks go back on 2025-11-02
+    expect(getPeriodKey('2025-11-02T05:30:00.000Z', 'day')).toBe('2025-11-02');
+    expect(getPeriodKey('2025-11-02T06:30:00.000Z', 'day')).toBe('2025-11-02');
+    expect(getPeriodKey('2025-11-03T04:59:00.000Z', 'day')).toBe('2025-11-02');
+  });
+
+  it('accepts dates as well as strings', () => {
+    expect(getPeriodKey(new Date(2025, 6, 4, 9), 'month')).toBe('2025-07-01');
+  });
+});
+
+describe('getPeriodRange', () => {
+  it('includes the periods at both ends', () => {
+    expect(getPeriodRange(new Date(2025, 0, 30, 22), new Date(2025, 1, 2, 1), 'day'))
+      .toEqual(['2025-01-30', '2025-01-31', '2025-02-01', '2025-02-02']);
+  });
+
+  it('returns one period when both dates fall in it', () => {
+    expect(getPeriodRange(new Date(2025, 4, 12), new Date(2025, 4, 18, 23), 'week')).toEqual(['2025-05-12']);
+  });
+
+  it('is empty when the range is backwards', () => {
+    expect(getPeriodRange(new Date(2025, 4, 20), new Date(2025, 4, 10), 'day')).toEqual([]);
+  });
+
+  it('steps whole days across daylight saving changes', () => {
+    expect(getPeriodRange(new Date(2025, 2, 8), new Date(2025, 2, 10), 'day'))
+      .toEqual(['2025-03-08', '2025-03-09', '2025-03-10']);
+    expect(getPeriodRange(new Date(2025, 10, 1), new Date(2025, 10, 3), 'day'))
+      .toEqual(['2025-11-01', '2025-11-02', '2025-11-03']);
+  });
+
+  it('keeps weeks on Mondays across daylight saving changes', () => {
+    expect(getPeriodRange(new Date(2025, 2, 5), new Date(2025, 2, 19), 'week'))
+      .toEqual(['2025-03-03', '2025-03-10', '2025-03-17']);
+  });
+
+  it('steps months from the first, across years', () => {
+    // Starting on the 31st must not skip short months
+    expect(getPeriodRange(new Date(2024, 10, 30), new Date(2025, 2, 31), 'month'))
+      .toEqual(['2024-11-01', '2024-12-01', '2025-01-01', '2025-02-01', '2025-03-01']);
+    expect(getPeriodRange(new Date(2025, 0, 31), new Date(2025, 1, 28), 'month'))
+      .toEqual(['2025-01-01', '2025-02-01']);
+  });
+});
+
+describe('buildEmotionTimeline', () => {
+  it('is empty without beliefs', () => {
+    expect(buildEmotionTimeline([], 'week')).toEqual({ periods: [], points: [], releases: [] });
+  });
+
+  it('fills every period between the first and last belief, empty ones included', () => {
+    const timeline = buildEmotionTimeline([
+      emotion({ id: 'late', created_at: '2025-05-16T15:00:00.000Z', 'dark-light': 3 }),
+      emotion({ id: 'early', created_at: '2025-05-14T15:00:00.000Z', 'dark-light': -1 }),
+    ], 'day');
+
+    expect(timeline.points.map(point => point.beliefId)).toEqual(['early', 'late']);
+    expect(timeline.periods.map(period => period.period)).toEqual(['2025-05-14', '2025-05-15', '2025-05-16']);
+    expect(timeline.periods[1]).toEqual({ period: '2025-05-15', beliefIds: [], averages: null, releases: 0 });
+  });
+
+  it('averages the beliefs in a period to one decimal', () => {
+    const timeline = buildEmotionTimeline([
+      emotion({ id: 'a', created_at: '2025-05-12T15:00:00.000Z', 'feminine-masculine': 1, frequency: 3 }),
+      emotion({ id: 'b', created_at: '2025-05-14T15:00:00.000Z', 'feminine-masculine': 2, frequency: 4 }),
+      emotion({ id: 'c', created_at: '2025-05-18T15:00:00.000Z', 'feminine-masculine': 2, frequency: 4 }),
+    ], 'week');
+
+    expect(timeline.periods).toHaveLength(1);
+    expect(timeline.periods[0].beliefIds).toEqual(['a', 'b', 'c']);
+    expect(timeline.periods[0].averages).toEqual({
+      'feminine-masculine': 1.7,
+      'dark-light': 0,
+      'child-parent': 0,
+      frequency: 3.7,
+    });
+  });
+
+  it('extends the range to releases and counts them per period', () => {
+    const timeline = buildEmotionTimeline([
+      emotion({
+        id: 'let-go',
+        emotion: 'Shame',
+        created_at: '2025-01-20T15:00:00.000Z',
+        released: true,
+        // Evening of 2025-03-31 in New York
+        released_at: '2025-04-01T02:00:00.000Z',
+      }),
+      // Released without a time: not a release event
+      emotion({ id: 'unknown', created_at: '2025-02-10T15:00:00.000Z', released: true }),
+    ], 'month');
+
+    expect(timeline.periods.map(period => [period.period, period.releases]))
+      .toEqual([['2025-01-01', 0], ['2025-02-01', 0], ['2025-03-01', 1]]);
+    expect(timeline.releases).toEqual([
+      { beliefId: 'let-go', label: 'Shame', releasedAt: '2025-04-01T02:00:00.000Z', period: '2025-03-01' },
+    ]);
+  });
+
+  it('labels beliefs by emotion, then belief, then a placeholder', () => {
+    const { points } = buildEmotionTimeline([
+      emotion({ id: 'a', emotion: 'Fear', belief: 'I am unsafe', created_at: '2025-05-01T15:00:00.000Z' }),
+      emotion({ id: 'b', belief: 'I am too much', created_at: '2025-05-02T15:00:00.000Z' }),
+      emotion({ id: 'c', created_at: '2025-05-03T15:00:00.000Z' }),
+    ], 'day');
+
+    expect(points.map(point => point.label)).toEqual(['Fear', 'I am too much', 'Untitled']);
+  });
+});
+
+describe('countNodeMentions', () => {
+  const flowchart: FlowchartStructure = {
+    nodes: [
+      { id: 'critic', label: 'Inner Critic', type: 'manager', x: 0, y: 0 },
+      { id: 'scroller', label: 'Scroller', type: 'firefighter', x: 0, y: 0 },
+      { id: 'me', label: 'Me', type: 'self', x: 0, y: 0 },
+      { id: 'unnamed', type: 'need', x: 0, y: 0 },
+    ],
+    edges: [],
+  };
+
+  it('is empty without a map', () => {
+    expect(countNodeMentions(null, [message('Inner Critic', '2025-05-14T15:00:00.000Z')], 'day')).toEqual([]);
+  });
+
+  it('reports zero mentions when nothing was said', () => {
+    expect(countNodeMentions(flowchart, [], 'day').map(stat => [stat.nodeId, stat.mentions, stat.timeline]))
+      .toEqual([['critic', 0, []], ['scroller', 0, []]]);
+  });
+
+  it('counts whole-word mentions per local period, most mentioned first', () => {
+    const stats = countNodeMentions(flowchart, [
+      message('My inner critic again. INNER CRITIC!', '2025-05-15T01:00:00.000Z'),
+      message('The scroller kicked in', '2025-05-15T15:00:00.000Z'),
+      message('The Inner Critic was quieter', '2025-05-15T16:00:00.000Z', 'conversation-2'),
+      message('Scrollers and inner critics', '2025-05-16T15:00:00.000Z'),
+    ], 'day');
+
+    expect(stats.map(stat => stat.nodeId)).toEqual(['critic', 'scroller']);
+    expect(stats[0]).toMatchObject({
+      label: 'Inner Critic',
+      type: 'manager',
+      mentions: 3,
+      conversations: 2,
+      // The first message was sent on the evening of the 14th
+      timeline: [{ period: '2025-05-14', count: 2 }, { period: '2025-05-15', count: 1 }],
+    });
+    expect(stats[1]).toMatchObject({ mentions: 1, conversations: 1, timeline: [{ period: '2025-05-15', count: 1 }] });
+  });
+
+  it('treats labels as text, not patterns', () => {
+    const stats = countNodeMentions(
+      { nodes: [{ id: 'fixer', label: 'Mr. Fix', type: 'manager', x: 0, y: 0 }], edges: [] },
+      [message('Mr. Fix showed up, then MrX Fix', '2025-05-15T15:00:00.000Z')],
+      'day'
+    );
+
+    expect(stats[0].mentions).toBe(1);
+  });
+});
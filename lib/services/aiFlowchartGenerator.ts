@@ -1,23 +1,19 @@
 import { FlowchartStructure } from '../types/flowchart';
+import { assertValidFlowchart } from './flowchartValidator';
 import * as FileSystem from 'expo-file-system';
 import { Asset } from 'expo-asset';
 import { promptContent } from '../../assets/flowchart/prompt_instructions.js';
 import { requirementsContent } from '../../assets/flowchart/requirements.js';
-// Note: OpenAI SDK requires polyfills for React Native
-// We'll use fetch API directly instead
+import { LLMMessage, LLMError } from './llmClient';
+import { getLLMClient, getLLMConfig, isLLMConfigured } from './llmConfig';
 
 /**
  * AI Flowchart Generator Service
  * 
- * This service integrates with ChatGPT to generate flowcharts
+ * This service uses the configured LLM provider to generate flowcharts
  * based on markdown requirements and IFS/Jungian psychology principles.
  */
 
-
-// OpenAI API configuration
-const OPENAI_API_KEY = process.env.EXPO_PUBLIC_OPENAI_API_KEY || '';
-const OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions';
-
 export interface AIGenerationRequest {
   requirements: string;
   existingStructure?: FlowchartStructure;
@@ -225,17 +221,14 @@ export const generateFlowchartWithAI = async (
 ): Promise<AIGenerationResponse> => {
   
   try {
-    console.log('🤖 Generating flowchart with ChatGPT...');
+    const llmConfig = getLLMConfig();
+    console.log('🤖 Generating flowchart with', llmConfig.provider, llmConfig.tasks.flowchartGeneration.model);
     
-    // Validate API key before proceeding
-    if (!OPENAI_API_KEY || !OPENAI_API_KEY.startsWith('sk-')) {
-      throw new Error('OpenAI API key is not configured or invalid. Please add EXPO_PUBLIC_OPENAI_API_KEY to your .env.local file.');
+    // Validate configuration before proceeding
+    if (!isLLMConfigured(llmConfig)) {
+      throw new Error(`The ${llmConfig.provider} LLM provider is not configured. Please check your .env.local file.`);
     }
     
-    // Debug API key (show only first and last 4 characters for security)
-    const apiKeyDebug = `${OPENAI_API_KEY.substring(0, 7)}...${OPENAI_API_KEY.substring(OPENAI_API_KEY.length - 4)}`;
-    console.log('🔑 API Key status:', apiKeyDebug);
-    
     // Read requirements document and prompt template
     const requirements = await readFlowchartRequirements();
     const promptData = await readFlowchartPrompt();
@@ -284,99 +277,37 @@ ${promptData.jsonFormat}
 ${promptData.finalInstructions}`;
 
     // Log what we're actually sending to OpenAI
-    console.log('📤 PROMPT BEING SENT TO OPENAI:');
+    console.log('📤 PROMPT BEING SENT TO LLM:');
     console.log('System:', systemPrompt);
     console.log('User:', userPrompt);
     if (hasImage) {
       console.log('Image base64 length:', imageBase64.length);
     }
 
-    // Prepare messages based on whether we have an image
-    const messages = hasImage 
-      ? [
-          { role: "system", content: systemPrompt },
-          { 
-            role: "user", 
-            content: [
-              { type: "text", text: userPrompt },
-              { type: "image_url", image_url: { url: imageBase64 } }
-            ]
-          }
-        ]
-      : [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt }
-        ];
-
-    // Call ChatGPT API using fetch
-    const response = await fetch(OPENAI_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${OPENAI_API_KEY}`
-      },
-      body: JSON.stringify({
-        model: hasImage ? "gpt-4o" : "gpt-4o-mini",
-        messages: messages,
-        temperature: 0.7,
-        max_tokens: 2000
-      })
-    });
+    const messages: LLMMessage[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt, images: hasImage ? [imageBase64] : undefined }
+    ];
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('🚨 OpenAI API Error Details:', {
-        status: response.status,
-        statusText: response.statusText,
-        url: OPENAI_API_URL,
-        headers: response.headers,
-        body: errorText
-      });
-      throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    console.log('🔍 OpenAI API Response Data:', JSON.stringify(data, null, 2));
-    
-    // Parse the response
-    const aiResponse = data.choices?.[0]?.message?.content;
-    if (!aiResponse) {
-      console.error('❌ No content in OpenAI response. Full response:', data);
-      throw new Error('No response from ChatGPT');
-    }
-
-    // Log the OpenAI response
-    console.log('🤖 OpenAI Response:', aiResponse);
-
-
-    // Try to parse JSON response, handle potential formatting issues
+    // Ask for a single JSON object; the client strips code fences and stray text
     let parsedResponse;
     try {
-      // Clean up markdown formatting from AI response
-      let cleanedResponse = aiResponse.trim();
-      
-      // Remove markdown code blocks - handle multiple patterns
-      cleanedResponse = cleanedResponse.replace(/^```json\s*/gm, '').replace(/^```\s*/gm, '').replace(/```\s*$/gm, '');
-      
-      // Find JSON object boundaries more reliably
-      const jsonStart = cleanedResponse.indexOf('{');
-      const jsonEnd = cleanedResponse.lastIndexOf('}');
-      
-      if (jsonStart !== -1 && jsonEnd !== -1 && jsonEnd > jsonStart) {
-        cleanedResponse = cleanedResponse.substring(jsonStart, jsonEnd + 1);
-      } else {
-        throw new Error('No valid JSON object found in AI response');
+      parsedResponse = await getLLMClient().json(messages, { task: 'flowchartGeneration' });
+    } catch (llmError) {
+      if (llmError instanceof LLMError && llmError.code === 'invalid_json') {
+        throw new Error('AI returned invalid JSON format');
       }
-      
-      parsedResponse = JSON.parse(cleanedResponse);
-    } catch (parseError) {
-      throw new Error('AI returned invalid JSON format');
+      console.error('🚨 LLM API Error Details:', llmError);
+      throw llmError;
     }
+
+    console.log('🤖 LLM Response:', JSON.stringify(parsedResponse, null, 2));
     
-    // Validate the structure
+    // Validate the structure and repair types, dangling edges and coordinates
     if (!parsedResponse.nodes || !parsedResponse.edges) {
       throw new Error('Invalid flowchart structure from AI');
     }
+    parsedResponse = assertValidFlowchart(parsedResponse);
 
     // Log the generated coordinates for debugging
     console.log('📊 Generated node coordinates:');
@@ -0,0 +1,190 @@
+import { BodyPattern, BodyPatternSubject, BodyPatternTrend } from '../types/body';
+import { PartType } from '../types/flowchart';
+import { BodySensationRow, getUserSensations } from './bodySensations';
+import { getRegionLabel, getSensationTypeLabel } from './bodyRegions';
+import { addRegionStats, getEmotions, getReleasedEmotions, EmotionWithRegionStats, EmotionWithScore } from './emotions';
+import { getUserFlowcharts, FlowchartRow } from './flowcharts';
+
+/**
+ * Body Patterns
+ *
+ * Finds emotions and kinds of parts that keep being felt in the same body
+ * region, across all beliefs and flowchart nodes with body sensations.
+ * Entries are counted rather than sensations, so pinning the same spot
+ * several times for one belief doesn't make a pattern.
+ */
+
+// An emotion or part type needs this many entries in a region to be a pattern
+const MIN_OCCURRENCES = 2;
+// Recent activity is compared against the rate before this many days ago
+const TREND_WINDOW_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PART_TYPE_LABELS: Record<PartType, string> = {
+  self: 'Self',
+  manager: 'manager',
+  firefighter: 'firefighter',
+  exile: 'exile',
+  need: 'need',
+};
+
+export interface BodyPatternReport {
+  // Strongest first
+  patterns: BodyPattern[];
+  emotions: EmotionWithRegionStats[];
+}
+
+interface Observation {
+  subject: BodyPatternSubject;
+  // The belief or node the sensation belongs to
+  entryKey: string;
+  sensation: BodySensationRow;
+}
+
+const subjectKey = (subject: BodyPatternSubject) =>
+  subject.kind === 'emotion' ? `emotion:${subject.label}` : `part:${subject.partType}`;
+
+const mostCommon = <T extends string>(values: T[]): T => {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+};
+
+const getTrend = (firstSeen: number[], now: number): BodyPatternTrend => {
+  const windowStart = now - TREND_WINDOW_DAYS * DAY_MS;
+  const recent = firstSeen.filter(time => time >= windowStart).length;
+  const earlier = firstSeen.filter(time => time < windowStart);
+
+  if (!earlier.length) {
+    return 'new';
+  }
+
+  // Earlier occurrences per window, over the time they were spread across
+  const earlierWindows = Math.max(1, (windowStart - Math.min(...earlier)) / (TREND_WINDOW_DAYS * DAY_MS));
+  const earlierRate = earlier.length / earlierWindows;
+
+  if (recent > earlierRate * 1.5) return 'rising';
+  if (recent < earlierRate * 0.5) return 'falling';
+  return 'steady';
+};
+
+const explainPattern = (pattern: Omit<BodyPattern, 'explanation'>): string => {
+  const region = getRegionLabel(pattern.region).toLowerCase();
+  const sensation = getSensationTypeLabel(pattern.dominantType).toLowerCase();
+  const frequency = `${pattern.occurrences} of ${pattern.subjectEntries} ${pattern.subjectEntries === 1 ? 'entry' : 'entries'}`;
+
+  const subject = pattern.subject.kind === 'emotion'
+    ? `${pattern.subject.label.charAt(0).toUpperCase()}${pattern.subject.label.slice(1)} tends`
+    : pattern.subject.partType === 'self'
+      ? 'Your Self tends'
+      : `Your ${PART_TYPE_LABELS[pattern.subject.partType]} parts tend`;
+
+  const trend: Record<BodyPatternTrend, string> = {
+    new: ` This is new in the last ${TREND_WINDOW_DAYS} days.`,
+    rising: ` It's been coming up more in the last ${TREND_WINDOW_DAYS} days.`,
+    falling: ` It's come up less in the last ${TREND_WINDOW_DAYS} days.`,
+    steady: '',
+  };
+
+  return `${subject} to show up in your ${region} (${frequency}), mostly as ${sensation} at about ${pattern.averageIntensity}/10.${trend[pattern.trend]}`;
+};
+
+/**
+ * Find recurring emotion-body and part-body patterns. Emotions are matched by
+ * their label, parts by the type of the node the sensation is pinned to.
+ */
+export const findBodyPatterns = (
+  sensations: BodySensationRow[],
+  emotions: EmotionWithScore[],
+  flowcharts: FlowchartRow[],
+  options: { now?: Date; minOccurrences?: number } = {}
+): BodyPattern[] => {
+  const now = (options.now || new Date()).getTime();
+  const minOccurrences = options.minOccurrences ?? MIN_OCCURRENCES;
+
+  const labelsByBelief = new Map(emotions.map(emotion => [emotion.id, emotion.emotion?.trim().toLowerCase() || null]));
+  const partTypes = new Map<string, PartType>();
+  flowcharts.forEach(flowchart => {
+    (flowchart.structure?.nodes || []).forEach(node => partTypes.set(`${flowchart.id}:${node.id}`, node.type));
+  });
+
+  const observations: Observation[] = sensations.flatMap((sensation): Observation[] => {
+    if (sensation.belief_id) {
+      const label = labelsByBelief.get(sensation.belief_id);
+      return label ? [{ subject: { kind: 'emotion', label }, entryKey: `belief:${sensation.belief_id}`, sensation }] : [];
+    }
+    const nodeKey = `${sensation.flowchart_id}:${sensation.node_id}`;
+    const partType = partTypes.get(nodeKey);
+    return partType ? [{ subject: { kind: 'part', partType }, entryKey: `node:${nodeKey}`, sensation }] : [];
+  });
+
+  const entriesBySubject = new Map<string, Set<string>>();
+  const groups = new Map<string, Observation[]>();
+  observations.forEach(observation => {
+    const key = subjectKey(observation.subject);
+    entriesBySubject.set(key, (entriesBySubject.get(key) || new Set<string>()).add(observation.entryKey));
+    const groupKey = `${key}|${observation.sensation.region}`;
+    groups.set(groupKey, [...(groups.get(groupKey) || []), observation]);
+  });
+
+  const patterns: BodyPattern[] = [];
+  groups.forEach(group => {
+    // When each entry was first felt in this region
+    const firstSeen = new Map<string, number>();
+    group.forEach(({ entryKey, sensation }) => {
+      const time = new Date(sensation.created_at).getTime();
+      firstSeen.set(entryKey, Math.min(time, firstSeen.get(entryKey) ?? time));
+    });
+
+    const occurrences = firstSeen.size;
+    if (occurrences < minOccurrences) return;
+
+    const { subject, sensation: { region } } = group[0];
+    const subjectEntries = entriesBySubject.get(subjectKey(subject))?.size || occurrences;
+    const averageIntensity = Math.round((group.reduce((sum, { sensation }) => sum + sensation.intensity, 0) / group.length) * 10) / 10;
+    const share = occurrences / subjectEntries;
+
+    const months = new Map<string, number>();
+    [...firstSeen.values()].forEach(time => {
+      const period = new Date(time).toISOString().slice(0, 7);
+      months.set(period, (months.get(period) || 0) + 1);
+    });
+
+    const pattern = {
+      subject,
+      region,
+      occurrences,
+      subjectEntries,
+      share,
+      averageIntensity,
+      dominantType: mostCommon(group.map(({ sensation }) => sensation.sensation_type)),
+      trend: getTrend([...firstSeen.values()], now),
+      timeline: [...months.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([period, count]) => ({ period, count })),
+      // How consistently, how intensely and how often it comes up
+      strength: share * (averageIntensity / 10) * Math.min(1, occurrences / 5),
+    };
+
+    patterns.push({ ...pattern, explanation: explainPattern(pattern) });
+  });
+
+  return patterns.sort((a, b) => b.strength - a.strength);
+};
+
+/**
+ * Load the current user's sensations, beliefs (released ones included) and
+ * maps, and analyse them.
+ */
+export const getBodyPatternReport = async (): Promise<BodyPatternReport> => {
+  const [sensations, activeEmotions, releasedEmotions, flowcharts] = await Promise.all([
+    getUserSensations(),
+    getEmotions(),
+    getReleasedEmotions(),
+    getUserFlowcharts(),
+  ]);
+  const emotions = [...activeEmotions, ...releasedEmotions];
+
+  return {
+    patterns: findBodyPatterns(sensations, emotions, flowcharts),
+    emotions: addRegionStats(emotions, sensations),
+  };
+};
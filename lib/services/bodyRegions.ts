@@ -0,0 +1,85 @@
+import {
+  BodyRegion,
+  BodyRegionId,
+  BodyRegionShape,
+  BodyView,
+  SensationTemperature,
+  SensationType,
+} from '../types/body';
+
+// Width and height of the body diagram's coordinate space
+export const BODY_VIEWBOX = { width: 200, height: 400 };
+
+// Regions of the body diagram. Left and right are the person's own, so in the
+// front view their right side is drawn on the viewer's left
+export const BODY_REGIONS: BodyRegion[] = [
+  { id: 'head', label: 'Head', views: ['front', 'back'], shape: { kind: 'ellipse', cx: 100, cy: 38, rx: 24, ry: 30 } },
+  { id: 'throat', label: 'Throat', views: ['front'], shape: { kind: 'rect', x: 88, y: 66, width: 24, height: 18, radius: 6 } },
+  { id: 'neck', label: 'Neck', views: ['back'], shape: { kind: 'rect', x: 88, y: 66, width: 24, height: 18, radius: 6 } },
+  { id: 'shoulders', label: 'Shoulders', views: ['front', 'back'], shape: { kind: 'rect', x: 56, y: 84, width: 88, height: 20, radius: 10 } },
+  { id: 'chest', label: 'Chest', views: ['front'], shape: { kind: 'rect', x: 66, y: 104, width: 68, height: 56, radius: 10 } },
+  { id: 'upper_back', label: 'Upper back', views: ['back'], shape: { kind: 'rect', x: 66, y: 104, width: 68, height: 56, radius: 10 } },
+  { id: 'stomach', label: 'Stomach', views: ['front'], shape: { kind: 'rect', x: 68, y: 160, width: 64, height: 52, radius: 10 } },
+  { id: 'lower_back', label: 'Lower back', views: ['back'], shape: { kind: 'rect', x: 68, y: 160, width: 64, height: 52, radius: 10 } },
+  { id: 'pelvis', label: 'Pelvis', views: ['front', 'back'], shape: { kind: 'rect', x: 68, y: 212, width: 64, height: 34, radius: 12 } },
+  { id: 'right_arm', label: 'Right arm', views: ['front', 'back'], shape: { kind: 'rect', x: 38, y: 90, width: 20, height: 130, radius: 10 } },
+  { id: 'left_arm', label: 'Left arm', views: ['front', 'back'], shape: { kind: 'rect', x: 142, y: 90, width: 20, height: 130, radius: 10 } },
+  { id: 'right_hand', label: 'Right hand', views: ['front', 'back'], shape: { kind: 'ellipse', cx: 48, cy: 233, rx: 11, ry: 14 } },
+  { id: 'left_hand', label: 'Left hand', views: ['front', 'back'], shape: { kind: 'ellipse', cx: 152, cy: 233, rx: 11, ry: 14 } },
+  { id: 'right_leg', label: 'Right leg', views: ['front', 'back'], shape: { kind: 'rect', x: 70, y: 246, width: 28, height: 120, radius: 12 } },
+  { id: 'left_leg', label: 'Left leg', views: ['front', 'back'], shape: { kind: 'rect', x: 102, y: 246, width: 28, height: 120, radius: 12 } },
+  { id: 'right_foot', label: 'Right foot', views: ['front', 'back'], shape: { kind: 'ellipse', cx: 82, cy: 378, rx: 15, ry: 9 } },
+  { id: 'left_foot', label: 'Left foot', views: ['front', 'back'], shape: { kind: 'ellipse', cx: 118, cy: 378, rx: 15, ry: 9 } },
+];
+
+export const SENSATION_TYPES: { type: SensationType; label: string }[] = [
+  { type: 'tension', label: 'Tension' },
+  { type: 'pressure', label: 'Pressure' },
+  { type: 'tightness', label: 'Tightness' },
+  { type: 'ache', label: 'Ache' },
+  { type: 'heaviness', label: 'Heaviness' },
+  { type: 'emptiness', label: 'Emptiness' },
+  { type: 'tingling', label: 'Tingling' },
+  { type: 'numbness', label: 'Numbness' },
+  { type: 'fluttering', label: 'Fluttering' },
+  { type: 'lightness', label: 'Lightness' },
+  { type: 'pulsing', label: 'Pulsing' },
+  { type: 'other', label: 'Other' },
+];
+
+export const SENSATION_TEMPERATURES: { temperature: SensationTemperature; label: string; color: string }[] = [
+  { temperature: 'cold', label: 'Cold', color: '#4A90E2' },
+  { temperature: 'cool', label: 'Cool', color: '#7FB3E8' },
+  { temperature: 'neutral', label: 'Neutral', color: '#A0A0A0' },
+  { temperature: 'warm', label: 'Warm', color: '#F5A623' },
+  { temperature: 'hot', label: 'Hot', color: '#E2574C' },
+];
+
+export const getBodyRegion = (id: BodyRegionId): BodyRegion | undefined =>
+  BODY_REGIONS.find(region => region.id === id);
+
+export const getRegionLabel = (id: BodyRegionId): string => getBodyRegion(id)?.label || id;
+
+export const getSensationTypeLabel = (type: SensationType): string =>
+  SENSATION_TYPES.find(option => option.type === type)?.label || type;
+
+export const getTemperatureColor = (temperature: SensationTemperature): string =>
+  SENSATION_TEMPERATURES.find(option => option.temperature === temperature)?.color || '#A0A0A0';
+
+// The figure is seen from behind in the back view, so its sides swap over
+const mirrorShape = (shape: BodyRegionShape): BodyRegionShape =>
+  shape.kind === 'ellipse'
+    ? { ...shape, cx: BODY_VIEWBOX.width - shape.cx }
+    : { ...shape, x: BODY_VIEWBOX.width - shape.x - shape.width };
+
+// Regions drawn in a view, with their shapes positioned for it
+export const getRegionsForView = (view: BodyView): BodyRegion[] =>
+  BODY_REGIONS
+    .filter(region => region.views.includes(view))
+    .map(region => (view === 'back' ? { ...region, shape: mirrorShape(region.shape) } : region));
+
+// Where to draw markers for a region: the middle of its shape
+export const getRegionCenter = (shape: BodyRegionShape): { x: number; y: number } =>
+  shape.kind === 'ellipse'
+    ? { x: shape.cx, y: shape.cy }
+    : { x: shape.x + shape.width / 2, y: shape.y + shape.height / 2 };
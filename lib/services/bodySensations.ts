@@ -0,0 +1,128 @@
+import { supabase } from '../supabase';
+import { Database } from '../database.types';
+import {
+  BodyRegionId,
+  BodySensation,
+  BodySensationTarget,
+  RegionHeat,
+  SensationTemperature,
+  SensationType,
+} from '../types/body';
+
+export type BodySensationRow = Database['public']['Tables']['body_sensations']['Row'];
+
+// Pin a sensation to a body region for a belief or a flowchart node
+export const addBodySensation = async (
+  target: BodySensationTarget,
+  sensation: BodySensation
+): Promise<BodySensationRow> => {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error('User must be authenticated to record a body sensation');
+  }
+
+  const { data, error } = await supabase
+    .from('body_sensations')
+    .insert({
+      user_id: user.id,
+      belief_id: target.kind === 'belief' ? target.beliefId : null,
+      flowchart_id: target.kind === 'node' ? target.flowchartId : null,
+      node_id: target.kind === 'node' ? target.nodeId : null,
+      region: sensation.region,
+      body_view: sensation.view,
+      sensation_type: sensation.type,
+      intensity: Math.max(1, Math.min(10, Math.round(sensation.intensity))),
+      temperature: sensation.temperature,
+      notes: sensation.notes?.trim() || null
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error adding body sensation:', error);
+    throw error;
+  }
+
+  return data;
+};
+
+// Get the sensations pinned to one belief or flowchart node, newest first
+export const getSensationsForTarget = async (target: BodySensationTarget): Promise<BodySensationRow[]> => {
+  let query = supabase.from('body_sensations').select('*');
+
+  query = target.kind === 'belief'
+    ? query.eq('belief_id', target.beliefId)
+    : query.eq('flowchart_id', target.flowchartId).eq('node_id', target.nodeId);
+
+  const { data, error } = await query.order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching body sensations:', error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+// Get all of the current user's sensations, optionally only recent ones
+export const getUserSensations = async (options: { since?: Date } = {}): Promise<BodySensationRow[]> => {
+  let query = supabase.from('body_sensations').select('*');
+
+  if (options.since) {
+    query = query.gte('created_at', options.since.toISOString());
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching user body sensations:', error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+// Delete a sensation
+export const deleteBodySensation = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('body_sensations')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting body sensation:', error);
+    throw error;
+  }
+};
+
+const mostCommon = <T extends string>(values: T[]): T => {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+};
+
+/**
+ * Aggregate sensations per region for the heatmap. A region's heat weighs how
+ * often it comes up by how intense it is, relative to the hottest region.
+ */
+export const aggregateSensationsByRegion = (sensations: BodySensationRow[]): RegionHeat[] => {
+  const byRegion = new Map<BodyRegionId, BodySensationRow[]>();
+  sensations.forEach(sensation => {
+    byRegion.set(sensation.region, [...(byRegion.get(sensation.region) || []), sensation]);
+  });
+
+  const regions = [...byRegion.entries()].map(([region, rows]) => ({
+    region,
+    count: rows.length,
+    averageIntensity: Math.round((rows.reduce((sum, row) => sum + row.intensity, 0) / rows.length) * 10) / 10,
+    total: rows.reduce((sum, row) => sum + row.intensity, 0),
+    dominantType: mostCommon<SensationType>(rows.map(row => row.sensation_type)),
+    dominantTemperature: mostCommon<SensationTemperature>(rows.map(row => row.temperature)),
+  }));
+
+  const hottest = Math.max(1, ...regions.map(region => region.total));
+  return regions
+    .map(({ total, ...region }) => ({ ...region, heat: total / hottest }))
+    .sort((a, b) => b.heat - a.heat);
+};
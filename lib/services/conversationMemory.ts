@@ -0,0 +1,352 @@
+import { ConversationSummary, SummarizedPart } from '../types/conversation';
+import { LLMMessage } from './llmClient';
+import { getLLMClient, isLLMConfigured } from './llmConfig';
+import { normalizePartType } from './flowchartValidator';
+
+/**
+ * Conversation Memory
+ *
+ * Keeps long sessions inside the model's context. The most recent turns stay
+ * verbatim; once the estimated size goes over the token budget, older turns
+ * are folded into a running structured summary of the parts, needs and
+ * beliefs that came up. Prompts are built from the summary plus the recent
+ * turns, so their size stays roughly constant however long the session runs.
+ * Folding goes in batches within the budget, so no single summarizer prompt
+ * grows with the length of the session either.
+ */
+
+export type { ConversationSummary, SummarizedPart };
+
+export interface MemoryTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp?: Date;
+}
+
+export interface ConversationMemoryOptions {
+  // Turns always kept verbatim
+  keepRecentTurns?: number;
+  // Estimated tokens for summary plus turns before older turns are folded
+  tokenBudget?: number;
+}
+
+const DEFAULT_KEEP_RECENT_TURNS = 8;
+const DEFAULT_TOKEN_BUDGET = 3000;
+const MAX_SUMMARY_ITEMS = 20;
+const MAX_NOTES_LENGTH = 1500;
+// Rough characters per token for English text, plus per-message overhead
+const CHARS_PER_TOKEN = 4;
+const TOKENS_PER_MESSAGE = 4;
+
+export const createEmptySummary = (): ConversationSummary => ({
+  parts: [],
+  needs: [],
+  beliefs: [],
+  notes: '',
+  turnsSummarized: 0,
+});
+
+/**
+ * Estimate how many tokens a text uses. Deliberately approximate - it only
+ * decides when to compress, so it doesn't need a provider tokenizer.
+ */
+export const estimateTokens = (text: string): number =>
+  Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export const estimateMessagesTokens = (messages: { content: string }[]): number =>
+  messages.reduce((total, message) => total + estimateTokens(message.content) + TOKENS_PER_MESSAGE, 0);
+
+const isSummaryEmpty = (summary: ConversationSummary): boolean =>
+  summary.parts.length === 0 && summary.needs.length === 0 && summary.beliefs.length === 0 && !summary.notes;
+
+/**
+ * Render a summary as prompt text. Returns an empty string for an empty summary.
+ */
+export const formatConversationSummary = (summary: ConversationSummary): string => {
+  if (isSummaryEmpty(summary)) {
+    return '';
+  }
+
+  const lines = [`Summary of the first ${summary.turnsSummarized} messages of this conversation:`];
+  if (summary.parts.length > 0) {
+    lines.push('Parts mentioned:');
+    summary.parts.forEach(part => {
+      lines.push(`- ${part.name}${part.type ? ` (${part.type})` : ''}${part.notes ? `: ${part.notes}` : ''}`);
+    });
+  }
+  if (summary.needs.length > 0) {
+    lines.push(`Needs: ${summary.needs.join('; ')}`);
+  }
+  if (summary.beliefs.length > 0) {
+    lines.push(`Beliefs: ${summary.beliefs.join('; ')}`);
+  }
+  if (summary.notes) {
+    lines.push(`Notes: ${summary.notes}`);
+  }
+  return lines.join('\n');
+};
+
+const uniqueStrings = (values: string[]): string[] => {
+  const seen = new Set<string>();
+  return values
+    .map(value => value.trim())
+    .filter(value => {
+      const key = value.toLowerCase();
+      if (!value || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(-MAX_SUMMARY_ITEMS);
+};
+
+const toStrings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+const clipNotes = (notes: string): string =>
+  notes.length > MAX_NOTES_LENGTH ? `…${notes.slice(notes.length - MAX_NOTES_LENGTH + 1)}` : notes;
+
+/**
+ * A summary saved earlier (conversations.summary_state), or null if it isn't
+ * one.
+ */
+export const parseConversationSummary = (raw: any): ConversationSummary | null => {
+  if (!raw || typeof raw !== 'object' || !Number.isInteger(raw.turnsSummarized) || raw.turnsSummarized < 0) {
+    return null;
+  }
+  return normalizeConversationSummary(raw, createEmptySummary(), raw.turnsSummarized);
+};
+
+/**
+ * Turn a summarizer answer into a ConversationSummary, keeping anything from
+ * `previous` the answer dropped. Parts are matched by name.
+ */
+export const normalizeConversationSummary = (
+  raw: any,
+  previous: ConversationSummary,
+  turnsSummarized: number
+): ConversationSummary => {
+  const parts = new Map<string, SummarizedPart>();
+  previous.parts.forEach(part => parts.set(part.name.toLowerCase(), part));
+
+  (Array.isArray(raw?.parts) ? raw.parts : []).forEach((item: any) => {
+    const name = typeof item?.name === 'string' ? item.name.trim() : '';
+    if (!name) return;
+    const existing = parts.get(name.toLowerCase());
+    parts.set(name.toLowerCase(), {
+      name,
+      type: normalizePartType(item.type) || existing?.type,
+      notes: typeof item.notes === 'string' && item.notes.trim() ? item.notes.trim() : existing?.notes || '',
+    });
+  });
+
+  return {
+    parts: Array.from(parts.values()).slice(-MAX_SUMMARY_ITEMS),
+    needs: uniqueStrings([...previous.needs, ...toStrings(raw?.needs)]),
+    beliefs: uniqueStrings([...previous.beliefs, ...toStrings(raw?.beliefs)]),
+    notes: clipNotes(typeof raw?.notes === 'string' && raw.notes.trim() ? raw.notes.trim() : previous.notes),
+    turnsSummarized,
+  };
+};
+
+const SUMMARY_INSTRUCTIONS = `You maintain the memory of an Internal Family Systems (IFS) therapy conversation.
+Update the existing summary with the new messages. Keep everything from the existing summary that is still true.
+
+Respond with a single JSON object only:
+{
+  "parts": [{ "name": "Inner Critic", "type": "Manager", "notes": "What it does and what it protects" }],
+  "needs": ["Needs the user expressed"],
+  "beliefs": ["Beliefs the user holds about themselves or others"],
+  "notes": "2-4 sentences on what happened in the conversation so far"
+}
+Part types: "Self", "Manager", "Firefighter", "Exile", "Need".`;
+
+// Used when no model is available or the summarizer fails: keep the gist of
+// what the user said so the folded turns aren't lost entirely
+const summarizeWithoutModel = (
+  turns: MemoryTurn[],
+  previous: ConversationSummary,
+  turnsSummarized: number
+): ConversationSummary => {
+  const excerpts = turns
+    .filter(turn => turn.role === 'user')
+    .map(turn => turn.content.trim().replace(/\s+/g, ' ').slice(0, 160))
+    .filter(Boolean);
+  const notes = [previous.notes, excerpts.length ? `User said: ${excerpts.join(' / ')}` : '']
+    .filter(Boolean)
+    .join(' ');
+  return { ...previous, notes: clipNotes(notes), turnsSummarized };
+};
+
+/**
+ * Fold `turns` into `previous`. Never throws - falls back to a plain excerpt
+ * summary if the model can't be reached or answers with something unusable.
+ */
+export const summarizeTurns = async (
+  turns: MemoryTurn[],
+  previous: ConversationSummary
+): Promise<ConversationSummary> => {
+  const turnsSummarized = previous.turnsSummarized + turns.length;
+  if (!isLLMConfigured()) {
+    return summarizeWithoutModel(turns, previous, turnsSummarized);
+  }
+
+  try {
+    const raw = await getLLMClient().json([
+      { role: 'system', content: SUMMARY_INSTRUCTIONS },
+      {
+        role: 'user',
+        content: `EXISTING SUMMARY:\n${JSON.stringify({
+          parts: previous.parts,
+          needs: previous.needs,
+          beliefs: previous.beliefs,
+          notes: previous.notes,
+        })}\n\nNEW MESSAGES:\n${turns.map(turn => `${turn.role}: ${turn.content}`).join('\n')}`
+      }
+    ], { task: 'conversationSummary' });
+    return normalizeConversationSummary(raw, previous, turnsSummarized);
+  } catch (error) {
+    console.error('❌ Error summarizing conversation:', error);
+    return summarizeWithoutModel(turns, previous, turnsSummarized);
+  }
+};
+
+export class ConversationMemory<T extends MemoryTurn = MemoryTurn> {
+  private turns: T[] = [];
+  private summary: ConversationSummary = createEmptySummary();
+  private compressing: Promise<void> | null = null;
+  private readonly keepRecentTurns: number;
+  private readonly tokenBudget: number;
+
+  constructor(options: ConversationMemoryOptions = {}) {
+    this.keepRecentTurns = options.keepRecentTurns ?? DEFAULT_KEEP_RECENT_TURNS;
+    this.tokenBudget = options.tokenBudget ?? DEFAULT_TOKEN_BUDGET;
+  }
+
+  addTurn(turn: T): void {
+    this.turns.push(turn);
+  }
+
+  /**
+   * Bring memory in line with a caller that passes the whole message list on
+   * every request. Only messages not seen yet are added; a shorter list means
+   * a new conversation and starts over.
+   */
+  sync(messages: T[]): void {
+    if (messages.length < this.getTotalTurns()) {
+      this.reset();
+    }
+    messages.slice(this.getTotalTurns()).forEach(message => this.addTurn(message));
+  }
+
+  // Every turn ever added, including the ones folded into the summary
+  getTotalTurns(): number {
+    return this.summary.turnsSummarized + this.turns.length;
+  }
+
+  getRecentTurns(): T[] {
+    return [...this.turns];
+  }
+
+  /**
+   * Verbatim turns from absolute position `index` on. Turns already folded
+   * into the summary are skipped.
+   */
+  getTurnsSince(index: number): T[] {
+    return this.turns.slice(Math.max(0, index - this.summary.turnsSummarized));
+  }
+
+  getSummary(): ConversationSummary {
+    return this.summary;
+  }
+
+  estimateTokens(): number {
+    return estimateTokens(formatConversationSummary(this.summary)) + estimateMessagesTokens(this.turns);
+  }
+
+  needsCompression(): boolean {
+    return this.turns.length > this.keepRecentTurns && this.estimateTokens() > this.tokenBudget;
+  }
+
+  // The oldest foldable turns that fit in the token budget, at least one
+  private nextFoldBatch(): T[] {
+    const foldable = this.turns.slice(0, this.turns.length - this.keepRecentTurns);
+    let tokens = 0;
+    let count = 0;
+    while (count < foldable.length) {
+      tokens += estimateMessagesTokens([foldable[count]]);
+      if (count > 0 && tokens > this.tokenBudget) break;
+      count += 1;
+    }
+    return foldable.slice(0, count);
+  }
+
+  /**
+   * Fold everything but the recent turns into the summary when over budget,
+   * one batch of at most the token budget per summarizer call. Concurrent
+   * callers share one compression.
+   */
+  async compressIfNeeded(): Promise<void> {
+    if (this.compressing) {
+      return this.compressing;
+    }
+    if (!this.needsCompression()) {
+      return;
+    }
+
+    this.compressing = (async () => {
+      while (this.needsCompression()) {
+        const folded = this.nextFoldBatch();
+        const previous = this.summary;
+        const summary = await summarizeTurns(folded, previous);
+        if (this.summary !== previous) {
+          // Reset while summarizing
+          return;
+        }
+        // Turns may have been added meanwhile; drop only the ones summarized
+        this.turns = this.turns.slice(folded.length);
+        this.summary = summary;
+        console.log('🧠 Conversation memory: folded', folded.length, 'turns, ~', this.estimateTokens(), 'tokens kept');
+      }
+    })();
+
+    try {
+      await this.compressing;
+    } finally {
+      this.compressing = null;
+    }
+  }
+
+  /**
+   * Summary and recent turns as plain prompt text.
+   */
+  toPromptText(): string {
+    const summary = formatConversationSummary(this.summary);
+    const recent = this.turns.map(turn => `${turn.role}: ${turn.content}`).join('\n');
+    return [summary, recent].filter(Boolean).join('\n\nRecent messages:\n');
+  }
+
+  /**
+   * Chat messages for the model: the summary as a system message, then the
+   * recent turns verbatim.
+   */
+  toChatMessages(): LLMMessage[] {
+    const summary = formatConversationSummary(this.summary);
+    return [
+      ...(summary ? [{ role: 'system' as const, content: summary }] : []),
+      ...this.turns.map(turn => ({ role: turn.role, content: turn.content })),
+    ];
+  }
+
+  /**
+   * Start from a saved state, e.g. when resuming a conversation.
+   */
+  restore(summary: ConversationSummary, turns: T[]): void {
+    this.summary = summary;
+    this.turns = [...turns];
+  }
+
+  reset(): void {
+    this.turns = [];
+    this.summary = createEmptySummary();
+  }
+}
@@ -0,0 +1,289 @@
+import { supabase } from '../supabase';
+import { Database } from '../database.types';
+import { ConversationRole, ConversationWithMessages } from '../types/conversation';
+import { FlowchartStructure } from '../types/flowchart';
+import {
+  ConversationMemory,
+  ConversationSummary,
+  MemoryTurn,
+  formatConversationSummary,
+  parseConversationSummary,
+} from './conversationMemory';
+import { getFlowchartById } from './flowcharts';
+
+export type ConversationRow = Database['public']['Tables']['conversations']['Row'];
+export type ConversationUpdate = Database['public']['Tables']['conversations']['Update'];
+export type ConversationMessageRow = Database['public']['Tables']['conversation_messages']['Row'];
+
+export interface NewConversationMessage {
+  role: ConversationRole;
+  content: string;
+  audioDurationMs?: number | null;
+  createdAt?: Date;
+}
+
+export interface ResumableConversation {
+  conversation: ConversationWithMessages;
+  summary: ConversationSummary;
+  // Latest messages verbatim; earlier ones are folded into the summary
+  recentMessages: MemoryTurn[];
+  // Structure of the linked map, if the conversation was saved into one
+  flowchart: FlowchartStructure | null;
+}
+
+// Start a new conversation for the current user
+export const createConversation = async (
+  options: { title?: string; topic?: string | null; flowchartId?: string | null; startedAt?: Date } = {}
+): Promise<ConversationRow> => {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error('User must be authenticated to save a conversation');
+  }
+
+  const now = (options.startedAt || new Date()).toISOString();
+  const { data, error } = await supabase
+    .from('conversations')
+    .insert({
+      user_id: user.id,
+      title: options.title || (options.topic ? `${options.topic} conversation` : 'Conversation'),
+      topic: options.topic || null,
+      flowchart_id: options.flowchartId || null,
+      started_at: now,
+      last_message_at: now
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating conversation:', error);
+    throw error;
+  }
+
+  console.log('💬 Started conversation:', data.id);
+  return data;
+};
+
+// Append messages to a conversation's transcript, in order
+export const appendConversationMessages = async (
+  conversationId: string,
+  messages: NewConversationMessage[]
+): Promise<ConversationMessageRow[]> => {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error('User must be authenticated to save a conversation');
+  }
+
+  const rows = messages
+    .filter(message => message.content.trim())
+    .map(message => ({
+      conversation_id: conversationId,
+      user_id: user.id,
+      role: message.role,
+      content: message.content,
+      audio_duration_ms: message.audioDurationMs ?? null,
+      created_at: (message.createdAt || new Date()).toISOString()
+    }));
+
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('conversation_messages')
+    .insert(rows)
+    .select();
+
+  if (error) {
+    console.error('Error appending conversation messages:', error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+// Append a single message to a conversation
+export const appendConversationMessage = async (
+  conversationId: string,
+  message: NewConversationMessage
+): Promise<ConversationMessageRow | null> => {
+  const [row] = await appendConversationMessages(conversationId, [message]);
+  return row || null;
+};
+
+// Get the current user's conversations, most recently active first
+export const getUserConversations = async (limit: number = 50): Promise<ConversationRow[]> => {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('last_message_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching conversations:', error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+// Get the current user's messages across all conversations, oldest first
+export const getUserConversationMessages = async (
+  options: { role?: ConversationRole; since?: Date } = {}
+): Promise<ConversationMessageRow[]> => {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return [];
+  }
+
+  let query = supabase
+    .from('conversation_messages')
+    .select('*')
+    .eq('user_id', user.id);
+
+  if (options.role) {
+    query = query.eq('role', options.role);
+  }
+  if (options.since) {
+    query = query.gte('created_at', options.since.toISOString());
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching conversation messages:', error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+// Get a conversation with its full transcript in order
+export const getConversationWithMessages = async (id: string): Promise<ConversationWithMessages | null> => {
+  const { data: conversation, error } = await supabase
+    .from('conversations')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return null; // Not found
+    }
+    console.error('Error fetching conversation:', error);
+    throw error;
+  }
+
+  const { data: messages, error: messagesError } = await supabase
+    .from('conversation_messages')
+    .select('*')
+    .eq('conversation_id', id)
+    .order('created_at', { ascending: true });
+
+  if (messagesError) {
+    console.error('Error fetching conversation messages:', messagesError);
+    throw messagesError;
+  }
+
+  return { ...conversation, messages: messages || [] };
+};
+
+// Update a conversation's title, summary or linked map
+export const updateConversation = async (id: string, updates: ConversationUpdate): Promise<ConversationRow> => {
+  const { data, error } = await supabase
+    .from('conversations')
+    .update({
+      ...updates,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating conversation:', error);
+    throw error;
+  }
+
+  return data;
+};
+
+// Record the map a conversation was saved into
+export const linkConversationToFlowchart = async (id: string, flowchartId: string): Promise<ConversationRow> => {
+  return updateConversation(id, { flowchart_id: flowchartId });
+};
+
+// Mark a conversation as finished, optionally storing its summary
+export const endConversation = async (id: string, summary?: string): Promise<ConversationRow> => {
+  return updateConversation(id, {
+    ended_at: new Date().toISOString(),
+    ...(summary ? { summary } : {})
+  });
+};
+
+// Delete a conversation and its transcript
+export const deleteConversation = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('conversations')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting conversation:', error);
+    throw error;
+  }
+};
+
+/**
+ * Load everything needed to continue a conversation: the transcript folded
+ * into a running summary plus recent messages, and the linked map. Memory
+ * starts from the summary saved last time, so only messages after it are
+ * folded. The conversation is reopened and its summary saved for next time.
+ */
+export const loadConversationForResume = async (id: string): Promise<ResumableConversation> => {
+  const conversation = await getConversationWithMessages(id);
+
+  if (!conversation) {
+    throw new Error('Conversation not found');
+  }
+
+  const turns: MemoryTurn[] = conversation.messages.flatMap(message =>
+    message.role === 'system'
+      ? []
+      : [{ role: message.role, content: message.content, timestamp: new Date(message.created_at) }]
+  );
+
+  const memory = new ConversationMemory();
+  const saved = parseConversationSummary(conversation.summary_state);
+  if (saved && saved.turnsSummarized <= turns.length) {
+    memory.restore(saved, turns.slice(saved.turnsSummarized));
+  } else {
+    turns.forEach(turn => memory.addTurn(turn));
+  }
+  await memory.compressIfNeeded();
+
+  const flowchartRow = conversation.flowchart_id ? await getFlowchartById(conversation.flowchart_id) : null;
+
+  const summaryText = formatConversationSummary(memory.getSummary());
+  // Best-effort: resuming works even if the bookkeeping update fails
+  updateConversation(id, {
+    ended_at: null,
+    ...(summaryText ? { summary: summaryText, summary_state: memory.getSummary() } : {})
+  }).catch(error => console.error('⚠️ Error reopening conversation:', error));
+
+  return {
+    conversation,
+    summary: memory.getSummary(),
+    recentMessages: memory.getRecentTurns(),
+    flowchart: flowchartRow?.structure || null
+  };
+};
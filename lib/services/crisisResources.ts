@@ -0,0 +1,114 @@
+/**
+ * Crisis Resources
+ *
+ * Helplines shown when safety screening flags a message, picked by the
+ * device's region. Regions without an entry get the international directory.
+ */
+
+export interface CrisisResource {
+  name: string;
+  description: string;
+  phone?: string;
+  // Number to text, with an optional message to start the conversation
+  sms?: { number: string; body?: string };
+  url?: string;
+}
+
+export interface RegionCrisisResources {
+  region: string | null;
+  emergencyNumber: string | null;
+  resources: CrisisResource[];
+}
+
+const FIND_A_HELPLINE: CrisisResource = {
+  name: 'Find A Helpline',
+  description: 'Free, confidential helplines in your country',
+  url: 'https://findahelpline.com'
+};
+
+const REGION_RESOURCES: Record<string, Omit<RegionCrisisResources, 'region'>> = {
+  US: {
+    emergencyNumber: '911',
+    resources: [
+      { name: '988 Suicide & Crisis Lifeline', description: 'Call or text, 24/7', phone: '988', sms: { number: '988' }, url: 'https://988lifeline.org' },
+      { name: 'Crisis Text Line', description: 'Text with a trained counselor, 24/7', sms: { number: '741741', body: 'HOME' } }
+    ]
+  },
+  CA: {
+    emergencyNumber: '911',
+    resources: [
+      { name: '9-8-8 Suicide Crisis Helpline', description: 'Call or text, 24/7', phone: '988', sms: { number: '988' }, url: 'https://988.ca' }
+    ]
+  },
+  GB: {
+    emergencyNumber: '999',
+    resources: [
+      { name: 'Samaritans', description: 'Call free, 24/7', phone: '116123', url: 'https://www.samaritans.org' },
+      { name: 'Shout', description: 'Text with a trained volunteer, 24/7', sms: { number: '85258', body: 'SHOUT' } }
+    ]
+  },
+  IE: {
+    emergencyNumber: '112',
+    resources: [
+      { name: 'Samaritans', description: 'Call free, 24/7', phone: '116123', url: 'https://www.samaritans.org' },
+      { name: '50808', description: 'Text with a trained volunteer, 24/7', sms: { number: '50808', body: 'HELLO' } }
+    ]
+  },
+  AU: {
+    emergencyNumber: '000',
+    resources: [
+      { name: 'Lifeline', description: 'Call, 24/7', phone: '131114', url: 'https://www.lifeline.org.au' }
+    ]
+  },
+  NZ: {
+    emergencyNumber: '111',
+    resources: [
+      { name: 'Need to talk? 1737', description: 'Call or text a trained counsellor, 24/7', phone: '1737', sms: { number: '1737' } }
+    ]
+  },
+  IN: {
+    emergencyNumber: '112',
+    resources: [
+      { name: 'Tele MANAS', description: 'Mental health helpline, 24/7', phone: '14416' }
+    ]
+  },
+  DE: {
+    emergencyNumber: '112',
+    resources: [
+      { name: 'TelefonSeelsorge', description: 'Anonym und kostenfrei, 24/7', phone: '08001110111', url: 'https://www.telefonseelsorge.de' }
+    ]
+  },
+  FR: {
+    emergencyNumber: '112',
+    resources: [
+      { name: '3114', description: 'Numéro national de prévention du suicide, 24/7', phone: '3114', url: 'https://3114.fr' }
+    ]
+  },
+  ES: {
+    emergencyNumber: '112',
+    resources: [
+      { name: '024', description: 'Línea de atención a la conducta suicida, 24/7', phone: '024' }
+    ]
+  }
+};
+
+/**
+ * Two-letter region of the device locale, e.g. "US" for en-US.
+ */
+export const getDeviceRegion = (): string | null => {
+  try {
+    const locale = Intl.DateTimeFormat().resolvedOptions().locale;
+    const match = locale.match(/[-_]([A-Za-z]{2})(?:[-_]|$)/);
+    return match ? match[1].toUpperCase() : null;
+  } catch {
+    return null;
+  }
+};
+
+export const getCrisisResources = (region: string | null = getDeviceRegion()): RegionCrisisResources => {
+  const entry = region ? REGION_RESOURCES[region.toUpperCase()] : undefined;
+  if (!entry) {
+    return { region, emergencyNumber: null, resources: [FIND_A_HELPLINE] };
+  }
+  return { region, emergencyNumber: entry.emergencyNumber, resources: [...entry.resources, FIND_A_HELPLINE] };
+};
@@ -0,0 +1,78 @@
+import { supabase } from '../supabase';
+
+/**
+ * Edge Functions
+ *
+ * The app holds no provider API keys. OpenAI, Anthropic and ElevenLabs are
+ * reached through Supabase edge functions (supabase/functions), called as the
+ * signed-in user so the functions can authenticate and rate-limit each call.
+ */
+
+const SUPABASE_URL = process.env.EXPO_PUBLIC_SUPABASE_URL || '';
+const SUPABASE_ANON_KEY = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY || '';
+
+// A function answered with an error status. `code` is the function's error code when it sent one
+export class EdgeFunctionError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly status: number,
+    public readonly retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = 'EdgeFunctionError';
+  }
+}
+
+export const isEdgeFunctionsConfigured = (): boolean => !!SUPABASE_URL;
+
+export const getEdgeFunctionUrl = (name: string): string => `${SUPABASE_URL}/functions/v1/${name}`;
+
+// Functions reject the anon key alone, so this sends the user's access token when signed in
+export const getEdgeFunctionHeaders = async (): Promise<Record<string, string>> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    'Content-Type': 'application/json',
+    apikey: SUPABASE_ANON_KEY,
+    Authorization: `Bearer ${session?.access_token || SUPABASE_ANON_KEY}`,
+  };
+};
+
+/**
+ * Turn an error response into an EdgeFunctionError. Functions answer
+ * `{ type: 'error', code, message }`; transcribe answers `{ success: false, error }`.
+ */
+export const readEdgeFunctionError = async (name: string, response: Response): Promise<EdgeFunctionError> => {
+  const body = await response.json().catch(() => null);
+  const retryAfterSeconds = response.status === 429
+    ? Number(body?.retryAfterSeconds ?? response.headers.get('Retry-After')) || undefined
+    : undefined;
+
+  return new EdgeFunctionError(
+    body?.message || body?.error || `${name} failed with status ${response.status}`,
+    body?.code || 'http_error',
+    response.status,
+    retryAfterSeconds
+  );
+};
+
+/**
+ * POST a JSON body to a function and return its JSON answer. Throws
+ * EdgeFunctionError for error statuses.
+ */
+export const callEdgeFunction = async <T = any>(name: string, body: object): Promise<T> => {
+  if (!isEdgeFunctionsConfigured()) {
+    throw new Error('Supabase URL is not configured. Please add EXPO_PUBLIC_SUPABASE_URL to your .env.local file.');
+  }
+
+  const response = await fetch(getEdgeFunctionUrl(name), {
+    method: 'POST',
+    headers: await getEdgeFunctionHeaders(),
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw await readEdgeFunctionError(name, response);
+  }
+  return response.json();
+};
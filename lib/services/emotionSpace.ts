@@ -0,0 +1,145 @@
+import { EmotionCluster, EmotionSpaceRotation, EmotionVector, ProjectedPoint } from '../types/emotionSpace';
+import { EmotionWithScore } from './emotions';
+
+/**
+ * Emotion Space
+ *
+ * Places beliefs in the feminine-masculine / dark-light / child-parent cube,
+ * projects them for a rotatable 3D view, and groups nearby ones with k-means.
+ * Everything here is pure.
+ */
+
+// Axes in vector order, with the labels EmotionSliders uses for each end
+export const EMOTION_AXES: { key: 'feminine-masculine' | 'dark-light' | 'child-parent'; negative: string; positive: string }[] = [
+  { key: 'feminine-masculine', negative: 'Feminine', positive: 'Masculine' },
+  { key: 'dark-light', negative: 'Dark', positive: 'Light' },
+  { key: 'child-parent', negative: 'Child', positive: 'Parent' },
+];
+
+export const AXIS_LIMIT = 3;
+
+// Camera distance in cube half-widths; smaller exaggerates perspective
+const CAMERA_DISTANCE = 4;
+const MAX_CLUSTERS = 5;
+const MAX_ITERATIONS = 50;
+
+const CLUSTER_COLORS = ['#007AFF', '#AF52DE', '#FF9500', '#34C759', '#FF2D55'];
+
+export const getClusterColor = (clusterId: number): string => CLUSTER_COLORS[clusterId % CLUSTER_COLORS.length];
+
+export const toEmotionVector = (emotion: EmotionWithScore): EmotionVector => [
+  emotion['feminine-masculine'],
+  emotion['dark-light'],
+  emotion['child-parent'],
+];
+
+const distanceSquared = (a: EmotionVector, b: EmotionVector) =>
+  (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+/**
+ * Rotate a vector and project it onto a square chart of the given size.
+ * Dark-light is drawn vertically, with light at the top.
+ */
+export const projectVector = (vector: EmotionVector, rotation: EmotionSpaceRotation, size: number): ProjectedPoint => {
+  const [x0, y0, z0] = vector.map(value => value / AXIS_LIMIT);
+
+  // Yaw around the vertical (dark-light) axis, then pitch around the horizontal one
+  const x1 = x0 * Math.cos(rotation.yaw) + z0 * Math.sin(rotation.yaw);
+  const z1 = -x0 * Math.sin(rotation.yaw) + z0 * Math.cos(rotation.yaw);
+  const y2 = y0 * Math.cos(rotation.pitch) - z1 * Math.sin(rotation.pitch);
+  const z2 = y0 * Math.sin(rotation.pitch) + z1 * Math.cos(rotation.pitch);
+
+  const scale = CAMERA_DISTANCE / (CAMERA_DISTANCE - z2);
+  // Leave room for the cube's corners when it's turned
+  const radius = size / 2 / Math.sqrt(3);
+
+  return {
+    x: size / 2 + x1 * scale * radius,
+    y: size / 2 - y2 * scale * radius,
+    depth: z2,
+    scale,
+  };
+};
+
+// A reasonable number of groups for this many beliefs
+export const suggestClusterCount = (count: number): number =>
+  Math.max(1, Math.min(MAX_CLUSTERS, Math.round(Math.sqrt(count / 2))));
+
+// Plain description of a point in the space, e.g. "Light, parent-leaning"
+export const describeEmotionVector = (vector: EmotionVector): string => {
+  const parts = EMOTION_AXES
+    .map((axis, index) => ({ axis, value: vector[index] }))
+    .filter(({ value }) => Math.abs(value) >= 0.75)
+    .sort((a, b) => Math.abs(b.value) - Math.abs(a.value))
+    .map(({ axis, value }) => {
+      const side = value < 0 ? axis.negative : axis.positive;
+      return Math.abs(value) >= 1.5 ? side : `${side.toLowerCase()}-leaning`;
+    });
+
+  if (!parts.length) {
+    return 'Balanced';
+  }
+  const description = parts.join(', ');
+  return description.charAt(0).toUpperCase() + description.slice(1);
+};
+
+/**
+ * Group beliefs with k-means. Starts from the farthest-first centres so the
+ * same beliefs always give the same groups. Clusters come back largest first.
+ */
+export const clusterEmotions = (emotions: EmotionWithScore[], k: number = suggestClusterCount(emotions.length)): EmotionCluster[] => {
+  if (!emotions.length) {
+    return [];
+  }
+
+  const vectors = emotions.map(toEmotionVector);
+  const clusterCount = Math.max(1, Math.min(k, vectors.length));
+
+  // Farthest-first: start at the belief nearest the middle, then repeatedly
+  // take the belief farthest from every centre chosen so far
+  const origin: EmotionVector = [0, 0, 0];
+  let centroids: EmotionVector[] = [
+    vectors.reduce((best, vector) => (distanceSquared(vector, origin) < distanceSquared(best, origin) ? vector : best)),
+  ];
+  while (centroids.length < clusterCount) {
+    const farthest = vectors.reduce((best, vector) => {
+      const nearest = Math.min(...centroids.map(centroid => distanceSquared(vector, centroid)));
+      return nearest > best.distance ? { vector, distance: nearest } : best;
+    }, { vector: vectors[0], distance: -1 });
+    if (farthest.distance <= 0) break; // Fewer distinct points than clusters
+    centroids.push(farthest.vector);
+  }
+
+  let assignments: number[] = [];
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next = vectors.map(vector => {
+      let closest = 0;
+      centroids.forEach((centroid, index) => {
+        if (distanceSquared(vector, centroid) < distanceSquared(vector, centroids[closest])) {
+          closest = index;
+        }
+      });
+      return closest;
+    });
+
+    const converged = next.every((cluster, index) => cluster === assignments[index]);
+    assignments = next;
+
+    centroids = centroids.map((centroid, index) => {
+      const members = vectors.filter((_, vectorIndex) => assignments[vectorIndex] === index);
+      if (!members.length) return centroid;
+      return [0, 1, 2].map(axis => members.reduce((sum, vector) => sum + vector[axis], 0) / members.length) as EmotionVector;
+    });
+
+    if (converged) break;
+  }
+
+  return centroids
+    .map((centroid, index) => ({
+      centroid: centroid.map(value => Math.round(value * 10) / 10) as EmotionVector,
+      beliefIds: emotions.filter((_, emotionIndex) => assignments[emotionIndex] === index).map(emotion => emotion.id),
+    }))
+    .filter(cluster => cluster.beliefIds.length > 0)
+    .sort((a, b) => b.beliefIds.length - a.beliefIds.length)
+    .map((cluster, index) => ({ ...cluster, id: index, label: describeEmotionVector(cluster.centroid) }));
+};
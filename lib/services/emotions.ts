@@ -1,5 +1,19 @@
+import * as Crypto from 'expo-crypto';
 import { supabase } from '../supabase';
 import { Database } from '../database.types';
+import { BodyRegionId } from '../types/body';
+import { BodySensationRow } from './bodySensations';
+import {
+  applyPendingMutations,
+  getCachedRows,
+  getLocalRow,
+  isNetworkError,
+  rememberRows,
+  reportConnectivity,
+  sendMutation,
+  setSyncChannel,
+  subscribeToSyncStatus,
+} from './offlineQueue';
 
 export type EmotionRow = Database['public']['Tables']['beliefs']['Row'];
 export type EmotionInsert = Database['public']['Tables']['beliefs']['Insert'];
@@ -9,50 +23,122 @@ export interface EmotionWithScore extends EmotionRow {
   score: number;
 }
 
+// Where in the body one emotion is felt (see bodySensations)
+export interface EmotionRegionStat {
+  region: BodyRegionId;
+  count: number;
+  averageIntensity: number;
+}
+
+export interface EmotionWithRegionStats extends EmotionWithScore {
+  // Most reported region first
+  regionStats: EmotionRegionStat[];
+  // Average intensity of all its body sensations, null when none are recorded
+  bodyIntensity: number | null;
+}
+
 // Calculate emotion score (average of absolute values)
 export const calculateEmotionScore = (emotion: EmotionRow): number => {
   const average = (Math.abs(emotion['feminine-masculine']) + Math.abs(emotion['dark-light']) + Math.abs(emotion['child-parent'])) / 3;
   return Math.round(average * 10) / 10;
 };
 
-// Get all emotions for the current user (only non-released ones)
-export const getEmotions = async (): Promise<EmotionWithScore[]> => {
-  const { data, error } = await supabase
-    .from('beliefs')
-    .select('*')
-    .eq('released', false)
-    .order('created_at', { ascending: false });
+// Attach region statistics from the body sensations pinned to each emotion
+export const addRegionStats = (
+  emotions: EmotionWithScore[],
+  sensations: BodySensationRow[]
+): EmotionWithRegionStats[] => {
+  const byBelief = new Map<string, BodySensationRow[]>();
+  sensations.forEach(sensation => {
+    if (sensation.belief_id) {
+      byBelief.set(sensation.belief_id, [...(byBelief.get(sensation.belief_id) || []), sensation]);
+    }
+  });
 
-  if (error) {
-    console.error('Error fetching emotions:', error);
-    throw error;
-  }
+  const average = (rows: BodySensationRow[]) =>
+    Math.round((rows.reduce((sum, row) => sum + row.intensity, 0) / rows.length) * 10) / 10;
 
-  // Add calculated score to each emotion
-  return data.map(emotion => ({
-    ...emotion,
-    score: calculateEmotionScore(emotion)
-  }));
+  return emotions.map(emotion => {
+    const rows = byBelief.get(emotion.id) || [];
+    const byRegion = new Map<BodyRegionId, BodySensationRow[]>();
+    rows.forEach(row => byRegion.set(row.region, [...(byRegion.get(row.region) || []), row]));
+
+    return {
+      ...emotion,
+      regionStats: [...byRegion.entries()]
+        .map(([region, regionRows]) => ({ region, count: regionRows.length, averageIntensity: average(regionRows) }))
+        .sort((a, b) => b.count - a.count || b.averageIntensity - a.averageIntensity),
+      bodyIntensity: rows.length ? average(rows) : null
+    };
+  });
 };
 
-// Get all released emotions for the current user
-export const getReleasedEmotions = async (): Promise<EmotionWithScore[]> => {
-  const { data, error } = await supabase
-    .from('beliefs')
-    .select('*')
-    .eq('released', true)
-    .order('released_at', { ascending: false });
+const withScore = (emotion: EmotionRow): EmotionWithScore => ({
+  ...emotion,
+  score: calculateEmotionScore(emotion)
+});
+
+const byNewest = (a: EmotionRow, b: EmotionRow) =>
+  new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+
+// Run a list query with queued offline changes applied on top. When the
+// server can't be reached, answers from the rows cached by earlier reads.
+const readEmotions = async (
+  query: PromiseLike<{ data: EmotionRow[] | null; error: any }>,
+  released: boolean,
+  compare: (a: EmotionRow, b: EmotionRow) => number,
+  description: string
+): Promise<EmotionWithScore[]> => {
+  const { data, error } = await query;
+  let rows: EmotionRow[];
 
   if (error) {
-    console.error('Error fetching released emotions:', error);
-    throw error;
+    if (!isNetworkError(error)) {
+      console.error(`Error fetching ${description}:`, error);
+      throw error;
+    }
+    console.log('📴 Offline, showing cached', description);
+    reportConnectivity(false);
+    rows = (await getCachedRows('beliefs')) as EmotionRow[];
+  } else {
+    reportConnectivity(true);
+    rows = data || [];
+    await rememberRows('beliefs', rows, row => row.released === released);
   }
 
-  // Add calculated score to each emotion
-  return data.map(emotion => ({
-    ...emotion,
-    score: calculateEmotionScore(emotion)
-  }));
+  const merged = await applyPendingMutations('beliefs', rows);
+  return merged
+    .filter(emotion => emotion.released === released)
+    .sort(compare)
+    .map(withScore);
+};
+
+// Get all emotions for the current user (only non-released ones)
+export const getEmotions = async (): Promise<EmotionWithScore[]> => {
+  return readEmotions(
+    supabase
+      .from('beliefs')
+      .select('*')
+      .eq('released', false)
+      .order('created_at', { ascending: false }),
+    false,
+    byNewest,
+    'emotions'
+  );
+};
+
+// Get all released emotions for the current user
+export const getReleasedEmotions = async (): Promise<EmotionWithScore[]> => {
+  return readEmotions(
+    supabase
+      .from('beliefs')
+      .select('*')
+      .eq('released', true)
+      .order('released_at', { ascending: false }),
+    true,
+    (a, b) => new Date(b.released_at || 0).getTime() - new Date(a.released_at || 0).getTime(),
+    'released emotions'
+  );
 };
 
 // Get a single emotion by ID
@@ -63,18 +149,21 @@ export const getEmotion = async (id: string): Promise<EmotionWithScore | null> =
     .eq('id', id)
     .single();
 
-  if (error) {
-    if (error.code === 'PGRST116') {
-      return null; // Not found
+  if (error && error.code !== 'PGRST116') {
+    if (!isNetworkError(error)) {
+      console.error('Error fetching emotion:', error);
+      throw error;
     }
-    console.error('Error fetching emotion:', error);
-    throw error;
+    reportConnectivity(false);
+  } else {
+    reportConnectivity(true);
+    // Not found (PGRST116) forgets any cached copy
+    await rememberRows('beliefs', data ? [data] : [], row => row.id === id);
   }
 
-  return {
-    ...data,
-    score: calculateEmotionScore(data)
-  };
+  // Includes emotions created offline that haven't synced yet
+  const emotion = await getLocalRow<EmotionRow>('beliefs', id);
+  return emotion ? withScore(emotion) : null;
 };
 
 // Global sync callback for triggering updates after actions
@@ -88,71 +177,76 @@ export const clearGlobalSyncCallback = () => {
   globalSyncCallback = null;
 };
 
+// Writes are queued (see offlineQueue) and sent right away when online, so
+// they also work offline and return the optimistic local row. A write the
+// server refuses throws a MutationRejectedError, or a MutationConflictError
+// when the belief changed elsewhere first, and is rolled back.
+
+// An update is merged into the copy on the device, so fetch it if it isn't
+// there. Offline, an emotion that was never loaded can't be edited
+const ensureEmotionKnown = async (id: string): Promise<void> => {
+  if (!(await getLocalRow<EmotionRow>('beliefs', id)) && !(await getEmotion(id))) {
+    throw new Error('Emotion not found');
+  }
+};
+
 // Create a new emotion
 export const createEmotion = async (emotion: Omit<EmotionInsert, 'user_id'>): Promise<EmotionWithScore> => {
-  const { data: { user }, error: userError } = await supabase.auth.getUser();
-  
-  if (userError || !user) {
+  // The stored session works offline, unlike getUser()
+  const { data: { session } } = await supabase.auth.getSession();
+  const user = session?.user;
+
+  if (!user) {
     throw new Error('User not authenticated');
   }
 
-  const { data, error } = await supabase
-    .from('beliefs')
-    .insert({
-      ...emotion,
-      user_id: user.id
-    })
-    .select()
-    .single();
+  const now = new Date().toISOString();
+  const row: EmotionRow = {
+    emotion: null,
+    notes: null,
+    ai_conversation_summary: null,
+    belief: null,
+    released: false,
+    released_at: null,
+    created_at: now,
+    updated_at: now,
+    ...emotion,
+    // Generated here so a replayed insert can't create a duplicate
+    id: emotion.id || Crypto.randomUUID(),
+    user_id: user.id
+  };
 
-  if (error) {
-    console.error('Error creating emotion:', error);
-    throw error;
-  }
+  await sendMutation({ table: 'beliefs', kind: 'insert', rowId: row.id, values: row });
 
   // Trigger sync after creation
   setTimeout(() => globalSyncCallback?.(), 500);
 
-  return {
-    ...data,
-    score: calculateEmotionScore(data)
-  };
+  return withScore((await getLocalRow<EmotionRow>('beliefs', row.id)) || row);
 };
 
 // Update an emotion
 export const updateEmotion = async (id: string, updates: EmotionUpdate): Promise<EmotionWithScore> => {
-  const { data, error } = await supabase
-    .from('beliefs')
-    .update(updates)
-    .eq('id', id)
-    .select()
-    .single();
-
-  if (error) {
-    console.error('Error updating emotion:', error);
-    throw error;
-  }
+  await ensureEmotionKnown(id);
+  await sendMutation({
+    table: 'beliefs',
+    kind: 'update',
+    rowId: id,
+    values: { ...updates, updated_at: new Date().toISOString() }
+  });
 
   // Trigger sync after update
   setTimeout(() => globalSyncCallback?.(), 500);
 
-  return {
-    ...data,
-    score: calculateEmotionScore(data)
-  };
+  const emotion = await getLocalRow<EmotionRow>('beliefs', id);
+  if (!emotion) {
+    throw new Error('Emotion not found');
+  }
+  return withScore(emotion);
 };
 
 // Delete an emotion
 export const deleteEmotion = async (id: string): Promise<void> => {
-  const { error } = await supabase
-    .from('beliefs')
-    .delete()
-    .eq('id', id);
-
-  if (error) {
-    console.error('Error deleting emotion:', error);
-    throw error;
-  }
+  await sendMutation({ table: 'beliefs', kind: 'delete', rowId: id, values: {} });
 
   // Trigger sync after deletion
   setTimeout(() => globalSyncCallback?.(), 500);
@@ -160,28 +254,25 @@ export const deleteEmotion = async (id: string): Promise<void> => {
 
 // Release an emotion (mark as released in Supabase)
 export const releaseEmotion = async (emotionId: string): Promise<void> => {
-  const { error } = await supabase
-    .from('beliefs')
-    .update({ 
-      released: true, 
-      released_at: new Date().toISOString() 
-    })
-    .eq('id', emotionId);
-
-  if (error) {
-    console.error('Error releasing emotion:', error);
-    throw error;
-  }
+  await ensureEmotionKnown(emotionId);
+  const now = new Date().toISOString();
+  await sendMutation({
+    table: 'beliefs',
+    kind: 'update',
+    rowId: emotionId,
+    values: { released: true, released_at: now, updated_at: now }
+  });
 
   // Trigger sync after release
   setTimeout(() => globalSyncCallback?.(), 500);
-  
-  console.log('🔧 Emotion released and synced with Supabase');
+
+  console.log('🔧 Emotion released, syncing with Supabase');
 };
 
 // Get emotions sorted by different criteria (only non-released ones)
 export const getEmotionsSorted = async (sortBy: 'newest' | 'oldest' | 'frequency' | 'intensity'): Promise<EmotionWithScore[]> => {
   let query = supabase.from('beliefs').select('*').eq('released', false);
+  let compare: (a: EmotionRow, b: EmotionRow) => number = byNewest;
 
   switch (sortBy) {
     case 'newest':
@@ -189,42 +280,27 @@ export const getEmotionsSorted = async (sortBy: 'newest' | 'oldest' | 'frequency
       break;
     case 'oldest':
       query = query.order('created_at', { ascending: true });
+      compare = (a, b) => byNewest(b, a);
       break;
     case 'frequency':
       query = query.order('frequency', { ascending: false });
+      compare = (a, b) => b.frequency - a.frequency;
       break;
     case 'intensity':
-      // For intensity, we'll need to sort in JavaScript after fetching
+      // Intensity is a calculated score, so it's sorted in JavaScript
       query = query.order('created_at', { ascending: false });
+      compare = (a, b) => calculateEmotionScore(b) - calculateEmotionScore(a);
       break;
   }
 
-  const { data, error } = await query;
-
-  if (error) {
-    console.error('Error fetching sorted emotions:', error);
-    throw error;
-  }
-
-  // Add calculated score to each emotion
-  const emotionsWithScore = data.map(emotion => ({
-    ...emotion,
-    score: calculateEmotionScore(emotion)
-  }));
-
-  // Sort by intensity if needed (done in JavaScript)
-  if (sortBy === 'intensity') {
-    emotionsWithScore.sort((a, b) => b.score - a.score);
-  }
-
-  return emotionsWithScore;
+  return readEmotions(query, false, compare, 'sorted emotions');
 };
 
-// Subscribe to emotion changes with smart polling fallback
+// Subscribe to emotion changes with smart polling fallback. The connection
+// state is reported through the offline queue's sync status (useSyncStatus)
 export const subscribeToEmotions = (
   callback: (emotions: EmotionWithScore[]) => void,
-  onError?: (error: any) => void,
-  onStatusChange?: (status: string) => void
+  onError?: (error: any) => void
 ) => {
   let isSubscribed = true;
   let lastDataHash = '';
@@ -273,7 +349,7 @@ export const subscribeToEmotions = (
           callback(emotions);
           // Confirm real-time is actively working
           if (!realtimeDisabled) {
-            onStatusChange?.('REALTIME_ACTIVE');
+            setSyncChannel('realtime');
           }
         } catch (error) {
           console.error('Error fetching emotions after real-time update:', error);
@@ -289,13 +365,13 @@ export const subscribeToEmotions = (
           payload.message?.includes('check Realtime is enabled')) {
         console.log('⚠️ Real-time is not enabled for this table, using smart polling');
         realtimeDisabled = true;
-        onStatusChange?.('SMART_POLLING_ACTIVE');
+        setSyncChannel('polling');
         startSmartPolling();
         startReconnectAttempts();
       } else if (payload.status === 'error') {
         console.log('⚠️ Real-time error detected, switching to smart polling mode');
         realtimeDisabled = true;
-        onStatusChange?.('SMART_POLLING_ACTIVE');
+        setSyncChannel('polling');
         startSmartPolling();
         startReconnectAttempts();
       }
@@ -352,6 +428,7 @@ export const subscribeToEmotions = (
   };
 
   // Initialize the subscription
+  setSyncChannel('connecting');
   setupRealtimeSubscription();
 
   // Subscribe to real-time, fallback to smart polling if it fails
@@ -360,14 +437,15 @@ export const subscribeToEmotions = (
     
     if (status === 'SUBSCRIBED') {
       console.log('✅ Real-time subscription established and ready');
-      // Start in REALTIME_ACTIVE mode, will stay here unless errors occur
-      onStatusChange?.('REALTIME_ACTIVE');
+      // Start in realtime mode, will stay here unless errors occur. Also
+      // replays any changes queued while offline
+      setSyncChannel('realtime');
     } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
       console.log('⚠️ Real-time connection failed, using smart polling fallback');
       realtimeDisabled = true;
-      onStatusChange?.('SMART_POLLING_ACTIVE');
+      setSyncChannel('polling');
     } else if (status === 'CLOSED') {
-      onStatusChange?.('DISCONNECTED');
+      setSyncChannel('disconnected');
     }
   });
 
@@ -379,10 +457,25 @@ export const subscribeToEmotions = (
     }
   }).catch(onError);
 
+  // Show optimistic changes right away, and the server's rows once the
+  // queue has replayed them
+  let lastPendingCount: number | null = null;
+  const unsubscribeFromQueue = subscribeToSyncStatus(({ pendingCount }) => {
+    if (!isSubscribed || pendingCount === lastPendingCount) return;
+    lastPendingCount = pendingCount;
+    getEmotions().then(emotions => {
+      if (isSubscribed) {
+        lastDataHash = JSON.stringify(emotions.map(e => ({ id: e.id, updated_at: e.updated_at })));
+        callback(emotions);
+      }
+    }).catch(onError);
+  });
+
   // Return object with cleanup and manual sync functions
   return {
     unsubscribe: () => {
       isSubscribed = false;
+      unsubscribeFromQueue();
       if (channel) {
         channel.unsubscribe();
       }
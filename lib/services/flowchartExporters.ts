@@ -0,0 +1,227 @@
+import {
+  FlowchartStructure,
+  FlowchartNode,
+  FlowchartEdge,
+  PartColors,
+  PartType,
+  RelationshipStyles,
+  RelationshipType,
+} from '../types/flowchart';
+import { COORDINATE_BOUNDS } from './flowchartValidator';
+import { getNodeDisplayLabel } from './flowchartGeometry';
+
+/**
+ * Diagram Exporters
+ *
+ * Turn a FlowchartStructure into text that other tools can render:
+ * Mermaid `flowchart` syntax (notes apps, GitHub, Obsidian), Graphviz DOT and a
+ * plain outline for language model prompts.
+ * Shapes and colours follow PartColors, edge styles follow RelationshipStyles.
+ */
+
+export type DiagramFormat = 'mermaid' | 'dot';
+
+/**
+ * Mermaid comments starting with this prefix carry the data Mermaid itself
+ * can't express (original ids, coordinates, descriptions), so an exported
+ * diagram can be imported again without losing anything.
+ */
+export const MERMAID_META_PREFIX = '%% @';
+
+// Mermaid has no triangle or pentagon, so the closest classic shapes are used
+const MERMAID_SHAPES: Record<PartType, [string, string]> = {
+  self: ['((', '))'],        // Circle
+  manager: ['{{', '}}'],     // Hexagon
+  exile: ['[', ']'],         // Square
+  firefighter: ['>', ']'],   // Flag (closest to a triangle)
+  need: ['[/', '\\]'],       // Trapezoid (closest to a pentagon)
+};
+
+const DOT_SHAPES: Record<PartType, string> = {
+  self: 'circle',
+  manager: 'hexagon',
+  exile: 'square',
+  firefighter: 'triangle',
+  need: 'pentagon',
+};
+
+const NODE_TEXT_COLOR = '#FFFFFF';
+
+// Darken a hex colour for shape outlines
+const darken = (hex: string, amount: number = 0.3): string => {
+  const value = parseInt(hex.slice(1), 16);
+  const channel = (shift: number) => Math.round(((value >> shift) & 0xff) * (1 - amount));
+  return `#${[16, 8, 0].map(shift => channel(shift).toString(16).padStart(2, '0')).join('')}`;
+};
+
+const getPartColor = (type: PartType): string => PartColors[type] || PartColors.manager;
+
+const getEdgeStyle = (type: RelationshipType) => RelationshipStyles[type] || RelationshipStyles.alliance;
+
+const isDashed = (type: RelationshipType): boolean => getEdgeStyle(type).strokeDasharray !== '0';
+
+const getEdgeLabel = (edge: FlowchartEdge): string => edge.label || edge.type;
+
+// ---------------------------------------------------------------------------
+// Mermaid
+// ---------------------------------------------------------------------------
+
+// Mermaid quoted strings can't contain double quotes, pipes or raw newlines
+const escapeMermaid = (text: string): string =>
+  text.replace(/"/g, '#quot;').replace(/\|/g, '#124;').replace(/\r?\n/g, '<br/>');
+
+const getMermaidArrow = (type: RelationshipType): string => {
+  if (isDashed(type)) return '-.->';
+  return getEdgeStyle(type).strokeWidth >= 3 ? '==>' : '-->';
+};
+
+/**
+ * Export a flowchart as a Mermaid `flowchart` diagram.
+ * Node ids are replaced by safe identifiers (n0, n1, ...) and the original
+ * values are kept in metadata comments.
+ */
+export const exportFlowchartToMermaid = (flowchart: FlowchartStructure): string => {
+  const mermaidIds = new Map(flowchart.nodes.map((node, index) => [node.id, `n${index}`]));
+  const lines: string[] = ['flowchart TD'];
+
+  if (flowchart.metadata?.notes) {
+    lines.push(`  %% ${flowchart.metadata.notes.replace(/\r?\n/g, ' ')}`);
+  }
+
+  flowchart.nodes.forEach(node => {
+    const [open, close] = MERMAID_SHAPES[node.type] || MERMAID_SHAPES.manager;
+    const label = escapeMermaid(getNodeDisplayLabel(node));
+    lines.push(`  ${mermaidIds.get(node.id)}${open}"${label}"${close}:::${node.type}`);
+  });
+
+  const exportedEdges = flowchart.edges.filter(edge => mermaidIds.has(edge.from) && mermaidIds.has(edge.to));
+
+  exportedEdges.forEach(edge => {
+    const arrow = getMermaidArrow(edge.type);
+    lines.push(`  ${mermaidIds.get(edge.from)} ${arrow}|"${escapeMermaid(getEdgeLabel(edge))}"| ${mermaidIds.get(edge.to)}`);
+  });
+
+  exportedEdges.forEach((edge, index) => {
+    const style = getEdgeStyle(edge.type);
+    const dash = isDashed(edge.type) ? `,stroke-dasharray:${style.strokeDasharray.replace(',', ' ')}` : '';
+    lines.push(`  linkStyle ${index} stroke:${style.color},stroke-width:${style.strokeWidth}px${dash}`);
+  });
+
+  [...new Set(flowchart.nodes.map(node => node.type))].forEach(type => {
+    const color = getPartColor(type);
+    lines.push(`  classDef ${type} fill:${color},stroke:${darken(color)},color:${NODE_TEXT_COLOR}`);
+  });
+
+  // Round-trip metadata, ignored by Mermaid renderers
+  if (flowchart.metadata) {
+    lines.push(`  ${MERMAID_META_PREFIX}flowchart ${JSON.stringify({ metadata: flowchart.metadata })}`);
+  }
+
+  flowchart.nodes.forEach(node => {
+    const meta: Partial<FlowchartNode> = { id: node.id, type: node.type, x: node.x, y: node.y };
+    if (node.label) meta.label = node.label;
+    if (node.description) meta.description = node.description;
+    if (node.transcripts?.length) meta.transcripts = node.transcripts;
+    lines.push(`  ${MERMAID_META_PREFIX}node ${mermaidIds.get(node.id)} ${JSON.stringify(meta)}`);
+  });
+
+  exportedEdges.forEach((edge, index) => {
+    const meta: Partial<FlowchartEdge> = { from: edge.from, to: edge.to, type: edge.type };
+    if (edge.label) meta.label = edge.label;
+    lines.push(`  ${MERMAID_META_PREFIX}edge ${index} ${JSON.stringify(meta)}`);
+  });
+
+  return lines.join('\n') + '\n';
+};
+
+// ---------------------------------------------------------------------------
+// Graphviz DOT
+// ---------------------------------------------------------------------------
+
+const escapeDot = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n');
+
+/**
+ * Export a flowchart as a Graphviz DOT digraph. Node positions are pinned
+ * (`pos="x,y!"`) so `neato -n` reproduces the app layout, while `dot`
+ * computes its own hierarchy.
+ */
+export const exportFlowchartToDot = (flowchart: FlowchartStructure, graphName: string = 'flowchart'): string => {
+  const lines: string[] = [
+    `digraph "${escapeDot(graphName)}" {`,
+    '  graph [rankdir=TB, overlap=false, splines=true];',
+    `  node [style=filled, fontname="Georgia", fontcolor="${NODE_TEXT_COLOR}"];`,
+    '  edge [fontname="Georgia", fontsize=10];',
+  ];
+
+  if (flowchart.metadata?.notes) {
+    lines.push(`  // ${flowchart.metadata.notes.replace(/\r?\n/g, ' ')}`);
+  }
+
+  flowchart.nodes.forEach(node => {
+    const color = getPartColor(node.type);
+    const attributes = [
+      `label="${escapeDot(getNodeDisplayLabel(node))}"`,
+      `shape=${DOT_SHAPES[node.type] || DOT_SHAPES.manager}`,
+      `fillcolor="${color}"`,
+      `color="${darken(color)}"`,
+    ];
+    if (typeof node.x === 'number' && typeof node.y === 'number') {
+      // Graphviz y grows upwards
+      attributes.push(`pos="${Math.round(node.x)},${Math.round(COORDINATE_BOUNDS.max - node.y)}!"`);
+    }
+    if (node.description) {
+      attributes.push(`tooltip="${escapeDot(node.description)}"`);
+    }
+    lines.push(`  "${escapeDot(node.id)}" [${attributes.join(', ')}];`);
+  });
+
+  const nodeIds = new Set(flowchart.nodes.map(node => node.id));
+
+  flowchart.edges
+    .filter(edge => nodeIds.has(edge.from) && nodeIds.has(edge.to))
+    .forEach(edge => {
+      const style = getEdgeStyle(edge.type);
+      const attributes = [
+        `label="${escapeDot(getEdgeLabel(edge))}"`,
+        `color="${style.color}"`,
+        `penwidth=${style.strokeWidth}`,
+      ];
+      if (isDashed(edge.type)) {
+        // Graphviz only has fixed dash patterns - short dashes read as dotted
+        const dashLength = parseFloat(style.strokeDasharray.split(',')[0]);
+        attributes.push(`style=${dashLength < 8 ? 'dotted' : 'dashed'}`);
+      }
+      lines.push(`  "${escapeDot(edge.from)}" -> "${escapeDot(edge.to)}" [${attributes.join(', ')}];`);
+    });
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * Export a flowchart in the given diagram format.
+ */
+export const exportFlowchartToDiagram = (
+  flowchart: FlowchartStructure,
+  format: DiagramFormat,
+  name?: string
+): string => {
+  return format === 'dot'
+    ? exportFlowchartToDot(flowchart, name)
+    : exportFlowchartToMermaid(flowchart);
+};
+
+/**
+ * Compact text outline - ids, types and relationships, without coordinates or
+ * transcripts. Used to show a map to a language model.
+ */
+export const exportFlowchartToOutline = (flowchart: FlowchartStructure): string => {
+  const nodes = flowchart.nodes.map(node =>
+    `- ${node.id} (${node.type})${node.label ? ` "${node.label}"` : ''}${node.description ? `: ${node.description}` : ''}`
+  );
+  const edges = flowchart.edges.map(edge =>
+    `- ${edge.from} -> ${edge.to} (${edge.type})${edge.label ? ` "${edge.label}"` : ''}`
+  );
+  return `Parts:\n${nodes.join('\n') || '- none'}\nRelationships:\n${edges.join('\n') || '- none'}`;
+};
@@ -0,0 +1,155 @@
+import { FlowchartNode } from '../types/flowchart';
+
+/**
+ * Flowchart Geometry
+ *
+ * Node sizing helpers shared by FlowchartViewer and anything else that needs
+ * to know how big a node will be drawn (layout, exports).
+ */
+
+export const MIN_NODE_RADIUS = 35;
+export const LABEL_LINE_HEIGHT = 16;
+export const LABEL_CHAR_WIDTH = 8; // Approximate character width
+export const LABEL_CHARS_PER_LINE = 12;
+
+// Wrap text optimally for circular display
+export const wrapTextForCircle = (text: string, maxCharsPerLine: number = LABEL_CHARS_PER_LINE): string[] => {
+  const words = text.split(' ');
+  const lines: string[] = [];
+  let currentLine = '';
+
+  for (const word of words) {
+    const testLine = currentLine ? `${currentLine} ${word}` : word;
+
+    if (testLine.length <= maxCharsPerLine) {
+      currentLine = testLine;
+    } else {
+      if (currentLine) {
+        lines.push(currentLine);
+        currentLine = word;
+      } else {
+        // Word itself is too long, break it
+        lines.push(word.substring(0, maxCharsPerLine));
+        currentLine = word.substring(maxCharsPerLine);
+      }
+    }
+  }
+
+  if (currentLine) {
+    lines.push(currentLine);
+  }
+
+  return lines;
+};
+
+// The text shown inside a node - the viewer labels nodes by their id
+export const getNodeDisplayLabel = (node: FlowchartNode): string => node.id || 'Untitled';
+
+// Radius needed to fit a single node's wrapped label
+export const getLabelRadius = (label: string): number => {
+  const wrappedLines = wrapTextForCircle(label);
+  const maxLineLength = Math.max(...wrappedLines.map(line => line.length));
+  const textHeight = wrappedLines.length * LABEL_LINE_HEIGHT;
+  const textWidth = maxLineLength * LABEL_CHAR_WIDTH;
+  return Math.max(MIN_NODE_RADIUS, Math.max(textWidth / 2, textHeight / 2) + 15);
+};
+
+// All nodes are drawn at the radius of the largest label so they look uniform
+export const calculateMaxNodeRadius = (nodes: FlowchartNode[]): number => {
+  if (nodes.length === 0) return MIN_NODE_RADIUS;
+  return Math.max(...nodes.map(node => getLabelRadius(getNodeDisplayLabel(node))));
+};
+
+// Equivalent radius for each shape so every node type covers the same area
+export const getShapeRadiusForEqualArea = (baseRadius: number, shapeType: string): number => {
+  // Base area is a circle: π * r²
+  const baseArea = Math.PI * baseRadius * baseRadius;
+
+  const nodeType = String(shapeType).toLowerCase().trim();
+
+  switch (nodeType) {
+    case 'need': // Pentagon
+      // Pentagon area = (1/4) * √(25 + 10√5) * s²
+      // Where s is the side length, and for a regular pentagon inscribed in a circle: s = 2r * sin(π/5)
+      // Simplifying: Pentagon area ≈ 2.377 * r²
+      // To get equal area: baseArea = 2.377 * r², so r = √(baseArea / 2.377)
+      return Math.sqrt(baseArea / 2.377);
+
+    case 'self': // Circle
+      // Circle area = π * r², so radius stays the same
+      return baseRadius;
+
+    case 'manager': // Hexagon
+      // Hexagon area = (3√3/2) * r² ≈ 2.598 * r²
+      // To get equal area: baseArea = 2.598 * r², so r = √(baseArea / 2.598)
+      return Math.sqrt(baseArea / 2.598);
+
+    case 'exile': // Square
+      // Square area = (2r)² = 4r² (where 2r is the side length for a square inscribed in a circle)
+      // To get equal area: baseArea = 4 * r², so r = √(baseArea / 4)
+      return Math.sqrt(baseArea / 4);
+
+    case 'firefighter': // Triangle
+      // Equilateral triangle area = (3√3/4) * s²
+      // For triangle inscribed in circle: s = r * √3, so area = (3√3/4) * (r√3)² = (3√3/4) * 3r² ≈ 2.598 * r²
+      // To get equal area: baseArea = 2.598 * r², so r = √(baseArea / 2.598)
+      return Math.sqrt(baseArea / 2.598);
+
+    default:
+      return baseRadius;
+  }
+};
+
+// Points of a regular polygon starting from the top, as an SVG points string
+export const generatePolygonPoints = (centerX: number, centerY: number, radius: number, sides: number): string => {
+  const points = [];
+  for (let i = 0; i < sides; i++) {
+    const angle = (i * 2 * Math.PI / sides) - (Math.PI / 2); // Start from top
+    const x = centerX + radius * Math.cos(angle);
+    const y = centerY + radius * Math.sin(angle);
+    points.push(`${x},${y}`);
+  }
+  return points.join(' ');
+};
+
+// Polygon sides per part type - self (circle) and exile (square) aren't drawn as polygons
+export const POLYGON_SIDES: Partial<Record<string, number>> = {
+  need: 5,
+  manager: 6,
+  firefighter: 3,
+};
+
+// Approximate midpoint of the visible part of an edge, used for label placement
+export const getEdgeLabelPosition = (
+  fromNode: FlowchartNode,
+  toNode: FlowchartNode,
+  baseRadius: number
+): { x: number; y: number } => {
+  // Calculate direction from fromNode to toNode
+  const dx = toNode.x - fromNode.x;
+  const dy = toNode.y - fromNode.y;
+  const distance = Math.sqrt(dx * dx + dy * dy);
+
+  if (distance === 0) return { x: fromNode.x, y: fromNode.y };
+
+  // Get the shape radii for both nodes
+  const fromRadius = getShapeRadiusForEqualArea(baseRadius, fromNode.type);
+  const toRadius = getShapeRadiusForEqualArea(baseRadius, toNode.type);
+
+  // Calculate approximate edge positions by moving inward from center by radius
+  const unitX = dx / distance;
+  const unitY = dy / distance;
+
+  const fromEdgeX = fromNode.x + unitX * fromRadius;
+  const fromEdgeY = fromNode.y + unitY * fromRadius;
+
+  const toEdgeX = toNode.x - unitX * toRadius;
+  const toEdgeY = toNode.y - unitY * toRadius;
+
+  // Return midpoint between approximate edge positions
+  return { x: (fromEdgeX + toEdgeX) / 2, y: (fromEdgeY + toEdgeY) / 2 };
+};
+
+// Text shown on an edge - its label, or the capitalized relationship type
+export const getEdgeDisplayLabel = (edge: { type: string; label?: string }): string =>
+  edge.label || edge.type.charAt(0).toUpperCase() + edge.type.slice(1);
@@ -0,0 +1,236 @@
+import { FlowchartNode, FlowchartEdge, PartType, RelationshipType } from '../types/flowchart';
+import {
+  normalizeFlowchart,
+  normalizePartType,
+  normalizeRelationshipType,
+  FlowchartValidationResult,
+} from './flowchartValidator';
+import { MERMAID_META_PREFIX } from './flowchartExporters';
+import { layoutFlowchart } from './flowchartLayout';
+
+/**
+ * Flowchart Import
+ *
+ * Inverse of the export paths: turns a template document written by
+ * exportFlowchartAsTemplate, a bare structure (e.g. template1.json) or a
+ * Mermaid diagram written by exportFlowchartToMermaid back into a validated
+ * FlowchartStructure. Mermaid exports carry `%% @` metadata comments, so
+ * export → import is lossless; hand-written Mermaid falls back to reading
+ * the diagram syntax and gets an automatic layout.
+ */
+
+export type FlowchartImportFormat = 'template' | 'structure' | 'mermaid';
+
+export interface FlowchartImportResult extends FlowchartValidationResult {
+  format: FlowchartImportFormat;
+  // Name stored in the file (template documents only)
+  name: string | null;
+}
+
+// Mermaid shape openers mapped to the part type the exporter uses them for
+const MERMAID_SHAPE_TYPES: [string, PartType][] = [
+  ['((', 'self'],
+  ['{{', 'manager'],
+  ['[/', 'need'],
+  ['[\\', 'need'],
+  ['>', 'firefighter'],
+  ['[', 'exile'],
+];
+
+const MERMAID_ARROW_TYPES: Record<string, RelationshipType> = {
+  '-.->': 'suppression',
+  '-.-': 'suppression',
+  '==>': 'healing',
+  '===': 'healing',
+  '-->': 'protection',
+  '---': 'protection',
+  '--x': 'conflict',
+  '--o': 'alliance',
+};
+
+const MERMAID_HEADER = /^(flowchart|graph)\b/i;
+const MERMAID_SKIPPED_STATEMENTS = /^(classDef|class|linkStyle|style|click|subgraph|end|direction)\b/;
+const MERMAID_ARROW = /\s*(-\.->|-\.-|==>|===|-->|---|--x|--o)\s*(?:\|([^|]*)\|)?\s*/g;
+const MERMAID_NODE =
+  /^([\w.-]+)\s*(?:(\(\(|\{\{|\[\/|\[\\|\(\[|\[\[|\[\(|\[|\(|\{|>)(.*?)(\)\)|\}\}|\\\]|\/\]|\]\)|\]\]|\)\]|\]|\)|\}))?\s*(?::::([\w-]+))?$/;
+
+export const isMermaidText = (text: string): boolean => {
+  const firstStatement = text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .find(line => line && !line.startsWith('%%'));
+  return !!firstStatement && MERMAID_HEADER.test(firstStatement);
+};
+
+const unescapeMermaidLabel = (label: string): string => {
+  const trimmed = label.trim().replace(/^"(.*)"$/s, '$1');
+  return trimmed
+    .replace(/#quot;/g, '"')
+    .replace(/#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/<br\s*\/?>/gi, '\n')
+    .trim();
+};
+
+const parseMetadataLine = (line: string): { kind: string; key: string; data: any } | null => {
+  const match = line.slice(MERMAID_META_PREFIX.length).match(/^(\w+)\s+(?:(\S+)\s+)?(\{.*\})\s*$/);
+  if (!match) return null;
+  try {
+    return { kind: match[1], key: match[2] || '', data: JSON.parse(match[3]) };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Parse a Mermaid flowchart into a raw structure for normalizeFlowchart.
+ * `needsLayout` is true when any node came without exported coordinates.
+ */
+export const parseMermaidFlowchart = (text: string): { structure: any; needsLayout: boolean } => {
+  const nodeMeta = new Map<string, any>();
+  const edgeMeta = new Map<number, any>();
+  let flowchartMeta: any = null;
+
+  // Mermaid id -> node built from the diagram syntax
+  const syntaxNodes = new Map<string, { label?: string; shapeType?: PartType; className?: string }>();
+  const syntaxEdges: { from: string; to: string; arrow: string; label?: string }[] = [];
+
+  const registerNode = (reference: string): string | null => {
+    const match = reference.trim().match(MERMAID_NODE);
+    if (!match) return null;
+
+    const [, mermaidId, opener, label, , className] = match;
+    const existing = syntaxNodes.get(mermaidId) || {};
+    if (opener) {
+      existing.label = unescapeMermaidLabel(label);
+      existing.shapeType = MERMAID_SHAPE_TYPES.find(([shape]) => shape === opener)?.[1];
+    }
+    if (className) existing.className = className;
+    syntaxNodes.set(mermaidId, existing);
+    return mermaidId;
+  };
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim().replace(/;$/, '');
+    if (!line || MERMAID_HEADER.test(line)) return;
+
+    if (line.startsWith(MERMAID_META_PREFIX)) {
+      const meta = parseMetadataLine(line);
+      if (meta?.kind === 'node') nodeMeta.set(meta.key, meta.data);
+      if (meta?.kind === 'edge') edgeMeta.set(Number(meta.key), meta.data);
+      if (meta?.kind === 'flowchart') flowchartMeta = meta.data;
+      return;
+    }
+    if (line.startsWith('%%') || MERMAID_SKIPPED_STATEMENTS.test(line)) return;
+
+    // "A -- label --> B" is the same as "A -->|label| B"
+    const statement = line.replace(/--\s+([^-|>][^>]*?)\s+-->/g, '-->|$1|');
+
+    const references: string[] = [];
+    const arrows: { arrow: string; label?: string }[] = [];
+    let lastIndex = 0;
+    MERMAID_ARROW.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = MERMAID_ARROW.exec(statement)) !== null) {
+      references.push(statement.slice(lastIndex, match.index));
+      arrows.push({ arrow: match[1], label: match[2] !== undefined ? unescapeMermaidLabel(match[2]) : undefined });
+      lastIndex = MERMAID_ARROW.lastIndex;
+    }
+    references.push(statement.slice(lastIndex));
+
+    const ids = references.map(registerNode);
+    arrows.forEach(({ arrow, label }, index) => {
+      const from = ids[index];
+      const to = ids[index + 1];
+      if (from && to) {
+        syntaxEdges.push({ from, to, arrow, label });
+      }
+    });
+  });
+
+  let needsLayout = false;
+  const finalIds = new Map<string, string>();
+
+  const nodes: Partial<FlowchartNode>[] = [...syntaxNodes.entries()].map(([mermaidId, parsed]) => {
+    const meta = nodeMeta.get(mermaidId);
+    if (meta) {
+      finalIds.set(mermaidId, meta.id);
+      return { ...meta };
+    }
+
+    // Hand-written node: the app labels nodes by id, so the visible text becomes the id
+    needsLayout = true;
+    const id = parsed.label || mermaidId;
+    finalIds.set(mermaidId, id);
+    return {
+      id,
+      type: normalizePartType(parsed.className) || parsed.shapeType || 'manager'
+    };
+  });
+
+  const edges: Partial<FlowchartEdge>[] = syntaxEdges.map((parsed, index) => {
+    const from = finalIds.get(parsed.from);
+    const to = finalIds.get(parsed.to);
+    const meta = edgeMeta.get(index);
+    if (meta && meta.from === from && meta.to === to) {
+      return { ...meta };
+    }
+
+    // A label that names a relationship type sets the type instead of a label
+    const labelType = normalizeRelationshipType(parsed.label);
+    const edge: Partial<FlowchartEdge> = {
+      from,
+      to,
+      type: labelType || MERMAID_ARROW_TYPES[parsed.arrow] || 'alliance'
+    };
+    if (parsed.label && !labelType) edge.label = parsed.label;
+    return edge;
+  });
+
+  const structure: any = { nodes, edges };
+  if (flowchartMeta?.metadata) {
+    structure.metadata = flowchartMeta.metadata;
+  }
+
+  return { structure, needsLayout };
+};
+
+/**
+ * Parse and validate imported text - a template document, a bare structure
+ * or a Mermaid diagram.
+ */
+export const parseFlowchartImport = (text: string): FlowchartImportResult => {
+  if (isMermaidText(text)) {
+    const { structure, needsLayout } = parseMermaidFlowchart(text);
+    const result = normalizeFlowchart(structure);
+
+    if (!needsLayout || !result.isValid) {
+      return { ...result, format: 'mermaid', name: null };
+    }
+
+    // Positions come from the layout, so missing coordinates aren't worth reporting
+    const issues = result.issues.filter(issue => issue.code !== 'invalid_coordinates');
+    return {
+      ...result,
+      flowchart: layoutFlowchart(result.flowchart, { mode: 'layered' }),
+      issues,
+      format: 'mermaid',
+      name: null
+    };
+  }
+
+  let data: any = null;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    // normalizeFlowchart reports the unparseable input
+  }
+
+  const isTemplate = !!data && typeof data === 'object' && !Array.isArray(data.nodes) && !!data.structure;
+  const name = isTemplate && typeof data.templateName === 'string' ? data.templateName : null;
+
+  return {
+    ...normalizeFlowchart(data ?? text),
+    format: isTemplate ? 'template' : 'structure',
+    name
+  };
+};
@@ -0,0 +1,398 @@
+import { FlowchartStructure, FlowchartNode, PartType } from '../types/flowchart';
+import { COORDINATE_BOUNDS } from './flowchartValidator';
+import { calculateMaxNodeRadius } from './flowchartGeometry';
+
+/**
+ * Flowchart Layout Engine
+ *
+ * Pure functions that assign x/y coordinates to flowchart nodes so that shapes
+ * and their wrapped labels don't overlap.
+ *
+ * - 'layered': Sugiyama-style layout following the PRD hierarchy - parts on top,
+ *   emotions in the middle and needs at the core. Node order within each band
+ *   is chosen by barycenter sweeps to minimize edge crossings.
+ * - 'force': Fruchterman-Reingold refinement of the current positions, with a
+ *   gentle pull towards each node's band so the hierarchy stays readable.
+ *
+ * Both modes are deterministic, so the same flowchart always arranges the same way.
+ */
+
+export type LayoutMode = 'layered' | 'force';
+
+export interface LayoutOptions {
+  mode?: LayoutMode;
+  bounds?: { min: number; max: number };
+  // Barycenter sweeps for the layered mode
+  sweeps?: number;
+  // Simulation steps for the force mode
+  iterations?: number;
+}
+
+/**
+ * Vertical band for each part type. Protectors and Self are the visible parts,
+ * exiles carry the emotions, and needs sit underneath everything.
+ */
+export const LAYER_BANDS: Record<PartType, number> = {
+  self: 0,
+  manager: 0,
+  firefighter: 0,
+  exile: 1,
+  need: 2,
+};
+
+const BAND_COUNT = 3;
+// Horizontal space between neighbouring node outlines
+const NODE_GAP = 30;
+// Vertical space between rows, leaves room for edge labels
+const ROW_GAP = 60;
+const DEFAULT_SWEEPS = 8;
+const DEFAULT_ITERATIONS = 300;
+const BAND_GRAVITY = 0.05;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export const getLayerBand = (type: PartType): number => LAYER_BANDS[type] ?? 0;
+
+/**
+ * Arrange a flowchart. Only node coordinates change - ids, types, edges and
+ * metadata are returned untouched.
+ */
+export const layoutFlowchart = (
+  structure: FlowchartStructure,
+  options: LayoutOptions = {}
+): FlowchartStructure => {
+  if (structure.nodes.length === 0) {
+    return structure;
+  }
+
+  const positions = options.mode === 'force'
+    ? forceLayout(structure, options)
+    : layeredLayout(structure, options);
+
+  return {
+    ...structure,
+    nodes: structure.nodes.map(node => {
+      const position = positions.get(node.id);
+      return position
+        ? { ...node, x: Math.round(position.x), y: Math.round(position.y) }
+        : node;
+    })
+  };
+};
+
+/**
+ * Count pairs of edges whose straight segments cross. Edges sharing an
+ * endpoint never count as crossing.
+ */
+export const countEdgeCrossings = (structure: FlowchartStructure): number => {
+  const positions = new Map(structure.nodes.map(node => [node.id, { x: node.x, y: node.y }]));
+  return countCrossings(structure, positions);
+};
+
+const countCrossings = (structure: FlowchartStructure, positions: Map<string, Point>): number => {
+  const segments = structure.edges
+    .map(edge => ({ edge, a: positions.get(edge.from), b: positions.get(edge.to) }))
+    .filter((segment): segment is { edge: typeof segment.edge; a: Point; b: Point } =>
+      !!segment.a && !!segment.b
+    );
+
+  let crossings = 0;
+  for (let i = 0; i < segments.length; i++) {
+    for (let j = i + 1; j < segments.length; j++) {
+      const first = segments[i];
+      const second = segments[j];
+      const sharesEndpoint =
+        first.edge.from === second.edge.from || first.edge.from === second.edge.to ||
+        first.edge.to === second.edge.from || first.edge.to === second.edge.to;
+
+      if (!sharesEndpoint && segmentsIntersect(first.a, first.b, second.a, second.b)) {
+        crossings++;
+      }
+    }
+  }
+  return crossings;
+};
+
+const orientation = (p: Point, q: Point, r: Point): number => {
+  const value = (q.y - p.y) * (r.x - q.x) - (q.x - p.x) * (r.y - q.y);
+  if (Math.abs(value) < 1e-9) return 0;
+  return value > 0 ? 1 : -1;
+};
+
+const segmentsIntersect = (p1: Point, p2: Point, p3: Point, p4: Point): boolean => {
+  const o1 = orientation(p1, p2, p3);
+  const o2 = orientation(p1, p2, p4);
+  const o3 = orientation(p3, p4, p1);
+  const o4 = orientation(p3, p4, p2);
+  // Only proper crossings count - collinear overlaps are rare and not crossings visually
+  return o1 !== 0 && o2 !== 0 && o3 !== 0 && o4 !== 0 && o1 !== o2 && o3 !== o4;
+};
+
+const buildNeighbors = (structure: FlowchartStructure): Map<string, string[]> => {
+  const neighbors = new Map<string, string[]>(structure.nodes.map(node => [node.id, []]));
+  structure.edges.forEach(edge => {
+    if (edge.from === edge.to) return;
+    neighbors.get(edge.from)?.push(edge.to);
+    neighbors.get(edge.to)?.push(edge.from);
+  });
+  return neighbors;
+};
+
+const hasValidPosition = (node: FlowchartNode): boolean =>
+  typeof node.x === 'number' && typeof node.y === 'number' && isFinite(node.x) && isFinite(node.y);
+
+// ---------------------------------------------------------------------------
+// Layered (Sugiyama-style) layout
+// ---------------------------------------------------------------------------
+
+const layeredLayout = (structure: FlowchartStructure, options: LayoutOptions): Map<string, Point> => {
+  const bounds = options.bounds || COORDINATE_BOUNDS;
+  const sweeps = options.sweeps ?? DEFAULT_SWEEPS;
+  const radius = calculateMaxNodeRadius(structure.nodes);
+  const neighbors = buildNeighbors(structure);
+  const bandOf = new Map(structure.nodes.map(node => [node.id, getLayerBand(node.type)]));
+
+  // Seed each band with the current left-to-right order to keep the user's mental map
+  const bands: string[][] = Array.from({ length: BAND_COUNT }, () => []);
+  [...structure.nodes]
+    .sort((a, b) => {
+      const ax = hasValidPosition(a) ? a.x : 0;
+      const bx = hasValidPosition(b) ? b.x : 0;
+      return ax - bx || a.id.localeCompare(b.id);
+    })
+    .forEach(node => bands[bandOf.get(node.id)!].push(node.id));
+
+  const layers = bands.filter(band => band.length > 0);
+
+  let bestLayers = layers.map(layer => [...layer]);
+  let bestPositions = placeLayers(layers, radius, bounds);
+  let bestCrossings = countCrossings(structure, bestPositions);
+
+  // Barycenter sweeps: alternately order each layer by its neighbours above, then below
+  for (let sweep = 0; sweep < sweeps && bestCrossings > 0; sweep++) {
+    const downward = sweep % 2 === 0;
+    const order = layers.map((_, index) => index);
+    if (!downward) order.reverse();
+
+    order.forEach(layerIndex => {
+      const relative = new Map<string, number>();
+      layers.forEach(layer => {
+        layer.forEach((id, position) => relative.set(id, layer.length > 1 ? position / (layer.length - 1) : 0.5));
+      });
+
+      const layer = layers[layerIndex];
+      const barycenters = new Map<string, number>();
+      layer.forEach((id, position) => {
+        const fixed = (neighbors.get(id) || []).filter(other => {
+          const otherLayer = layers.findIndex(candidate => candidate.includes(other));
+          return downward ? otherLayer < layerIndex : otherLayer > layerIndex;
+        });
+        // Nodes with no neighbours on the fixed side keep their place
+        barycenters.set(id, fixed.length > 0
+          ? fixed.reduce((sum, other) => sum + relative.get(other)!, 0) / fixed.length
+          : relative.get(id) ?? position);
+      });
+
+      layer.sort((a, b) => barycenters.get(a)! - barycenters.get(b)!);
+    });
+
+    const positions = placeLayers(layers, radius, bounds);
+    const crossings = countCrossings(structure, positions);
+    if (crossings < bestCrossings) {
+      bestCrossings = crossings;
+      bestLayers = layers.map(layer => [...layer]);
+      bestPositions = positions;
+    }
+  }
+
+  // Transpose: greedily swap neighbours while that removes crossings
+  for (let pass = 0; pass < 4 && bestCrossings > 0; pass++) {
+    let improved = false;
+    bestLayers.forEach(layer => {
+      for (let index = 0; index < layer.length - 1; index++) {
+        [layer[index], layer[index + 1]] = [layer[index + 1], layer[index]];
+        const positions = placeLayers(bestLayers, radius, bounds);
+        const crossings = countCrossings(structure, positions);
+        if (crossings < bestCrossings) {
+          bestCrossings = crossings;
+          bestPositions = positions;
+          improved = true;
+        } else {
+          [layer[index], layer[index + 1]] = [layer[index + 1], layer[index]];
+        }
+      }
+    });
+    if (!improved) break;
+  }
+
+  return bestPositions;
+};
+
+/**
+ * Turn ordered layers into coordinates. Layers wider than the bounds wrap into
+ * several staggered rows so labels never overlap.
+ */
+const placeLayers = (
+  layers: string[][],
+  radius: number,
+  bounds: { min: number; max: number }
+): Map<string, Point> => {
+  const margin = radius + 10;
+  const usableWidth = bounds.max - bounds.min - margin * 2;
+  const spacing = radius * 2 + NODE_GAP;
+  const maxPerRow = Math.max(1, Math.floor(usableWidth / spacing) + 1);
+
+  const rows: { ids: string[]; stagger: boolean }[] = [];
+  layers.forEach(layer => {
+    for (let start = 0, rowIndex = 0; start < layer.length; start += maxPerRow, rowIndex++) {
+      rows.push({ ids: layer.slice(start, start + maxPerRow), stagger: rowIndex % 2 === 1 });
+    }
+  });
+
+  const usableHeight = bounds.max - bounds.min - margin * 2;
+  const rowSpacing = rows.length > 1
+    ? Math.min(radius * 2 + ROW_GAP, usableHeight / (rows.length - 1))
+    : 0;
+  const totalHeight = rowSpacing * (rows.length - 1);
+  const top = bounds.min + margin + (usableHeight - totalHeight) / 2;
+  const centerX = (bounds.min + bounds.max) / 2;
+
+  const positions = new Map<string, Point>();
+  rows.forEach((row, rowIndex) => {
+    const rowWidth = spacing * (row.ids.length - 1);
+    const staggerOffset = row.stagger && row.ids.length < maxPerRow ? spacing / 2 : 0;
+    const left = centerX - rowWidth / 2 + staggerOffset;
+
+    row.ids.forEach((id, index) => {
+      positions.set(id, { x: left + index * spacing, y: top + rowIndex * rowSpacing });
+    });
+  });
+
+  return positions;
+};
+
+// ---------------------------------------------------------------------------
+// Force-directed layout
+// ---------------------------------------------------------------------------
+
+const forceLayout = (structure: FlowchartStructure, options: LayoutOptions): Map<string, Point> => {
+  const bounds = options.bounds || COORDINATE_BOUNDS;
+  const iterations = options.iterations ?? DEFAULT_ITERATIONS;
+  const radius = calculateMaxNodeRadius(structure.nodes);
+  const margin = radius + 10;
+  const minX = bounds.min + margin;
+  const maxX = bounds.max - margin;
+  const size = maxX - minX;
+  const nodes = structure.nodes;
+  const count = nodes.length;
+  const minDistance = radius * 2 + NODE_GAP;
+
+  // Ideal edge length: spread nodes over the area, but never closer than their outlines allow
+  const k = Math.max(minDistance, 0.75 * Math.sqrt((size * size) / count));
+
+  // Start from the current positions; nodes without one go on a circle
+  const positions = nodes.map((node, index) => {
+    if (hasValidPosition(node)) {
+      return { x: clamp(node.x, minX, maxX), y: clamp(node.y, minX, maxX) };
+    }
+    const angle = (index * 2 * Math.PI) / count;
+    return { x: minX + size / 2 + (size / 3) * Math.cos(angle), y: minX + size / 2 + (size / 3) * Math.sin(angle) };
+  });
+
+  // Separate nodes that start on exactly the same spot
+  positions.forEach((position, index) => {
+    for (let other = 0; other < index; other++) {
+      if (positions[other].x === position.x && positions[other].y === position.y) {
+        const angle = index * 2.399963; // Golden angle keeps nudges well spread
+        position.x += Math.cos(angle) * 5;
+        position.y += Math.sin(angle) * 5;
+      }
+    }
+  });
+
+  const indexOf = new Map(nodes.map((node, index) => [node.id, index]));
+  const edges = structure.edges
+    .map(edge => [indexOf.get(edge.from), indexOf.get(edge.to)])
+    .filter((pair): pair is [number, number] => pair[0] !== undefined && pair[1] !== undefined && pair[0] !== pair[1]);
+  const bandY = nodes.map(node => minX + (size * (getLayerBand(node.type) + 0.5)) / BAND_COUNT);
+
+  let temperature = size / 10;
+  const cooling = temperature / (iterations + 1);
+
+  for (let step = 0; step < iterations; step++) {
+    const displacement = positions.map(() => ({ x: 0, y: 0 }));
+
+    // Repulsion between every pair
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        const dx = positions[i].x - positions[j].x;
+        const dy = positions[i].y - positions[j].y;
+        const distance = Math.max(Math.sqrt(dx * dx + dy * dy), 0.01);
+        const force = (k * k) / distance;
+        displacement[i].x += (dx / distance) * force;
+        displacement[i].y += (dy / distance) * force;
+        displacement[j].x -= (dx / distance) * force;
+        displacement[j].y -= (dy / distance) * force;
+      }
+    }
+
+    // Attraction along edges
+    edges.forEach(([from, to]) => {
+      const dx = positions[from].x - positions[to].x;
+      const dy = positions[from].y - positions[to].y;
+      const distance = Math.max(Math.sqrt(dx * dx + dy * dy), 0.01);
+      const force = (distance * distance) / k;
+      displacement[from].x -= (dx / distance) * force;
+      displacement[from].y -= (dy / distance) * force;
+      displacement[to].x += (dx / distance) * force;
+      displacement[to].y += (dy / distance) * force;
+    });
+
+    // Pull each node towards its hierarchy band and limit movement by temperature
+    positions.forEach((position, index) => {
+      displacement[index].y += (bandY[index] - position.y) * BAND_GRAVITY * k;
+
+      const length = Math.sqrt(displacement[index].x ** 2 + displacement[index].y ** 2);
+      if (length > 0) {
+        const limited = Math.min(length, temperature);
+        position.x = clamp(position.x + (displacement[index].x / length) * limited, minX, maxX);
+        position.y = clamp(position.y + (displacement[index].y / length) * limited, minX, maxX);
+      }
+    });
+
+    temperature = Math.max(temperature - cooling, 1);
+  }
+
+  resolveCollisions(positions, minDistance, minX, maxX);
+
+  return new Map(nodes.map((node, index) => [node.id, positions[index]]));
+};
+
+// Push apart any nodes whose outlines (plus label room) still overlap
+const resolveCollisions = (positions: Point[], minDistance: number, min: number, max: number) => {
+  for (let pass = 0; pass < 20; pass++) {
+    let moved = false;
+    for (let i = 0; i < positions.length; i++) {
+      for (let j = i + 1; j < positions.length; j++) {
+        const dx = positions[j].x - positions[i].x;
+        const dy = positions[j].y - positions[i].y;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        if (distance >= minDistance) continue;
+
+        const angle = distance > 0.01 ? Math.atan2(dy, dx) : (i + j) * 2.399963;
+        const push = (minDistance - distance) / 2;
+        positions[i].x = clamp(positions[i].x - Math.cos(angle) * push, min, max);
+        positions[i].y = clamp(positions[i].y - Math.sin(angle) * push, min, max);
+        positions[j].x = clamp(positions[j].x + Math.cos(angle) * push, min, max);
+        positions[j].y = clamp(positions[j].y + Math.sin(angle) * push, min, max);
+        moved = true;
+      }
+    }
+    if (!moved) break;
+  }
+};
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
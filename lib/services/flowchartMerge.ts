@@ -0,0 +1,313 @@
+import { FlowchartStructure, FlowchartNode, FlowchartEdge } from '../types/flowchart';
+import { MIN_NODE_RADIUS } from './flowchartGeometry';
+
+/**
+ * Flowchart Merging
+ *
+ * Combines an incoming flowchart (e.g. one produced by a voice session) with
+ * the user's existing map instead of replacing it. Nodes are reconciled by
+ * id, then by fuzzy label match within the same part type. Matched nodes keep
+ * the existing node's id and coordinates and collect the incoming transcripts;
+ * edges are unioned after remapping to the reconciled ids.
+ *
+ * Anything the merge can't decide on its own is reported as a conflict with a
+ * default resolution. Callers show the conflicts for review and call
+ * mergeFlowcharts again with the user's choices.
+ */
+
+export type MergeConflictKind = 'fuzzy_match' | 'type_mismatch' | 'description' | 'edge_type';
+
+// 'merge' / 'separate' apply to fuzzy matches, the others to field conflicts
+export type MergeResolution = 'merge' | 'separate' | 'keep_existing' | 'use_incoming';
+
+export interface MergeConflict {
+  // Stable across re-merges so resolutions can be keyed by it
+  id: string;
+  kind: MergeConflictKind;
+  message: string;
+  existing: string;
+  incoming: string;
+  options: MergeResolution[];
+  resolution: MergeResolution;
+}
+
+export interface FlowchartMergeResult {
+  flowchart: FlowchartStructure;
+  conflicts: MergeConflict[];
+  // Incoming node id -> id of the node it became in the merged map
+  nodeMapping: Record<string, string>;
+  stats: {
+    matchedNodes: number;
+    addedNodes: number;
+    addedEdges: number;
+    addedTranscripts: number;
+  };
+}
+
+export type MergeResolutions = Record<string, MergeResolution>;
+
+// Labels at least this similar (0-1) are offered as the same part
+const FUZZY_MATCH_THRESHOLD = 0.75;
+
+// Filler words that don't distinguish one part from another
+const STOP_WORDS = new Set(['the', 'a', 'an', 'my', 'part', 'of', 'i', 'me']);
+
+const getNodeText = (node: FlowchartNode): string => node.label || node.id;
+
+const normalizeLabel = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word && !STOP_WORDS.has(word))
+    .join(' ');
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Similarity of two part labels from 0 to 1: the better of edit-distance
+ * similarity and word overlap, so "Inner Critic" matches both "inner critc"
+ * and "Critic (inner)".
+ */
+export const labelSimilarity = (a: string, b: string): number => {
+  const left = normalizeLabel(a);
+  const right = normalizeLabel(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const editSimilarity = 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+
+  const leftWords = new Set(left.split(' '));
+  const rightWords = new Set(right.split(' '));
+  const shared = [...leftWords].filter(word => rightWords.has(word)).length;
+  const wordSimilarity = shared / new Set([...leftWords, ...rightWords]).size;
+
+  return Math.max(editSimilarity, wordSimilarity);
+};
+
+const appendTranscripts = (existing: string[] = [], incoming: string[] = []): string[] => {
+  const seen = new Set(existing);
+  return [...existing, ...incoming.filter(transcript => !seen.has(transcript))];
+};
+
+const edgeKey = (from: string, to: string) => `${from}->${to}`;
+
+// Nudge a new node right until it no longer sits on top of a placed node
+const findFreePosition = (node: FlowchartNode, placed: FlowchartNode[]): { x: number; y: number } => {
+  const spacing = MIN_NODE_RADIUS * 2;
+  let x = node.x;
+  const overlaps = () => placed.some(other => Math.hypot(other.x - x, other.y - node.y) < spacing);
+  for (let attempt = 0; attempt < 20 && overlaps(); attempt++) {
+    x += spacing;
+  }
+  return { x, y: node.y };
+};
+
+interface NodeMatch {
+  existing: FlowchartNode;
+  incoming: FlowchartNode;
+  exact: boolean;
+}
+
+const matchNodes = (base: FlowchartStructure, incoming: FlowchartStructure): NodeMatch[] => {
+  const matches: NodeMatch[] = [];
+  const usedExisting = new Set<string>();
+  const usedIncoming = new Set<string>();
+  const baseById = new Map(base.nodes.map(node => [node.id, node]));
+
+  // Same id is always the same part
+  incoming.nodes.forEach(node => {
+    const existing = baseById.get(node.id);
+    if (existing) {
+      matches.push({ existing, incoming: node, exact: true });
+      usedExisting.add(existing.id);
+      usedIncoming.add(node.id);
+    }
+  });
+
+  // Then pair remaining nodes by label, best candidates first
+  const candidates: { existing: FlowchartNode; incoming: FlowchartNode; score: number }[] = [];
+  incoming.nodes.forEach(node => {
+    if (usedIncoming.has(node.id)) return;
+    base.nodes.forEach(existing => {
+      if (usedExisting.has(existing.id)) return;
+      const score = labelSimilarity(getNodeText(existing), getNodeText(node));
+      // An identical label counts across types; a fuzzy one only within a type
+      if (score === 1 || (score >= FUZZY_MATCH_THRESHOLD && existing.type === node.type)) {
+        candidates.push({ existing, incoming: node, score });
+      }
+    });
+  });
+
+  candidates
+    .sort((a, b) => b.score - a.score)
+    .forEach(({ existing, incoming: node, score }) => {
+      if (usedExisting.has(existing.id) || usedIncoming.has(node.id)) return;
+      matches.push({ existing, incoming: node, exact: score === 1 });
+      usedExisting.add(existing.id);
+      usedIncoming.add(node.id);
+    });
+
+  return matches;
+};
+
+/**
+ * Merge `incoming` into `base`. Without resolutions every conflict takes its
+ * default: fuzzy matches are merged and the existing map wins field conflicts.
+ */
+export const mergeFlowcharts = (
+  base: FlowchartStructure,
+  incoming: FlowchartStructure,
+  resolutions: MergeResolutions = {}
+): FlowchartMergeResult => {
+  const conflicts: MergeConflict[] = [];
+  const nodeMapping: Record<string, string> = {};
+  const stats = { matchedNodes: 0, addedNodes: 0, addedEdges: 0, addedTranscripts: 0 };
+
+  const addConflict = (conflict: Omit<MergeConflict, 'resolution'>, fallback: MergeResolution): MergeResolution => {
+    const chosen = resolutions[conflict.id];
+    const resolution = chosen && conflict.options.includes(chosen) ? chosen : fallback;
+    conflicts.push({ ...conflict, resolution });
+    return resolution;
+  };
+
+  const mergedNodes = new Map(base.nodes.map(node => [node.id, { ...node }]));
+
+  matchNodes(base, incoming).forEach(({ existing, incoming: node, exact }) => {
+    if (!exact) {
+      const resolution = addConflict({
+        id: `node:${node.id}`,
+        kind: 'fuzzy_match',
+        message: `"${getNodeText(node)}" looks like your existing part "${getNodeText(existing)}"`,
+        existing: getNodeText(existing),
+        incoming: getNodeText(node),
+        options: ['merge', 'separate']
+      }, 'merge');
+      if (resolution === 'separate') return;
+    }
+
+    const merged = mergedNodes.get(existing.id)!;
+    nodeMapping[node.id] = existing.id;
+    stats.matchedNodes++;
+
+    if (node.type !== existing.type) {
+      const resolution = addConflict({
+        id: `type:${node.id}`,
+        kind: 'type_mismatch',
+        message: `"${getNodeText(existing)}" is a ${existing.type} in your map but a ${node.type} in the new one`,
+        existing: existing.type,
+        incoming: node.type,
+        options: ['keep_existing', 'use_incoming']
+      }, 'keep_existing');
+      if (resolution === 'use_incoming') merged.type = node.type;
+    }
+
+    const existingDescription = existing.description?.trim();
+    const incomingDescription = node.description?.trim();
+    if (incomingDescription && !existingDescription) {
+      merged.description = node.description;
+    } else if (incomingDescription && existingDescription && incomingDescription !== existingDescription) {
+      const resolution = addConflict({
+        id: `description:${node.id}`,
+        kind: 'description',
+        message: `"${getNodeText(existing)}" has a different description`,
+        existing: existingDescription,
+        incoming: incomingDescription,
+        options: ['keep_existing', 'use_incoming']
+      }, 'keep_existing');
+      if (resolution === 'use_incoming') merged.description = node.description;
+    }
+
+    const transcripts = appendTranscripts(existing.transcripts, node.transcripts);
+    stats.addedTranscripts += transcripts.length - (existing.transcripts?.length || 0);
+    if (transcripts.length > 0) merged.transcripts = transcripts;
+  });
+
+  // Unmatched incoming nodes are new parts. Their ids can't clash: a shared id is always a match
+  const placed = [...mergedNodes.values()];
+  incoming.nodes.forEach(node => {
+    if (nodeMapping[node.id]) return;
+
+    const added = { ...node, ...findFreePosition(node, placed) };
+    mergedNodes.set(node.id, added);
+    placed.push(added);
+    nodeMapping[node.id] = node.id;
+    stats.addedNodes++;
+  });
+
+  const edges: FlowchartEdge[] = base.edges.map(edge => ({ ...edge }));
+  const edgeIndex = new Map(edges.map((edge, index) => [edgeKey(edge.from, edge.to), index]));
+
+  incoming.edges.forEach(edge => {
+    const from = nodeMapping[edge.from];
+    const to = nodeMapping[edge.to];
+    // Skip dangling edges and loops created by merging both ends into one part
+    if (!from || !to || from === to) return;
+
+    const key = edgeKey(from, to);
+    const existingIndex = edgeIndex.get(key);
+    if (existingIndex === undefined) {
+      edgeIndex.set(key, edges.length);
+      edges.push({ ...edge, from, to });
+      stats.addedEdges++;
+      return;
+    }
+
+    const existing = edges[existingIndex];
+    if (!existing.label && edge.label) {
+      existing.label = edge.label;
+    }
+    if (existing.type !== edge.type) {
+      const resolution = addConflict({
+        id: `edge:${edgeKey(edge.from, edge.to)}`,
+        kind: 'edge_type',
+        message: `${from} → ${to} is ${existing.type} in your map but ${edge.type} in the new one`,
+        existing: existing.type,
+        incoming: edge.type,
+        options: ['keep_existing', 'use_incoming']
+      }, 'keep_existing');
+      if (resolution === 'use_incoming') existing.type = edge.type;
+    }
+  });
+
+  return {
+    flowchart: {
+      ...base,
+      nodes: [...mergedNodes.values()],
+      edges,
+      metadata: {
+        ...base.metadata,
+        lastModified: new Date().toISOString()
+      }
+    },
+    conflicts,
+    nodeMapping,
+    stats
+  };
+};
+
+/**
+ * One-line summary of a merge for alerts and version descriptions.
+ */
+export const summarizeMerge = (result: FlowchartMergeResult): string => {
+  const { matchedNodes, addedNodes, addedEdges } = result.stats;
+  const parts: string[] = [];
+  if (addedNodes) parts.push(`${addedNodes} new part${addedNodes === 1 ? '' : 's'}`);
+  if (matchedNodes) parts.push(`${matchedNodes} matched`);
+  if (addedEdges) parts.push(`${addedEdges} new relationship${addedEdges === 1 ? '' : 's'}`);
+  return parts.length > 0 ? parts.join(', ') : 'No changes';
+};
@@ -0,0 +1,272 @@
+import { FlowchartStructure, FlowchartNode, FlowchartEdge, PartType } from '../types/flowchart';
+import { normalizePartType, normalizeRelationshipType, COORDINATE_BOUNDS } from './flowchartValidator';
+import { getLayerBand } from './flowchartLayout';
+import { MIN_NODE_RADIUS } from './flowchartGeometry';
+
+/**
+ * Flowchart Patches
+ *
+ * Typed edit operations the conversation analysis agent returns instead of a
+ * whole new structure. Operations are parsed from loose model output,
+ * validated against the current flowchart and applied one at a time, so a bad
+ * operation is rejected on its own and nothing the model didn't mention is
+ * touched. Operations never move nodes - positions belong to the user.
+ */
+
+export type FlowchartPatchOp =
+  | { op: 'addNode'; node: FlowchartNode }
+  | { op: 'updateNode'; id: string; changes: Partial<Pick<FlowchartNode, 'label' | 'type' | 'description'>> }
+  | { op: 'removeNode'; id: string }
+  | { op: 'addEdge'; edge: FlowchartEdge }
+  | { op: 'removeEdge'; from: string; to: string }
+  | { op: 'appendTranscript'; id: string; transcript: string };
+
+export type FlowchartPatchOpType = FlowchartPatchOp['op'];
+
+export interface RejectedPatchOp {
+  // The raw operation as received, or the parsed one if it failed to apply
+  op: unknown;
+  reason: string;
+}
+
+export interface FlowchartPatchResult {
+  flowchart: FlowchartStructure;
+  applied: FlowchartPatchOp[];
+  rejected: RejectedPatchOp[];
+}
+
+// Vertical position for new nodes of each band, matching the layered layout's order
+const BAND_ROWS = [150, 350, 550];
+const NEW_NODE_SPACING = MIN_NODE_RADIUS * 3;
+
+const asText = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const isCoordinate = (value: unknown): value is number =>
+  typeof value === 'number' && isFinite(value) &&
+  value >= COORDINATE_BOUNDS.min && value <= COORDINATE_BOUNDS.max;
+
+/**
+ * Turn one raw operation from model output into a typed operation, or a
+ * reason it can't be used. Accepts the same loose type names as
+ * normalizeFlowchart ("Manager", "🛡️", ...).
+ */
+export const parsePatchOp = (raw: any): FlowchartPatchOp | string => {
+  if (!raw || typeof raw !== 'object') {
+    return 'Operation is not an object';
+  }
+
+  switch (raw.op) {
+    case 'addNode': {
+      const source = raw.node || raw;
+      const id = asText(source.id);
+      const type = normalizePartType(source.type);
+      if (!id) return 'addNode needs a node id';
+      if (!type) return `addNode "${id}" has an unknown type "${source.type}"`;
+
+      const node: FlowchartNode = { id, type, x: NaN, y: NaN };
+      const label = asText(source.label);
+      const description = asText(source.description);
+      if (label) node.label = label;
+      if (description) node.description = description;
+      if (isCoordinate(source.x) && isCoordinate(source.y)) {
+        node.x = source.x;
+        node.y = source.y;
+      }
+      return { op: 'addNode', node };
+    }
+
+    case 'updateNode': {
+      const id = asText(raw.id);
+      const source = raw.changes || raw;
+      if (!id) return 'updateNode needs a node id';
+
+      const changes: Partial<Pick<FlowchartNode, 'label' | 'type' | 'description'>> = {};
+      const label = asText(source.label);
+      const description = asText(source.description);
+      if (label) changes.label = label;
+      if (description) changes.description = description;
+      if (source.type !== undefined) {
+        const type = normalizePartType(source.type);
+        if (!type) return `updateNode "${id}" has an unknown type "${source.type}"`;
+        changes.type = type;
+      }
+      if (Object.keys(changes).length === 0) return `updateNode "${id}" changes nothing`;
+      return { op: 'updateNode', id, changes };
+    }
+
+    case 'removeNode': {
+      const id = asText(raw.id);
+      return id ? { op: 'removeNode', id } : 'removeNode needs a node id';
+    }
+
+    case 'addEdge': {
+      const source = raw.edge || raw;
+      const from = asText(source.from);
+      const to = asText(source.to);
+      const type = normalizeRelationshipType(source.type);
+      if (!from || !to) return 'addEdge needs from and to';
+      if (!type) return `addEdge ${from} → ${to} has an unknown type "${source.type}"`;
+
+      const edge: FlowchartEdge = { from, to, type };
+      const label = asText(source.label);
+      if (label) edge.label = label;
+      return { op: 'addEdge', edge };
+    }
+
+    case 'removeEdge': {
+      const from = asText(raw.from);
+      const to = asText(raw.to);
+      return from && to ? { op: 'removeEdge', from, to } : 'removeEdge needs from and to';
+    }
+
+    case 'appendTranscript': {
+      const id = asText(raw.id);
+      const transcript = asText(raw.transcript);
+      if (!id || !transcript) return 'appendTranscript needs a node id and transcript';
+      return { op: 'appendTranscript', id, transcript };
+    }
+
+    default:
+      return `Unknown operation "${raw.op}"`;
+  }
+};
+
+// First free spot in the node's band row, scanning left to right
+const placeNewNode = (type: PartType, nodes: FlowchartNode[]): { x: number; y: number } => {
+  const y = BAND_ROWS[getLayerBand(type)] ?? BAND_ROWS[0];
+  for (let x = 100; x <= COORDINATE_BOUNDS.max - 100; x += NEW_NODE_SPACING) {
+    if (!nodes.some(node => Math.hypot(node.x - x, node.y - y) < NEW_NODE_SPACING)) {
+      return { x, y };
+    }
+  }
+  return { x: COORDINATE_BOUNDS.max - 100, y };
+};
+
+/**
+ * Apply a single operation. Returns the new flowchart, or a reason the
+ * operation doesn't fit the current structure.
+ */
+export const applyPatchOp = (
+  flowchart: FlowchartStructure,
+  op: FlowchartPatchOp
+): FlowchartStructure | string => {
+  const findNode = (id: string) => flowchart.nodes.find(node => node.id === id);
+
+  switch (op.op) {
+    case 'addNode': {
+      if (findNode(op.node.id)) return `Node "${op.node.id}" already exists`;
+      const position = isNaN(op.node.x) ? placeNewNode(op.node.type, flowchart.nodes) : { x: op.node.x, y: op.node.y };
+      return { ...flowchart, nodes: [...flowchart.nodes, { ...op.node, ...position }] };
+    }
+
+    case 'updateNode':
+      if (!findNode(op.id)) return `Node "${op.id}" does not exist`;
+      return {
+        ...flowchart,
+        nodes: flowchart.nodes.map(node => (node.id === op.id ? { ...node, ...op.changes } : node))
+      };
+
+    case 'removeNode':
+      if (!findNode(op.id)) return `Node "${op.id}" does not exist`;
+      return {
+        ...flowchart,
+        nodes: flowchart.nodes.filter(node => node.id !== op.id),
+        edges: flowchart.edges.filter(edge => edge.from !== op.id && edge.to !== op.id)
+      };
+
+    case 'addEdge': {
+      const { from, to } = op.edge;
+      if (from === to) return `Edge ${from} → ${to} connects a node to itself`;
+      if (!findNode(from) || !findNode(to)) return `Edge ${from} → ${to} references a missing node`;
+      if (flowchart.edges.some(edge => edge.from === from && edge.to === to)) {
+        return `Edge ${from} → ${to} already exists`;
+      }
+      return { ...flowchart, edges: [...flowchart.edges, op.edge] };
+    }
+
+    case 'removeEdge': {
+      const edges = flowchart.edges.filter(edge => !(edge.from === op.from && edge.to === op.to));
+      if (edges.length === flowchart.edges.length) return `Edge ${op.from} → ${op.to} does not exist`;
+      return { ...flowchart, edges };
+    }
+
+    case 'appendTranscript': {
+      const node = findNode(op.id);
+      if (!node) return `Node "${op.id}" does not exist`;
+      if (node.transcripts?.includes(op.transcript)) return `Transcript already recorded on "${op.id}"`;
+      return {
+        ...flowchart,
+        nodes: flowchart.nodes.map(other =>
+          other.id === op.id ? { ...other, transcripts: [...(other.transcripts || []), op.transcript] } : other
+        )
+      };
+    }
+  }
+};
+
+/**
+ * Parse and apply raw operations in order. `onApplied` sees the flowchart
+ * after each successful operation, so callers can react to every change.
+ */
+export const applyFlowchartPatch = (
+  flowchart: FlowchartStructure,
+  rawOps: unknown[],
+  onApplied?: (flowchart: FlowchartStructure, op: FlowchartPatchOp) => void
+): FlowchartPatchResult => {
+  const applied: FlowchartPatchOp[] = [];
+  const rejected: RejectedPatchOp[] = [];
+  let current = flowchart;
+
+  rawOps.forEach(raw => {
+    const op = parsePatchOp(raw);
+    if (typeof op === 'string') {
+      rejected.push({ op: raw, reason: op });
+      return;
+    }
+
+    const next = applyPatchOp(current, op);
+    if (typeof next === 'string') {
+      rejected.push({ op, reason: next });
+      return;
+    }
+
+    current = next;
+    applied.push(op);
+    onApplied?.(current, op);
+  });
+
+  if (applied.length > 0) {
+    current = {
+      ...current,
+      metadata: { ...current.metadata, lastModified: new Date().toISOString() }
+    };
+  }
+
+  return { flowchart: current, applied, rejected };
+};
+
+/**
+ * Short description of applied operations, e.g. "2 parts added, 1 relationship added".
+ */
+export const summarizePatch = (applied: FlowchartPatchOp[]): string => {
+  const labels: Record<FlowchartPatchOpType, [string, string]> = {
+    addNode: ['part added', 'parts added'],
+    updateNode: ['part updated', 'parts updated'],
+    removeNode: ['part removed', 'parts removed'],
+    addEdge: ['relationship added', 'relationships added'],
+    removeEdge: ['relationship removed', 'relationships removed'],
+    appendTranscript: ['quote recorded', 'quotes recorded'],
+  };
+
+  const counts = applied.reduce((acc, op) => {
+    acc[op.op] = (acc[op.op] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<FlowchartPatchOpType, number>>);
+
+  const parts = (Object.keys(labels) as FlowchartPatchOpType[])
+    .filter(type => counts[type])
+    .map(type => `${counts[type]} ${labels[type][counts[type] === 1 ? 0 : 1]}`);
+
+  return parts.length > 0 ? parts.join(', ') : 'No changes';
+};
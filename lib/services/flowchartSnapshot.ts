@@ -0,0 +1,182 @@
+import { FlowchartStructure, FlowchartNode, FlowchartEdge, RelationshipStyles } from '../types/flowchart';
+import {
+  wrapTextForCircle,
+  calculateMaxNodeRadius,
+  getShapeRadiusForEqualArea,
+  generatePolygonPoints,
+  getEdgeLabelPosition,
+  getEdgeDisplayLabel,
+  getNodeDisplayLabel,
+  POLYGON_SIDES,
+  LABEL_LINE_HEIGHT,
+} from './flowchartGeometry';
+
+/**
+ * Flowchart Snapshots
+ *
+ * Renders a FlowchartStructure to a standalone SVG document that looks like the
+ * map in FlowchartViewer. This is a pure function with no React Native
+ * dependencies - the PNG export rasterizes the same string on device.
+ */
+
+export interface SnapshotOptions {
+  // Background fill, or null for a transparent snapshot
+  background?: string | null;
+  // Space around the outermost shapes and labels
+  padding?: number;
+}
+
+export interface SnapshotViewBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Matches the dark app background the white map is drawn on
+const DEFAULT_BACKGROUND = '#0a0a0a';
+const DEFAULT_PADDING = 40;
+const DEFAULT_EDGE_STYLE = { strokeWidth: 2, strokeDasharray: '0', color: '#808080' };
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// Keep the output compact and stable across platforms
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const formatPoints = (points: string): string =>
+  points
+    .split(' ')
+    .map(point => point.split(',').map(value => round(parseFloat(value))).join(','))
+    .join(' ');
+
+/**
+ * Area covered by the rendered map, including shapes and edge labels.
+ */
+export const getSnapshotViewBox = (
+  flowchart: FlowchartStructure,
+  padding: number = DEFAULT_PADDING
+): SnapshotViewBox => {
+  if (flowchart.nodes.length === 0) {
+    return { x: 0, y: 0, width: padding * 2, height: padding * 2 };
+  }
+
+  const radius = calculateMaxNodeRadius(flowchart.nodes);
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  flowchart.nodes.forEach(node => {
+    minX = Math.min(minX, node.x - radius);
+    minY = Math.min(minY, node.y - radius);
+    maxX = Math.max(maxX, node.x + radius);
+    maxY = Math.max(maxY, node.y + radius);
+  });
+
+  const nodesById = new Map(flowchart.nodes.map(node => [node.id, node]));
+  flowchart.edges.forEach(edge => {
+    const fromNode = nodesById.get(edge.from);
+    const toNode = nodesById.get(edge.to);
+    if (!fromNode || !toNode) return;
+
+    const position = getEdgeLabelPosition(fromNode, toNode, radius);
+    const halfWidth = getEdgeDisplayLabel(edge).length * 3;
+    minX = Math.min(minX, position.x - halfWidth);
+    maxX = Math.max(maxX, position.x + halfWidth);
+    minY = Math.min(minY, position.y - 15);
+  });
+
+  return {
+    x: round(minX - padding),
+    y: round(minY - padding),
+    width: round(maxX - minX + padding * 2),
+    height: round(maxY - minY + padding * 2)
+  };
+};
+
+const renderNodeShape = (node: FlowchartNode, baseRadius: number): string => {
+  const shapeRadius = getShapeRadiusForEqualArea(baseRadius, node.type);
+  const paint = 'fill="#FFFFFF" stroke="#FFFFFF" stroke-width="2"';
+  const nodeType = String(node.type).toLowerCase().trim();
+  const sides = POLYGON_SIDES[nodeType];
+
+  if (sides) {
+    return `<polygon points="${formatPoints(generatePolygonPoints(node.x, node.y, shapeRadius, sides))}" ${paint}/>`;
+  }
+
+  if (nodeType === 'exile') {
+    return `<rect x="${round(node.x - shapeRadius)}" y="${round(node.y - shapeRadius)}" width="${round(shapeRadius * 2)}" height="${round(shapeRadius * 2)}" ${paint}/>`;
+  }
+
+  return `<circle cx="${round(node.x)}" cy="${round(node.y)}" r="${round(shapeRadius)}" ${paint}/>`;
+};
+
+const renderNode = (node: FlowchartNode, radius: number): string => {
+  const wrappedLines = wrapTextForCircle(getNodeDisplayLabel(node));
+  const textBlockHeight = (wrappedLines.length - 1) * LABEL_LINE_HEIGHT;
+  const startY = node.y - (textBlockHeight / 2) + (LABEL_LINE_HEIGHT * 0.35); // Baseline offset
+
+  const labels = wrappedLines.map((line, index) =>
+    `<text x="${round(node.x)}" y="${round(startY + index * LABEL_LINE_HEIGHT)}" font-size="14" text-anchor="middle" fill="#000000">${escapeXml(line)}</text>`
+  );
+
+  return `<g>${renderNodeShape(node, radius)}${labels.join('')}</g>`;
+};
+
+const renderEdge = (edge: FlowchartEdge, fromNode: FlowchartNode, toNode: FlowchartNode, radius: number): string => {
+  const style = RelationshipStyles[edge.type] || DEFAULT_EDGE_STYLE;
+  const dash = style.strokeDasharray !== '0' ? ` stroke-dasharray="${style.strokeDasharray}"` : '';
+  const position = getEdgeLabelPosition(fromNode, toNode, radius);
+  const label = getEdgeDisplayLabel(edge);
+
+  return [
+    '<g>',
+    `<line x1="${round(fromNode.x)}" y1="${round(fromNode.y)}" x2="${round(toNode.x)}" y2="${round(toNode.y)}" stroke="#FFFFFF" stroke-width="${style.strokeWidth}"${dash} opacity="0.7"/>`,
+    `<rect x="${round(position.x - label.length * 3)}" y="${round(position.y - 15)}" width="${label.length * 6}" height="14" fill="#000000" opacity="0.7" rx="3" ry="3"/>`,
+    `<text x="${round(position.x)}" y="${round(position.y - 6)}" font-size="10" text-anchor="middle" fill="#FFFFFF" font-weight="600">${escapeXml(label)}</text>`,
+    '</g>'
+  ].join('');
+};
+
+/**
+ * Render a flowchart as a standalone SVG document. Edges are drawn beneath
+ * nodes, exactly as in FlowchartViewer.
+ */
+export const renderFlowchartToSvg = (
+  flowchart: FlowchartStructure,
+  options: SnapshotOptions = {}
+): string => {
+  const background = options.background === undefined ? DEFAULT_BACKGROUND : options.background;
+  const viewBox = getSnapshotViewBox(flowchart, options.padding ?? DEFAULT_PADDING);
+  const radius = calculateMaxNodeRadius(flowchart.nodes);
+  const nodesById = new Map(flowchart.nodes.map(node => [node.id, node]));
+
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${viewBox.width}" height="${viewBox.height}" viewBox="${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}">`
+  ];
+
+  if (background) {
+    parts.push(`<rect x="${viewBox.x}" y="${viewBox.y}" width="${viewBox.width}" height="${viewBox.height}" fill="${escapeXml(background)}"/>`);
+  }
+
+  flowchart.edges.forEach(edge => {
+    const fromNode = nodesById.get(edge.from);
+    const toNode = nodesById.get(edge.to);
+    if (fromNode && toNode) {
+      parts.push(renderEdge(edge, fromNode, toNode, radius));
+    }
+  });
+
+  flowchart.nodes.forEach(node => {
+    parts.push(renderNode(node, radius));
+  });
+
+  parts.push('</svg>');
+  return parts.join('\n') + '\n';
+};
@@ -0,0 +1,104 @@
+import { FlowchartStructure } from '../types/flowchart';
+
+/**
+ * Flowchart Undo Stack
+ *
+ * Every edit made in the bodygraph editor is recorded as a command holding the
+ * structure before and after the change. Undo re-applies `before`, redo
+ * re-applies `after`, so the stack never needs to know how to invert each
+ * individual kind of edit.
+ */
+
+export type FlowchartCommandType =
+  | 'addNode'
+  | 'updateNode'
+  | 'renameNode'
+  | 'deleteNode'
+  | 'moveNode'
+  | 'addEdge'
+  | 'updateEdge'
+  | 'deleteEdge'
+  | 'replace';
+
+export interface FlowchartCommand {
+  type: FlowchartCommandType;
+  description: string;
+  before: FlowchartStructure;
+  after: FlowchartStructure;
+  // Node the command targets, used to coalesce consecutive drags
+  nodeId?: string;
+  timestamp: number;
+}
+
+const MAX_HISTORY = 100;
+// Drag events for the same node closer together than this become one command
+const MOVE_COALESCE_MS = 1500;
+
+export class FlowchartUndoStack {
+  private undoStack: FlowchartCommand[] = [];
+  private redoStack: FlowchartCommand[] = [];
+
+  /**
+   * Record a command. A move of the same node that follows a previous move
+   * within MOVE_COALESCE_MS extends that move instead of adding a new entry.
+   */
+  push(command: Omit<FlowchartCommand, 'timestamp'>): void {
+    const now = Date.now();
+    const last = this.undoStack[this.undoStack.length - 1];
+
+    if (
+      command.type === 'moveNode' &&
+      last?.type === 'moveNode' &&
+      last.nodeId === command.nodeId &&
+      now - last.timestamp < MOVE_COALESCE_MS
+    ) {
+      last.after = command.after;
+      last.description = command.description;
+      last.timestamp = now;
+    } else {
+      this.undoStack.push({ ...command, timestamp: now });
+      if (this.undoStack.length > MAX_HISTORY) {
+        this.undoStack.shift();
+      }
+    }
+
+    // A new edit invalidates anything that was undone
+    this.redoStack = [];
+  }
+
+  undo(): FlowchartCommand | null {
+    const command = this.undoStack.pop();
+    if (!command) return null;
+    this.redoStack.push(command);
+    return command;
+  }
+
+  redo(): FlowchartCommand | null {
+    const command = this.redoStack.pop();
+    if (!command) return null;
+    // Re-applied commands should never coalesce with the next drag
+    this.undoStack.push({ ...command, timestamp: 0 });
+    return command;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  peekUndo(): FlowchartCommand | null {
+    return this.undoStack[this.undoStack.length - 1] || null;
+  }
+
+  peekRedo(): FlowchartCommand | null {
+    return this.redoStack[this.redoStack.length - 1] || null;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
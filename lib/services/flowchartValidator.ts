@@ -0,0 +1,330 @@
+import {
+  FlowchartStructure,
+  FlowchartNode,
+  FlowchartEdge,
+  PartType,
+  RelationshipType,
+} from '../types/flowchart';
+
+/**
+ * Flowchart Validator
+ *
+ * Every producer of a FlowchartStructure (AI generation, the incremental
+ * analysis agent, the realtime voice session and template import) runs its
+ * output through normalizeFlowchart before saving or rendering. The AI
+ * prompts ask for capitalised part types and emoji edge types, while the app
+ * stores lowercase PartType / RelationshipType values, so this module is the
+ * single place where the two vocabularies are reconciled.
+ */
+
+export const PART_TYPES: PartType[] = ['self', 'manager', 'firefighter', 'exile', 'need'];
+export const RELATIONSHIP_TYPES: RelationshipType[] = ['protection', 'suppression', 'alliance', 'conflict', 'healing'];
+
+// Coordinate space the prompts ask the model to use
+export const COORDINATE_BOUNDS = { min: 0, max: 1000 } as const;
+
+// Aliases the model (or older saved data) uses for part types
+const PART_TYPE_ALIASES: Record<string, PartType> = {
+  protector: 'manager',
+  part: 'manager',
+  critic: 'manager',
+  vulnerable: 'exile',
+  wounded: 'exile',
+  reactive: 'firefighter',
+  emergency: 'firefighter',
+  core: 'self',
+  needs: 'need',
+};
+
+// Emoji edge types from template1.json and the prompt files, plus verb forms
+// that have been written by older versions of the editor
+const RELATIONSHIP_ALIASES: Record<string, RelationshipType> = {
+  '💚': 'healing',      // Nurturing - Self caring for parts, needs being met
+  '💔': 'suppression',  // Pain - unmet needs, exile wounds
+  '🛡️': 'protection',   // Protection - managers protecting exiles
+  '🛡': 'protection',
+  '🚨': 'protection',   // Activation - firefighters triggered to protect
+  '❌': 'conflict',     // Conflict - parts in opposition
+  '🔄': 'alliance',     // Dynamic - complex part interactions
+  nurturing: 'healing',
+  heals: 'healing',
+  supports: 'healing',
+  pain: 'suppression',
+  suppresses: 'suppression',
+  protects: 'protection',
+  protect: 'protection',
+  activation: 'protection',
+  activates: 'protection',
+  allies: 'alliance',
+  dynamic: 'alliance',
+  conflicts: 'conflict',
+  opposes: 'conflict',
+};
+
+export type FlowchartIssueCode =
+  | 'invalid_structure'
+  | 'invalid_node'
+  | 'missing_node_id'
+  | 'duplicate_node_id'
+  | 'unknown_node_type'
+  | 'invalid_coordinates'
+  | 'coordinates_out_of_bounds'
+  | 'invalid_edge'
+  | 'unknown_edge_type'
+  | 'dangling_edge'
+  | 'duplicate_edge'
+  | 'empty_flowchart';
+
+export interface FlowchartIssue {
+  code: FlowchartIssueCode;
+  message: string;
+  // Location of the problem in the input, e.g. "nodes[2].type"
+  path: string;
+  // true when normalizeFlowchart fixed the problem in its output
+  repaired: boolean;
+}
+
+export interface FlowchartValidationResult {
+  flowchart: FlowchartStructure;
+  issues: FlowchartIssue[];
+  // Issues that could not be repaired - the flowchart should not be used
+  errors: FlowchartIssue[];
+  isValid: boolean;
+}
+
+export interface NormalizeOptions {
+  bounds?: { min: number; max: number };
+  // Treat a structure with no nodes as an error (default true)
+  requireNodes?: boolean;
+}
+
+export class FlowchartValidationError extends Error {
+  issues: FlowchartIssue[];
+
+  constructor(issues: FlowchartIssue[]) {
+    super(`Invalid flowchart structure: ${issues.map(issue => issue.message).join(', ')}`);
+    this.name = 'FlowchartValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Map any part type spelling ("Self", "MANAGER", "protector") to a PartType
+ */
+export const normalizePartType = (value: unknown): PartType | null => {
+  if (typeof value !== 'string') return null;
+  const key = value.trim().toLowerCase();
+  if ((PART_TYPES as string[]).includes(key)) return key as PartType;
+  return PART_TYPE_ALIASES[key] || null;
+};
+
+/**
+ * Map any edge type spelling (emoji, verb, capitalised) to a RelationshipType
+ */
+export const normalizeRelationshipType = (value: unknown): RelationshipType | null => {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  if (RELATIONSHIP_ALIASES[trimmed]) return RELATIONSHIP_ALIASES[trimmed];
+  const key = trimmed.toLowerCase();
+  if ((RELATIONSHIP_TYPES as string[]).includes(key)) return key as RelationshipType;
+  return RELATIONSHIP_ALIASES[key] || null;
+};
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && isFinite(value);
+
+const toNumber = (value: unknown): number | null => {
+  if (isFiniteNumber(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+/**
+ * Validate and repair a flowchart produced by the AI, the voice session or an
+ * imported file. Accepts either a bare structure or a template document
+ * ({ templateName, structure, usage }) as written by exportFlowchartAsTemplate.
+ */
+export const normalizeFlowchart = (
+  input: unknown,
+  options: NormalizeOptions = {}
+): FlowchartValidationResult => {
+  const bounds = options.bounds || COORDINATE_BOUNDS;
+  const requireNodes = options.requireNodes ?? true;
+  const issues: FlowchartIssue[] = [];
+
+  const report = (code: FlowchartIssueCode, path: string, message: string, repaired: boolean) => {
+    issues.push({ code, path, message, repaired });
+  };
+
+  let data: any = input;
+
+  if (typeof data === 'string') {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      data = null;
+    }
+  }
+
+  // Unwrap template documents
+  if (data && typeof data === 'object' && !Array.isArray(data.nodes) && data.structure && typeof data.structure === 'object') {
+    data = data.structure;
+  }
+
+  if (!data || typeof data !== 'object') {
+    report('invalid_structure', '', 'Flowchart is not an object', false);
+    const errors = issues.filter(issue => !issue.repaired);
+    return { flowchart: { nodes: [], edges: [] }, issues, errors, isValid: false };
+  }
+
+  const rawNodes: unknown[] = Array.isArray(data.nodes) ? data.nodes : [];
+  const rawEdges: unknown[] = Array.isArray(data.edges) ? data.edges : [];
+
+  if (!Array.isArray(data.nodes)) {
+    report('invalid_structure', 'nodes', 'nodes is not an array', true);
+  }
+  if (!Array.isArray(data.edges)) {
+    report('invalid_structure', 'edges', 'edges is not an array', true);
+  }
+
+  // Nodes
+  const nodes: FlowchartNode[] = [];
+  const seenIds = new Set<string>();
+  // Edges written against a duplicated id keep pointing at the first node
+  const idRemap = new Map<string, string>();
+
+  rawNodes.forEach((raw: any, index) => {
+    const path = `nodes[${index}]`;
+
+    if (!raw || typeof raw !== 'object') {
+      report('invalid_node', path, `Node ${index} is not an object`, true);
+      return;
+    }
+
+    let id = typeof raw.id === 'string' ? raw.id.trim() : isFiniteNumber(raw.id) ? String(raw.id) : '';
+    const label = typeof raw.label === 'string' && raw.label.trim() ? raw.label.trim() : undefined;
+
+    if (!id) {
+      id = label || `node_${index}`;
+      report('missing_node_id', `${path}.id`, `Node ${index} has no id, using "${id}"`, true);
+    }
+
+    if (seenIds.has(id)) {
+      let suffix = 2;
+      while (seenIds.has(`${id}_${suffix}`)) suffix++;
+      const uniqueId = `${id}_${suffix}`;
+      report('duplicate_node_id', `${path}.id`, `Duplicate node id "${id}" renamed to "${uniqueId}"`, true);
+      id = uniqueId;
+    } else if (typeof raw.id === 'string' && raw.id !== id) {
+      idRemap.set(raw.id, id);
+    }
+    seenIds.add(id);
+
+    let type = normalizePartType(raw.type);
+    if (!type) {
+      type = 'manager';
+      report('unknown_node_type', `${path}.type`, `Node "${id}" has unknown type "${raw.type}", using "manager"`, true);
+    }
+
+    let x = toNumber(raw.x);
+    let y = toNumber(raw.y);
+    if (x === null || y === null) {
+      // Spread unplaced nodes on a grid so they don't stack on each other
+      const span = bounds.max - bounds.min;
+      x = x ?? bounds.min + span * (0.1 + 0.2 * (index % 5));
+      y = y ?? bounds.min + span * (0.1 + 0.2 * (Math.floor(index / 5) % 5));
+      report('invalid_coordinates', path, `Node "${id}" has invalid coordinates, placed at (${Math.round(x)}, ${Math.round(y)})`, true);
+    }
+
+    const clampedX = Math.max(bounds.min, Math.min(bounds.max, x));
+    const clampedY = Math.max(bounds.min, Math.min(bounds.max, y));
+    if (clampedX !== x || clampedY !== y) {
+      report('coordinates_out_of_bounds', path, `Node "${id}" was outside ${bounds.min}-${bounds.max} and has been clamped`, true);
+    }
+
+    const node: FlowchartNode = { id, x: clampedX, y: clampedY, type };
+    if (label) node.label = label;
+    if (typeof raw.description === 'string') node.description = raw.description;
+    if (Array.isArray(raw.transcripts)) {
+      node.transcripts = raw.transcripts.filter((t: unknown): t is string => typeof t === 'string');
+    }
+
+    nodes.push(node);
+  });
+
+  if (requireNodes && nodes.length === 0) {
+    report('empty_flowchart', 'nodes', 'Flowchart has no nodes', false);
+  }
+
+  // Edges
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const edges: FlowchartEdge[] = [];
+  const seenEdges = new Set<string>();
+  // Read like node ids, so numeric ids match the nodes they were converted for
+  const toEdgeEndpoint = (value: unknown): string =>
+    typeof value === 'string' ? idRemap.get(value) || value.trim() : isFiniteNumber(value) ? String(value) : '';
+
+  rawEdges.forEach((raw: any, index) => {
+    const path = `edges[${index}]`;
+
+    if (!raw || typeof raw !== 'object') {
+      report('invalid_edge', path, `Edge ${index} is not an object`, true);
+      return;
+    }
+
+    const from = toEdgeEndpoint(raw.from);
+    const to = toEdgeEndpoint(raw.to);
+
+    if (!nodeIds.has(from) || !nodeIds.has(to)) {
+      report('dangling_edge', path, `Edge "${raw.from}" → "${raw.to}" references a missing node and was dropped`, true);
+      return;
+    }
+
+    // The viewer keys edges by from-to, so a repeated pair would collide
+    const key = `${from}-${to}`;
+    if (seenEdges.has(key)) {
+      report('duplicate_edge', path, `Duplicate edge "${from}" → "${to}" was dropped`, true);
+      return;
+    }
+    seenEdges.add(key);
+
+    let type = normalizeRelationshipType(raw.type);
+    if (!type) {
+      type = 'alliance';
+      report('unknown_edge_type', `${path}.type`, `Edge "${from}" → "${to}" has unknown type "${raw.type}", using "alliance"`, true);
+    }
+
+    const edge: FlowchartEdge = { from, to, type };
+    if (typeof raw.label === 'string' && raw.label.trim()) edge.label = raw.label;
+
+    edges.push(edge);
+  });
+
+  const flowchart: FlowchartStructure = { nodes, edges };
+  if (data.metadata && typeof data.metadata === 'object') {
+    flowchart.metadata = { ...data.metadata };
+  }
+
+  const errors = issues.filter(issue => !issue.repaired);
+
+  if (issues.length > 0) {
+    console.log(`🧹 Normalized flowchart: ${issues.length - errors.length} repaired, ${errors.length} unrecoverable`);
+  }
+
+  return { flowchart, issues, errors, isValid: errors.length === 0 };
+};
+
+/**
+ * Normalize a flowchart and throw a FlowchartValidationError if anything
+ * could not be repaired
+ */
+export const assertValidFlowchart = (input: unknown, options?: NormalizeOptions): FlowchartStructure => {
+  const result = normalizeFlowchart(input, options);
+  if (!result.isValid) {
+    throw new FlowchartValidationError(result.errors);
+  }
+  return result.flowchart;
+};
@@ -0,0 +1,183 @@
+import { supabase } from '../supabase';
+import {
+  FlowchartStructure,
+  FlowchartNode,
+  FlowchartEdge,
+  FlowchartVersionRow,
+  FlowchartVersionAuthor,
+  PartType,
+  RelationshipType,
+} from '../types/flowchart';
+
+export interface FlowchartDiff {
+  nodesAdded: FlowchartNode[];
+  nodesRemoved: FlowchartNode[];
+  nodesRetyped: { id: string; from: PartType; to: PartType }[];
+  // Label, description or transcripts changed (position changes are ignored)
+  nodesUpdated: { id: string; fields: string[] }[];
+  edgesAdded: FlowchartEdge[];
+  edgesRemoved: FlowchartEdge[];
+  edgesChanged: {
+    from: string;
+    to: string;
+    before: { type: RelationshipType; label?: string };
+    after: { type: RelationshipType; label?: string };
+  }[];
+}
+
+// Record a snapshot of a flowchart structure in its version history
+export const recordFlowchartVersion = async (
+  flowchartId: string,
+  structure: FlowchartStructure,
+  author: FlowchartVersionAuthor = 'user',
+  description?: string
+): Promise<FlowchartVersionRow | null> => {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('flowchart_versions')
+    .insert({
+      flowchart_id: flowchartId,
+      user_id: user.id,
+      structure,
+      author,
+      description: description || null
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // History is best-effort - a failed snapshot must not fail the save itself
+    console.error('⚠️ Error recording flowchart version:', error);
+    return null;
+  }
+
+  console.log('🕘 Recorded flowchart version:', { flowchartId, version: data.version_number, author });
+  return data;
+};
+
+// Get all versions of a flowchart, newest first
+export const getFlowchartVersions = async (flowchartId: string): Promise<FlowchartVersionRow[]> => {
+  const { data, error } = await supabase
+    .from('flowchart_versions')
+    .select('*')
+    .eq('flowchart_id', flowchartId)
+    .order('version_number', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching flowchart versions:', error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+// Get a single version by ID
+export const getFlowchartVersion = async (versionId: string): Promise<FlowchartVersionRow | null> => {
+  const { data, error } = await supabase
+    .from('flowchart_versions')
+    .select('*')
+    .eq('id', versionId)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return null; // Not found
+    }
+    console.error('Error fetching flowchart version:', error);
+    throw error;
+  }
+
+  return data;
+};
+
+const edgeKey = (edge: FlowchartEdge) => `${edge.from}->${edge.to}`;
+
+/**
+ * Compute the structural difference between two flowcharts.
+ * Nodes are matched by id and edges by their from/to pair.
+ */
+export const diffFlowcharts = (before: FlowchartStructure, after: FlowchartStructure): FlowchartDiff => {
+  const beforeNodes = new Map(before.nodes.map(node => [node.id, node]));
+  const afterNodes = new Map(after.nodes.map(node => [node.id, node]));
+
+  const diff: FlowchartDiff = {
+    nodesAdded: after.nodes.filter(node => !beforeNodes.has(node.id)),
+    nodesRemoved: before.nodes.filter(node => !afterNodes.has(node.id)),
+    nodesRetyped: [],
+    nodesUpdated: [],
+    edgesAdded: [],
+    edgesRemoved: [],
+    edgesChanged: []
+  };
+
+  after.nodes.forEach(node => {
+    const previous = beforeNodes.get(node.id);
+    if (!previous) return;
+
+    if (previous.type !== node.type) {
+      diff.nodesRetyped.push({ id: node.id, from: previous.type, to: node.type });
+    }
+
+    const fields: string[] = [];
+    if ((previous.label || '') !== (node.label || '')) fields.push('label');
+    if ((previous.description || '') !== (node.description || '')) fields.push('description');
+    if (JSON.stringify(previous.transcripts || []) !== JSON.stringify(node.transcripts || [])) fields.push('transcripts');
+    if (fields.length > 0) {
+      diff.nodesUpdated.push({ id: node.id, fields });
+    }
+  });
+
+  const beforeEdges = new Map(before.edges.map(edge => [edgeKey(edge), edge]));
+  const afterEdges = new Map(after.edges.map(edge => [edgeKey(edge), edge]));
+
+  diff.edgesAdded = after.edges.filter(edge => !beforeEdges.has(edgeKey(edge)));
+  diff.edgesRemoved = before.edges.filter(edge => !afterEdges.has(edgeKey(edge)));
+
+  after.edges.forEach(edge => {
+    const previous = beforeEdges.get(edgeKey(edge));
+    if (!previous) return;
+
+    if (previous.type !== edge.type || (previous.label || '') !== (edge.label || '')) {
+      diff.edgesChanged.push({
+        from: edge.from,
+        to: edge.to,
+        before: { type: previous.type, label: previous.label },
+        after: { type: edge.type, label: edge.label }
+      });
+    }
+  });
+
+  return diff;
+};
+
+// Check whether a diff contains any structural change
+export const isEmptyDiff = (diff: FlowchartDiff): boolean => {
+  return diff.nodesAdded.length === 0 &&
+    diff.nodesRemoved.length === 0 &&
+    diff.nodesRetyped.length === 0 &&
+    diff.nodesUpdated.length === 0 &&
+    diff.edgesAdded.length === 0 &&
+    diff.edgesRemoved.length === 0 &&
+    diff.edgesChanged.length === 0;
+};
+
+// Summarize a diff in one line, e.g. "+2 nodes, −1 edge, 1 retyped"
+export const summarizeFlowchartDiff = (diff: FlowchartDiff): string => {
+  const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+  const parts: string[] = [];
+
+  if (diff.nodesAdded.length) parts.push(`+${plural(diff.nodesAdded.length, 'node')}`);
+  if (diff.nodesRemoved.length) parts.push(`−${plural(diff.nodesRemoved.length, 'node')}`);
+  if (diff.nodesRetyped.length) parts.push(`${diff.nodesRetyped.length} retyped`);
+  if (diff.nodesUpdated.length) parts.push(`${diff.nodesUpdated.length} edited`);
+  if (diff.edgesAdded.length) parts.push(`+${plural(diff.edgesAdded.length, 'edge')}`);
+  if (diff.edgesRemoved.length) parts.push(`−${plural(diff.edgesRemoved.length, 'edge')}`);
+  if (diff.edgesChanged.length) parts.push(`${plural(diff.edgesChanged.length, 'edge')} changed`);
+
+  return parts.length > 0 ? parts.join(', ') : 'No structural changes';
+};
@@ -1,6 +1,20 @@
 import { supabase } from '../supabase';
 import { Database } from '../database.types';
-import { FlowchartStructure } from '../types/flowchart';
+import { FlowchartStructure, FlowchartVersionAuthor } from '../types/flowchart';
+import { diffFlowcharts, getFlowchartVersion, isEmptyDiff, recordFlowchartVersion } from './flowchartVersions';
+import { getGuestFlowchart, saveGuestFlowchart } from './guestData';
+import {
+  applyPendingMutations,
+  getCachedRows,
+  getLocalRow,
+  isNetworkError,
+  rememberRows,
+  reportConnectivity,
+  sendMutation,
+} from './offlineQueue';
+import { layoutFlowchart, LayoutMode } from './flowchartLayout';
+import { exportFlowchartToDiagram, DiagramFormat } from './flowchartExporters';
+import { renderFlowchartToSvg } from './flowchartSnapshot';
 import * as FileSystem from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
 import { Platform, Alert } from 'react-native';
@@ -9,15 +23,27 @@ export type FlowchartRow = Database['public']['Tables']['flowcharts']['Row'];
 export type FlowchartInsert = Database['public']['Tables']['flowcharts']['Insert'];
 export type FlowchartUpdate = Database['public']['Tables']['flowcharts']['Update'];
 
+const byLastUpdated = (a: FlowchartRow, b: FlowchartRow) =>
+  new Date(b.last_updated).getTime() - new Date(a.last_updated).getTime();
+
 // Get user's default flowchart with ID
 export const getUserFlowchartWithId = async (): Promise<{ structure: FlowchartStructure; id: string | null }> => {
-  const { data: { user } } = await supabase.auth.getUser();
+  // The stored session works offline, unlike getUser()
+  const { data: { session } } = await supabase.auth.getSession();
+  const user = session?.user;
   
   if (!user) {
+    // Guests keep their map on the device until they sign in (see guestMigration)
+    const guestFlowchart = await getGuestFlowchart();
+    if (guestFlowchart) {
+      return { structure: guestFlowchart.structure, id: null };
+    }
+
     // For non-authenticated users, generate AI flowchart instead of hardcoded default
     console.log('🤖 No user authenticated, generating AI flowchart...');
     try {
       const structure = await generateFlowchartFromRequirements();
+      await saveGuestFlowchart('My Flowchart', structure);
       return { structure, id: null };
     } catch (error) {
       console.log('❌ AI generation failed, using minimal fallback');
@@ -46,19 +72,29 @@ export const getUserFlowchartWithId = async (): Promise<{ structure: FlowchartSt
     .single();
 
   if (error && error.code !== 'PGRST116') { // PGRST116 = no rows returned
-    console.error('Error fetching user flowchart:', error);
-    throw error;
+    const cached = isNetworkError(error)
+      ? (await getUserFlowcharts()).find(flowchart => flowchart.is_default)
+      : undefined;
+    if (!cached) {
+      console.error('Error fetching user flowchart:', error);
+      throw error;
+    }
+    console.log('📴 Offline, using cached flowchart');
+    return { structure: cached.structure, id: cached.id };
   }
 
   if (data) {
-    return { structure: data.structure, id: data.id };
+    reportConnectivity(true);
+    await rememberRows('flowcharts', [data]);
+    const flowchart = (await getLocalRow<FlowchartRow>('flowcharts', data.id)) || data;
+    return { structure: flowchart.structure, id: flowchart.id };
   }
 
   // No default flowchart exists, generate one with AI instead of hardcoded default
   console.log('🤖 No saved flowchart found, generating AI flowchart for user...');
   try {
     const aiStructure = await generateFlowchartFromRequirements();
-    const newFlowchart = await createFlowchart('My Flowchart', aiStructure, true);
+    const newFlowchart = await createFlowchart('My Flowchart', aiStructure, true, 'ai');
     return { structure: aiStructure, id: newFlowchart.id };
   } catch (error) {
     console.log('❌ AI generation failed, using minimal fallback');
@@ -84,10 +120,17 @@ export const getUserFlowchart = async (): Promise<FlowchartStructure> => {
   const { data: { user } } = await supabase.auth.getUser();
   
   if (!user) {
+    const guestFlowchart = await getGuestFlowchart();
+    if (guestFlowchart) {
+      return guestFlowchart.structure;
+    }
+
     // For non-authenticated users, generate AI flowchart instead of hardcoded default
     console.log('🤖 No user authenticated, generating AI flowchart...');
     try {
-      return await generateFlowchartFromRequirements();
+      const structure = await generateFlowchartFromRequirements();
+      await saveGuestFlowchart('My Flowchart', structure);
+      return structure;
     } catch (error) {
       console.log('❌ AI generation failed, using minimal fallback');
       // Return minimal structure instead of the 8-node default
@@ -126,7 +169,7 @@ export const getUserFlowchart = async (): Promise<FlowchartStructure> => {
   console.log('🤖 No saved flowchart found, generating AI flowchart for user...');
   try {
     const aiStructure = await generateFlowchartFromRequirements();
-    await createFlowchart('My Flowchart', aiStructure, true);
+    await createFlowchart('My Flowchart', aiStructure, true, 'ai');
     return aiStructure;
   } catch (error) {
     console.log('❌ AI generation failed, using minimal fallback');
@@ -151,7 +194,8 @@ export const getUserFlowchart = async (): Promise<FlowchartStructure> => {
 export const createFlowchart = async (
   name: string, 
   structure: FlowchartStructure, 
-  isDefault: boolean = false
+  isDefault: boolean = false,
+  author: FlowchartVersionAuthor = 'user'
 ): Promise<FlowchartRow> => {
   const { data: { user } } = await supabase.auth.getUser();
   
@@ -159,22 +203,14 @@ export const createFlowchart = async (
     throw new Error('User must be authenticated to create flowchart');
   }
 
-  // If setting as default, unset any existing default
-  if (isDefault) {
-    await supabase
-      .from('flowcharts')
-      .update({ is_default: false })
-      .eq('user_id', user.id)
-      .eq('is_default', true);
-  }
-
+  // Insert as a regular map; the default is switched atomically below
   const { data, error } = await supabase
     .from('flowcharts')
     .insert({
       user_id: user.id,
       name,
       structure,
-      is_default: isDefault,
+      is_default: false,
       last_updated: new Date().toISOString()
     })
     .select()
@@ -185,40 +221,157 @@ export const createFlowchart = async (
     throw error;
   }
 
+  await recordFlowchartVersion(data.id, structure, author, `Created flowchart "${name}"`);
+
+  if (isDefault) {
+    return await setDefaultFlowchart(data.id);
+  }
+
+  await rememberRows('flowcharts', [data]);
   return data;
 };
 
-// Update an existing flowchart
-export const updateFlowchart = async (
-  id: string, 
-  updates: Partial<FlowchartUpdate>
-): Promise<FlowchartRow> => {
-  console.log('🔧 updateFlowchart called with:', { id, updates: Object.keys(updates) });
-  
+// Create a map containing only the Self node
+export const createEmptyFlowchart = async (name: string, isDefault: boolean = false): Promise<FlowchartRow> => {
+  const structure: FlowchartStructure = {
+    nodes: [
+      { id: 'self', x: 200, y: 200, type: 'self', description: 'Your centered, authentic self', transcripts: [] }
+    ],
+    edges: [],
+    metadata: {
+      version: '1.0',
+      lastModified: new Date().toISOString()
+    }
+  };
+  return createFlowchart(name, structure, isDefault);
+};
+
+// Get a single flowchart by ID
+export const getFlowchartById = async (id: string): Promise<FlowchartRow | null> => {
   const { data, error } = await supabase
     .from('flowcharts')
-    .update({
-      ...updates,
-      last_updated: new Date().toISOString()
-    })
+    .select('*')
     .eq('id', id)
-    .select()
+    .single();
+
+  if (error && error.code !== 'PGRST116') { // PGRST116 = no rows returned
+    if (!isNetworkError(error)) {
+      console.error('Error fetching flowchart:', error);
+      throw error;
+    }
+    reportConnectivity(false);
+  } else {
+    reportConnectivity(true);
+    // Not found forgets any cached copy
+    await rememberRows('flowcharts', data ? [data] : [], row => row.id === id);
+  }
+
+  // With queued offline edits applied
+  return getLocalRow<FlowchartRow>('flowcharts', id);
+};
+
+// Make a flowchart the user's default. The database function clears the
+// previous default in the same transaction (see create-set-default-flowchart-function.sql)
+export const setDefaultFlowchart = async (id: string): Promise<FlowchartRow> => {
+  const { data, error } = await supabase
+    .rpc('set_default_flowchart', { target_id: id })
     .single();
 
   if (error) {
-    console.error('❌ Error updating flowchart in Supabase:', error);
+    console.error('Error setting default flowchart:', error);
     throw error;
   }
 
-  console.log('✅ Supabase update successful:', { id: data.id, last_updated: data.last_updated });
+  // The previous default's cached copy is stale now
+  await rememberRows('flowcharts', [data as FlowchartRow], row => row.is_default);
+  return data as FlowchartRow;
+};
+
+// Rename a flowchart without recording a structure version
+export const renameFlowchart = async (id: string, name: string): Promise<FlowchartRow> => {
+  return updateFlowchart(id, { name });
+};
+
+// Copy a flowchart into a new, non-default map
+export const duplicateFlowchart = async (id: string, name?: string): Promise<FlowchartRow> => {
+  const original = await getFlowchartById(id);
+
+  if (!original) {
+    throw new Error('Flowchart not found');
+  }
+
+  return createFlowchart(name || `${original.name} (copy)`, original.structure, false);
+};
+
+// Update an existing flowchart. The update is queued (see offlineQueue) and
+// sent right away when online, so edits made offline sync on reconnect. An
+// update the server refuses throws a MutationRejectedError, or a
+// MutationConflictError with the server row when the map changed elsewhere
+// first, and is rolled back
+export const updateFlowchart = async (
+  id: string, 
+  updates: Partial<FlowchartUpdate>,
+  version?: { author?: FlowchartVersionAuthor; description?: string }
+): Promise<FlowchartRow> => {
+  console.log('🔧 updateFlowchart called with:', { id, updates: Object.keys(updates) });
+
+  // The edit is merged into the copy on the device, so fetch it if it isn't there
+  const current = (await getLocalRow<FlowchartRow>('flowcharts', id)) || (await getFlowchartById(id));
+  if (!current) {
+    throw new Error('Flowchart not found');
+  }
+
+  // Structure changes are snapshotted into the version history once they sync.
+  // Moving nodes around isn't a change worth a version, so drags and layout
+  // saves (no diff apart from positions) don't record one
+  const changesStructure = !!updates.structure && !isEmptyDiff(diffFlowcharts(current.structure, updates.structure));
+
+  await sendMutation({
+    table: 'flowcharts',
+    kind: 'update',
+    rowId: id,
+    values: {
+      ...updates,
+      last_updated: new Date().toISOString()
+    },
+    version: changesStructure ? { author: version?.author, description: version?.description } : undefined
+  });
+
+  const data = await getLocalRow<FlowchartRow>('flowcharts', id);
+  if (!data) {
+    throw new Error('Flowchart not found');
+  }
+
+  console.log('✅ Flowchart update saved:', { id: data.id, last_updated: data.last_updated });
   return data;
 };
 
+/**
+ * Restore a flowchart to an earlier version. It's saved like any other edit,
+ * through the offline queue, and recorded as a new version itself, so history
+ * is never rewritten and a restore can be undone.
+ */
+export const restoreFlowchartVersion = async (versionId: string): Promise<FlowchartStructure> => {
+  const version = await getFlowchartVersion(versionId);
+
+  if (!version) {
+    throw new Error('Flowchart version not found');
+  }
+
+  await updateFlowchart(version.flowchart_id, { structure: version.structure }, {
+    author: 'user',
+    description: `Restored version ${version.version_number}`
+  });
+
+  return version.structure;
+};
+
 // Update flowchart structure and append change description to markdown
 export const updateFlowchartWithDescription = async (
   id: string,
   newStructure: FlowchartStructure,
-  changeDescription: string
+  changeDescription: string,
+  author: FlowchartVersionAuthor = 'user'
 ): Promise<FlowchartRow> => {
   console.log('🔧 updateFlowchartWithDescription called with:', {
     id,
@@ -232,7 +385,7 @@ export const updateFlowchartWithDescription = async (
     console.log('🔧 Calling updateFlowchart...');
     const updatedFlowchart = await updateFlowchart(id, { 
       structure: newStructure 
-    });
+    }, { author, description: changeDescription });
     console.log('✅ updateFlowchart successful:', updatedFlowchart.id);
 
     // Append change description to markdown file
@@ -249,7 +402,8 @@ export const updateFlowchartWithDescription = async (
 
 // Get all flowcharts for the current user
 export const getUserFlowcharts = async (): Promise<FlowchartRow[]> => {
-  const { data: { user } } = await supabase.auth.getUser();
+  const { data: { session } } = await supabase.auth.getSession();
+  const user = session?.user;
   
   if (!user) {
     return [];
@@ -261,12 +415,22 @@ export const getUserFlowcharts = async (): Promise<FlowchartRow[]> => {
     .eq('user_id', user.id)
     .order('last_updated', { ascending: false });
 
+  let rows: FlowchartRow[];
   if (error) {
-    console.error('Error fetching user flowcharts:', error);
-    throw error;
+    if (!isNetworkError(error)) {
+      console.error('Error fetching user flowcharts:', error);
+      throw error;
+    }
+    reportConnectivity(false);
+    rows = ((await getCachedRows('flowcharts')) as FlowchartRow[]).filter(row => row.user_id === user.id);
+  } else {
+    reportConnectivity(true);
+    rows = data || [];
+    await rememberRows('flowcharts', rows, row => row.user_id === user.id);
   }
 
-  return data || [];
+  // With queued offline edits applied
+  return (await applyPendingMutations('flowcharts', rows)).sort(byLastUpdated);
 };
 
 // Delete a flowchart
@@ -280,6 +444,8 @@ export const deleteFlowchart = async (id: string): Promise<void> => {
     console.error('Error deleting flowchart:', error);
     throw error;
   }
+
+  await rememberRows('flowcharts', [], row => row.id === id);
 };
 
 // Append change description to flowchart requirements markdown
@@ -300,7 +466,8 @@ import { generateFlowchartWithAI, AIGenerationRequest } from './aiFlowchartGener
 // Generate flowchart from markdown requirements using AI
 export const generateFlowchartFromRequirements = async (
   existingStructure?: FlowchartStructure,
-  context?: AIGenerationRequest['context']
+  context?: AIGenerationRequest['context'],
+  options: { autoArrange?: LayoutMode } = {}
 ): Promise<FlowchartStructure> => {
   const aiResponse = await generateFlowchartWithAI({
     requirements: '', // Will be read by the AI generator
@@ -308,6 +475,11 @@ export const generateFlowchartFromRequirements = async (
     context
   });
   
+  // AI coordinates are arbitrary, optionally replace them with a computed layout
+  if (options.autoArrange) {
+    return layoutFlowchart(aiResponse.flowchart, { mode: options.autoArrange });
+  }
+
   return aiResponse.flowchart;
 };
 
@@ -365,7 +537,8 @@ export const exportFlowchartAsTemplate = async (
           type: node.type,
           description: node.description || '',
           x: node.x,
-          y: node.y
+          y: node.y,
+          ...(node.transcripts?.length ? { transcripts: node.transcripts } : {})
         })),
         edges: flowchart.edges.map(edge => ({
           from: edge.from,
@@ -421,4 +594,102 @@ export const exportFlowchartAsTemplate = async (
     Alert.alert('Export Error', 'Failed to export flowchart template. Please try again.');
     throw error;
   }
-};
\ No newline at end of file
+};
+
+// Write an export to the documents folder and open the share sheet
+const shareExportFile = async (
+  filename: string,
+  content: string,
+  share: { mimeType: string; dialogTitle: string; UTI: string },
+  encoding: FileSystem.EncodingType = FileSystem.EncodingType.UTF8
+): Promise<void> => {
+  // Write to temporary file
+  const fileUri = `${FileSystem.documentDirectory}${filename}`;
+  await FileSystem.writeAsStringAsync(fileUri, content, { encoding });
+  
+  console.log('✅ Export file created:', fileUri);
+  
+  // Check if sharing is available and share the file
+  const isAvailable = await Sharing.isAvailableAsync();
+  if (isAvailable) {
+    await Sharing.shareAsync(fileUri, share);
+    console.log('✅ Export shared successfully');
+  } else {
+    Alert.alert(
+      'Export Complete',
+      `File saved to: ${filename}\n\nYou can find it in your app's documents folder.`,
+      [{ text: 'OK' }]
+    );
+  }
+};
+
+// Date stamp used in export filenames, e.g. 20250101
+const getExportDateStamp = (): string => new Date().toISOString().split('T')[0].replace(/-/g, '');
+
+const DIAGRAM_FILE_TYPES: Record<DiagramFormat, { extension: string; title: string }> = {
+  mermaid: { extension: 'mmd', title: 'Export Mermaid Diagram' },
+  dot: { extension: 'dot', title: 'Export Graphviz Diagram' }
+};
+
+// Export flowchart as a Mermaid or Graphviz diagram and share it
+export const exportFlowchartAsDiagram = async (
+  flowchart: FlowchartStructure,
+  format: DiagramFormat,
+  flowchartName: string = 'flowchart'
+): Promise<void> => {
+  try {
+    console.log('📄 Exporting flowchart as diagram:', { flowchartName, format });
+    
+    const { extension, title } = DIAGRAM_FILE_TYPES[format];
+    await shareExportFile(
+      `${flowchartName}-${getExportDateStamp()}.${extension}`,
+      exportFlowchartToDiagram(flowchart, format, flowchartName),
+      { mimeType: 'text/plain', dialogTitle: title, UTI: 'public.plain-text' }
+    );
+  } catch (error) {
+    console.error('❌ Error exporting flowchart diagram:', error);
+    Alert.alert('Export Error', 'Failed to export diagram. Please try again.');
+    throw error;
+  }
+};
+
+// Export a snapshot of the rendered flowchart as an SVG image and share it
+export const exportFlowchartAsSvg = async (
+  flowchart: FlowchartStructure,
+  flowchartName: string = 'flowchart'
+): Promise<void> => {
+  try {
+    console.log('🖼️ Exporting flowchart snapshot as SVG:', flowchartName);
+    
+    await shareExportFile(
+      `${flowchartName}-${getExportDateStamp()}.svg`,
+      renderFlowchartToSvg(flowchart),
+      { mimeType: 'image/svg+xml', dialogTitle: 'Export Map Snapshot', UTI: 'public.svg-image' }
+    );
+  } catch (error) {
+    console.error('❌ Error exporting flowchart SVG:', error);
+    Alert.alert('Export Error', 'Failed to export snapshot. Please try again.');
+    throw error;
+  }
+};
+
+// Share a rasterized snapshot (base64 PNG from FlowchartSnapshotRenderer)
+export const exportFlowchartSnapshotPng = async (
+  base64Png: string,
+  flowchartName: string = 'flowchart'
+): Promise<void> => {
+  try {
+    console.log('🖼️ Exporting flowchart snapshot as PNG:', flowchartName);
+    
+    await shareExportFile(
+      `${flowchartName}-${getExportDateStamp()}.png`,
+      base64Png,
+      { mimeType: 'image/png', dialogTitle: 'Export Map Snapshot', UTI: 'public.png' },
+      FileSystem.EncodingType.Base64
+    );
+  } catch (error) {
+    console.error('❌ Error exporting flowchart PNG:', error);
+    Alert.alert('Export Error', 'Failed to export snapshot. Please try again.');
+    throw error;
+  }
+};
@@ -0,0 +1,105 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { FlowchartStructure } from '../types/flowchart';
+import { GuestConversation, GuestFlowchart, GuestReleasedBelief } from '../types/guest';
+import { NewConversationMessage } from './conversations';
+
+/**
+ * Guest Data
+ *
+ * What the app keeps on the device for users who aren't signed in. It's
+ * moved into their account when they sign up or in (see guestMigration).
+ */
+
+// Key name predates the other guest keys; kept so existing data is still found
+export const GUEST_RELEASED_BELIEFS_KEY = 'releasedConversations';
+export const GUEST_CONVERSATIONS_KEY = 'guestConversations';
+export const GUEST_FLOWCHART_KEY = 'guestFlowchart';
+
+// Keep a bounded number of transcripts on the device
+const MAX_GUEST_CONVERSATIONS = 20;
+
+const readJson = async <T>(key: string, fallback: T): Promise<T> => {
+  try {
+    const stored = await AsyncStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch (error) {
+    console.error(`Error reading ${key}:`, error);
+    return fallback;
+  }
+};
+
+// An empty list removes the key, so leftovers don't look like guest data
+const writeList = async <T>(key: string, items: T[]): Promise<void> => {
+  if (items.length) {
+    await AsyncStorage.setItem(key, JSON.stringify(items));
+  } else {
+    await AsyncStorage.removeItem(key);
+  }
+};
+
+export const getGuestReleasedBeliefs = (): Promise<GuestReleasedBelief[]> =>
+  readJson<GuestReleasedBelief[]>(GUEST_RELEASED_BELIEFS_KEY, []);
+
+export const setGuestReleasedBeliefs = (beliefs: GuestReleasedBelief[]): Promise<void> =>
+  writeList(GUEST_RELEASED_BELIEFS_KEY, beliefs);
+
+export const addGuestReleasedBelief = async (belief: GuestReleasedBelief): Promise<void> => {
+  const beliefs = await getGuestReleasedBeliefs();
+  await setGuestReleasedBeliefs([...beliefs.filter(existing => existing.id !== belief.id), belief]);
+};
+
+export const getGuestConversations = (): Promise<GuestConversation[]> =>
+  readJson<GuestConversation[]>(GUEST_CONVERSATIONS_KEY, []);
+
+export const setGuestConversations = (conversations: GuestConversation[]): Promise<void> =>
+  writeList(GUEST_CONVERSATIONS_KEY, conversations);
+
+// Messages arrive without waiting on each other; saving them one at a time
+// keeps each read-modify-write from overwriting the previous one
+let conversationWrites: Promise<void> = Promise.resolve();
+
+/**
+ * Save a message to a guest transcript, starting the transcript with its
+ * first message.
+ */
+export const appendGuestConversationMessage = (
+  conversationId: string,
+  topic: string | null,
+  message: NewConversationMessage
+): Promise<void> => {
+  conversationWrites = conversationWrites.then(async () => {
+    const createdAt = (message.createdAt || new Date()).toISOString();
+    const conversations = await getGuestConversations();
+    const existing = conversations.find(conversation => conversation.id === conversationId);
+    const conversation: GuestConversation = existing || { id: conversationId, topic, startedAt: createdAt, messages: [] };
+
+    const updated: GuestConversation = {
+      ...conversation,
+      messages: [
+        ...conversation.messages,
+        { role: message.role, content: message.content, audioDurationMs: message.audioDurationMs ?? null, createdAt }
+      ]
+    };
+
+    await setGuestConversations([
+      ...conversations.filter(other => other.id !== conversationId),
+      updated
+    ].slice(-MAX_GUEST_CONVERSATIONS));
+  }).catch(error => console.error('Error saving guest conversation:', error));
+
+  return conversationWrites;
+};
+
+export const getGuestFlowchart = (): Promise<GuestFlowchart | null> =>
+  readJson<GuestFlowchart | null>(GUEST_FLOWCHART_KEY, null);
+
+export const saveGuestFlowchart = async (name: string, structure: FlowchartStructure): Promise<void> => {
+  const flowchart: GuestFlowchart = { name, structure, savedAt: new Date().toISOString() };
+  try {
+    await AsyncStorage.setItem(GUEST_FLOWCHART_KEY, JSON.stringify(flowchart));
+  } catch (error) {
+    console.error('Error saving guest flowchart:', error);
+  }
+};
+
+export const clearGuestFlowchart = (): Promise<void> => AsyncStorage.removeItem(GUEST_FLOWCHART_KEY);
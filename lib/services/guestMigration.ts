@@ -0,0 +1,214 @@
+import { supabase } from '../supabase';
+import { GuestMigrationCounts, GuestMigrationResult } from '../types/guest';
+import { appendConversationMessages, createConversation, deleteConversation } from './conversations';
+import { createFlowchart, getUserFlowcharts } from './flowcharts';
+import {
+  clearGuestFlowchart,
+  getGuestConversations,
+  getGuestFlowchart,
+  getGuestReleasedBeliefs,
+  setGuestConversations,
+  setGuestReleasedBeliefs,
+} from './guestData';
+
+/**
+ * Guest Migration
+ *
+ * Moves what was saved on the device while signed out (see guestData) into
+ * the account the user signs up or in with. AuthContext runs it on the first
+ * authenticated session. Items already in the account are skipped. Each item
+ * is removed from the device once it's uploaded or skipped, so a migration
+ * that fails part way picks up where it stopped on the next sign-in.
+ */
+
+const emptyCounts = (): GuestMigrationCounts => ({ migrated: 0, skipped: 0, failed: 0 });
+
+// Timestamps come back from Postgres in a different format than they were sent
+const timeKey = (timestamp: string) => new Date(timestamp).getTime();
+
+const migrateReleasedBeliefs = async (userId: string): Promise<GuestMigrationCounts> => {
+  const counts = emptyCounts();
+  const guestBeliefs = await getGuestReleasedBeliefs();
+  if (!guestBeliefs.length) return counts;
+
+  const { data: existing, error } = await supabase
+    .from('beliefs')
+    .select('emotion, created_at')
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error fetching beliefs for guest migration:', error);
+    throw error;
+  }
+
+  // A belief is the same one if it has the same label and creation time
+  const beliefKey = (emotion: string | null | undefined, createdAt: string) => `${emotion || ''}|${timeKey(createdAt)}`;
+  const existingKeys = new Set((existing || []).map(belief => beliefKey(belief.emotion, belief.created_at)));
+  const remaining = [];
+
+  for (const belief of guestBeliefs) {
+    const key = beliefKey(belief.label, belief.timestamp);
+    if (existingKeys.has(key)) {
+      counts.skipped += 1;
+      continue;
+    }
+
+    const { error: insertError } = await supabase
+      .from('beliefs')
+      .insert({
+        user_id: userId,
+        emotion: belief.label || null,
+        notes: belief.notes || null,
+        'feminine-masculine': belief['feminine-masculine'],
+        'dark-light': belief['dark-light'],
+        'child-parent': belief['child-parent'],
+        frequency: belief.frequency,
+        ai_conversation_summary: belief.aiConversationSummary || null,
+        belief: belief.limitingBeliefs || null,
+        released: true,
+        released_at: new Date(belief.releasedAt).toISOString(),
+        created_at: new Date(belief.timestamp).toISOString()
+      });
+
+    if (insertError) {
+      console.error('Error migrating guest belief:', insertError);
+      counts.failed += 1;
+      remaining.push(belief);
+      continue;
+    }
+
+    existingKeys.add(key);
+    counts.migrated += 1;
+  }
+
+  await setGuestReleasedBeliefs(remaining);
+  return counts;
+};
+
+const migrateConversations = async (userId: string): Promise<GuestMigrationCounts> => {
+  const counts = emptyCounts();
+  const guestConversations = await getGuestConversations();
+  if (!guestConversations.length) return counts;
+
+  const { data: existing, error } = await supabase
+    .from('conversations')
+    .select('started_at')
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error fetching conversations for guest migration:', error);
+    throw error;
+  }
+
+  // Conversations are the same one if they started at the same moment
+  const existingStarts = new Set((existing || []).map(conversation => timeKey(conversation.started_at)));
+  const remaining = [];
+
+  for (const guestConversation of guestConversations) {
+    if (!guestConversation.messages.length || existingStarts.has(timeKey(guestConversation.startedAt))) {
+      counts.skipped += 1;
+      continue;
+    }
+
+    let conversationId: string | null = null;
+    try {
+      const conversation = await createConversation({
+        topic: guestConversation.topic,
+        startedAt: new Date(guestConversation.startedAt)
+      });
+      conversationId = conversation.id;
+
+      await appendConversationMessages(conversation.id, guestConversation.messages.map(message => ({
+        role: message.role,
+        content: message.content,
+        audioDurationMs: message.audioDurationMs ?? null,
+        createdAt: new Date(message.createdAt)
+      })));
+    } catch (migrationError) {
+      console.error('Error migrating guest conversation:', migrationError);
+      // Don't leave a copy without its transcript to be skipped as a duplicate next time
+      if (conversationId) {
+        await deleteConversation(conversationId).catch(() => {});
+      }
+      counts.failed += 1;
+      remaining.push(guestConversation);
+      continue;
+    }
+
+    existingStarts.add(timeKey(guestConversation.startedAt));
+    counts.migrated += 1;
+  }
+
+  await setGuestConversations(remaining);
+  return counts;
+};
+
+const migrateFlowchart = async (): Promise<GuestMigrationCounts> => {
+  const counts = emptyCounts();
+  const guestFlowchart = await getGuestFlowchart();
+  if (!guestFlowchart) return counts;
+
+  const flowcharts = await getUserFlowcharts();
+  const structure = JSON.stringify(guestFlowchart.structure);
+
+  if (flowcharts.some(flowchart => JSON.stringify(flowchart.structure) === structure)) {
+    counts.skipped += 1;
+  } else {
+    // Becomes the default map unless the account already has one
+    await createFlowchart(guestFlowchart.name, guestFlowchart.structure, !flowcharts.some(flowchart => flowchart.is_default));
+    counts.migrated += 1;
+  }
+
+  await clearGuestFlowchart();
+  return counts;
+};
+
+// Run one part of the migration; a failed part leaves its data on the device
+const runStep = async (name: string, step: () => Promise<GuestMigrationCounts>, pending: () => Promise<number>) => {
+  try {
+    return await step();
+  } catch (error) {
+    console.error(`Error migrating guest ${name}:`, error);
+    return { ...emptyCounts(), failed: await pending() };
+  }
+};
+
+/**
+ * Upload guest data into the signed-in user's account. Never throws; the
+ * result counts what was migrated, skipped as a duplicate or left to retry.
+ */
+export const migrateGuestData = async (userId: string): Promise<GuestMigrationResult> => {
+  const result: GuestMigrationResult = {
+    beliefs: await runStep('beliefs', () => migrateReleasedBeliefs(userId), async () => (await getGuestReleasedBeliefs()).length),
+    conversations: await runStep('conversations', () => migrateConversations(userId), async () => (await getGuestConversations()).length),
+    flowcharts: await runStep('flowcharts', migrateFlowchart, async () => ((await getGuestFlowchart()) ? 1 : 0)),
+  };
+
+  console.log('📦 Guest data migration:', result);
+  return result;
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// A sentence for the user, or null when there was nothing to migrate
+export const describeGuestMigration = (result: GuestMigrationResult): string | null => {
+  const added = [
+    result.beliefs.migrated ? plural(result.beliefs.migrated, 'released belief') : null,
+    result.conversations.migrated ? plural(result.conversations.migrated, 'conversation') : null,
+    result.flowcharts.migrated ? 'your map' : null,
+  ].filter((part): part is string => !!part);
+  const failed = result.beliefs.failed + result.conversations.failed + result.flowcharts.failed;
+
+  if (!added.length && !failed) {
+    return null;
+  }
+
+  const addedText = added.length > 1
+    ? `${added.slice(0, -1).join(', ')} and ${added[added.length - 1]}`
+    : added[0];
+  const sentences = [
+    addedText ? `We've added ${addedText} from before you signed in to your account.` : null,
+    failed ? `${plural(failed, 'item')} couldn't be moved yet. We'll try again next time you sign in.` : null,
+  ];
+  return sentences.filter(Boolean).join(' ');
+};
@@ -1,5 +1,12 @@
 import { FlowchartStructure } from '@/lib/types/flowchart';
+import { SafetyAssessment } from '@/lib/types/safety';
 import { loadFlowchartTemplate } from './voiceFlowchartGenerator';
+import { applyFlowchartPatch, summarizePatch, FlowchartPatchOp } from './flowchartPatch';
+import { LLMError } from './llmClient';
+import { ConversationMemory, ConversationSummary, formatConversationSummary } from './conversationMemory';
+import { exportFlowchartToOutline } from './flowchartExporters';
+import { getLLMClient, isLLMConfigured } from './llmConfig';
+import { screenMessageLocally, isRiskDetected } from './safetyScreening';
 import { incrementalAnalysisInstructions } from '../../assets/flowchart/incremental_analysis_instructions.js';
 
 export interface ConversationMessage {
@@ -9,32 +16,27 @@ export interface ConversationMessage {
 }
 
 export interface IncrementalFlowchartCallbacks {
-  onFlowchartUpdate?: (flowchart: FlowchartStructure, isPartial: boolean) => void;
+  // Called once per applied patch operation with the flowchart after it
+  onFlowchartUpdate?: (flowchart: FlowchartStructure, isPartial: boolean, operation?: FlowchartPatchOp) => void;
   onAnalysisUpdate?: (analysis: string) => void;
   onError?: (error: Error) => void;
+  // A user message was flagged by safety screening; analysis is paused until resumeAnalysis()
+  onSafetyConcern?: (assessment: SafetyAssessment) => void;
 }
 
 class IncrementalFlowchartGenerator {
-  private apiKey: string;
-  private conversationHistory: ConversationMessage[] = [];
+  private isConfigured: boolean;
+  // Recent messages verbatim, older ones folded into a summary
+  private memory = new ConversationMemory<ConversationMessage>({ tokenBudget: 2000 });
   private currentFlowchart: FlowchartStructure | null = null;
   private lastAnalysisTime = 0;
   private analysisDebounceMs = 3000; // Wait 3 seconds after last message before analyzing
   private debounceTimer: ReturnType<typeof setTimeout> | null = null;
   private isAnalyzing = false;
-
-  /**
-   * Load template1.json to get exact validation requirements
-   */
-  private loadTemplate(): any {
-    try {
-      const template = require('../../assets/flowchart/templates/template1.json');
-      return template;
-    } catch (error) {
-      console.error('❌ Error loading template1.json:', error);
-      return null;
-    }
-  }
+  // Messages before this index have already been turned into patches
+  private lastAnalyzedIndex = 0;
+  // Set while a safety concern is being handled
+  private isPaused = false;
 
   /**
    * Generate analysis instructions from the centralized prompt file
@@ -76,12 +78,12 @@ class IncrementalFlowchartGenerator {
   }
 
   constructor() {
-    this.apiKey = process.env.EXPO_PUBLIC_OPENAI_API_KEY || '';
+    this.isConfigured = isLLMConfigured();
     
-    if (!this.apiKey) {
-      console.warn('📊 FLOWCHART AGENT: OpenAI API key not configured - flowchart generation disabled');
+    if (!this.isConfigured) {
+      console.warn('📊 FLOWCHART AGENT: LLM not configured - flowchart generation disabled');
     } else {
-      console.log('📊 FLOWCHART AGENT: Initialized successfully with API key');
+      console.log('📊 FLOWCHART AGENT: Initialized successfully');
     }
   }
 
@@ -91,8 +93,22 @@ class IncrementalFlowchartGenerator {
    */
   async addMessage(message: ConversationMessage, callbacks?: IncrementalFlowchartCallbacks): Promise<void> {
     try {
-      this.conversationHistory.push(message);
-      console.log('📊 FLOWCHART AGENT: Added message from', message.role, '- Total messages:', this.conversationHistory.length);
+      this.memory.addTurn(message);
+      console.log('📊 FLOWCHART AGENT: Added message from', message.role, '- Total messages:', this.memory.getTotalTurns());
+
+      if (message.role === 'user') {
+        const assessment = screenMessageLocally(message.content);
+        if (isRiskDetected(assessment)) {
+          this.pauseAnalysis();
+          callbacks?.onSafetyConcern?.(assessment);
+          return;
+        }
+      }
+
+      if (this.isPaused) {
+        console.log('📊 FLOWCHART AGENT: Analysis paused, not scheduling');
+        return;
+      }
       
       // Clear existing debounce timer
       if (this.debounceTimer) {
@@ -125,30 +141,34 @@ class IncrementalFlowchartGenerator {
       console.log('📊 FLOWCHART AGENT: Already analyzing, skipping');
       return;
     }
+
+    if (this.isPaused) {
+      console.log('📊 FLOWCHART AGENT: Analysis paused, skipping');
+      return;
+    }
     
-    if (!this.apiKey) {
-      console.log('📊 FLOWCHART AGENT: No API key configured, skipping analysis');
+    if (!this.isConfigured) {
+      console.log('📊 FLOWCHART AGENT: LLM not configured, skipping analysis');
       return;
     }
     
     // Don't analyze if we don't have enough conversation content
-    if (this.conversationHistory.length === 0) {
+    if (this.memory.getTotalTurns() === 0) {
       console.log('📊 FLOWCHART AGENT: No conversation history, skipping analysis');
       return;
     }
     
     this.isAnalyzing = true;
-    console.log('📊 FLOWCHART AGENT: Starting analysis with', this.conversationHistory.length, 'messages');
+    console.log('📊 FLOWCHART AGENT: Starting analysis with', this.memory.getTotalTurns(), 'messages');
     callbacks?.onAnalysisUpdate?.('Analyzing conversation...');
     
     try {
       // Generate analysis instructions
       const instructions = this.generateAnalysisInstructions();
       
-      // Create conversation summary for analysis
-      const conversationSummary = this.conversationHistory
-        .map(msg => `${msg.role}: ${msg.content}`)
-        .join('\n');
+      // Keep the conversation inside the token budget before reading it
+      await this.memory.compressIfNeeded();
+      const conversationSummary = this.memory.toPromptText();
       
       console.log('📊 FLOWCHART AGENT: Conversation summary:', conversationSummary);
 
@@ -173,148 +193,96 @@ class IncrementalFlowchartGenerator {
         return;
       }
 
-      // Load template for exact structure reference
-      const template = this.loadTemplate();
-      const templateStructure = template?.structure ? JSON.stringify(template.structure, null, 2) : 'Template not available';
-      
-      const analysisPrompt = `CONVERSATION TO ANALYZE:
-${conversationSummary}
-
-${this.currentFlowchart ? `\nEXISTING FLOWCHART TO UPDATE:\n${JSON.stringify(this.currentFlowchart, null, 2)}\n` : ''}
+      const newMessages = this.memory.getTurnsSince(this.lastAnalyzedIndex);
+      if (newMessages.length === 0) {
+        console.log('📊 FLOWCHART AGENT: No new messages since last analysis');
+        return;
+      }
+      const analyzedUpTo = this.memory.getTotalTurns();
+      const earlierContext = formatConversationSummary(this.memory.getSummary());
 
-Analyze this therapeutic conversation and ${this.currentFlowchart ? 'update the existing flowchart with any new' : 'create a complete flowchart representing the'} therapeutic elements, parts, needs, and relationships discussed.
+      const analysisPrompt = `${earlierContext ? `EARLIER IN THIS CONVERSATION:\n${earlierContext}\n\n` : ''}NEW CONVERSATION MESSAGES:
+${newMessages.map(msg => `${msg.role}: ${msg.content}`).join('\n')}
 
-CRITICAL: Your response must be ONLY valid JSON matching EXACTLY the structure from template1.json shown below:
+CURRENT FLOWCHART:
+${this.currentFlowchart ? exportFlowchartToOutline(this.currentFlowchart) : '(empty - no parts yet)'}
 
-EXACT TEMPLATE STRUCTURE TO FOLLOW:
-${templateStructure}
+Return the patch operations that bring the current flowchart up to date with the new messages.
 
-STRICT VALIDATION REQUIREMENTS:
-1. Node types: EXACTLY "Need", "Self", "Manager", "Exile", "Firefighter" (case-sensitive)
-2. Edge types: EXACTLY "💚", "💔", "❌", "🚨" (these specific emojis only)
-3. Required node fields: id, label, type, description, x, y (all required)
-4. Required edge fields: from, to, type, label (all required)
-5. Coordinates: Numbers between 0-1000
-6. Edge references: from/to must match existing node ids
-7. String fields: Non-empty except edge labels (can be "")
+OUTPUT FORMAT: A single JSON object { "operations": [...] } - no markdown, no code blocks, no explanations.`;
 
-OUTPUT FORMAT: Raw JSON only - no markdown, no code blocks, no explanations.`;
-      
       console.log('📊 FLOWCHART AGENT: Analysis prompt:', analysisPrompt.substring(0, 500) + '...');
 
-      console.log('📊 FLOWCHART AGENT: Sending analysis request to OpenAI');
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gpt-4-turbo-preview',
-          messages: [
-            {
-              role: 'system',
-              content: instructions
-            },
-            {
-              role: 'user',
-              content: analysisPrompt
-            }
-          ],
-          temperature: 0.3,
-          max_tokens: 2000,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.log('📊 FLOWCHART AGENT: OpenAI API error:', response.status, errorText);
-        throw new Error(`OpenAI API error: ${response.status} - ${errorText}`);
+      console.log('📊 FLOWCHART AGENT: Sending analysis request');
+      let response: any = null;
+      try {
+        response = await getLLMClient().json([
+          {
+            role: 'system',
+            content: instructions
+          },
+          {
+            role: 'user',
+            content: analysisPrompt
+          }
+        ], { task: 'flowchartAnalysis' });
+      } catch (error) {
+        if (!(error instanceof LLMError && error.code === 'invalid_json')) {
+          throw error;
+        }
+        console.log('📊 FLOWCHART AGENT: Failed to parse JSON response -', error.message);
       }
 
-      const result = await response.json();
-      console.log('📊 FLOWCHART AGENT: Received response from OpenAI');
-      
-      const content = result.choices[0]?.message?.content;
+      this.lastAnalyzedIndex = analyzedUpTo;
+      const operations = Array.isArray(response?.operations) ? response.operations : null;
 
-      if (!content) {
-        console.log('📊 FLOWCHART AGENT: No content in API response');
-        callbacks?.onError?.(new Error('No content in API response'));
-        return;
-      }
-      
-      console.log('📊 FLOWCHART AGENT: Received content:', content.substring(0, 200) + '...');
-      console.log('📊 FLOWCHART AGENT: Full response content:', content);
-      
+      if (!operations) {
+        console.log('📊 FLOWCHART AGENT: No patch operations found in response');
+        // Create a minimal fallback flowchart if we have enough conversation
+        if (!this.currentFlowchart) {
+          console.log('📊 FLOWCHART AGENT: Creating fallback flowchart');
+          const fallbackFlowchart = this.createMinimalFallbackFlowchart();
 
-      try {
-        
-        let flowchartData = null;
-        
-        // Try multiple JSON extraction methods
-        try {
-          // Method 1: Look for complete JSON object
-          const jsonMatch = content.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            flowchartData = JSON.parse(jsonMatch[0]);
-          }
-        } catch (parseError1) {
-          // Method 2: Look for JSON between code blocks
-          try {
-            const codeBlockMatch = content.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
-            if (codeBlockMatch) {
-              flowchartData = JSON.parse(codeBlockMatch[1]);
-            }
-          } catch (parseError2) {
-            // Method 3: Try parsing the entire content as JSON
-            try {
-              flowchartData = JSON.parse(content.trim());
-            } catch (parseError3) {
-              console.log('📊 FLOWCHART AGENT: Failed to parse JSON response. Raw content:', content.substring(0, 500));
-            }
-          }
-        }
-        
-        if (flowchartData) {
-          // Fix the structure if needed
-          const fixedData = this.fixFlowchartStructure(flowchartData);
-          
-          // Validate the flowchart structure
-          const validationResult = this.validateFlowchartWithDetails(fixedData);
-          if (validationResult.isValid) {
-            const wasFirstAnalysis = !this.currentFlowchart;
-            this.currentFlowchart = fixedData;
-            
-            console.log('📊 FLOWCHART AGENT: Updated flowchart with', fixedData.nodes.length, 'nodes');
-            callbacks?.onFlowchartUpdate?.(fixedData, !wasFirstAnalysis);
-            
-            // Generate analysis summary
-            const analysis = this.generateAnalysisSummary(fixedData, wasFirstAnalysis);
-            callbacks?.onAnalysisUpdate?.(analysis);
-          } else {
-            console.log('📊 FLOWCHART AGENT: Structure validation failed -', validationResult.errors.join(', '));
-            callbacks?.onError?.(new Error(`Invalid flowchart structure: ${validationResult.errors.join(', ')}`));
-          }
+          this.currentFlowchart = fallbackFlowchart;
+          callbacks?.onFlowchartUpdate?.(fallbackFlowchart, false);
+          callbacks?.onAnalysisUpdate?.('Created basic flowchart structure (analysis pending)');
         } else {
-          console.log('📊 FLOWCHART AGENT: No valid flowchart data found in response');
-          // Create a minimal fallback flowchart if we have enough conversation
-          if (this.conversationHistory.length > 0 && !this.currentFlowchart) {
-            console.log('📊 FLOWCHART AGENT: Creating fallback flowchart');
-            const fallbackFlowchart = this.createMinimalFallbackFlowchart();
-            
-            this.currentFlowchart = fallbackFlowchart;
-            callbacks?.onFlowchartUpdate?.(fallbackFlowchart, false);
-            callbacks?.onAnalysisUpdate?.('Created basic flowchart structure (analysis pending)');
-          } else {
-            console.log('📊 FLOWCHART AGENT: Cannot create flowchart - insufficient data or already exists');
-            callbacks?.onError?.(new Error('No valid JSON in response'));
-          }
+          callbacks?.onError?.(new Error('No valid patch in response'));
         }
-      } catch (parseError) {
-        console.log('📊 FLOWCHART AGENT: Parse error -', parseError);
-        callbacks?.onError?.(parseError as Error);
+        return;
+      }
+
+      // Patch the map built so far rather than regenerating it
+      const wasFirstAnalysis = !this.currentFlowchart;
+      const steps: { flowchart: FlowchartStructure; operation: FlowchartPatchOp }[] = [];
+      const result = applyFlowchartPatch(
+        this.currentFlowchart || { nodes: [], edges: [] },
+        operations,
+        (flowchart, operation) => steps.push({ flowchart, operation })
+      );
+
+      result.rejected.forEach(({ op, reason }) => {
+        console.log('📊 FLOWCHART AGENT: Rejected operation -', reason, JSON.stringify(op));
+      });
+
+      if (result.applied.length === 0) {
+        console.log('📊 FLOWCHART AGENT: Patch made no changes');
+        callbacks?.onAnalysisUpdate?.('Listening for new parts and relationships...');
+        return;
       }
 
+      this.currentFlowchart = result.flowchart;
+      console.log('📊 FLOWCHART AGENT: Applied', result.applied.length, 'operations -', summarizePatch(result.applied));
+
+      // Only the end of a first analysis counts as a complete flowchart
+      steps.forEach(({ flowchart, operation }, index) => {
+        const isLast = index === steps.length - 1;
+        callbacks?.onFlowchartUpdate?.(isLast ? result.flowchart : flowchart, !(wasFirstAnalysis && isLast), operation);
+      });
+
+      const analysis = this.generateAnalysisSummary(result.flowchart, result.applied, wasFirstAnalysis);
+      callbacks?.onAnalysisUpdate?.(analysis);
+
     } catch (error) {
       console.log('📊 FLOWCHART AGENT: Analysis error -', error);
       callbacks?.onError?.(error as Error);
@@ -351,242 +319,13 @@ OUTPUT FORMAT: Raw JSON only - no markdown, no code blocks, no explanations.`;
         {
           from: 'self_center',
           to: 'basic_need',
-          type: '💚',
+          type: 'healing',
           label: 'supports'
         }
       ]
     };
   }
 
-  /**
-   * Attempt to fix common flowchart structure issues to match template1.json exactly
-   */
-  private fixFlowchartStructure(data: any): any {
-    // Define template compliance requirements
-    const VALID_NODE_TYPES = ['Need', 'Self', 'Manager', 'Exile', 'Firefighter'];
-    const VALID_EDGE_TYPES = ['💚', '💔', '❌', '🚨'];
-    const TYPE_MAPPING: Record<string, string> = {
-      'need': 'Need',
-      'self': 'Self', 
-      'manager': 'Manager',
-      'exile': 'Exile',
-      'firefighter': 'Firefighter',
-      // Handle variations
-      'protector': 'Manager',
-      'part': 'Manager',
-      'vulnerable': 'Exile',
-      'wounded': 'Exile',
-      'reactive': 'Firefighter',
-      'emergency': 'Firefighter'
-    };
-    
-    // If data is null or undefined, create minimal structure
-    if (!data) {
-      return { nodes: [], edges: [] };
-    }
-    
-    // If data is a string, try to parse it
-    if (typeof data === 'string') {
-      try {
-        data = JSON.parse(data);
-      } catch (e) {
-        return { nodes: [], edges: [] };
-      }
-    }
-    
-    // Ensure data is an object
-    if (typeof data !== 'object') {
-      return { nodes: [], edges: [] };
-    }
-    
-    // Fix missing or invalid nodes array
-    if (!Array.isArray(data.nodes)) {
-      data.nodes = [];
-    }
-    
-    // Fix missing or invalid edges array
-    if (!Array.isArray(data.edges)) {
-      data.edges = [];
-    }
-    
-    // Fix individual nodes to match template1.json structure
-    data.nodes = data.nodes.map((node: any, index: number) => {
-      const fixedNode = { ...node };
-      
-      // Ensure all required fields exist
-      if (!fixedNode.id) {
-        fixedNode.id = `${fixedNode.type || 'node'}_${index}_${Date.now()}`.toLowerCase();
-      }
-      
-      if (!fixedNode.label) {
-        fixedNode.label = fixedNode.id || `Node ${index + 1}`;
-      }
-      
-      // Fix node type to match template exactly
-      if (!fixedNode.type) {
-        fixedNode.type = 'Need'; // Default to Need
-      } else {
-        const lowerType = String(fixedNode.type).toLowerCase();
-        fixedNode.type = TYPE_MAPPING[lowerType] || 
-                         VALID_NODE_TYPES.find(t => t.toLowerCase() === lowerType) || 
-                         'Need';
-      }
-      
-      // Ensure description exists
-      if (!fixedNode.description) {
-        fixedNode.description = `${fixedNode.type} identified in conversation`;
-      }
-      
-      // Fix coordinates to be valid numbers within bounds
-      if (typeof fixedNode.x !== 'number' || isNaN(fixedNode.x)) {
-        fixedNode.x = Math.min(900, 100 + (index * 150)); // Spread horizontally, max 900
-      } else {
-        fixedNode.x = Math.max(50, Math.min(950, fixedNode.x)); // Clamp to bounds
-      }
-      
-      if (typeof fixedNode.y !== 'number' || isNaN(fixedNode.y)) {
-        fixedNode.y = Math.min(800, 100 + (index % 4) * 150); // Distribute vertically, max 800
-      } else {
-        fixedNode.y = Math.max(50, Math.min(950, fixedNode.y)); // Clamp to bounds
-      }
-      
-      return fixedNode;
-    });
-    
-    // Fix individual edges to match template structure
-    data.edges = data.edges.map((edge: any, index: number) => {
-      const fixedEdge = { ...edge };
-      
-      // Ensure from/to exist and reference valid nodes
-      if (!fixedEdge.from) {
-        fixedEdge.from = data.nodes[0]?.id || 'unknown';
-      }
-      
-      if (!fixedEdge.to) {
-        fixedEdge.to = data.nodes[Math.min(1, data.nodes.length - 1)]?.id || fixedEdge.from;
-      }
-      
-      // Fix edge type to match template exactly
-      if (!fixedEdge.type || !VALID_EDGE_TYPES.includes(fixedEdge.type)) {
-        // Default edge type based on common IFS relationships
-        fixedEdge.type = '💚'; // Default to nurturing
-      }
-      
-      // Ensure label exists (can be empty string per template)
-      if (fixedEdge.label === undefined || fixedEdge.label === null) {
-        fixedEdge.label = '';
-      }
-      
-      return fixedEdge;
-    });
-    
-    return data;
-  }
-
-  /**
-   * Validate flowchart structure with detailed error reporting against template1.json
-   */
-  private validateFlowchartWithDetails(data: any): {isValid: boolean, errors: string[]} {
-    const errors: string[] = [];
-    
-    // Define exact template requirements from template1.json
-    const VALID_NODE_TYPES = ['Need', 'Self', 'Manager', 'Exile', 'Firefighter'];
-    const VALID_EDGE_TYPES = ['💚', '💔', '❌', '🚨'];
-    const REQUIRED_NODE_FIELDS = ['id', 'label', 'type', 'description', 'x', 'y'];
-    const REQUIRED_EDGE_FIELDS = ['from', 'to', 'type', 'label'];
-    
-    if (!data) {
-      errors.push('Data is null or undefined');
-      return {isValid: false, errors};
-    }
-    
-    // Validate nodes array
-    if (!Array.isArray(data.nodes)) {
-      errors.push('nodes is not an array');
-    } else {
-      if (data.nodes.length === 0) {
-        errors.push('nodes array is empty');
-      } else {
-        data.nodes.forEach((node: any, index: number) => {
-          // Check required fields exist
-          REQUIRED_NODE_FIELDS.forEach(field => {
-            if (node[field] === undefined || node[field] === null) {
-              errors.push(`Node ${index} missing required field: ${field}`);
-            }
-          });
-          
-          // Validate node type against template
-          if (node.type && !VALID_NODE_TYPES.includes(node.type)) {
-            errors.push(`Node ${index} has invalid type "${node.type}". Must be one of: ${VALID_NODE_TYPES.join(', ')}`);
-          }
-          
-          // Validate coordinates are numbers
-          if (typeof node.x !== 'number' || isNaN(node.x)) {
-            errors.push(`Node ${index} x coordinate must be a valid number`);
-          }
-          if (typeof node.y !== 'number' || isNaN(node.y)) {
-            errors.push(`Node ${index} y coordinate must be a valid number`);
-          }
-          
-          // Validate coordinate bounds (reasonable flowchart area)
-          if (typeof node.x === 'number' && (node.x < 0 || node.x > 1000)) {
-            errors.push(`Node ${index} x coordinate ${node.x} is out of bounds (0-1000)`);
-          }
-          if (typeof node.y === 'number' && (node.y < 0 || node.y > 1000)) {
-            errors.push(`Node ${index} y coordinate ${node.y} is out of bounds (0-1000)`);
-          }
-          
-          // Validate string fields are not empty
-          if (node.id && typeof node.id === 'string' && node.id.trim() === '') {
-            errors.push(`Node ${index} id cannot be empty string`);
-          }
-          if (node.label && typeof node.label === 'string' && node.label.trim() === '') {
-            errors.push(`Node ${index} label cannot be empty string`);
-          }
-        });
-      }
-    }
-    
-    // Validate edges array
-    if (!Array.isArray(data.edges)) {
-      errors.push('edges is not an array');
-    } else {
-      data.edges.forEach((edge: any, index: number) => {
-        // Check required fields exist
-        REQUIRED_EDGE_FIELDS.forEach(field => {
-          if (edge[field] === undefined || edge[field] === null) {
-            errors.push(`Edge ${index} missing required field: ${field}`);
-          }
-        });
-        
-        // Validate edge type against template
-        if (edge.type && !VALID_EDGE_TYPES.includes(edge.type)) {
-          errors.push(`Edge ${index} has invalid type "${edge.type}". Must be one of: ${VALID_EDGE_TYPES.join(', ')}`);
-        }
-        
-        // Validate from/to reference existing nodes
-        if (Array.isArray(data.nodes) && edge.from && edge.to) {
-          const nodeIds = data.nodes.map((n: any) => n.id);
-          if (!nodeIds.includes(edge.from)) {
-            errors.push(`Edge ${index} references non-existent node "${edge.from}" in from field`);
-          }
-          if (!nodeIds.includes(edge.to)) {
-            errors.push(`Edge ${index} references non-existent node "${edge.to}" in to field`);
-          }
-        }
-      });
-    }
-    
-    return {isValid: errors.length === 0, errors};
-  }
-
-  /**
-   * Validate flowchart structure (legacy method)
-   */
-  private isValidFlowchart(data: any): boolean {
-    return this.validateFlowchartWithDetails(data).isValid;
-  }
-
   /**
    * Calculate therapeutic content score to determine if flowchart generation is warranted
    */
@@ -641,7 +380,7 @@ OUTPUT FORMAT: Raw JSON only - no markdown, no code blocks, no explanations.`;
   /**
    * Generate a human-readable analysis summary
    */
-  private generateAnalysisSummary(flowchart: FlowchartStructure, isFirstAnalysis: boolean): string {
+  private generateAnalysisSummary(flowchart: FlowchartStructure, applied: FlowchartPatchOp[], isFirstAnalysis: boolean): string {
     const nodeCount = flowchart.nodes.length;
     const edgeCount = flowchart.edges.length;
     
@@ -654,6 +393,8 @@ OUTPUT FORMAT: Raw JSON only - no markdown, no code blocks, no explanations.`;
       ? `🎯 Initial flowchart created with ${nodeCount} nodes and ${edgeCount} connections.\n\n`
       : `🔄 Flowchart updated with ${nodeCount} nodes and ${edgeCount} connections.\n\n`;
 
+    summary += `Changes: ${summarizePatch(applied)}\n\n`;
+
     summary += 'Therapeutic elements identified:\n';
     
     Object.entries(nodeTypes).forEach(([type, count]) => {
@@ -669,11 +410,11 @@ OUTPUT FORMAT: Raw JSON only - no markdown, no code blocks, no explanations.`;
    */
   private getTypeEmoji(type: string): string {
     const emojiMap: Record<string, string> = {
-      'Self': '🌟',
-      'Manager': '🛡️',
-      'Firefighter': '🚨',
-      'Exile': '💔',
-      'Need': '💚'
+      'self': '🌟',
+      'manager': '🛡️',
+      'firefighter': '🚨',
+      'exile': '💔',
+      'need': '💚'
     };
     return emojiMap[type] || '⚪';
   }
@@ -685,13 +426,42 @@ OUTPUT FORMAT: Raw JSON only - no markdown, no code blocks, no explanations.`;
     return this.currentFlowchart;
   }
 
+  /**
+   * Pick up a saved conversation: its messages count as already analyzed and
+   * new patches build on the map it was saved into.
+   */
+  resume(summary: ConversationSummary, messages: ConversationMessage[], flowchart: FlowchartStructure | null): void {
+    this.reset();
+    this.memory.restore(summary, messages);
+    this.lastAnalyzedIndex = this.memory.getTotalTurns();
+    this.currentFlowchart = flowchart;
+    console.log('📊 FLOWCHART AGENT: Resumed conversation with', this.lastAnalyzedIndex, 'messages');
+  }
+
+  /**
+   * Stop analyzing, e.g. while a safety concern is shown. Messages are still recorded.
+   */
+  pauseAnalysis(): void {
+    this.isPaused = true;
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+  }
+
+  resumeAnalysis(): void {
+    this.isPaused = false;
+  }
+
   /**
    * Reset the generator
    */
   reset(): void {
-    this.conversationHistory = [];
+    this.memory.reset();
     this.currentFlowchart = null;
     this.lastAnalysisTime = 0;
+    this.lastAnalyzedIndex = 0;
+    this.isPaused = false;
     
     if (this.debounceTimer) {
       clearTimeout(this.debounceTimer);
@@ -700,10 +470,10 @@ OUTPUT FORMAT: Raw JSON only - no markdown, no code blocks, no explanations.`;
   }
 
   /**
-   * Get conversation history
+   * Get the recent conversation messages - older ones are only kept as a summary
    */
   getConversationHistory(): ConversationMessage[] {
-    return [...this.conversationHistory];
+    return this.memory.getRecentTurns();
   }
 
   /**
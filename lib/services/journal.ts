@@ -0,0 +1,164 @@
+import { supabase } from '../supabase';
+import { Database } from '../database.types';
+import { JournalDraft, JournalMood } from '../types/journal';
+
+export type JournalEntryRow = Database['public']['Tables']['journal_entries']['Row'];
+export type JournalEntryUpdate = Database['public']['Tables']['journal_entries']['Update'];
+
+// Starting points offered on the compose screen
+export const JOURNAL_PROMPTS = [
+  'What part of you took the lead today?',
+  'What did you feel in your body when things got hard?',
+  'Which belief about yourself showed up today, and where did it come from?',
+  'What is a part of you protecting you from right now?',
+  'What does the youngest part of you need to hear?',
+  'When did you feel most like yourself today?',
+  'What are you holding on to that you would like to set down?',
+  'What need went unmet today, and how did you respond?',
+];
+
+// A prompt for the given day, so it stays the same until tomorrow
+export const getDailyJournalPrompt = (date: Date = new Date()): string => {
+  const day = Math.floor(new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime() / (24 * 60 * 60 * 1000));
+  return JOURNAL_PROMPTS[day % JOURNAL_PROMPTS.length];
+};
+
+// Lowercase, trimmed, without '#' and duplicates
+export const normalizeTags = (tags: string[]): string[] =>
+  Array.from(new Set(tags.map(tag => tag.trim().replace(/^#+/, '').toLowerCase()).filter(Boolean)));
+
+export const getJournalMood = (entry: JournalEntryRow): JournalMood | null =>
+  entry['feminine-masculine'] === null || entry['dark-light'] === null || entry['child-parent'] === null
+    ? null
+    : {
+      'feminine-masculine': entry['feminine-masculine'],
+      'dark-light': entry['dark-light'],
+      'child-parent': entry['child-parent'],
+    };
+
+const clampAxis = (value: number) => Math.max(-3, Math.min(3, Math.round(value)));
+
+// Columns for the parts of a draft that were given
+const draftToColumns = (draft: Partial<JournalDraft>): JournalEntryUpdate => {
+  const columns: JournalEntryUpdate = {};
+
+  if (draft.title !== undefined) columns.title = draft.title?.trim() || null;
+  if (draft.body !== undefined) columns.body = draft.body.trim();
+  if (draft.prompt !== undefined) columns.prompt = draft.prompt || null;
+  if (draft.mood !== undefined) {
+    columns['feminine-masculine'] = draft.mood ? clampAxis(draft.mood['feminine-masculine']) : null;
+    columns['dark-light'] = draft.mood ? clampAxis(draft.mood['dark-light']) : null;
+    columns['child-parent'] = draft.mood ? clampAxis(draft.mood['child-parent']) : null;
+  }
+  if (draft.tags !== undefined) columns.tags = normalizeTags(draft.tags);
+  if (draft.beliefIds !== undefined) columns.belief_ids = draft.beliefIds;
+  if (draft.flowchartId !== undefined) columns.flowchart_id = draft.flowchartId;
+  if (draft.nodeIds !== undefined) columns.node_ids = draft.nodeIds;
+
+  return columns;
+};
+
+// Create a journal entry
+export const createJournalEntry = async (draft: JournalDraft): Promise<JournalEntryRow> => {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error('User must be authenticated to write a journal entry');
+  }
+
+  if (!draft.body.trim()) {
+    throw new Error('A journal entry needs some text');
+  }
+
+  const { data, error } = await supabase
+    .from('journal_entries')
+    .insert({ ...draftToColumns(draft), body: draft.body.trim(), user_id: user.id })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating journal entry:', error);
+    throw error;
+  }
+
+  return data;
+};
+
+// Get the current user's journal entries, newest first, optionally with a tag
+export const getJournalEntries = async (
+  options: { tag?: string; limit?: number } = {}
+): Promise<JournalEntryRow[]> => {
+  let query = supabase.from('journal_entries').select('*');
+
+  if (options.tag) {
+    query = query.contains('tags', normalizeTags([options.tag]));
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(options.limit ?? 100);
+
+  if (error) {
+    console.error('Error fetching journal entries:', error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+// Get a single journal entry by ID
+export const getJournalEntry = async (id: string): Promise<JournalEntryRow | null> => {
+  const { data, error } = await supabase
+    .from('journal_entries')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return null; // Not found
+    }
+    console.error('Error fetching journal entry:', error);
+    throw error;
+  }
+
+  return data;
+};
+
+// Update a journal entry from a partial draft, or set columns directly
+export const updateJournalEntry = async (
+  id: string,
+  draft: Partial<JournalDraft>,
+  columns: JournalEntryUpdate = {}
+): Promise<JournalEntryRow> => {
+  if (draft.body !== undefined && !draft.body.trim()) {
+    throw new Error('A journal entry needs some text');
+  }
+
+  const { data, error } = await supabase
+    .from('journal_entries')
+    .update({ ...draftToColumns(draft), ...columns })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating journal entry:', error);
+    throw error;
+  }
+
+  return data;
+};
+
+// Delete a journal entry
+export const deleteJournalEntry = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('journal_entries')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting journal entry:', error);
+    throw error;
+  }
+};
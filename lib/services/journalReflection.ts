@@ -0,0 +1,171 @@
+import { FlowchartStructure } from '../types/flowchart';
+import { JournalPartSuggestion, JournalReflectionResult } from '../types/journal';
+import { SafetyAssessment } from '../types/safety';
+import { exportFlowchartToOutline } from './flowchartExporters';
+import { applyFlowchartPatch, summarizePatch } from './flowchartPatch';
+import { normalizePartType } from './flowchartValidator';
+import { getUserFlowchartWithId, updateFlowchart } from './flowcharts';
+import { getJournalMood, updateJournalEntry, JournalEntryRow } from './journal';
+import { LLMSafetyError } from './llmClient';
+import { getLLMClient, isLLMConfigured } from './llmConfig';
+import { getDeviceRegion } from './crisisResources';
+import { recordSafetyEvent } from './safetyEvents';
+import { isRiskDetected, screenMessage } from './safetyScreening';
+
+/**
+ * Journal Reflection
+ *
+ * "Reflect on this" for a journal entry. The entry goes through the same steps
+ * as a chat turn: crisis screening first, then the conversation model, which
+ * answers with a short reflection and any parts or needs it noticed that
+ * aren't on the default map yet. Suggestions are only added when the user
+ * accepts them.
+ */
+
+const MAX_SUGGESTIONS = 3;
+
+const REFLECTION_INSTRUCTIONS = `You are a warm, grounded companion informed by Internal Family Systems (IFS). The user has written a journal entry and asked you to reflect on it.
+
+Write a short reflection (3-5 sentences, second person) that:
+- Mirrors back what seems most alive in the entry, in the user's own words where possible
+- Gently names parts that may be present (managers, firefighters, exiles) and the needs underneath them
+- Ends with one open, curious question
+Do not diagnose, give advice lists or use clinical language.
+
+Then suggest up to ${MAX_SUGGESTIONS} parts or needs from the entry that are NOT already on the user's map. Only suggest what the entry clearly shows; an empty list is fine.
+
+OUTPUT FORMAT: A single JSON object - no markdown, no code blocks:
+{ "reflection": "...", "suggestions": [{ "type": "manager" | "firefighter" | "exile" | "need", "label": "short name", "description": "one sentence", "reason": "what in the entry points to it" }] }`;
+
+const formatEntryForReflection = (entry: JournalEntryRow, flowchart: FlowchartStructure | null): string => {
+  const mood = getJournalMood(entry);
+  return [
+    entry.prompt ? `PROMPT: ${entry.prompt}` : null,
+    entry.title ? `TITLE: ${entry.title}` : null,
+    `ENTRY:\n${entry.body}`,
+    mood ? `MOOD (-3 to 3): feminine-masculine ${mood['feminine-masculine']}, dark-light ${mood['dark-light']}, child-parent ${mood['child-parent']}` : null,
+    entry.tags.length ? `TAGS: ${entry.tags.join(', ')}` : null,
+    `CURRENT MAP:\n${flowchart && flowchart.nodes.length ? exportFlowchartToOutline(flowchart) : '(empty - no parts yet)'}`,
+  ].filter(Boolean).join('\n\n');
+};
+
+// Keep well-formed suggestions that aren't already on the map
+const normalizeSuggestions = (raw: unknown, flowchart: FlowchartStructure | null): JournalPartSuggestion[] => {
+  const existing = new Set((flowchart?.nodes || []).map(node => (node.label || node.id).trim().toLowerCase()));
+
+  return (Array.isArray(raw) ? raw : [])
+    .map((suggestion: any): JournalPartSuggestion | null => {
+      const type = normalizePartType(suggestion?.type);
+      const label = typeof suggestion?.label === 'string' ? suggestion.label.trim() : '';
+      if (!type || type === 'self' || !label || existing.has(label.toLowerCase())) {
+        return null;
+      }
+      return {
+        type,
+        label,
+        description: typeof suggestion.description === 'string' ? suggestion.description.trim() || undefined : undefined,
+        reason: typeof suggestion.reason === 'string' ? suggestion.reason.trim() : '',
+      };
+    })
+    .filter((suggestion): suggestion is JournalPartSuggestion => suggestion !== null)
+    .slice(0, MAX_SUGGESTIONS);
+};
+
+const reportSafetyConcern = (assessment: SafetyAssessment): JournalReflectionResult => {
+  recordSafetyEvent(assessment, { channel: 'text', region: getDeviceRegion() })
+    .catch(error => console.error('❌ Error recording safety event:', error));
+  return { kind: 'safety', assessment };
+};
+
+/**
+ * Reflect on an entry and save the reflection onto it. Returns the safety
+ * assessment instead when screening flags the entry, so the caller can show
+ * crisis resources; no reflection is generated then.
+ */
+export const reflectOnJournalEntry = async (entry: JournalEntryRow): Promise<JournalReflectionResult> => {
+  const assessment = await screenMessage(entry.body);
+  if (isRiskDetected(assessment)) {
+    return reportSafetyConcern(assessment);
+  }
+
+  if (!isLLMConfigured()) {
+    throw new Error('Reflection is not available because no AI provider is configured');
+  }
+
+  const { structure } = await getUserFlowchartWithId();
+  let raw: any;
+  try {
+    raw = await getLLMClient().json<any>([
+      { role: 'system', content: REFLECTION_INSTRUCTIONS },
+      { role: 'user', content: formatEntryForReflection(entry, structure) }
+    ], { task: 'conversation' });
+  } catch (error) {
+    // llm-proxy screens the whole formatted entry too
+    if (error instanceof LLMSafetyError) {
+      return reportSafetyConcern(error.assessment);
+    }
+    throw error;
+  }
+
+  const reflection = typeof raw?.reflection === 'string' ? raw.reflection.trim() : '';
+  if (!reflection) {
+    throw new Error('The reflection came back empty');
+  }
+
+  const updated = await updateJournalEntry(entry.id, {}, {
+    reflection,
+    reflected_at: new Date().toISOString()
+  });
+
+  return {
+    kind: 'reflection',
+    reflection,
+    suggestions: normalizeSuggestions(raw?.suggestions, structure),
+    entry: updated,
+  };
+};
+
+/**
+ * Add accepted suggestions to the default map as new parts, and link them to
+ * the entry. Returns the updated entry.
+ */
+export const addJournalSuggestionsToFlowchart = async (
+  entry: JournalEntryRow,
+  suggestions: JournalPartSuggestion[]
+): Promise<JournalEntryRow> => {
+  const { structure, id } = await getUserFlowchartWithId();
+  if (!id) {
+    throw new Error('Sign in to add parts to your map');
+  }
+
+  const now = Date.now();
+  const operations = suggestions.map((suggestion, index) => ({
+    op: 'addNode',
+    node: {
+      id: `node-${now}-${index}`,
+      type: suggestion.type,
+      label: suggestion.label,
+      description: suggestion.description,
+    },
+  }));
+
+  const result = applyFlowchartPatch(structure, operations);
+  result.rejected.forEach(({ op, reason }) => {
+    console.log('📓 Journal suggestion rejected -', reason, JSON.stringify(op));
+  });
+  if (result.applied.length === 0) {
+    return entry;
+  }
+
+  await updateFlowchart(id, { structure: result.flowchart }, {
+    author: 'ai',
+    description: `From a journal entry: ${summarizePatch(result.applied)}`
+  });
+
+  const addedIds = result.applied.flatMap(op => (op.op === 'addNode' ? [op.node.id] : []));
+  const linkedIds = entry.flowchart_id === id ? entry.node_ids : [];
+  return updateJournalEntry(entry.id, {
+    flowchartId: id,
+    nodeIds: [...linkedIds, ...addedIds],
+  });
+};
@@ -0,0 +1,386 @@
+import {
+  LLMClient,
+  LLMProvider,
+  LLMMessage,
+  LLMRequestOptions,
+  LLMChatResult,
+  LLMStreamCallbacks,
+  LLMUsage,
+  LLMError,
+  LLMSafetyError,
+  extractJson,
+} from './llmClient';
+import type { LLMConfig, LLMTaskConfig } from './llmConfig';
+import { getEdgeFunctionHeaders, getEdgeFunctionUrl, isEdgeFunctionsConfigured, readEdgeFunctionError } from './edgeFunctions';
+import { ChatStreamEvent, SafetyToolPayload } from '../types/chatStream';
+import { RiskCategory } from '../types/safety';
+
+/**
+ * LLM Adapters
+ *
+ * LLMClient implementations for each provider:
+ * - ProxyLLMClient: OpenAI or Claude through the llm-proxy edge function,
+ *   which holds the API keys and picks the model for each task
+ * - OpenAICompatibleClient: a local server that speaks the OpenAI chat
+ *   completions API (Ollama, LM Studio, llama.cpp)
+ * - FakeLLMClient: deterministic canned answers for tests and offline work
+ */
+
+const LLM_PROXY_FUNCTION = 'llm-proxy';
+
+// llm-proxy screens conversation turns and answers a flagged one with this
+const toSafetyError = (payload: SafetyToolPayload) =>
+  new LLMSafetyError({
+    level: payload.level,
+    categories: payload.categories as RiskCategory[],
+    matchedRules: payload.matchedRules,
+    source: 'local',
+  }, 'proxy');
+
+// Read each `data:` payload of a server-sent event stream
+const forEachEventData = (chunk: string, onData: (data: string) => void) => {
+  chunk.split('\n').forEach(line => {
+    if (line.startsWith('data:')) {
+      const data = line.slice(5).trim();
+      if (data) onData(data);
+    }
+  });
+};
+
+/**
+ * Feed server-sent events to onData as they arrive. React Native's fetch has
+ * no readable body stream, so there the events are parsed once the response
+ * completes - callers still get tokens, just in one burst.
+ */
+const readServerSentEvents = async (response: Response, onData: (data: string) => void): Promise<void> => {
+  const reader = (response.body as any)?.getReader?.();
+  if (!reader || typeof TextDecoder === 'undefined') {
+    forEachEventData(await response.text(), onData);
+    return;
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split('\n\n');
+    buffer = events.pop() || '';
+    events.forEach(event => forEachEventData(event, onData));
+  }
+  forEachEventData(buffer, onData);
+};
+
+abstract class BaseLLMClient implements LLMClient {
+  abstract readonly provider: LLMProvider;
+
+  constructor(protected readonly config: LLMConfig) {}
+
+  abstract chat(messages: LLMMessage[], options?: LLMRequestOptions): Promise<LLMChatResult>;
+  abstract stream(messages: LLMMessage[], callbacks?: LLMStreamCallbacks, options?: LLMRequestOptions): Promise<LLMChatResult>;
+
+  async json<T = any>(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<T> {
+    const result = await this.chatForJson(messages, options);
+    const parsed = extractJson(result.content);
+    if (parsed === null) {
+      throw new LLMError('Model returned invalid JSON', 'invalid_json', this.provider);
+    }
+    return parsed;
+  }
+
+  // Providers with a JSON mode override this to enable it
+  protected chatForJson(messages: LLMMessage[], options: LLMRequestOptions): Promise<LLMChatResult> {
+    return this.chat(messages, options);
+  }
+
+  // Task settings from config, with explicit options taking precedence
+  protected getSettings(options: LLMRequestOptions = {}): LLMTaskConfig {
+    const defaults = this.config.tasks[options.task || 'conversation'];
+    return {
+      model: options.model ?? defaults.model,
+      temperature: options.temperature ?? defaults.temperature,
+      maxTokens: options.maxTokens ?? defaults.maxTokens,
+    };
+  }
+
+  protected async post(url: string, headers: Record<string, string>, body: object): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+      });
+    } catch (error) {
+      throw new LLMError(`Could not reach ${this.provider}: ${(error as Error).message}`, 'network_error', this.provider);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new LLMError(
+        `${this.provider} API error: ${response.status} - ${errorText}`,
+        'http_error',
+        this.provider,
+        response.status
+      );
+    }
+
+    return response;
+  }
+
+  protected async runStream(
+    request: () => Promise<LLMChatResult>,
+    callbacks?: LLMStreamCallbacks
+  ): Promise<LLMChatResult> {
+    try {
+      const result = await request();
+      callbacks?.onComplete?.(result.content);
+      return result;
+    } catch (error) {
+      callbacks?.onError?.(error as Error);
+      throw error;
+    }
+  }
+}
+
+export class ProxyLLMClient extends BaseLLMClient {
+  readonly provider: LLMProvider = 'proxy';
+
+  async chat(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<LLMChatResult> {
+    return this.complete(messages, options, false);
+  }
+
+  protected chatForJson(messages: LLMMessage[], options: LLMRequestOptions): Promise<LLMChatResult> {
+    return this.complete(messages, options, true);
+  }
+
+  async stream(
+    messages: LLMMessage[],
+    callbacks?: LLMStreamCallbacks,
+    options: LLMRequestOptions = {}
+  ): Promise<LLMChatResult> {
+    return this.runStream(async () => {
+      const response = await this.request({ ...this.getBody(messages, options), stream: true });
+
+      // Same events as chat-stream: delta, tool (safety), done, error
+      let content = '';
+      let streamError: LLMError | null = null;
+      await readServerSentEvents(response, data => {
+        let event: ChatStreamEvent;
+        try {
+          event = JSON.parse(data);
+        } catch {
+          return;
+        }
+        if (event.type === 'delta') {
+          content += event.content;
+          callbacks?.onToken?.(event.content);
+        } else if (event.type === 'tool' && event.name === 'safety') {
+          streamError = toSafetyError(event.payload);
+        } else if (event.type === 'error') {
+          streamError = new LLMError(event.message, 'http_error', this.provider);
+        }
+      });
+
+      if (streamError) {
+        throw streamError;
+      }
+      if (!content) {
+        throw new LLMError('No content in llm-proxy response', 'empty_response', this.provider);
+      }
+      return { content, model: this.getSettings(options).model };
+    }, callbacks);
+  }
+
+  private async complete(messages: LLMMessage[], options: LLMRequestOptions, json: boolean): Promise<LLMChatResult> {
+    const response = await this.request({ ...this.getBody(messages, options), json });
+    const data = await response.json();
+    if (data.safety) {
+      throw toSafetyError(data.safety);
+    }
+    if (!data.content) {
+      throw new LLMError('No content in llm-proxy response', 'empty_response', this.provider);
+    }
+    return { content: data.content, model: data.model, usage: data.usage };
+  }
+
+  // The function picks the model, so only explicit overrides are sent
+  private getBody(messages: LLMMessage[], options: LLMRequestOptions) {
+    return {
+      task: options.task || 'conversation',
+      messages,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+    };
+  }
+
+  private async request(body: object): Promise<Response> {
+    if (!isEdgeFunctionsConfigured()) {
+      throw new LLMError(
+        'Supabase URL is not configured. Please add EXPO_PUBLIC_SUPABASE_URL to your .env.local file.',
+        'not_configured',
+        this.provider
+      );
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(getEdgeFunctionUrl(LLM_PROXY_FUNCTION), {
+        method: 'POST',
+        headers: await getEdgeFunctionHeaders(),
+        body: JSON.stringify(body),
+      });
+    } catch (error) {
+      throw new LLMError(`Could not reach ${LLM_PROXY_FUNCTION}: ${(error as Error).message}`, 'network_error', this.provider);
+    }
+
+    if (!response.ok) {
+      const error = await readEdgeFunctionError(LLM_PROXY_FUNCTION, response);
+      throw new LLMError(error.message, 'http_error', this.provider, error.status);
+    }
+    return response;
+  }
+}
+
+export class OpenAICompatibleClient extends BaseLLMClient {
+  readonly provider: LLMProvider = 'local';
+  private readonly baseUrl: string;
+
+  constructor(config: LLMConfig) {
+    super(config);
+    this.baseUrl = (config.baseUrl || '').replace(/\/$/, '');
+  }
+
+  async chat(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<LLMChatResult> {
+    // Local servers differ in response_format support, so JSON answers rely on the prompt
+    const settings = this.getSettings(options);
+    const response = await this.post(`${this.baseUrl}/chat/completions`, {}, this.getBody(messages, settings));
+
+    const data = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new LLMError(`No content in ${this.provider} response`, 'empty_response', this.provider);
+    }
+
+    const usage: LLMUsage | undefined = data.usage
+      ? { inputTokens: data.usage.prompt_tokens, outputTokens: data.usage.completion_tokens }
+      : undefined;
+    return { content, model: data.model || settings.model, usage };
+  }
+
+  async stream(
+    messages: LLMMessage[],
+    callbacks?: LLMStreamCallbacks,
+    options: LLMRequestOptions = {}
+  ): Promise<LLMChatResult> {
+    return this.runStream(async () => {
+      const settings = this.getSettings(options);
+      const response = await this.post(`${this.baseUrl}/chat/completions`, {}, {
+        ...this.getBody(messages, settings),
+        stream: true,
+      });
+
+      let content = '';
+      await readServerSentEvents(response, data => {
+        if (data === '[DONE]') return;
+        try {
+          const token = JSON.parse(data).choices?.[0]?.delta?.content;
+          if (token) {
+            content += token;
+            callbacks?.onToken?.(token);
+          }
+        } catch {
+          // Ignore keep-alive and partial lines
+        }
+      });
+
+      if (!content) {
+        throw new LLMError(`No content in ${this.provider} response`, 'empty_response', this.provider);
+      }
+      return { content, model: settings.model };
+    }, callbacks);
+  }
+
+  private getBody(messages: LLMMessage[], settings: LLMTaskConfig) {
+    return {
+      model: settings.model,
+      temperature: settings.temperature,
+      max_tokens: settings.maxTokens,
+      messages: messages.map(message => message.images?.length
+        ? {
+            role: message.role,
+            content: [
+              { type: 'text', text: message.content },
+              ...message.images.map(url => ({ type: 'image_url', image_url: { url } })),
+            ],
+          }
+        : { role: message.role, content: message.content }
+      ),
+    };
+  }
+}
+
+export type FakeLLMResponder = (messages: LLMMessage[], options: LLMRequestOptions) => string;
+
+/**
+ * Deterministic client for tests and offline development. Answers come from
+ * the given list in order (the last one repeats) or from a responder
+ * function; by default it echoes the last user message. Every request is
+ * recorded in `calls`.
+ */
+export class FakeLLMClient implements LLMClient {
+  readonly provider: LLMProvider = 'fake';
+  readonly calls: { messages: LLMMessage[]; options: LLMRequestOptions }[] = [];
+  private readonly responses: (string | FakeLLMResponder)[];
+
+  constructor(responses: string | FakeLLMResponder | (string | FakeLLMResponder)[] = []) {
+    this.responses = Array.isArray(responses) ? responses : [responses];
+  }
+
+  async chat(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<LLMChatResult> {
+    const content = this.respond(messages, options);
+    return {
+      content,
+      model: options.model || 'fake',
+      usage: {
+        inputTokens: messages.reduce((total, message) => total + message.content.split(/\s+/).length, 0),
+        outputTokens: content.split(/\s+/).length,
+      },
+    };
+  }
+
+  async stream(
+    messages: LLMMessage[],
+    callbacks?: LLMStreamCallbacks,
+    options: LLMRequestOptions = {}
+  ): Promise<LLMChatResult> {
+    const result = await this.chat(messages, options);
+    result.content.split(' ').forEach((word, index) => {
+      callbacks?.onToken?.(index === 0 ? word : ` ${word}`);
+    });
+    callbacks?.onComplete?.(result.content);
+    return result;
+  }
+
+  async json<T = any>(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<T> {
+    const { content } = await this.chat(messages, options);
+    const parsed = extractJson(content);
+    if (parsed === null) {
+      throw new LLMError('Model returned invalid JSON', 'invalid_json', this.provider);
+    }
+    return parsed;
+  }
+
+  private respond(messages: LLMMessage[], options: LLMRequestOptions): string {
+    const index = Math.min(this.calls.length, this.responses.length - 1);
+    this.calls.push({ messages, options });
+
+    const response = this.responses[index];
+    if (response === undefined) {
+      const lastUser = [...messages].reverse().find(message => message.role === 'user');
+      return lastUser ? `Echo: ${lastUser.content}` : 'Echo';
+    }
+    return typeof response === 'function' ? response(messages, options) : response;
+  }
+}
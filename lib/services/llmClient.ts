@@ -0,0 +1,105 @@
+import { SafetyAssessment } from '../types/safety';
+
+/**
+ * LLM Client
+ *
+ * Provider-agnostic interface for chat completions. Services talk to an
+ * LLMClient instead of calling a vendor API, so the provider, model and
+ * temperature come from configuration (see llmConfig.ts) and tests can swap
+ * in the deterministic FakeLLMClient.
+ */
+
+// OpenAI and Claude are only reached through the llm-proxy edge function
+export type LLMProvider = 'proxy' | 'local' | 'fake';
+
+export type LLMRole = 'system' | 'user' | 'assistant';
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+  // Data URLs (data:image/png;base64,...) sent alongside a user message
+  images?: string[];
+}
+
+// What a request is for; each task has its own model and temperature in config
+export type LLMTask = 'flowchartGeneration' | 'flowchartAnalysis' | 'conversation' | 'conversationSummary' | 'safetyScreening';
+
+export interface LLMRequestOptions {
+  task?: LLMTask;
+  // Explicit values override the task's configured ones
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMChatResult {
+  content: string;
+  model: string;
+  usage?: LLMUsage;
+}
+
+export interface LLMStreamCallbacks {
+  onToken?: (token: string) => void;
+  onComplete?: (content: string) => void;
+  onError?: (error: Error) => void;
+}
+
+export interface LLMClient {
+  readonly provider: LLMProvider;
+  chat(messages: LLMMessage[], options?: LLMRequestOptions): Promise<LLMChatResult>;
+  stream(messages: LLMMessage[], callbacks?: LLMStreamCallbacks, options?: LLMRequestOptions): Promise<LLMChatResult>;
+  // Chat that must answer with a single JSON object, returned parsed
+  json<T = any>(messages: LLMMessage[], options?: LLMRequestOptions): Promise<T>;
+}
+
+export type LLMErrorCode = 'not_configured' | 'http_error' | 'empty_response' | 'invalid_json' | 'network_error' | 'safety_concern';
+
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    public readonly code: LLMErrorCode,
+    public readonly provider: LLMProvider,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'LLMError';
+  }
+}
+
+// The llm-proxy function's crisis screening flagged the latest user message,
+// so no reply was generated
+export class LLMSafetyError extends LLMError {
+  constructor(public readonly assessment: SafetyAssessment, provider: LLMProvider) {
+    super('Crisis screening flagged the message, so no reply was generated', 'safety_concern', provider);
+    this.name = 'LLMSafetyError';
+  }
+}
+
+/**
+ * Pull the JSON object out of a model answer. Models wrap JSON in code fences
+ * or add a sentence before it, so this strips fences and takes the outermost
+ * braces. Returns null when nothing parses.
+ */
+export const extractJson = (text: string): any | null => {
+  const withoutFences = text
+    .trim()
+    .replace(/^```(?:json)?\s*/gm, '')
+    .replace(/```\s*$/gm, '');
+
+  const start = withoutFences.indexOf('{');
+  const end = withoutFences.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(withoutFences.substring(start, end + 1));
+  } catch {
+    return null;
+  }
+};
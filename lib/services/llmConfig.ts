@@ -0,0 +1,130 @@
+import { LLMClient, LLMProvider, LLMTask } from './llmClient';
+import { ProxyLLMClient, OpenAICompatibleClient, FakeLLMClient } from './llmAdapters';
+import { isEdgeFunctionsConfigured } from './edgeFunctions';
+
+/**
+ * LLM Configuration
+ *
+ * Chooses the provider and per-task model settings from the environment:
+ *
+ *   EXPO_PUBLIC_LLM_PROVIDER    proxy (default) | local | fake
+ *   EXPO_PUBLIC_LLM_MODEL       overrides the model for every task (local only)
+ *   EXPO_PUBLIC_LLM_BASE_URL    server for the local provider (OpenAI-compatible)
+ *
+ * The proxy provider sends every request to the llm-proxy edge function. The
+ * app ships no API keys: OpenAI vs Claude and their models are chosen by the
+ * function's LLM_PROVIDER / LLM_MODEL secrets (supabase/functions/_shared/llm.ts).
+ */
+
+export interface LLMTaskConfig {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface LLMConfig {
+  provider: LLMProvider;
+  baseUrl?: string;
+  tasks: Record<LLMTask, LLMTaskConfig>;
+}
+
+const PROVIDER_TASK_DEFAULTS: Record<LLMProvider, Record<LLMTask, LLMTaskConfig>> = {
+  // Temperatures and token limits mirror the function's; it picks the model
+  proxy: {
+    flowchartGeneration: { model: 'default', temperature: 0.7, maxTokens: 2000 },
+    flowchartAnalysis: { model: 'default', temperature: 0.3, maxTokens: 2000 },
+    conversation: { model: 'default', temperature: 0.7, maxTokens: 1000 },
+    conversationSummary: { model: 'default', temperature: 0.3, maxTokens: 1000 },
+    safetyScreening: { model: 'default', temperature: 0, maxTokens: 200 },
+  },
+  local: {
+    flowchartGeneration: { model: 'llama3.1', temperature: 0.7, maxTokens: 2000 },
+    flowchartAnalysis: { model: 'llama3.1', temperature: 0.3, maxTokens: 2000 },
+    conversation: { model: 'llama3.1', temperature: 0.7, maxTokens: 1000 },
+    conversationSummary: { model: 'llama3.1', temperature: 0.3, maxTokens: 1000 },
+    safetyScreening: { model: 'llama3.1', temperature: 0, maxTokens: 200 },
+  },
+  fake: {
+    flowchartGeneration: { model: 'fake', temperature: 0, maxTokens: 2000 },
+    flowchartAnalysis: { model: 'fake', temperature: 0, maxTokens: 2000 },
+    conversation: { model: 'fake', temperature: 0, maxTokens: 1000 },
+    conversationSummary: { model: 'fake', temperature: 0, maxTokens: 1000 },
+    safetyScreening: { model: 'fake', temperature: 0, maxTokens: 200 },
+  },
+};
+
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+const isProvider = (value: string): value is LLMProvider =>
+  ['proxy', 'local', 'fake'].includes(value);
+
+// Expo only inlines process.env.EXPO_PUBLIC_* when accessed by full name
+const resolveProvider = (): LLMProvider => {
+  const configured = (process.env.EXPO_PUBLIC_LLM_PROVIDER || '').toLowerCase().trim();
+  if (isProvider(configured)) {
+    return configured;
+  }
+  if (configured === 'openai' || configured === 'anthropic') {
+    console.warn(`EXPO_PUBLIC_LLM_PROVIDER=${configured} is no longer used in the app; set the LLM_PROVIDER function secret instead`);
+  }
+  return 'proxy';
+};
+
+export const getLLMConfig = (): LLMConfig => {
+  const provider = resolveProvider();
+  const modelOverride = process.env.EXPO_PUBLIC_LLM_MODEL;
+
+  const tasks = { ...PROVIDER_TASK_DEFAULTS[provider] };
+  if (modelOverride && provider === 'local') {
+    (Object.keys(tasks) as LLMTask[]).forEach(task => {
+      tasks[task] = { ...tasks[task], model: modelOverride };
+    });
+  }
+
+  return {
+    provider,
+    baseUrl: provider === 'local'
+      ? process.env.EXPO_PUBLIC_LLM_BASE_URL || DEFAULT_LOCAL_BASE_URL
+      : undefined,
+    tasks,
+  };
+};
+
+/**
+ * Whether requests can be made - the proxy needs the Supabase URL, local and
+ * fake providers need nothing.
+ */
+export const isLLMConfigured = (config: LLMConfig = getLLMConfig()): boolean =>
+  config.provider !== 'proxy' || isEdgeFunctionsConfigured();
+
+export const createLLMClient = (config: LLMConfig = getLLMConfig()): LLMClient => {
+  switch (config.provider) {
+    case 'local':
+      return new OpenAICompatibleClient(config);
+    case 'fake':
+      return new FakeLLMClient();
+    case 'proxy':
+    default:
+      return new ProxyLLMClient(config);
+  }
+};
+
+let sharedClient: LLMClient | null = null;
+
+/**
+ * The client every service uses. Created from the environment on first use.
+ */
+export const getLLMClient = (): LLMClient => {
+  if (!sharedClient) {
+    sharedClient = createLLMClient();
+  }
+  return sharedClient;
+};
+
+/**
+ * Replace the shared client, e.g. with a FakeLLMClient in tests. Pass null to
+ * go back to the configured provider.
+ */
+export const setLLMClient = (client: LLMClient | null): void => {
+  sharedClient = client;
+};
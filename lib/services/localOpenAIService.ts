@@ -1,7 +1,11 @@
-// Temporary local OpenAI service to bypass Supabase functions
-// This allows testing the voice chat while functions are being deployed
+// Fallback voice chat pieces for when the chat-stream function isn't available.
+// Chat goes through the configured LLM client; transcription and speech use the
+// transcribe and tts functions, so no API key is needed here
 
-import * as FileSystem from 'expo-file-system'
+import { getLLMClient } from './llmConfig'
+import { LLMSafetyError } from './llmClient'
+import { callEdgeFunction } from './edgeFunctions'
+import { SafetyAssessment } from '../types/safety'
 
 export interface ChatMessage {
   role: 'system' | 'user' | 'assistant'
@@ -12,75 +16,27 @@ interface StreamCallbacks {
   onToken?: (token: string) => void
   onComplete?: () => void
   onError?: (error: Error) => void
+  // llm-proxy's crisis screening flagged the latest user message; no reply follows
+  onSafetyConcern?: (assessment: SafetyAssessment) => void
 }
 
 export class LocalOpenAIService {
-  private apiKey: string
-
-  constructor() {
-    this.apiKey = process.env.EXPO_PUBLIC_OPENAI_API_KEY || ''
-    
-    if (!this.apiKey) {
-      console.warn('OpenAI API key not found in environment variables')
-    }
-  }
-
   async streamChat(messages: ChatMessage[], callbacks?: StreamCallbacks): Promise<void> {
     try {
-      if (!this.apiKey) {
-        throw new Error('OpenAI API key not configured')
-      }
-
-      console.log('🔥 Starting OpenAI stream request...')
-      console.log('🔑 API Key present:', !!this.apiKey && this.apiKey.length > 0)
+      console.log('🔥 Starting LLM stream request...')
       console.log('📝 Messages count:', messages.length)
 
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gpt-4-turbo-preview',
-          messages,
-          temperature: 0.7,
-          max_tokens: 1000,
-          stream: false, // Temporarily disable streaming to test
-        }),
-      })
-
-      console.log('📡 Response status:', response.status)
-      console.log('📡 Response headers:', Object.fromEntries(response.headers.entries()))
-      console.log('📡 Response body type:', typeof response.body)
-      console.log('📡 Response body exists:', !!response.body)
-
-      if (!response.ok) {
-        const error = await response.text()
-        throw new Error(`OpenAI API error: ${response.status} - ${error}`)
-      }
-
-      // Handle non-streaming response for React Native compatibility
-      const result = await response.json()
-      console.log('💬 Non-streaming response received:', result)
-      
-      const content = result.choices?.[0]?.message?.content
-      if (content) {
-        // Simulate streaming by sending the content in chunks
-        const words = content.split(' ')
-        for (let i = 0; i < words.length; i++) {
-          const chunk = i === 0 ? words[i] : ' ' + words[i]
-          callbacks?.onToken?.(chunk)
-          
-          // Add small delay to simulate streaming
-          await new Promise(resolve => setTimeout(resolve, 50))
-        }
-        callbacks?.onComplete?.()
-      } else {
-        throw new Error('No content in OpenAI response')
-      }
+      await getLLMClient().stream(messages, {
+        onToken: callbacks?.onToken,
+        onComplete: () => callbacks?.onComplete?.(),
+      }, { task: 'conversation' })
     } catch (error) {
-      console.error('Local OpenAI streaming error:', error)
+      if (error instanceof LLMSafetyError && callbacks?.onSafetyConcern) {
+        console.log('🛟 Safety concern from llm-proxy:', error.assessment.level)
+        callbacks.onSafetyConcern(error.assessment)
+        return
+      }
+      console.error('Local LLM streaming error:', error)
       callbacks?.onError?.(error as Error)
       throw error
     }
@@ -88,45 +44,13 @@ export class LocalOpenAIService {
 
   async transcribeAudio(audioBase64: string): Promise<string> {
     try {
-      if (!this.apiKey) {
-        throw new Error('OpenAI API key not configured')
-      }
-
-      // For React Native, we need to use a different approach
-      // Create a temporary file URI and use that for FormData
-      
-      // Write base64 to temporary file
-      const tempUri = `${FileSystem.documentDirectory}temp_audio_${Date.now()}.wav`
-      await FileSystem.writeAsStringAsync(tempUri, audioBase64, {
-        encoding: FileSystem.EncodingType.Base64,
-      })
-
-      // Create form data with the file URI
-      const formData = new FormData()
-      formData.append('file', {
-        uri: tempUri,
-        name: 'audio.wav',
-        type: 'audio/wav',
-      } as any)
-      formData.append('model', 'whisper-1')
-
-      const response = await fetch('https://api.openai.com/v1/audio/transcriptions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-        },
-        body: formData,
+      const result = await callEdgeFunction<{ success: boolean; text?: string; error?: string }>('transcribe', {
+        audio: audioBase64,
+        format: 'wav',
       })
-
-      // Clean up temporary file
-      await FileSystem.deleteAsync(tempUri, { idempotent: true })
-
-      if (!response.ok) {
-        const error = await response.text()
-        throw new Error(`Whisper API error: ${error}`)
+      if (!result.success) {
+        throw new Error(result.error || 'Transcription failed')
       }
-
-      const result = await response.json()
       return result.text || ''
     } catch (error) {
       console.error('Local transcription error:', error)
@@ -136,44 +60,16 @@ export class LocalOpenAIService {
 
   async generateTTS(text: string, voice: string = 'nova'): Promise<string> {
     try {
-      if (!this.apiKey) {
-        throw new Error('OpenAI API key not configured')
-      }
-
       console.log('🔊 Generating TTS with OpenAI...')
 
-      const response = await fetch('https://api.openai.com/v1/audio/speech', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'tts-1',
-          input: text,
-          voice: voice,
-          response_format: 'mp3'
-        }),
+      const { audio } = await callEdgeFunction<{ audio: string }>('tts', {
+        text,
+        provider: 'openai',
+        voice,
       })
 
-      if (!response.ok) {
-        const error = await response.text()
-        throw new Error(`OpenAI TTS error: ${error}`)
-      }
-
-      // Convert response to base64
-      const audioArrayBuffer = await response.arrayBuffer()
-      const audioBytes = new Uint8Array(audioArrayBuffer)
-      
-      // Convert to base64 for React Native
-      let binary = ''
-      for (let i = 0; i < audioBytes.byteLength; i++) {
-        binary += String.fromCharCode(audioBytes[i])
-      }
-      const base64Audio = btoa(binary)
-
       console.log('✅ OpenAI TTS generated successfully')
-      return base64Audio
+      return audio
 
     } catch (error) {
       console.error('OpenAI TTS error:', error)
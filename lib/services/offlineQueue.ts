@@ -0,0 +1,550 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
+import * as Crypto from 'expo-crypto';
+import { supabase } from '../supabase';
+import { recordFlowchartVersion } from './flowchartVersions';
+import { QueuedMutation, SyncChannel, SyncStatus, SyncTable } from '../types/sync';
+
+/**
+ * Offline Queue
+ *
+ * Writes to beliefs and flowcharts go through this queue so they survive
+ * being offline and app restarts:
+ *
+ * - The queue and the last rows read from the server are kept in
+ *   AsyncStorage. Reads overlay the pending changes on those rows, and fall
+ *   back to them when the server can't be reached.
+ * - Mutations replay oldest first, one at a time. Replay starts on reconnect:
+ *   a read succeeds again, the realtime channel resubscribes or the app comes
+ *   back to the foreground. A network failure stops it and retries with backoff.
+ * - A mutation the server refuses (a row-level security denial, a constraint
+ *   violation, or any error that persists for MAX_ATTEMPTS tries) is dropped,
+ *   which rolls reads back to the last server copy. sendMutation() rejects
+ *   with a MutationRejectedError when that happens during its replay; later
+ *   refusals show up in the sync status.
+ * - Every mutation has an idempotency key and inserts carry client-generated
+ *   ids, so replaying one that already reached the server changes nothing.
+ * - Updates remember the server timestamp they were based on, from the last
+ *   read of that row. If the server copy has a different timestamp by the
+ *   time the update replays, the row changed elsewhere and the server copy
+ *   wins: the local change is dropped and sendMutation() rejects with a
+ *   MutationConflictError carrying the server row, or the conflict shows up
+ *   in the sync status when nobody is waiting on it. Only server values are
+ *   compared, so a device clock that's off can't decide it.
+ */
+
+const QUEUE_KEY = 'offlineQueue';
+const ROW_CACHE_KEY = 'offlineRowCache';
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 60000;
+
+// The server timestamp each table's conflict resolution compares
+const TIMESTAMP_COLUMNS: Record<SyncTable, string> = {
+  beliefs: 'updated_at',
+  flowcharts: 'last_updated',
+};
+
+export type SyncRow = Record<string, any> & { id: string };
+
+// The server refused a queued change, so it was dropped
+export class MutationRejectedError extends Error {
+  constructor(
+    message: string,
+    public readonly mutation: QueuedMutation,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'MutationRejectedError';
+  }
+}
+
+// The row changed on the server since the change was made, so the server copy won
+export class MutationConflictError extends MutationRejectedError {
+  constructor(mutation: QueuedMutation, public readonly serverRow: SyncRow) {
+    super(`This ${mutation.table === 'beliefs' ? 'belief' : 'map'} was changed somewhere else, so your change wasn't saved`, mutation);
+    this.name = 'MutationConflictError';
+  }
+}
+
+let queue: QueuedMutation[] = [];
+let rowCache: Record<SyncTable, Record<string, SyncRow>> = { beliefs: {}, flowcharts: {} };
+let loading: Promise<void> | null = null;
+let flushing: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retryCount = 0;
+// Mutations a sendMutation() call is waiting on, and why any of them were dropped
+const awaited = new Set<string>();
+const rejections = new Map<string, MutationRejectedError>();
+
+let status: SyncStatus = {
+  online: true,
+  channel: 'connecting',
+  pendingCount: 0,
+  isSyncing: false,
+  conflictCount: 0,
+  rejectedCount: 0,
+  lastSyncedAt: null,
+  lastError: null,
+};
+const statusListeners = new Set<(status: SyncStatus) => void>();
+
+// The queue works on both tables generically, so rows are loosely typed here
+const from = (table: SyncTable): any => supabase.from(table);
+
+const updateStatus = (changes: Partial<SyncStatus>) => {
+  status = { ...status, ...changes };
+  statusListeners.forEach(listener => listener(status));
+};
+
+/**
+ * Whether an error means the server couldn't be reached, as opposed to the
+ * server rejecting the request.
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  const message = (error as { message?: string } | null)?.message || String(error);
+  return /network request failed|failed to fetch|network ?error|load failed|fetch failed/i.test(message);
+};
+
+// Postgres and PostgREST codes worth retrying: lost database connections,
+// serialization failures, exhausted resources, timeouts
+const TRANSIENT_ERROR_CODES = /^(PGRST00|08|40|53|57)/;
+
+/**
+ * Whether the server refused a request outright, so retrying can't help.
+ * Postgres and PostgREST errors carry a code: 42501 for a row-level security
+ * denial, 23xxx for constraint violations, PGRST1xx-3xx for bad requests.
+ */
+const isServerRejection = (error: unknown): boolean => {
+  if (error instanceof MutationRejectedError) return true;
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && code !== '' && !TRANSIENT_ERROR_CODES.test(code);
+};
+
+const persistQueue = async () => {
+  try {
+    await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  } catch (error) {
+    console.error('Error saving offline queue:', error);
+  }
+};
+
+const persistRows = async () => {
+  try {
+    await AsyncStorage.setItem(ROW_CACHE_KEY, JSON.stringify(rowCache));
+  } catch (error) {
+    console.error('Error saving offline row cache:', error);
+  }
+};
+
+const ensureLoaded = (): Promise<void> => {
+  if (!loading) {
+    loading = (async () => {
+      try {
+        const [storedQueue, storedRows] = await Promise.all([
+          AsyncStorage.getItem(QUEUE_KEY),
+          AsyncStorage.getItem(ROW_CACHE_KEY),
+        ]);
+        queue = storedQueue ? JSON.parse(storedQueue) : [];
+        rowCache = storedRows ? { ...rowCache, ...JSON.parse(storedRows) } : rowCache;
+      } catch (error) {
+        console.error('Error loading offline queue:', error);
+      }
+      updateStatus({ pendingCount: queue.length });
+
+      AppState.addEventListener('change', state => {
+        if (state === 'active') {
+          flushQueue();
+        }
+      });
+      if (queue.length) {
+        console.log('📤 Replaying', queue.length, 'offline changes');
+        flushQueue();
+      }
+    })();
+  }
+  return loading;
+};
+
+const rememberRow = (table: SyncTable, row: SyncRow) => {
+  rowCache = { ...rowCache, [table]: { ...rowCache[table], [row.id]: row } };
+};
+
+const forgetRow = (table: SyncTable, id: string) => {
+  const { [id]: _removed, ...rest } = rowCache[table];
+  rowCache = { ...rowCache, [table]: rest };
+};
+
+/**
+ * Cache rows just read from the server for offline use. Cached rows matching
+ * `replaceWhere` are dropped first, so a full list read also forgets rows
+ * that no longer exist.
+ */
+export const rememberRows = async (
+  table: SyncTable,
+  rows: SyncRow[],
+  replaceWhere?: (row: SyncRow) => boolean
+): Promise<void> => {
+  await ensureLoaded();
+  if (replaceWhere) {
+    Object.values(rowCache[table]).filter(replaceWhere).forEach(row => forgetRow(table, row.id));
+  }
+  rows.forEach(row => rememberRow(table, row));
+  await persistRows();
+};
+
+export const getCachedRows = async (table: SyncTable): Promise<SyncRow[]> => {
+  await ensureLoaded();
+  return Object.values(rowCache[table]);
+};
+
+/**
+ * Rows as they'll be once the pending changes are synced: queued inserts
+ * added, updates merged in and deletes removed.
+ */
+export const applyPendingMutations = async <T extends SyncRow>(table: SyncTable, rows: T[]): Promise<T[]> => {
+  await ensureLoaded();
+  const byId = new Map<string, T>(rows.map(row => [row.id, row]));
+
+  queue
+    .filter(mutation => mutation.table === table)
+    .forEach(mutation => {
+      const row = byId.get(mutation.rowId);
+      if (mutation.kind === 'insert' && !row) {
+        byId.set(mutation.rowId, mutation.values as T);
+      } else if (mutation.kind === 'update' && row) {
+        byId.set(mutation.rowId, { ...row, ...mutation.values });
+      } else if (mutation.kind === 'delete') {
+        byId.delete(mutation.rowId);
+      }
+    });
+
+  return [...byId.values()];
+};
+
+// A cached row with pending changes applied, or null if it isn't known locally
+export const getLocalRow = async <T extends SyncRow>(table: SyncTable, id: string): Promise<T | null> => {
+  await ensureLoaded();
+  const cached = rowCache[table][id] as T | undefined;
+  const rows = await applyPendingMutations<T>(table, cached ? [cached] : []);
+  return rows.find(row => row.id === id) || null;
+};
+
+/**
+ * Queue a write. Call flushQueue() afterwards to send it right away when online.
+ */
+export const enqueueMutation = async (
+  mutation: Pick<QueuedMutation, 'table' | 'kind' | 'rowId' | 'values' | 'version'>
+): Promise<QueuedMutation> => {
+  await ensureLoaded();
+  const cached = rowCache[mutation.table][mutation.rowId];
+
+  const queued: QueuedMutation = {
+    ...mutation,
+    id: Crypto.randomUUID(),
+    baseUpdatedAt: mutation.kind === 'update' ? cached?.[TIMESTAMP_COLUMNS[mutation.table]] ?? null : null,
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+    lastError: null,
+  };
+
+  queue = [...queue, queued];
+  await persistQueue();
+  updateStatus({ pendingCount: queue.length });
+  return queued;
+};
+
+// Postgres may format the same timestamp differently from what was written
+const isSameTimestamp = (a: string | null | undefined, b: string): boolean =>
+  !!a && new Date(a).getTime() === new Date(b).getTime();
+
+// Later updates to the same row were based on the row before this one landed
+const rebaseLaterUpdates = (applied: QueuedMutation, row: SyncRow) => {
+  const timestamp = row[TIMESTAMP_COLUMNS[applied.table]];
+  queue = queue.map(mutation =>
+    mutation.id !== applied.id && mutation.table === applied.table && mutation.rowId === applied.rowId && mutation.kind === 'update'
+      ? { ...mutation, baseUpdatedAt: timestamp ?? mutation.baseUpdatedAt }
+      : mutation
+  );
+};
+
+// Send one mutation. Throws a MutationConflictError when the server copy won
+const applyMutation = async (mutation: QueuedMutation): Promise<void> => {
+  const { table, rowId } = mutation;
+  const timestampColumn = TIMESTAMP_COLUMNS[table];
+
+  if (mutation.kind === 'delete') {
+    const { error } = await from(table).delete().eq('id', rowId);
+    if (error) throw error;
+    forgetRow(table, rowId);
+    return;
+  }
+
+  if (mutation.kind === 'insert') {
+    // A replayed insert finds its row already there and is ignored
+    const { data, error } = await from(table)
+      .upsert(mutation.values, { onConflict: 'id', ignoreDuplicates: true })
+      .select();
+    if (error) throw error;
+    if (data?.[0]) {
+      rememberRow(table, data[0]);
+      rebaseLaterUpdates(mutation, data[0]);
+    }
+    return;
+  }
+
+  let update = from(table).update(mutation.values).eq('id', rowId);
+  if (mutation.baseUpdatedAt) {
+    update = update.eq(timestampColumn, mutation.baseUpdatedAt);
+  }
+  const { data, error } = await update.select();
+  if (error) throw error;
+
+  if (!data?.length) {
+    // The row changed on the server since this edit was made, is gone, or
+    // can't be updated by this user
+    const { data: current, error: fetchError } = await from(table).select('*').eq('id', rowId).maybeSingle();
+    if (fetchError) throw fetchError;
+
+    if (!current) {
+      console.log('📤 Dropping change to a deleted row:', table, rowId);
+      forgetRow(table, rowId);
+      return;
+    }
+
+    if (mutation.baseUpdatedAt && !isSameTimestamp(current[timestampColumn], mutation.baseUpdatedAt)) {
+      console.log('📤 Server copy changed since it was read, dropping local change:', table, rowId);
+      rememberRow(table, current);
+      throw new MutationConflictError(mutation, current);
+    }
+
+    // Row-level security hides a refused update as zero rows changed
+    throw new MutationRejectedError(`The server didn't accept the change to this ${table === 'beliefs' ? 'belief' : 'map'}`, mutation);
+  }
+
+  if (data[0]) {
+    rememberRow(table, data[0]);
+    rebaseLaterUpdates(mutation, data[0]);
+  }
+
+  if (table === 'flowcharts' && mutation.values.structure && mutation.version) {
+    await recordFlowchartVersion(rowId, mutation.values.structure, mutation.version.author, mutation.version.description);
+  }
+};
+
+const scheduleRetry = () => {
+  if (retryTimer) return;
+  const delay = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** retryCount);
+  retryCount += 1;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushQueue();
+  }, delay);
+};
+
+/**
+ * Drop the head mutation. Reads overlay only queued changes on the cached
+ * server rows, so this rolls the row back. Later changes to a row whose
+ * insert was refused are dropped with it, since there's nothing to apply
+ * them to.
+ */
+const rejectMutation = (mutation: QueuedMutation, error: unknown): number => {
+  const rejection = error instanceof MutationRejectedError
+    ? error
+    : new MutationRejectedError((error as Error).message || String(error), mutation, error);
+
+  const dropped = mutation.kind === 'insert'
+    ? queue.filter(other => other.table === mutation.table && other.rowId === mutation.rowId)
+    : [mutation];
+  queue = queue.filter(other => !dropped.includes(other));
+
+  // Only changes nobody is waiting on count towards the sync status
+  let unreported = 0;
+  dropped.forEach(other => {
+    if (awaited.has(other.id)) {
+      rejections.set(other.id, rejection);
+    } else {
+      unreported += 1;
+    }
+  });
+  return unreported;
+};
+
+const runQueue = async () => {
+  await ensureLoaded();
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  if (!queue.length) return;
+
+  updateStatus({ isSyncing: true });
+  while (queue.length) {
+    const mutation = queue[0];
+    try {
+      await applyMutation(mutation);
+      // Only appends happen while replaying, so the head is still this mutation
+      queue = queue.slice(1);
+      retryCount = 0;
+      await Promise.all([persistQueue(), persistRows()]);
+      updateStatus({
+        online: true,
+        pendingCount: queue.length,
+        lastSyncedAt: new Date().toISOString(),
+        lastError: null,
+      });
+    } catch (error) {
+      const message = (error as Error).message || String(error);
+      if (error instanceof MutationConflictError) {
+        const unreported = rejectMutation(mutation, error);
+        await Promise.all([persistQueue(), persistRows()]);
+        updateStatus({
+          online: true,
+          pendingCount: queue.length,
+          conflictCount: status.conflictCount + unreported,
+          lastSyncedAt: new Date().toISOString(),
+          lastError: null,
+        });
+        continue;
+      }
+
+      if (isNetworkError(error)) {
+        updateStatus({ online: false, lastError: message });
+        scheduleRetry();
+        break;
+      }
+
+      const attempts = mutation.attempts + 1;
+      if (!isServerRejection(error) && attempts < MAX_ATTEMPTS) {
+        // Possibly transient (a timeout, a 5xx), so try again later
+        console.error('Error syncing offline change:', error);
+        queue = [{ ...mutation, attempts, lastError: message }, ...queue.slice(1)];
+        await persistQueue();
+        updateStatus({ pendingCount: queue.length, lastError: message });
+        scheduleRetry();
+        break;
+      }
+
+      // Refused for good; don't let it hold up everything behind it
+      console.error('❌ Dropping offline change the server refused:', mutation.table, mutation.kind, mutation.rowId, error);
+      const unreported = rejectMutation(mutation, error);
+      await persistQueue();
+      updateStatus({
+        pendingCount: queue.length,
+        rejectedCount: status.rejectedCount + unreported,
+        lastError: message,
+      });
+    }
+  }
+  updateStatus({ isSyncing: false });
+};
+
+/**
+ * Replay pending mutations in order. Never throws; problems end up in the
+ * sync status. Concurrent calls share one replay.
+ */
+export const flushQueue = (): Promise<void> => {
+  if (!flushing) {
+    flushing = runQueue().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+};
+
+/**
+ * Queue a write and send it right away when online. Resolves once it's
+ * applied or still waiting for the network; rejects with a
+ * MutationRejectedError if the server refused it, or a MutationConflictError
+ * if the row changed on the server first. Either way reads are back to the
+ * server copy.
+ */
+export const sendMutation = async (
+  mutation: Pick<QueuedMutation, 'table' | 'kind' | 'rowId' | 'values' | 'version'>
+): Promise<QueuedMutation> => {
+  const queued = await enqueueMutation(mutation);
+  awaited.add(queued.id);
+  try {
+    await flushQueue();
+  } finally {
+    awaited.delete(queued.id);
+  }
+
+  const rejection = rejections.get(queued.id);
+  if (rejection) {
+    rejections.delete(queued.id);
+    throw rejection;
+  }
+  return queued;
+};
+
+/**
+ * Tell the queue whether the last server request got through. Coming back
+ * online starts a replay.
+ */
+export const reportConnectivity = (online: boolean) => {
+  if (online === status.online) return;
+  updateStatus({ online });
+  if (online) {
+    flushQueue();
+  }
+};
+
+export const setSyncChannel = (channel: SyncChannel) => {
+  updateStatus({ channel });
+  if (channel === 'realtime') {
+    flushQueue();
+  }
+};
+
+export const getSyncStatus = (): SyncStatus => status;
+
+export const subscribeToSyncStatus = (listener: (status: SyncStatus) => void): (() => void) => {
+  statusListeners.add(listener);
+  ensureLoaded();
+  return () => {
+    statusListeners.delete(listener);
+  };
+};
+
+// One line for the UI, or null when everything is synced
+export const describeSyncStatus = (syncStatus: SyncStatus): string | null => {
+  const pending = syncStatus.pendingCount === 1 ? '1 change' : `${syncStatus.pendingCount} changes`;
+  if (!syncStatus.online) {
+    return syncStatus.pendingCount ? `Offline - ${pending} waiting to sync` : 'Offline';
+  }
+  if (syncStatus.isSyncing) {
+    return 'Syncing...';
+  }
+  if (syncStatus.pendingCount) {
+    return `${pending} waiting to sync`;
+  }
+  const notSaved: string[] = [];
+  if (syncStatus.rejectedCount) {
+    notSaved.push(syncStatus.rejectedCount === 1
+      ? "1 change couldn't be saved"
+      : `${syncStatus.rejectedCount} changes couldn't be saved`);
+  }
+  if (syncStatus.conflictCount) {
+    notSaved.push(syncStatus.conflictCount === 1
+      ? '1 change was replaced by a newer version'
+      : `${syncStatus.conflictCount} changes were replaced by newer versions`);
+  }
+  return notSaved.length ? notSaved.join('; ') : null;
+};
+
+/**
+ * Forget queued changes and cached rows, e.g. on sign out so the next user
+ * doesn't replay them.
+ */
+export const clearOfflineData = async (): Promise<void> => {
+  await ensureLoaded();
+  queue = [];
+  rowCache = { beliefs: {}, flowcharts: {} };
+  try {
+    await AsyncStorage.multiRemove([QUEUE_KEY, ROW_CACHE_KEY]);
+  } catch (error) {
+    console.error('Error clearing offline data:', error);
+  }
+  updateStatus({ pendingCount: 0, conflictCount: 0, rejectedCount: 0, lastError: null });
+};
@@ -0,0 +1,57 @@
+import { supabase } from '../supabase';
+import { Database } from '../database.types';
+import { SafetyAssessment, SafetyChannel, SafetyUserAction } from '../types/safety';
+
+export type SafetyEventRow = Database['public']['Tables']['safety_events']['Row'];
+
+// Record that screening flagged a message. Only the outcome is stored, never the text
+export const recordSafetyEvent = async (
+  assessment: SafetyAssessment,
+  options: { channel: SafetyChannel; conversationId?: string | null; region?: string | null }
+): Promise<SafetyEventRow | null> => {
+  if (assessment.level === 'none') {
+    return null;
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error('User must be authenticated to record a safety event');
+  }
+
+  const { data, error } = await supabase
+    .from('safety_events')
+    .insert({
+      user_id: user.id,
+      conversation_id: options.conversationId || null,
+      risk_level: assessment.level,
+      categories: assessment.categories,
+      matched_rules: assessment.matchedRules,
+      source: assessment.source,
+      channel: options.channel,
+      region: options.region || null
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error recording safety event:', error);
+    throw error;
+  }
+
+  console.log('🛟 Recorded safety event:', data.id, assessment.level, assessment.categories);
+  return data;
+};
+
+// Record what the user chose on the crisis resources screen
+export const updateSafetyEventAction = async (id: string, action: SafetyUserAction): Promise<void> => {
+  const { error } = await supabase
+    .from('safety_events')
+    .update({ user_action: action })
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error updating safety event:', error);
+    throw error;
+  }
+};
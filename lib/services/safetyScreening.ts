@@ -0,0 +1,97 @@
+import { RiskCategory, RiskLevel, SafetyAssessment } from '../types/safety';
+import { getLLMClient, isLLMConfigured } from './llmConfig';
+import { screenMessage as matchSafetyRules } from '../../supabase/functions/_shared/safety';
+
+/**
+ * Safety Screening
+ *
+ * Classifies a user turn for crisis risk in two tiers:
+ *
+ *   local  keyword/regex rules. Synchronous, no network, deterministic,
+ *          so they can be checked offline against a fixture corpus.
+ *   model  optional LLM classification for what the rules can't phrase-match.
+ *          Enabled with EXPO_PUBLIC_SAFETY_MODEL_SCREENING=true.
+ *
+ * The rules live in supabase/functions/_shared/safety.ts, the one copy shared
+ * with the edge functions, so the app and the server always agree.
+ */
+
+export { SAFETY_RULES } from '../../supabase/functions/_shared/safety';
+export type { SafetyRule } from '../../supabase/functions/_shared/safety';
+
+const LEVEL_ORDER: Record<RiskLevel, number> = { none: 0, elevated: 1, high: 2 };
+
+const RISK_LEVELS: RiskLevel[] = ['none', 'elevated', 'high'];
+const RISK_CATEGORIES: RiskCategory[] = ['suicide', 'self_harm', 'harm_to_others', 'abuse'];
+
+export const NO_RISK: SafetyAssessment = { level: 'none', categories: [], matchedRules: [], source: 'local' };
+
+export const isRiskDetected = (assessment: SafetyAssessment): boolean => assessment.level !== 'none';
+
+/**
+ * Local tier: match the rules against one user turn.
+ */
+export const screenMessageLocally = (text: string): SafetyAssessment => {
+  if (!text.trim()) {
+    return NO_RISK;
+  }
+  return { ...matchSafetyRules(text), source: 'local' };
+};
+
+const SCREENING_INSTRUCTIONS = `You screen messages from an Internal Family Systems (IFS) self-help app for crisis risk.
+Users often describe parts of themselves ("a part of me feels worthless"); that alone is not a risk.
+Flag risk of suicide, self-harm, harm to others, or abuse the user is experiencing.
+"high": intent, plan, or current danger. "elevated": passive thoughts, past behaviour, or unclear danger.
+
+Respond with a single JSON object only:
+{ "level": "none" | "elevated" | "high", "categories": ["suicide" | "self_harm" | "harm_to_others" | "abuse"] }`;
+
+export const isModelScreeningEnabled = (): boolean =>
+  process.env.EXPO_PUBLIC_SAFETY_MODEL_SCREENING === 'true' && isLLMConfigured();
+
+/**
+ * Model tier: classify one user turn. Never throws - returns no risk if the
+ * model can't be reached, so the local result stands.
+ */
+export const screenMessageWithModel = async (text: string): Promise<SafetyAssessment> => {
+  try {
+    const raw = await getLLMClient().json<any>([
+      { role: 'system', content: SCREENING_INSTRUCTIONS },
+      { role: 'user', content: text }
+    ], { task: 'safetyScreening' });
+
+    const level: RiskLevel = RISK_LEVELS.includes(raw?.level) ? raw.level : 'none';
+    const categories = (Array.isArray(raw?.categories) ? raw.categories : [])
+      .filter((category: any): category is RiskCategory => RISK_CATEGORIES.includes(category));
+    return { level, categories: level === 'none' ? [] : categories, matchedRules: [], source: 'model' };
+  } catch (error) {
+    console.error('❌ Error screening message with model:', error);
+    return NO_RISK;
+  }
+};
+
+/**
+ * Screen one user turn with the local rules and, when enabled, the model.
+ * The higher of the two levels wins; a high local match skips the model.
+ */
+export const screenMessage = async (
+  text: string,
+  options: { useModel?: boolean } = {}
+): Promise<SafetyAssessment> => {
+  const local = screenMessageLocally(text);
+  const useModel = options.useModel ?? isModelScreeningEnabled();
+  if (!useModel || local.level === 'high' || !text.trim()) {
+    return local;
+  }
+
+  const model = await screenMessageWithModel(text);
+  if (LEVEL_ORDER[model.level] <= LEVEL_ORDER[local.level]) {
+    return local;
+  }
+  return {
+    level: model.level,
+    categories: Array.from(new Set([...local.categories, ...model.categories])),
+    matchedRules: local.matchedRules,
+    source: 'model'
+  };
+};
@@ -0,0 +1,198 @@
+import {
+  EmotionTimeline,
+  NodeMentionStat,
+  ReleaseEvent,
+  TimelineBucket,
+  TimelineMetric,
+  TimelinePeriod,
+  TimelinePoint,
+} from '../types/timeline';
+import { FlowchartStructure } from '../types/flowchart';
+import { ConversationMessageRow, getUserConversationMessages } from './conversations';
+import { EmotionWithScore, getEmotions, getReleasedEmotions } from './emotions';
+import { getUserFlowchartWithId } from './flowcharts';
+
+/**
+ * Timeline
+ *
+ * Buckets beliefs, releases and part mentions by day, week or month. Everything
+ * except loadTimelineSource is pure, so the screen can re-bucket without
+ * fetching again.
+ */
+
+export const TIMELINE_METRICS: { metric: TimelineMetric; label: string; min: number; max: number }[] = [
+  { metric: 'feminine-masculine', label: 'Feminine – Masculine', min: -3, max: 3 },
+  { metric: 'dark-light', label: 'Dark – Light', min: -3, max: 3 },
+  { metric: 'child-parent', label: 'Child – Parent', min: -3, max: 3 },
+  { metric: 'frequency', label: 'Frequency', min: 1, max: 10 },
+];
+
+// Labels shorter than this match too many unrelated words
+const MIN_MENTION_LABEL_LENGTH = 3;
+
+export interface TimelineSource {
+  emotions: EmotionWithScore[];
+  flowchart: FlowchartStructure | null;
+  // The user's own messages; the assistant echoes part names back
+  messages: ConversationMessageRow[];
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatLocalDate = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Local start of the day, week (Monday) or month containing the date
+export const getPeriodStart = (date: Date, bucket: TimelineBucket): Date => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  if (bucket === 'week') {
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  } else if (bucket === 'month') {
+    start.setDate(1);
+  }
+  return start;
+};
+
+export const getPeriodKey = (date: Date | string, bucket: TimelineBucket): string =>
+  formatLocalDate(getPeriodStart(new Date(date), bucket));
+
+// Every period key from the one containing `from` to the one containing `to`
+export const getPeriodRange = (from: Date, to: Date, bucket: TimelineBucket): string[] => {
+  const keys: string[] = [];
+  const cursor = getPeriodStart(from, bucket);
+  const end = getPeriodStart(to, bucket);
+
+  while (cursor <= end) {
+    keys.push(formatLocalDate(cursor));
+    if (bucket === 'day') cursor.setDate(cursor.getDate() + 1);
+    else if (bucket === 'week') cursor.setDate(cursor.getDate() + 7);
+    else cursor.setMonth(cursor.getMonth() + 1);
+  }
+  return keys;
+};
+
+// Short axis label for a period key
+export const formatPeriodLabel = (period: string, bucket: TimelineBucket): string => {
+  const [year, month, day] = period.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return bucket === 'month'
+    ? date.toLocaleDateString(undefined, { month: 'short', year: '2-digit' })
+    : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+};
+
+const beliefLabel = (emotion: EmotionWithScore) => emotion.emotion || emotion.belief || 'Untitled';
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Beliefs by the period they were recorded in, with releases overlaid
+export const buildEmotionTimeline = (emotions: EmotionWithScore[], bucket: TimelineBucket): EmotionTimeline => {
+  const points: TimelinePoint[] = emotions
+    .map(emotion => ({
+      beliefId: emotion.id,
+      label: beliefLabel(emotion),
+      period: getPeriodKey(emotion.created_at, bucket),
+      createdAt: emotion.created_at,
+      values: {
+        'feminine-masculine': emotion['feminine-masculine'],
+        'dark-light': emotion['dark-light'],
+        'child-parent': emotion['child-parent'],
+        frequency: emotion.frequency,
+      },
+    }))
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+  const releases: ReleaseEvent[] = emotions
+    .filter(emotion => emotion.released && emotion.released_at)
+    .map(emotion => ({
+      beliefId: emotion.id,
+      label: beliefLabel(emotion),
+      releasedAt: emotion.released_at as string,
+      period: getPeriodKey(emotion.released_at as string, bucket),
+    }))
+    .sort((a, b) => new Date(a.releasedAt).getTime() - new Date(b.releasedAt).getTime());
+
+  const times = [
+    ...points.map(point => new Date(point.createdAt).getTime()),
+    ...releases.map(release => new Date(release.releasedAt).getTime()),
+  ];
+  if (!times.length) {
+    return { periods: [], points, releases };
+  }
+
+  const periods: TimelinePeriod[] = getPeriodRange(new Date(Math.min(...times)), new Date(Math.max(...times)), bucket)
+    .map(period => {
+      const inPeriod = points.filter(point => point.period === period);
+      const averages = inPeriod.length
+        ? TIMELINE_METRICS.reduce((result, { metric }) => ({
+          ...result,
+          [metric]: round(inPeriod.reduce((sum, point) => sum + point.values[metric], 0) / inPeriod.length),
+        }), {} as Record<TimelineMetric, number>)
+        : null;
+
+      return {
+        period,
+        beliefIds: inPeriod.map(point => point.beliefId),
+        averages,
+        releases: releases.filter(release => release.period === period).length,
+      };
+    });
+
+  return { periods, points, releases };
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// How often each node's label comes up in the given messages, most mentioned first
+export const countNodeMentions = (
+  flowchart: FlowchartStructure | null,
+  messages: ConversationMessageRow[],
+  bucket: TimelineBucket
+): NodeMentionStat[] => {
+  const nodes = (flowchart?.nodes || []).filter(node => (node.label || '').trim().length >= MIN_MENTION_LABEL_LENGTH);
+
+  return nodes
+    .map(node => {
+      const label = (node.label as string).trim();
+      const pattern = new RegExp(`\\b${escapeRegExp(label)}\\b`, 'gi');
+      const conversations = new Set<string>();
+      const byPeriod = new Map<string, number>();
+      let mentions = 0;
+
+      messages.forEach(message => {
+        const count = (message.content.match(pattern) || []).length;
+        if (!count) return;
+        mentions += count;
+        conversations.add(message.conversation_id);
+        const period = getPeriodKey(message.created_at, bucket);
+        byPeriod.set(period, (byPeriod.get(period) || 0) + count);
+      });
+
+      return {
+        nodeId: node.id,
+        label,
+        type: node.type,
+        mentions,
+        conversations: conversations.size,
+        timeline: [...byPeriod.entries()]
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([period, count]) => ({ period, count })),
+      };
+    })
+    .sort((a, b) => b.mentions - a.mentions || a.label.localeCompare(b.label));
+};
+
+// Fetch everything the timeline is built from
+export const loadTimelineSource = async (): Promise<TimelineSource> => {
+  const [activeEmotions, releasedEmotions, flowchart, messages] = await Promise.all([
+    getEmotions(),
+    getReleasedEmotions(),
+    getUserFlowchartWithId(),
+    getUserConversationMessages({ role: 'user' }),
+  ]);
+
+  return {
+    emotions: [...activeEmotions, ...releasedEmotions],
+    flowchart: flowchart.structure,
+    messages,
+  };
+};
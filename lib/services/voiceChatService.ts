@@ -1,8 +1,13 @@
 import { Audio } from 'expo-av'
 import * as FileSystem from 'expo-file-system'
 import { AudioModule } from 'expo-audio'
-import { localOpenAIService } from './localOpenAIService'
+import { localOpenAIService, ChatMessage } from './localOpenAIService'
 import { elevenLabsService, ELEVENLABS_VOICES } from './elevenLabsService'
+import { ConversationMemory } from './conversationMemory'
+import { screenMessage, isRiskDetected } from './safetyScreening'
+import { SafetyAssessment, RiskCategory } from '../types/safety'
+import { getEdgeFunctionHeaders } from './edgeFunctions'
+import { CHAT_STREAM_VERSION, CHAT_STREAM_VERSION_HEADER, ChatStreamErrorCode, ChatStreamEvent } from '../types/chatStream'
 
 export interface VoiceChatMessage {
   role: 'user' | 'assistant'
@@ -19,6 +24,33 @@ interface VoiceChatCallbacks {
   onAudioChunk?: (audioData: string) => void
   onStreamComplete?: () => void
   onError?: (error: Error) => void
+  // The latest user message was flagged; no reply is generated for it
+  onSafetyConcern?: (assessment: SafetyAssessment) => void
+}
+
+// An error an edge function reported itself, as opposed to a network failure
+class ChatStreamError extends Error {
+  constructor(readonly code: ChatStreamErrorCode, message: string, readonly retryAfterSeconds?: number) {
+    super(message)
+    this.name = 'ChatStreamError'
+  }
+}
+
+// 401/429 from the auth middleware, worded for the user. Null for any other response
+const readAuthError = async (response: Response): Promise<ChatStreamError | null> => {
+  if (response.status === 401) {
+    return new ChatStreamError('unauthorized', 'Please sign in to use voice chat.')
+  }
+  if (response.status === 429) {
+    const body = await response.json().catch(() => null)
+    const retryAfterSeconds = Number(body?.retryAfterSeconds ?? response.headers.get('Retry-After')) || 60
+    return new ChatStreamError(
+      'rate_limited',
+      `You're sending messages too quickly. Try again in ${retryAfterSeconds} seconds.`,
+      retryAfterSeconds
+    )
+  }
+  return null
 }
 
 export class VoiceChatService {
@@ -29,6 +61,8 @@ export class VoiceChatService {
   private isPlaying = false
   private supabaseUrl: string
   private supabaseAnonKey: string
+  // Long sessions send a summary plus the recent turns instead of the whole log
+  private memory = new ConversationMemory<VoiceChatMessage>()
 
   constructor() {
     this.supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL || ''
@@ -136,44 +170,31 @@ export class VoiceChatService {
       
       const response = await fetch(`${this.supabaseUrl}/functions/v1/transcribe`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.supabaseAnonKey}`,
-        },
+        headers: await getEdgeFunctionHeaders(),
         body: JSON.stringify({
           audio: audioBase64,
           format: 'wav',
         }),
       })
 
-      if (!response.ok) {
-        // Fallback to local service if function not deployed
-        console.warn('Supabase function not available, using local OpenAI service')
-        const transcribedText = await localOpenAIService.transcribeAudio(audioBase64)
-        callbacks?.onTranscriptionComplete?.(transcribedText)
-        return transcribedText
+      const authError = await readAuthError(response)
+      if (authError) {
+        throw authError
       }
 
-      const result = await response.json()
-      
-      if (!result.success) {
-        throw new Error(result.error || 'Transcription failed')
+      // Transcription only runs on the server, so there's nothing to fall back to
+      const result = await response.json().catch(() => null)
+
+      if (!response.ok || !result?.success) {
+        throw new Error(result?.error || 'Transcription failed')
       }
 
       callbacks?.onTranscriptionComplete?.(result.text)
       return result.text
     } catch (error) {
       console.error('Transcription error:', error)
-      // Fallback to local service on any error
-      try {
-        console.log('🔄 Falling back to local OpenAI service')
-        const transcribedText = await localOpenAIService.transcribeAudio(audioBase64)
-        callbacks?.onTranscriptionComplete?.(transcribedText)
-        return transcribedText
-      } catch (fallbackError) {
-        callbacks?.onError?.(error as Error)
-        throw error
-      }
+      callbacks?.onError?.(error as Error)
+      throw error
     }
   }
 
@@ -187,18 +208,29 @@ export class VoiceChatService {
       
       this.abortController = new AbortController()
       this.audioQueue = []
+
+      this.memory.sync(messages)
+
+      const lastMessage = messages[messages.length - 1]
+      if (lastMessage?.role === 'user') {
+        const assessment = await screenMessage(lastMessage.content)
+        if (isRiskDetected(assessment)) {
+          console.log('🛟 Safety concern detected - not generating a reply')
+          callbacks?.onSafetyConcern?.(assessment)
+          return
+        }
+      }
+
+      await this.memory.compressIfNeeded()
+      const contextMessages = this.memory.toChatMessages()
       
       console.log('💬 Using Supabase chat-stream function with voice')
       callbacks?.onStreamStart?.()
 
       console.log('🔗 Fetching:', `${this.supabaseUrl}/functions/v1/chat-stream`)
       console.log('📝 Payload:', JSON.stringify({
-        messages: messages.map(m => ({
-          role: m.role,
-          content: m.content
-        })),
-        voice: 'nova',
-        model: 'gpt-4-turbo-preview'
+        messages: contextMessages,
+        voice: 'nova'
       }, null, 2))
 
       // Add timeout to the fetch request
@@ -210,16 +242,12 @@ export class VoiceChatService {
       const response = await fetch(`${this.supabaseUrl}/functions/v1/chat-stream`, {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.supabaseAnonKey}`,
+          ...await getEdgeFunctionHeaders(),
+          [CHAT_STREAM_VERSION_HEADER]: CHAT_STREAM_VERSION,
         },
         body: JSON.stringify({
-          messages: messages.map(m => ({
-            role: m.role,
-            content: m.content
-          })),
-          voice: 'nova',
-          model: 'gpt-4-turbo-preview'
+          messages: contextMessages,
+          voice: 'nova'
         }),
         signal: this.abortController.signal,
       })
@@ -228,13 +256,28 @@ export class VoiceChatService {
       console.log('📡 Response status:', response.status)
       console.log('📄 Response headers:', Object.fromEntries(response.headers.entries()))
 
-      if (!response.ok) {
+      if (response.status === 404) {
         // Fallback to local service if function not deployed
         console.warn('Supabase chat-stream function not available, using local service')
-        await this.streamChatWithTTS(messages, callbacks)
+        await this.streamChatWithTTS(contextMessages, callbacks)
         return
       }
 
+      const authError = await readAuthError(response)
+      if (authError) {
+        throw authError
+      }
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null)
+        throw new ChatStreamError(body?.code || 'internal_error', body?.message || `chat-stream error ${response.status}`)
+      }
+
+      const version = response.headers.get(CHAT_STREAM_VERSION_HEADER)
+      if (version !== CHAT_STREAM_VERSION) {
+        console.warn('⚠️ chat-stream protocol version', version, 'expected', CHAT_STREAM_VERSION)
+      }
+
       // Process SSE stream with audio
       await this.processAudioStream(response, callbacks)
       
@@ -244,18 +287,21 @@ export class VoiceChatService {
         return
       }
       console.error('Stream error:', error)
-      // Fallback to local service on error
+      if (error instanceof ChatStreamError) {
+        // The function is reachable and refused the request; another backend wouldn't help
+        callbacks?.onError?.(error)
+        return
+      }
+      // Fallback to local service on network errors
       try {
         console.log('🔄 Falling back to local service')
         await localOpenAIService.streamChat(
-          messages.map(m => ({
-            role: m.role,
-            content: m.content
-          })),
+          this.memory.toChatMessages(),
           {
             onToken: callbacks?.onTextToken,
             onComplete: callbacks?.onStreamComplete,
-            onError: callbacks?.onError
+            onError: callbacks?.onError,
+            onSafetyConcern: callbacks?.onSafetyConcern
           }
         )
       } catch (fallbackError) {
@@ -276,7 +322,6 @@ export class VoiceChatService {
 
     const decoder = new TextDecoder()
     let buffer = ''
-    let fullText = ''
 
     try {
       while (true) {
@@ -288,65 +333,56 @@ export class VoiceChatService {
         buffer = lines.pop() || ''
 
         for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6).trim()
-            
-            if (data === '[DONE]') {
-              console.log('🏁 Stream completed. Audio queue length:', this.audioQueue.length)
-              if (this.audioQueue.length > 0) {
-                console.log('🎵 Playing remaining audio chunks')
-                await this.playAudioQueue()
-              } else {
-                console.log('⚠️ No audio chunks received - may need fallback TTS')
-              }
-              callbacks?.onStreamComplete?.()
-              return
-            }
+          if (!line.startsWith('data:')) continue
+
+          let event: ChatStreamEvent
+          try {
+            event = JSON.parse(line.slice(5).trim())
+          } catch {
+            console.warn('Failed to parse SSE data:', line)
+            continue
+          }
 
-            try {
-              const json = JSON.parse(data)
-              
-              if (json.error) {
-                throw new Error(json.error)
-              }
-              
-              // Handle text tokens
-              if (json.type === 'text' && json.content) {
-                fullText += json.content
-                callbacks?.onTextToken?.(json.content)
-              }
-              
-              // Handle audio chunks
-              if (json.type === 'audio' && json.audio) {
-                console.log('🔊 Received audio chunk, format:', json.format, 'length:', json.audio.length)
-                this.audioQueue.push({
-                  audio: json.audio,
-                  format: json.format || 'pcm16'
+          switch (event.type) {
+            case 'delta':
+              callbacks?.onTextToken?.(event.content)
+              break
+
+            case 'tool':
+              if (event.name === 'safety') {
+                // The function's own screening flagged the message
+                callbacks?.onSafetyConcern?.({
+                  level: event.payload.level,
+                  categories: event.payload.categories as RiskCategory[],
+                  matchedRules: event.payload.matchedRules,
+                  source: 'local'
                 })
-                callbacks?.onAudioChunk?.(json.audio)
-                
-                // Start playing audio immediately for TTS (complete audio)
+                return
+              }
+              if (event.name === 'speech') {
+                console.log('🔊 Received speech, format:', event.payload.format, 'length:', event.payload.audio.length)
+                this.audioQueue.push({ audio: event.payload.audio, format: event.payload.format })
+                callbacks?.onAudioChunk?.(event.payload.audio)
                 if (!this.isPlaying) {
-                  console.log('🎵 Starting audio playback, queue length:', this.audioQueue.length)
                   this.playAudioQueue()
                 }
               }
-              
-              // Handle legacy text format (fallback)
-              if (json.content && !json.type) {
-                fullText += json.content
-                callbacks?.onTextToken?.(json.content)
-              }
-            } catch (e) {
-              if (e instanceof SyntaxError) {
-                console.warn('Failed to parse SSE data:', data)
-              } else {
-                throw e
+              break
+
+            case 'error':
+              throw new ChatStreamError(event.code, event.message)
+
+            case 'done':
+              console.log('🏁 Stream completed. Audio queue length:', this.audioQueue.length)
+              if (this.audioQueue.length > 0) {
+                await this.playAudioQueue()
               }
-            }
+              callbacks?.onStreamComplete?.()
+              return
           }
         }
       }
+      throw new ChatStreamError('internal_error', 'chat-stream ended without a done event')
     } finally {
       reader.releaseLock()
     }
@@ -481,7 +517,7 @@ export class VoiceChatService {
   }
 
   private async streamChatWithTTS(
-    messages: VoiceChatMessage[],
+    messages: ChatMessage[],
     callbacks?: VoiceChatCallbacks
   ): Promise<void> {
     console.log('🎵 Using local OpenAI service with ElevenLabs TTS')
@@ -489,10 +525,7 @@ export class VoiceChatService {
     let fullResponse = ''
     
     await localOpenAIService.streamChat(
-      messages.map(m => ({
-        role: m.role,
-        content: m.content
-      })),
+      messages,
       {
         onToken: (token: string) => {
           fullResponse += token
@@ -559,7 +592,8 @@ export class VoiceChatService {
           
           callbacks?.onStreamComplete?.()
         },
-        onError: callbacks?.onError
+        onError: callbacks?.onError,
+        onSafetyConcern: callbacks?.onSafetyConcern
       }
     )
   }
@@ -2,9 +2,11 @@ import * as FileSystem from 'expo-file-system';
 import { Audio } from 'expo-av';
 import { useAudioRecorder, AudioModule } from 'expo-audio';
 import { FlowchartStructure } from '../types/flowchart';
+import { normalizeFlowchart } from './flowchartValidator';
+import { exportFlowchartToOutline } from './flowchartExporters';
+import { callEdgeFunction, getEdgeFunctionHeaders, getEdgeFunctionUrl } from './edgeFunctions';
 import { voiceConversationInstructions } from '../../assets/flowchart/voice_conversation_instructions.js';
 
-const OPENAI_REALTIME_API_KEY = process.env.EXPO_PUBLIC_OPENAI_API_KEY || '';
 const REALTIME_API_URL = 'wss://api.openai.com/v1/realtime';
 
 // Simple Voice Activity Detection using audio amplitude analysis
@@ -132,7 +134,32 @@ export const loadFlowchartTemplate = async (): Promise<any> => {
   }
 };
 
-export const generateVoiceInstructions = async (template: any): Promise<string> => {
+export interface VoiceResumeContext {
+  // Formatted running summary of the earlier conversation
+  summary: string;
+  recentMessages: { role: 'user' | 'assistant'; content: string }[];
+  flowchart: FlowchartStructure | null;
+}
+
+// Instructions for picking up a saved conversation where it left off
+const buildResumeInstructions = (resume: VoiceResumeContext): string => {
+  const sections = [
+    'CONTINUING A PREVIOUS CONVERSATION:',
+    'You have spoken with this person before. Pick up where you left off - do not start over or introduce yourself again. Briefly acknowledge what you talked about last time and invite them to continue.'
+  ];
+  if (resume.summary) {
+    sections.push(resume.summary);
+  }
+  if (resume.recentMessages.length > 0) {
+    sections.push(`Where the conversation stopped:\n${resume.recentMessages.map(message => `${message.role}: ${message.content}`).join('\n')}`);
+  }
+  if (resume.flowchart && resume.flowchart.nodes.length > 0) {
+    sections.push(`Their map so far:\n${exportFlowchartToOutline(resume.flowchart)}`);
+  }
+  return sections.join('\n\n');
+};
+
+export const generateVoiceInstructions = async (template: any, resume?: VoiceResumeContext): Promise<string> => {
   try {
     
     // Parse the voice instructions to extract system instructions
@@ -190,12 +217,13 @@ ${JSON.stringify(template.structure, null, 2)}
 
 ${finalInstructions.trim()}`;
 
-    return voiceInstructions;
+    return resume ? `${voiceInstructions}\n\n${buildResumeInstructions(resume)}` : voiceInstructions;
     
   } catch (error) {
     console.error('❌ Error generating voice instructions:', error);
     // Use system prompt from centralized file as fallback
-    return extractSystemPromptFromCentralFile();
+    const fallback = extractSystemPromptFromCentralFile();
+    return resume ? `${fallback}\n\n${buildResumeInstructions(resume)}` : fallback;
   }
 };
 
@@ -214,6 +242,8 @@ export interface VoiceFlowchartSession {
   startContinuousListening: () => void;
   stopContinuousListening: () => void;
   sendMessage: (message: string) => void;
+  // Stop the reply being generated or played, e.g. when screening flags a message
+  cancelResponse: () => void;
   isConnected: boolean;
   isListening: boolean;
   isPlaying: boolean;
@@ -258,15 +288,16 @@ export const createVoiceFlowchartSession = (
   const session: VoiceFlowchartSession = {
     connect: async () => {
       try {
-        if (!OPENAI_REALTIME_API_KEY) {
-          throw new Error('OpenAI API key not configured');
-        }
+        // A short-lived token from the realtime-session function stands in for the API key
+        const realtimeSession = await callEdgeFunction<{ token: string; model: string }>('realtime-session', {
+          voice: config.voice || 'alloy'
+        });
 
-        const wsUrl = `${REALTIME_API_URL}?model=gpt-4o-realtime-preview-2024-10-01`;
+        const wsUrl = `${REALTIME_API_URL}?model=${encodeURIComponent(realtimeSession.model)}`;
         
         websocket = new WebSocket(wsUrl, [], {
           headers: {
-            'Authorization': `Bearer ${OPENAI_REALTIME_API_KEY}`,
+            'Authorization': `Bearer ${realtimeSession.token}`,
             'OpenAI-Beta': 'realtime=v1'
           }
         });
@@ -275,7 +306,7 @@ export const createVoiceFlowchartSession = (
         const connectionTimeout = setTimeout(() => {
           if (websocket && websocket.readyState === WebSocket.CONNECTING) {
             websocket.close();
-            callbacks.onError?.(new Error('Connection timeout. Please check your internet connection and API key.'));
+            callbacks.onError?.(new Error('Connection timeout. Please check your internet connection.'));
           }
         }, 10000);
 
@@ -334,9 +365,9 @@ export const createVoiceFlowchartSession = (
           if (error.message && error.message.includes('-9806')) {
             errorMessage = 'Network connection error (SSL/TLS issue). Please check your internet connection and try again.';
           } else if (error.message && error.message.includes('401')) {
-            errorMessage = 'Invalid API key. Please check your OpenAI API key configuration.';
+            errorMessage = 'The voice session token was rejected or expired. Please try connecting again.';
           } else if (error.message && error.message.includes('403')) {
-            errorMessage = 'Access denied. Your API key may not have access to the Realtime API.';
+            errorMessage = 'Access denied. The server\'s OpenAI key may not have access to the Realtime API.';
           }
           
           callbacks.onError?.(new Error(errorMessage));
@@ -631,34 +662,17 @@ export const createVoiceFlowchartSession = (
             // First transcribe locally to show user message immediately
             
             try {
-              // Create a temporary file for Whisper API
-              const tempUri = `${FileSystem.documentDirectory}temp_audio_${Date.now()}.wav`;
-              await FileSystem.writeAsStringAsync(tempUri, wavBase64, {
-                encoding: FileSystem.EncodingType.Base64,
-              });
-
-              // Use local transcription
-              const transcriptionResponse = await fetch('https://api.openai.com/v1/audio/transcriptions', {
+              // Whisper runs in the transcribe function, which holds the OpenAI key
+              const transcriptionResponse = await fetch(getEdgeFunctionUrl('transcribe'), {
                 method: 'POST',
-                headers: {
-                  'Authorization': `Bearer ${process.env.EXPO_PUBLIC_OPENAI_API_KEY}`,
-                },
-                body: (() => {
-                  const formData = new FormData();
-                  formData.append('file', {
-                    uri: tempUri,
-                    type: 'audio/wav',
-                    name: 'audio.wav'
-                  } as any);
-                  formData.append('model', 'whisper-1');
-                  formData.append('language', 'en'); // Force English language
-                  return formData;
-                })(),
+                headers: await getEdgeFunctionHeaders(),
+                body: JSON.stringify({
+                  audio: wavBase64,
+                  format: 'wav',
+                  language: 'en', // Force English language
+                }),
               });
 
-              // Clean up temp file
-              await FileSystem.deleteAsync(tempUri, { idempotent: true });
-
               if (transcriptionResponse.ok) {
                 const transcriptionResult = await transcriptionResponse.json();
                 const userText = transcriptionResult.text;
@@ -706,10 +720,10 @@ export const createVoiceFlowchartSession = (
               } else {
                 const errorText = await transcriptionResponse.text();
                 
-                // Check if it's the "audio too short" error
+                // Check if it's the "audio too short" error (the function passes Whisper's error through)
                 try {
                   const errorData = JSON.parse(errorText);
-                  if (errorData.error?.code === 'audio_too_short') {
+                  if (String(errorData.error).includes('audio_too_short')) {
                     // Don't show error to user for very short audio - just ignore it
                     // This handles quick taps or interruption gestures gracefully
                     return;
@@ -718,7 +732,11 @@ export const createVoiceFlowchartSession = (
                   // If we can't parse the error, fall through to general error handling
                 }
                 
-                callbacks.onError?.(new Error(`Transcription failed: ${transcriptionResponse.status}`));
+                callbacks.onError?.(new Error(
+                  transcriptionResponse.status === 429
+                    ? 'You\'re sending messages too quickly. Please wait a moment and try again.'
+                    : `Transcription failed: ${transcriptionResponse.status}`
+                ));
               }
             } catch (transcriptionError) {
               console.error('❌ Local transcription error:', transcriptionError);
@@ -789,6 +807,30 @@ export const createVoiceFlowchartSession = (
       }
     },
 
+    cancelResponse: () => {
+      if (hasActiveResponse && websocket) {
+        websocket.send(JSON.stringify({ type: 'response.cancel' }));
+        hasActiveResponse = false;
+        console.log('🛑 Cancelled active API response');
+      }
+
+      audioQueue = [];
+      allAudioChunks = [];
+      isReceivingAudio = false;
+      isProcessingAudio = false;
+      hasStartedPlayingResponse = false;
+      sentenceChunkBoundaries = [];
+
+      if (currentSound) {
+        const sound = currentSound;
+        currentSound = null;
+        isPlaying = false;
+        sound.stopAsync()
+          .then(() => sound.unloadAsync())
+          .catch(error => console.log('⚠️ Error stopping current sound:', error.message));
+      }
+    },
+
     startContinuousListening: async () => {
       if (!websocket || !isConnected) return;
       
@@ -1422,7 +1464,12 @@ export const createVoiceFlowchartSession = (
         const flowchartData = JSON.parse(jsonMatch[0]);
         
         if (flowchartData.nodes && flowchartData.edges) {
-          callbacks.onFlowchartGenerated?.(flowchartData as FlowchartStructure);
+          const { flowchart, isValid, errors } = normalizeFlowchart(flowchartData);
+          if (isValid) {
+            callbacks.onFlowchartGenerated?.(flowchart);
+          } else {
+            console.log('⚠️ Discarding invalid flowchart from voice response:', errors.map(e => e.message).join(', '));
+          }
         } else {
         }
       } else {
@@ -0,0 +1,138 @@
+import { PartType } from './flowchart';
+
+// Body mapping types: where in the body an emotion is felt
+
+export type BodyView = 'front' | 'back';
+
+export type BodyRegionId =
+  | 'head'
+  | 'throat'
+  | 'neck'
+  | 'shoulders'
+  | 'chest'
+  | 'upper_back'
+  | 'stomach'
+  | 'lower_back'
+  | 'pelvis'
+  | 'left_arm'
+  | 'right_arm'
+  | 'left_hand'
+  | 'right_hand'
+  | 'left_leg'
+  | 'right_leg'
+  | 'left_foot'
+  | 'right_foot';
+
+export type SensationType =
+  | 'tension'
+  | 'pressure'
+  | 'tightness'
+  | 'ache'
+  | 'heaviness'
+  | 'emptiness'
+  | 'tingling'
+  | 'numbness'
+  | 'fluttering'
+  | 'lightness'
+  | 'pulsing'
+  | 'other';
+
+export type SensationTemperature = 'cold' | 'cool' | 'neutral' | 'warm' | 'hot';
+
+// Shapes are in the body diagram's 200 x 400 coordinate space, front view.
+// The back view mirrors them, since the figure is seen from behind
+export type BodyRegionShape =
+  | { kind: 'ellipse'; cx: number; cy: number; rx: number; ry: number }
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; radius: number };
+
+export interface BodyRegion {
+  id: BodyRegionId;
+  label: string;
+  views: BodyView[];
+  shape: BodyRegionShape;
+}
+
+// What a sensation is pinned to: a beliefs row or a flowchart node
+export type BodySensationTarget =
+  | { kind: 'belief'; beliefId: string }
+  | { kind: 'node'; flowchartId: string; nodeId: string };
+
+export interface BodySensation {
+  region: BodyRegionId;
+  view: BodyView;
+  type: SensationType;
+  // 1 (barely there) to 10 (overwhelming)
+  intensity: number;
+  temperature: SensationTemperature;
+  notes?: string | null;
+}
+
+export interface BodySensationRow {
+  id: string;
+  user_id: string;
+  belief_id: string | null;
+  flowchart_id: string | null;
+  node_id: string | null;
+  region: BodyRegionId;
+  body_view: BodyView;
+  sensation_type: SensationType;
+  intensity: number;
+  temperature: SensationTemperature;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface BodySensationInsert {
+  id?: string;
+  user_id: string;
+  belief_id?: string | null;
+  flowchart_id?: string | null;
+  node_id?: string | null;
+  region: BodyRegionId;
+  body_view?: BodyView;
+  sensation_type: SensationType;
+  intensity: number;
+  temperature?: SensationTemperature;
+  notes?: string | null;
+  created_at?: string;
+}
+
+// Sensations in one region, aggregated for the heatmap
+export interface RegionHeat {
+  region: BodyRegionId;
+  count: number;
+  averageIntensity: number;
+  // 0-1, relative to the most active region
+  heat: number;
+  // Most often reported sensation and temperature
+  dominantType: SensationType;
+  dominantTemperature: SensationTemperature;
+}
+
+// What a recurring pattern is about: an emotion label or a kind of part
+export type BodyPatternSubject =
+  | { kind: 'emotion'; label: string }
+  | { kind: 'part'; partType: PartType };
+
+export type BodyPatternTrend = 'new' | 'rising' | 'steady' | 'falling';
+
+// An emotion or part type that keeps being felt in the same body region
+export interface BodyPattern {
+  subject: BodyPatternSubject;
+  region: BodyRegionId;
+  // Entries (beliefs or nodes) of this subject with a sensation in the region
+  occurrences: number;
+  // Entries of this subject with any sensation
+  subjectEntries: number;
+  // occurrences / subjectEntries
+  share: number;
+  averageIntensity: number;
+  dominantType: SensationType;
+  trend: BodyPatternTrend;
+  // Occurrences per month (YYYY-MM), oldest first
+  timeline: { period: string; count: number }[];
+  // 0-1, used to rank patterns
+  strength: number;
+  // Plain-language description for the user
+  explanation: string;
+}
@@ -0,0 +1,34 @@
+// chat-stream SSE protocol, version 2.
+// Mirrors supabase/functions/_shared/chatStreamProtocol.ts - keep both in sync.
+
+export const CHAT_STREAM_VERSION = '2';
+export const CHAT_STREAM_VERSION_HEADER = 'X-Chat-Stream-Version';
+
+export type ChatStreamErrorCode =
+  | 'invalid_request'
+  | 'unsupported_version'
+  | 'method_not_allowed'
+  | 'upstream_error'
+  | 'internal_error'
+  // From the auth middleware
+  | 'unauthorized'
+  | 'rate_limited'
+  | 'service_unavailable';
+
+export interface SpeechToolPayload {
+  audio: string;
+  format: 'mp3';
+}
+
+export interface SafetyToolPayload {
+  level: 'elevated' | 'high';
+  categories: string[];
+  matchedRules: string[];
+}
+
+export type ChatStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'tool'; name: 'speech'; payload: SpeechToolPayload }
+  | { type: 'tool'; name: 'safety'; payload: SafetyToolPayload }
+  | { type: 'error'; code: ChatStreamErrorCode; message: string }
+  | { type: 'done'; text: string };
@@ -0,0 +1,79 @@
+import { PartType } from './flowchart';
+
+// Conversation transcript types
+
+export type ConversationRole = 'user' | 'assistant' | 'system';
+
+export interface SummarizedPart {
+  name: string;
+  type?: PartType;
+  notes: string;
+}
+
+// Running summary of the older part of a conversation (see conversationMemory)
+export interface ConversationSummary {
+  parts: SummarizedPart[];
+  needs: string[];
+  beliefs: string[];
+  // Short narrative of what happened in the folded turns
+  notes: string;
+  turnsSummarized: number;
+}
+
+export interface ConversationRow {
+  id: string;
+  user_id: string;
+  title: string;
+  topic: string | null;
+  flowchart_id: string | null;
+  summary: string | null;
+  summary_state: ConversationSummary | null;
+  message_count: number;
+  started_at: string;
+  last_message_at: string;
+  ended_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ConversationInsert {
+  id?: string;
+  user_id: string;
+  title?: string;
+  topic?: string | null;
+  flowchart_id?: string | null;
+  summary?: string | null;
+  summary_state?: ConversationSummary | null;
+  message_count?: number;
+  started_at?: string;
+  last_message_at?: string;
+  ended_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type ConversationUpdate = Partial<ConversationInsert>;
+
+export interface ConversationMessageRow {
+  id: string;
+  conversation_id: string;
+  user_id: string;
+  role: ConversationRole;
+  content: string;
+  audio_duration_ms: number | null;
+  created_at: string;
+}
+
+export interface ConversationMessageInsert {
+  id?: string;
+  conversation_id: string;
+  user_id: string;
+  role: ConversationRole;
+  content: string;
+  audio_duration_ms?: number | null;
+  created_at?: string;
+}
+
+export interface ConversationWithMessages extends ConversationRow {
+  messages: ConversationMessageRow[];
+}
@@ -0,0 +1,31 @@
+// Emotion space types: beliefs as points in the three slider dimensions
+
+// [feminine-masculine, dark-light, child-parent], each -3 to 3
+export type EmotionVector = [number, number, number];
+
+export type EmotionSpaceFilter = 'active' | 'released' | 'all';
+
+export interface EmotionSpaceRotation {
+  // Radians around the vertical axis
+  yaw: number;
+  // Radians around the horizontal axis
+  pitch: number;
+}
+
+// A point after rotation and perspective, in the chart's pixel space
+export interface ProjectedPoint {
+  x: number;
+  y: number;
+  // Larger is closer to the viewer
+  depth: number;
+  // Perspective scale, used to size markers
+  scale: number;
+}
+
+export interface EmotionCluster {
+  id: number;
+  centroid: EmotionVector;
+  beliefIds: string[];
+  // Plain description of where the centroid sits, e.g. "Light, parent-leaning"
+  label: string;
+}
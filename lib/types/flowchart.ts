@@ -1,10 +1,11 @@
 // Flowchart types for IFS therapy visualization
 
-export type PartType = 'self' | 'manager' | 'firefighter' | 'exile';
+export type PartType = 'self' | 'manager' | 'firefighter' | 'exile' | 'need';
 export type RelationshipType = 'protection' | 'suppression' | 'alliance' | 'conflict' | 'healing';
 
 export interface FlowchartNode {
   id: string;
+  label?: string;
   x: number;
   y: number;
   type: PartType;
@@ -59,6 +60,31 @@ export interface FlowchartUpdate {
   is_default?: boolean;
 }
 
+// Who produced a saved change to a flowchart
+export type FlowchartVersionAuthor = 'user' | 'ai' | 'voice';
+
+export interface FlowchartVersionRow {
+  id: string;
+  flowchart_id: string;
+  user_id: string;
+  version_number: number;
+  structure: FlowchartStructure;
+  author: FlowchartVersionAuthor;
+  description: string | null;
+  created_at: string;
+}
+
+export interface FlowchartVersionInsert {
+  id?: string;
+  flowchart_id: string;
+  user_id: string;
+  version_number?: number;
+  structure: FlowchartStructure;
+  author?: FlowchartVersionAuthor;
+  description?: string | null;
+  created_at?: string;
+}
+
 // ELIMINATED: Default flowchart completely removed to ensure only AI-generated flowcharts are used
 // If you need a fallback, it should be a minimal structure or throw an error to force AI generation
 
@@ -67,7 +93,8 @@ export const PartColors = {
   self: '#4CAF50',      // Green - growth and healing
   manager: '#2196F3',   // Blue - stability and control
   firefighter: '#FF5722', // Red-orange - energy and reaction
-  exile: '#9C27B0'      // Purple - depth and vulnerability
+  exile: '#9C27B0',     // Purple - depth and vulnerability
+  need: '#FFC107'       // Amber - core needs at the center
 } as const;
 
 // Relationship line styles
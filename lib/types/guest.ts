@@ -0,0 +1,56 @@
+import { ConversationRole } from './conversation';
+import { FlowchartStructure } from './flowchart';
+
+// Data kept on the device for users who aren't signed in (lib/services/guestData.ts).
+// Dates are ISO strings, as they come back out of AsyncStorage
+
+// A belief released while signed out: the legacy Emotion shape plus when it was released
+export interface GuestReleasedBelief {
+  id: string;
+  timestamp: string;
+  'feminine-masculine': number;
+  'dark-light': number;
+  'child-parent': number;
+  frequency: number;
+  label?: string;
+  notes?: string;
+  aiConversationSummary?: string;
+  limitingBeliefs?: string;
+  releasedAt: string;
+}
+
+export interface GuestConversationMessage {
+  role: ConversationRole;
+  content: string;
+  audioDurationMs?: number | null;
+  createdAt: string;
+}
+
+export interface GuestConversation {
+  // Local id, only used to group messages on the device
+  id: string;
+  topic: string | null;
+  startedAt: string;
+  messages: GuestConversationMessage[];
+}
+
+export interface GuestFlowchart {
+  name: string;
+  structure: FlowchartStructure;
+  savedAt: string;
+}
+
+export interface GuestMigrationCounts {
+  // Uploaded to the account
+  migrated: number;
+  // Already in the account, so not uploaded again
+  skipped: number;
+  // Left on the device to retry on the next sign-in
+  failed: number;
+}
+
+export interface GuestMigrationResult {
+  beliefs: GuestMigrationCounts;
+  conversations: GuestMigrationCounts;
+  flowcharts: GuestMigrationCounts;
+}
@@ -0,0 +1,75 @@
+import { PartType } from './flowchart';
+import { SafetyAssessment } from './safety';
+
+// Journal types: free-form entries with an optional mood and links to beliefs and parts
+
+// Mood on the three belief axes, each -3 to 3
+export interface JournalMood {
+  'feminine-masculine': number;
+  'dark-light': number;
+  'child-parent': number;
+}
+
+export interface JournalEntryRow {
+  id: string;
+  user_id: string;
+  title: string | null;
+  body: string;
+  prompt: string | null;
+  'feminine-masculine': number | null;
+  'dark-light': number | null;
+  'child-parent': number | null;
+  tags: string[];
+  belief_ids: string[];
+  flowchart_id: string | null;
+  node_ids: string[];
+  reflection: string | null;
+  reflected_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface JournalEntryInsert {
+  id?: string;
+  user_id: string;
+  title?: string | null;
+  body: string;
+  prompt?: string | null;
+  'feminine-masculine'?: number | null;
+  'dark-light'?: number | null;
+  'child-parent'?: number | null;
+  tags?: string[];
+  belief_ids?: string[];
+  flowchart_id?: string | null;
+  node_ids?: string[];
+  reflection?: string | null;
+  reflected_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// What the compose screen edits
+export interface JournalDraft {
+  title?: string | null;
+  body: string;
+  prompt?: string | null;
+  mood?: JournalMood | null;
+  tags?: string[];
+  beliefIds?: string[];
+  flowchartId?: string | null;
+  nodeIds?: string[];
+}
+
+// A part or need the reflection thinks belongs on the map
+export interface JournalPartSuggestion {
+  type: PartType;
+  label: string;
+  description?: string;
+  // Why the entry suggests it, in the user's terms
+  reason: string;
+}
+
+// "Reflect on this": either a reflection, or the safety concern that stopped it
+export type JournalReflectionResult =
+  | { kind: 'reflection'; reflection: string; suggestions: JournalPartSuggestion[]; entry: JournalEntryRow }
+  | { kind: 'safety'; assessment: SafetyAssessment };
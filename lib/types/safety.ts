@@ -0,0 +1,48 @@
+// Crisis screening types
+
+export type RiskLevel = 'none' | 'elevated' | 'high';
+
+export type RiskCategory = 'suicide' | 'self_harm' | 'harm_to_others' | 'abuse';
+
+// Which tier produced an assessment
+export type SafetySource = 'local' | 'model';
+
+export type SafetyChannel = 'voice' | 'text';
+
+export type SafetyUserAction = 'continued' | 'ended' | 'contacted_resource';
+
+export interface SafetyAssessment {
+  level: RiskLevel;
+  categories: RiskCategory[];
+  // Ids of the local rules that matched, for auditing without the message text
+  matchedRules: string[];
+  source: SafetySource;
+}
+
+export interface SafetyEventRow {
+  id: string;
+  user_id: string;
+  conversation_id: string | null;
+  risk_level: Exclude<RiskLevel, 'none'>;
+  categories: RiskCategory[];
+  matched_rules: string[];
+  source: SafetySource;
+  channel: SafetyChannel;
+  region: string | null;
+  user_action: SafetyUserAction | null;
+  created_at: string;
+}
+
+export interface SafetyEventInsert {
+  id?: string;
+  user_id: string;
+  conversation_id?: string | null;
+  risk_level: Exclude<RiskLevel, 'none'>;
+  categories?: RiskCategory[];
+  matched_rules?: string[];
+  source: SafetySource;
+  channel: SafetyChannel;
+  region?: string | null;
+  user_action?: SafetyUserAction | null;
+  created_at?: string;
+}
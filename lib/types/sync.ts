@@ -0,0 +1,46 @@
+import { FlowchartVersionAuthor } from './flowchart';
+
+// Tables whose writes go through the offline queue (lib/services/offlineQueue.ts)
+export type SyncTable = 'beliefs' | 'flowcharts';
+
+export type MutationKind = 'insert' | 'update' | 'delete';
+
+export interface QueuedMutation {
+  // Idempotency key. Replaying a mutation that already reached the server is a no-op
+  id: string;
+  table: SyncTable;
+  kind: MutationKind;
+  rowId: string;
+  // Full row for inserts, changed columns for updates, empty for deletes
+  values: Record<string, any>;
+  // The row's server timestamp (updated_at / last_updated) as last read, which
+  // the change was based on; null when the row wasn't known. A different
+  // timestamp on the server means the row changed elsewhere in the meantime
+  baseUpdatedAt: string | null;
+  // When the change was made, by this device's clock. Informational only;
+  // conflicts compare server timestamps
+  queuedAt: string;
+  attempts: number;
+  lastError: string | null;
+  // Flowchart structure changes: the version history entry to record once applied
+  version?: { author?: FlowchartVersionAuthor; description?: string };
+}
+
+// How the app hears about server changes
+export type SyncChannel = 'connecting' | 'realtime' | 'polling' | 'disconnected';
+
+export interface SyncStatus {
+  online: boolean;
+  channel: SyncChannel;
+  // Local changes waiting to reach the server
+  pendingCount: number;
+  isSyncing: boolean;
+  // Local changes dropped because the server copy was newer, and not already
+  // reported to the code that made them
+  conflictCount: number;
+  // Local changes dropped because the server refused them, and not already
+  // reported to the code that made them
+  rejectedCount: number;
+  lastSyncedAt: string | null;
+  lastError: string | null;
+}
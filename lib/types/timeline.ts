@@ -0,0 +1,51 @@
+import { PartType } from './flowchart';
+
+// Timeline types: beliefs and part activity over time
+
+export type TimelineBucket = 'day' | 'week' | 'month';
+
+// Values charted for each belief
+export type TimelineMetric = 'feminine-masculine' | 'dark-light' | 'child-parent' | 'frequency';
+
+// One belief, placed at the period it was recorded in
+export interface TimelinePoint {
+  beliefId: string;
+  label: string;
+  period: string;
+  createdAt: string;
+  values: Record<TimelineMetric, number>;
+}
+
+export interface TimelinePeriod {
+  // Local start date of the bucket (YYYY-MM-DD)
+  period: string;
+  beliefIds: string[];
+  // Averages over the beliefs recorded in the period, null when there are none
+  averages: Record<TimelineMetric, number> | null;
+  releases: number;
+}
+
+export interface ReleaseEvent {
+  beliefId: string;
+  label: string;
+  releasedAt: string;
+  period: string;
+}
+
+export interface EmotionTimeline {
+  // Every period from the first belief or release to the last, empty ones included
+  periods: TimelinePeriod[];
+  points: TimelinePoint[];
+  releases: ReleaseEvent[];
+}
+
+// How often a map node comes up in what the user says
+export interface NodeMentionStat {
+  nodeId: string;
+  label: string;
+  type: PartType;
+  mentions: number;
+  conversations: number;
+  // Mentions per period, oldest first; periods without mentions are left out
+  timeline: { period: string; count: number }[];
+}
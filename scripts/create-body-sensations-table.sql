@@ -0,0 +1,81 @@
+-- Create body_sensations table recording where in the body an emotion is felt
+-- Run this in your Supabase SQL editor after create-flowcharts-table.sql
+--
+-- Each sensation is pinned to a body region for either a beliefs row or a
+-- node in a flowchart (nodes are identified by their id inside the structure).
+
+CREATE TABLE IF NOT EXISTS body_sensations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  belief_id UUID REFERENCES beliefs(id) ON DELETE CASCADE,
+  flowchart_id UUID REFERENCES flowcharts(id) ON DELETE CASCADE,
+  node_id TEXT,
+  -- Region ids are defined in lib/services/bodyRegions.ts
+  region TEXT NOT NULL,
+  body_view TEXT NOT NULL DEFAULT 'front' CHECK (body_view IN ('front', 'back')),
+  sensation_type TEXT NOT NULL CHECK (sensation_type IN (
+    'tension', 'pressure', 'tightness', 'ache', 'heaviness', 'emptiness',
+    'tingling', 'numbness', 'fluttering', 'lightness', 'pulsing', 'other'
+  )),
+  intensity INTEGER NOT NULL CHECK (intensity BETWEEN 1 AND 10),
+  temperature TEXT NOT NULL DEFAULT 'neutral' CHECK (temperature IN ('cold', 'cool', 'neutral', 'warm', 'hot')),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- Pinned to a belief, or to a node of a flowchart
+  CHECK (belief_id IS NOT NULL OR (flowchart_id IS NOT NULL AND node_id IS NOT NULL))
+);
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE body_sensations ENABLE ROW LEVEL SECURITY;
+
+-- Every policy is dropped first so re-running the script updates them
+
+-- Policy: Users can only see their own sensations
+DROP POLICY IF EXISTS "Users can view own body sensations" ON body_sensations;
+CREATE POLICY "Users can view own body sensations" ON body_sensations
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Policy: Users can insert sensations for their own beliefs and maps
+DROP POLICY IF EXISTS "Users can insert own body sensations" ON body_sensations;
+CREATE POLICY "Users can insert own body sensations" ON body_sensations
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND (belief_id IS NULL OR EXISTS (
+      SELECT 1 FROM beliefs
+      WHERE beliefs.id = belief_id AND beliefs.user_id = auth.uid()
+    ))
+    AND (flowchart_id IS NULL OR EXISTS (
+      SELECT 1 FROM flowcharts
+      WHERE flowcharts.id = flowchart_id AND flowcharts.user_id = auth.uid()
+    ))
+  );
+
+-- Policy: Users can update their own sensations, without moving them onto
+-- someone else's belief or map
+DROP POLICY IF EXISTS "Users can update own body sensations" ON body_sensations;
+CREATE POLICY "Users can update own body sensations" ON body_sensations
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (belief_id IS NULL OR EXISTS (
+      SELECT 1 FROM beliefs
+      WHERE beliefs.id = belief_id AND beliefs.user_id = auth.uid()
+    ))
+    AND (flowchart_id IS NULL OR EXISTS (
+      SELECT 1 FROM flowcharts
+      WHERE flowcharts.id = flowchart_id AND flowcharts.user_id = auth.uid()
+    ))
+  );
+
+-- Policy: Users can delete their own sensations
+DROP POLICY IF EXISTS "Users can delete own body sensations" ON body_sensations;
+CREATE POLICY "Users can delete own body sensations" ON body_sensations
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Create indexes for loading one entry's sensations and the heatmap
+CREATE INDEX IF NOT EXISTS body_sensations_belief_idx
+  ON body_sensations(belief_id) WHERE belief_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS body_sensations_node_idx
+  ON body_sensations(flowchart_id, node_id) WHERE flowchart_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS body_sensations_user_created_idx
+  ON body_sensations(user_id, created_at DESC);
@@ -0,0 +1,105 @@
+-- Create conversations and conversation_messages tables for saved transcripts
+-- Run this in your Supabase SQL editor after create-flowcharts-table.sql
+
+CREATE TABLE IF NOT EXISTS conversations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL DEFAULT 'Conversation',
+  topic TEXT,
+  flowchart_id UUID REFERENCES flowcharts(id) ON DELETE SET NULL,
+  summary TEXT,
+  summary_state JSONB,
+  message_count INTEGER NOT NULL DEFAULT 0,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_message_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  ended_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS conversation_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id UUID REFERENCES conversations(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant', 'system')),
+  content TEXT NOT NULL,
+  audio_duration_ms INTEGER CHECK (audio_duration_ms IS NULL OR audio_duration_ms >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Added after the first release of this script
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS summary_state JSONB;
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversation_messages ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can only see their own conversations
+CREATE POLICY "Users can view own conversations" ON conversations
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Policy: Users can insert their own conversations
+CREATE POLICY "Users can insert own conversations" ON conversations
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Policy: Users can update their own conversations
+CREATE POLICY "Users can update own conversations" ON conversations
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Policy: Users can delete their own conversations
+CREATE POLICY "Users can delete own conversations" ON conversations
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Policy: Users can only see messages of their own conversations
+CREATE POLICY "Users can view own conversation messages" ON conversation_messages
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Policy: Users can append messages to their own conversations
+CREATE POLICY "Users can insert own conversation messages" ON conversation_messages
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM conversations
+      WHERE conversations.id = conversation_id AND conversations.user_id = auth.uid()
+    )
+  );
+
+-- Transcripts are append-only: no UPDATE policy is defined
+
+-- Policy: Users can delete messages of their own conversations
+CREATE POLICY "Users can delete own conversation messages" ON conversation_messages
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Create indexes for the history list and for loading a transcript in order
+CREATE INDEX IF NOT EXISTS conversations_user_last_message_idx
+ON conversations(user_id, last_message_at DESC);
+
+CREATE INDEX IF NOT EXISTS conversation_messages_conversation_idx
+ON conversation_messages(conversation_id, created_at);
+
+-- Keep the conversation's message count and last activity current
+CREATE OR REPLACE FUNCTION touch_conversation_on_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE conversations
+  SET message_count = message_count + 1,
+      last_message_at = GREATEST(last_message_at, NEW.created_at),
+      updated_at = NOW()
+  WHERE id = NEW.conversation_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS touch_conversation_after_message ON conversation_messages;
+CREATE TRIGGER touch_conversation_after_message
+  AFTER INSERT ON conversation_messages
+  FOR EACH ROW EXECUTE FUNCTION touch_conversation_on_message();
+
+-- Add comments for documentation
+COMMENT ON TABLE conversations IS 'A voice or text session with the guide';
+COMMENT ON COLUMN conversations.topic IS 'What the session was started about: emotion, need, belief or part';
+COMMENT ON COLUMN conversations.flowchart_id IS 'Map the conversation was saved into, if any';
+COMMENT ON COLUMN conversations.summary IS 'Running summary of the conversation as prompt text';
+COMMENT ON COLUMN conversations.summary_state IS 'Structured running summary and how many messages it covers, used when resuming';
+COMMENT ON TABLE conversation_messages IS 'One message of a conversation transcript';
+COMMENT ON COLUMN conversation_messages.audio_duration_ms IS 'Length of the recorded audio for spoken messages';
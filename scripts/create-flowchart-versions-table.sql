@@ -0,0 +1,71 @@
+-- Create flowchart_versions table for flowchart version history
+-- Run this in your Supabase SQL editor after create-flowcharts-table.sql
+
+CREATE TABLE IF NOT EXISTS flowchart_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  flowchart_id UUID REFERENCES flowcharts(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  version_number INTEGER NOT NULL,
+  structure JSONB NOT NULL,
+  author TEXT NOT NULL DEFAULT 'user' CHECK (author IN ('user', 'ai', 'voice')),
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE (flowchart_id, version_number)
+);
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE flowchart_versions ENABLE ROW LEVEL SECURITY;
+
+-- Every policy is dropped first so re-running the script updates them
+
+-- Policy: Users can only see versions of their own flowcharts
+DROP POLICY IF EXISTS "Users can view own flowchart versions" ON flowchart_versions;
+CREATE POLICY "Users can view own flowchart versions" ON flowchart_versions
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Policy: Users can insert versions of their own flowcharts, and only of
+-- flowcharts they own
+DROP POLICY IF EXISTS "Users can insert own flowchart versions" ON flowchart_versions;
+CREATE POLICY "Users can insert own flowchart versions" ON flowchart_versions
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM flowcharts f WHERE f.id = flowchart_id AND f.user_id = auth.uid())
+  );
+
+-- Versions are an append-only history: no UPDATE policy is defined
+
+-- Policy: Users can delete versions of their own flowcharts
+DROP POLICY IF EXISTS "Users can delete own flowchart versions" ON flowchart_versions;
+CREATE POLICY "Users can delete own flowchart versions" ON flowchart_versions
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Create index for listing a flowchart's history newest first
+CREATE INDEX IF NOT EXISTS flowchart_versions_flowchart_idx
+ON flowchart_versions(flowchart_id, version_number DESC);
+
+-- Assign the next version number per flowchart on insert. Locking the parent
+-- flowchart row makes concurrent inserts for the same flowchart take turns,
+-- so two saves can't both read the same MAX and collide on the UNIQUE constraint
+CREATE OR REPLACE FUNCTION assign_flowchart_version_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM 1 FROM flowcharts WHERE id = NEW.flowchart_id FOR UPDATE;
+
+  SELECT COALESCE(MAX(version_number), 0) + 1
+  INTO NEW.version_number
+  FROM flowchart_versions
+  WHERE flowchart_id = NEW.flowchart_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_flowchart_version_number ON flowchart_versions;
+CREATE TRIGGER set_flowchart_version_number
+  BEFORE INSERT ON flowchart_versions
+  FOR EACH ROW EXECUTE FUNCTION assign_flowchart_version_number();
+
+-- Add comments for documentation
+COMMENT ON TABLE flowchart_versions IS 'Snapshot of a flowchart structure taken on every save that changes more than node positions';
+COMMENT ON COLUMN flowchart_versions.author IS 'Who produced the change: user (manual edit), ai (generation) or voice (conversation)';
+COMMENT ON COLUMN flowchart_versions.description IS 'Human-readable change description passed to updateFlowchartWithDescription';
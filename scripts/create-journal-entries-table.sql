@@ -0,0 +1,70 @@
+-- Create journal_entries table for free-form journaling
+-- Run this in your Supabase SQL editor after create-flowcharts-table.sql
+--
+-- An entry can carry a mood on the same three axes as beliefs, tags, and links
+-- to beliefs and to parts (node ids inside one flowchart's structure).
+
+CREATE TABLE IF NOT EXISTS journal_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  title TEXT,
+  body TEXT NOT NULL,
+  -- The writing prompt the entry answers, if one was used
+  prompt TEXT,
+  -- Mood, -3 to 3 like the beliefs columns; all three or none
+  "feminine-masculine" INTEGER CHECK ("feminine-masculine" BETWEEN -3 AND 3),
+  "dark-light" INTEGER CHECK ("dark-light" BETWEEN -3 AND 3),
+  "child-parent" INTEGER CHECK ("child-parent" BETWEEN -3 AND 3),
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  belief_ids UUID[] NOT NULL DEFAULT '{}',
+  flowchart_id UUID REFERENCES flowcharts(id) ON DELETE SET NULL,
+  node_ids TEXT[] NOT NULL DEFAULT '{}',
+  -- Latest "reflect on this" answer
+  reflection TEXT,
+  reflected_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (
+    ("feminine-masculine" IS NULL AND "dark-light" IS NULL AND "child-parent" IS NULL) OR
+    ("feminine-masculine" IS NOT NULL AND "dark-light" IS NOT NULL AND "child-parent" IS NOT NULL)
+  )
+);
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE journal_entries ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can only see their own entries
+CREATE POLICY "Users can view own journal entries" ON journal_entries
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Policy: Users can insert their own entries
+CREATE POLICY "Users can insert own journal entries" ON journal_entries
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Policy: Users can update their own entries
+CREATE POLICY "Users can update own journal entries" ON journal_entries
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Policy: Users can delete their own entries
+CREATE POLICY "Users can delete own journal entries" ON journal_entries
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Create indexes for the journal list and filtering by tag
+CREATE INDEX IF NOT EXISTS journal_entries_user_created_idx
+  ON journal_entries(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS journal_entries_tags_idx
+  ON journal_entries USING GIN (tags);
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION update_journal_entries_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS journal_entries_updated_at ON journal_entries;
+CREATE TRIGGER journal_entries_updated_at
+  BEFORE UPDATE ON journal_entries
+  FOR EACH ROW EXECUTE FUNCTION update_journal_entries_updated_at();
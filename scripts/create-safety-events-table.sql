@@ -0,0 +1,39 @@
+-- Create safety_events table recording when crisis screening flagged a message
+-- Run this in your Supabase SQL editor after create-conversations-tables.sql
+--
+-- Only the outcome is stored (risk level, categories, matched rule ids), never
+-- the message itself.
+
+CREATE TABLE IF NOT EXISTS safety_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  conversation_id UUID REFERENCES conversations(id) ON DELETE SET NULL,
+  risk_level TEXT NOT NULL CHECK (risk_level IN ('elevated', 'high')),
+  categories TEXT[] NOT NULL DEFAULT '{}',
+  matched_rules TEXT[] NOT NULL DEFAULT '{}',
+  source TEXT NOT NULL CHECK (source IN ('local', 'model')),
+  channel TEXT NOT NULL CHECK (channel IN ('voice', 'text')),
+  region TEXT,
+  -- What the user chose on the crisis resources screen
+  user_action TEXT CHECK (user_action IS NULL OR user_action IN ('continued', 'ended', 'contacted_resource')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE safety_events ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can only see their own safety events
+CREATE POLICY "Users can view own safety events" ON safety_events
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Policy: Users can insert their own safety events
+CREATE POLICY "Users can insert own safety events" ON safety_events
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Policy: Users can record what they chose after an event
+CREATE POLICY "Users can update own safety events" ON safety_events
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Create index for reviewing a user's events over time
+CREATE INDEX IF NOT EXISTS safety_events_user_created_idx
+  ON safety_events(user_id, created_at DESC);
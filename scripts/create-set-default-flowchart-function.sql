@@ -0,0 +1,32 @@
+-- Create set_default_flowchart function for switching the user's default map
+-- Run this in your Supabase SQL editor after create-flowcharts-table.sql
+
+-- Clearing the old default and setting the new one from the client takes two
+-- requests, and a failure in between leaves the user without a default.
+-- Running both updates inside one function makes the switch atomic.
+-- flowcharts_user_default_idx is checked row by row, so the old default has to
+-- be cleared before the new one is set.
+CREATE OR REPLACE FUNCTION set_default_flowchart(target_id UUID)
+RETURNS SETOF flowcharts AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM flowcharts WHERE id = target_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Flowchart % not found', target_id USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE flowcharts
+  SET is_default = FALSE
+  WHERE user_id = auth.uid() AND is_default = TRUE AND id <> target_id;
+
+  RETURN QUERY
+  UPDATE flowcharts
+  SET is_default = TRUE
+  WHERE id = target_id AND user_id = auth.uid()
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION set_default_flowchart(UUID) TO authenticated;
+
+COMMENT ON FUNCTION set_default_flowchart(UUID) IS 'Atomically make one of the calling user''s flowcharts the default';
@@ -0,0 +1,73 @@
+-- Create usage_counters table and consume_usage_tokens function for rate limiting
+-- Run this in your Supabase SQL editor
+--
+-- Edge functions rate-limit each user with a token bucket per bucket name
+-- (e.g. 'chat', 'transcribe'). Buckets refill continuously up to capacity and
+-- every request spends one token. Only the service role (edge functions) can
+-- spend tokens; users can read their own counters.
+
+CREATE TABLE IF NOT EXISTS usage_counters (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  bucket TEXT NOT NULL,
+  tokens DOUBLE PRECISION NOT NULL CHECK (tokens >= 0),
+  request_count BIGINT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (user_id, bucket)
+);
+
+-- Add RLS (Row Level Security) policies
+ALTER TABLE usage_counters ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can see their own usage
+CREATE POLICY "Users can view own usage counters" ON usage_counters
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- No INSERT/UPDATE/DELETE policies: only consume_usage_tokens writes counters
+
+-- Refill the bucket for the time since its last use, then spend p_cost tokens
+-- if there are enough. The row lock makes concurrent requests from one user
+-- take turns, so a burst can't overspend.
+CREATE OR REPLACE FUNCTION consume_usage_tokens(
+  p_user_id UUID,
+  p_bucket TEXT,
+  p_capacity DOUBLE PRECISION,
+  p_refill_per_second DOUBLE PRECISION,
+  p_cost DOUBLE PRECISION DEFAULT 1
+)
+RETURNS TABLE (allowed BOOLEAN, remaining DOUBLE PRECISION, retry_after_seconds INTEGER) AS $$
+DECLARE
+  v_now TIMESTAMP WITH TIME ZONE := clock_timestamp();
+  v_tokens DOUBLE PRECISION;
+  v_updated_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  INSERT INTO usage_counters (user_id, bucket, tokens, updated_at)
+  VALUES (p_user_id, p_bucket, p_capacity, v_now)
+  ON CONFLICT (user_id, bucket) DO NOTHING;
+
+  SELECT tokens, updated_at INTO v_tokens, v_updated_at
+  FROM usage_counters
+  WHERE user_id = p_user_id AND bucket = p_bucket
+  FOR UPDATE;
+
+  v_tokens := LEAST(p_capacity, v_tokens + EXTRACT(EPOCH FROM (v_now - v_updated_at)) * p_refill_per_second);
+
+  IF v_tokens >= p_cost THEN
+    UPDATE usage_counters
+    SET tokens = v_tokens - p_cost, request_count = request_count + 1, updated_at = v_now
+    WHERE user_id = p_user_id AND bucket = p_bucket;
+
+    RETURN QUERY SELECT TRUE, v_tokens - p_cost, 0;
+  ELSE
+    UPDATE usage_counters
+    SET tokens = v_tokens, updated_at = v_now
+    WHERE user_id = p_user_id AND bucket = p_bucket;
+
+    RETURN QUERY SELECT FALSE, v_tokens, CEIL((p_cost - v_tokens) / p_refill_per_second)::INTEGER;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION consume_usage_tokens(UUID, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_usage_tokens(UUID, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO service_role;
+
+COMMENT ON FUNCTION consume_usage_tokens(UUID, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) IS 'Spend tokens from a user''s rate-limit bucket; used by edge functions';
@@ -0,0 +1,159 @@
+// Shared request middleware for edge functions: CORS preflight, Supabase JWT
+// verification and per-user rate limiting.
+//
+//   SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY   provided by Supabase
+//   ALLOWED_ORIGINS   comma-separated browser origins allowed by CORS
+//                     (defaults to any; native clients send no Origin)
+//
+// Rate limits are token buckets in the usage_counters table, spent through
+// the consume_usage_tokens function (scripts/create-usage-counters-table.sql).
+
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2"
+
+export interface AuthContext {
+  userId: string
+  token: string
+}
+
+export interface RateLimit {
+  // usage_counters bucket, shared by every function that names it
+  bucket: string
+  // Requests allowed in a burst
+  capacity: number
+  // Sustained requests per minute
+  refillPerMinute: number
+}
+
+export type AuthErrorCode = 'unauthorized' | 'rate_limited' | 'service_unavailable'
+
+interface MiddlewareOptions {
+  rateLimit?: RateLimit
+  // Extra headers for every response, including preflight and errors
+  headers?: Record<string, string>
+}
+
+let adminClient: SupabaseClient | null = null
+
+const getAdminClient = (): SupabaseClient => {
+  if (!adminClient) {
+    const url = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    if (!url || !serviceRoleKey) {
+      throw new Error('Supabase service credentials not configured')
+    }
+    adminClient = createClient(url, serviceRoleKey, { auth: { persistSession: false } })
+  }
+  return adminClient
+}
+
+export const getCorsHeaders = (req: Request): Record<string, string> => {
+  const allowed = (Deno.env.get('ALLOWED_ORIGINS') || '').split(',').map((origin: string) => origin.trim()).filter(Boolean)
+  const origin = req.headers.get('Origin')
+  return {
+    'Access-Control-Allow-Origin': allowed.length === 0 ? '*' : (origin && allowed.includes(origin) ? origin : allowed[0]),
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Vary': 'Origin',
+  }
+}
+
+const jsonError = (
+  code: AuthErrorCode,
+  message: string,
+  status: number,
+  headers: Record<string, string>,
+  extra: Record<string, unknown> = {}
+) =>
+  new Response(
+    JSON.stringify({ type: 'error', code, message, ...extra }),
+    { status, headers: { ...headers, 'Content-Type': 'application/json' } }
+  )
+
+// The user behind the request's bearer token, or null if it isn't a valid session
+const verifyToken = async (req: Request): Promise<AuthContext | null> => {
+  const token = req.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1]
+  if (!token) return null
+
+  const { data, error } = await getAdminClient().auth.getUser(token)
+  if (error || !data.user) return null
+  return { userId: data.user.id, token }
+}
+
+// Spend one request from the user's bucket. Returns seconds to wait when it's
+// empty; throws when the bucket can't be checked
+const consumeRateLimit = async (userId: string, limit: RateLimit): Promise<number | null> => {
+  const { data, error } = await getAdminClient().rpc('consume_usage_tokens', {
+    p_user_id: userId,
+    p_bucket: limit.bucket,
+    p_capacity: limit.capacity,
+    p_refill_per_second: limit.refillPerMinute / 60,
+  })
+
+  if (error) {
+    throw error
+  }
+
+  const result = Array.isArray(data) ? data[0] : data
+  return result && !result.allowed ? Math.max(1, result.retry_after_seconds) : null
+}
+
+/**
+ * Wrap a handler so it only runs for signed-in users within their rate limit.
+ * Rejections are JSON errors: 401 `unauthorized`, 429 `rate_limited` (with a
+ * Retry-After header and `retryAfterSeconds`), and 503 `service_unavailable`
+ * when the rate limit can't be checked. That fails closed: an unmetered
+ * request would still reach the paid providers.
+ */
+export const withAuth = (
+  handler: (req: Request, auth: AuthContext) => Promise<Response>,
+  options: MiddlewareOptions = {}
+) => async (req: Request): Promise<Response> => {
+  const headers = { ...getCorsHeaders(req), ...options.headers }
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers })
+  }
+
+  let auth: AuthContext | null
+  try {
+    auth = await verifyToken(req)
+  } catch (error) {
+    console.error('Auth error:', error)
+    auth = null
+  }
+  if (!auth) {
+    return jsonError('unauthorized', 'Sign in to use this feature', 401, headers)
+  }
+
+  if (options.rateLimit) {
+    let retryAfterSeconds: number | null
+    try {
+      retryAfterSeconds = await consumeRateLimit(auth.userId, options.rateLimit)
+    } catch (error) {
+      console.error('❌ Rate limit check failed, rejecting request:', error)
+      return jsonError(
+        'service_unavailable',
+        'This feature is temporarily unavailable. Please try again shortly.',
+        503,
+        headers
+      )
+    }
+    if (retryAfterSeconds !== null) {
+      console.log('🚦 Rate limited', auth.userId, options.rateLimit.bucket, `retry in ${retryAfterSeconds}s`)
+      return jsonError(
+        'rate_limited',
+        `Too many requests. Try again in ${retryAfterSeconds} seconds.`,
+        429,
+        { ...headers, 'Retry-After': String(retryAfterSeconds) },
+        { retryAfterSeconds }
+      )
+    }
+  }
+
+  const response = await handler(req, auth)
+  Object.entries(headers).forEach(([name, value]) => {
+    if (!response.headers.has(name)) {
+      response.headers.set(name, value)
+    }
+  })
+  return response
+}
@@ -0,0 +1,126 @@
+// chat-stream SSE protocol, version 2.
+// The app mirrors these types in lib/types/chatStream.ts - keep both in sync.
+//
+// Every event is one SSE message with a named event and a JSON payload whose
+// `type` repeats the event name:
+//
+//   event: delta   {"type":"delta","content":"Hel"}
+//   event: tool    {"type":"tool","name":"speech","payload":{"audio":"<base64>","format":"mp3"}}
+//   event: tool    {"type":"tool","name":"safety","payload":{"level":"high","categories":["suicide"],"matchedRules":[...]}}
+//   event: error   {"type":"error","code":"upstream_error","message":"..."}
+//   event: done    {"type":"done","text":"<full response>"}
+//
+// A stream ends with exactly one `done` or `error` event.
+
+export const CHAT_STREAM_VERSION = '2'
+export const CHAT_STREAM_VERSION_HEADER = 'X-Chat-Stream-Version'
+
+export type ChatRole = 'system' | 'user' | 'assistant'
+export type Voice = 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer'
+
+export interface ChatStreamRequest {
+  messages: { role: ChatRole; content: string }[]
+  // Also speak the reply with OpenAI TTS
+  voice?: Voice
+  temperature?: number
+  max_tokens?: number
+}
+
+export type ChatStreamErrorCode =
+  | 'invalid_request'
+  | 'unsupported_version'
+  | 'method_not_allowed'
+  | 'upstream_error'
+  | 'internal_error'
+  // From the auth middleware
+  | 'unauthorized'
+  | 'rate_limited'
+  | 'service_unavailable'
+
+export interface SpeechToolPayload {
+  audio: string
+  format: 'mp3'
+}
+
+export interface SafetyToolPayload {
+  level: 'elevated' | 'high'
+  categories: string[]
+  matchedRules: string[]
+}
+
+export type ChatStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'tool'; name: 'speech'; payload: SpeechToolPayload }
+  | { type: 'tool'; name: 'safety'; payload: SafetyToolPayload }
+  | { type: 'error'; code: ChatStreamErrorCode; message: string }
+  | { type: 'done'; text: string }
+
+const encoder = new TextEncoder()
+
+export const encodeEvent = (event: ChatStreamEvent): Uint8Array =>
+  encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+
+const ROLES: ChatRole[] = ['system', 'user', 'assistant']
+const VOICES: Voice[] = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer']
+const MAX_MESSAGES = 100
+const MAX_CONTENT_LENGTH = 20000
+const MAX_TOKENS_LIMIT = 4000
+
+export class ChatStreamRequestError extends Error {
+  constructor(message: string, readonly code: ChatStreamErrorCode = 'invalid_request', readonly status = 400) {
+    super(message)
+    this.name = 'ChatStreamRequestError'
+  }
+}
+
+/**
+ * Check a parsed request body, throwing ChatStreamRequestError with the first
+ * problem found.
+ */
+export const validateChatStreamRequest = (body: unknown): ChatStreamRequest => {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new ChatStreamRequestError('Request body must be a JSON object')
+  }
+  const { messages, voice, temperature, max_tokens } = body as Record<string, unknown>
+
+  if (!Array.isArray(messages) || messages.length === 0) {
+    throw new ChatStreamRequestError('messages must be a non-empty array')
+  }
+  if (messages.length > MAX_MESSAGES) {
+    throw new ChatStreamRequestError(`messages can't have more than ${MAX_MESSAGES} entries`)
+  }
+  messages.forEach((message, index) => {
+    if (!message || typeof message !== 'object') {
+      throw new ChatStreamRequestError(`messages[${index}] must be an object`)
+    }
+    if (!ROLES.includes(message.role)) {
+      throw new ChatStreamRequestError(`messages[${index}].role must be one of ${ROLES.join(', ')}`)
+    }
+    if (typeof message.content !== 'string') {
+      throw new ChatStreamRequestError(`messages[${index}].content must be a string`)
+    }
+    if (message.content.length > MAX_CONTENT_LENGTH) {
+      throw new ChatStreamRequestError(`messages[${index}].content is longer than ${MAX_CONTENT_LENGTH} characters`)
+    }
+  })
+  if (!messages.some(message => message.role === 'user')) {
+    throw new ChatStreamRequestError('messages must include a user message')
+  }
+
+  if (voice !== undefined && !VOICES.includes(voice as Voice)) {
+    throw new ChatStreamRequestError(`voice must be one of ${VOICES.join(', ')}`)
+  }
+  if (temperature !== undefined && (typeof temperature !== 'number' || temperature < 0 || temperature > 2)) {
+    throw new ChatStreamRequestError('temperature must be a number between 0 and 2')
+  }
+  if (max_tokens !== undefined && (!Number.isInteger(max_tokens) || (max_tokens as number) < 1 || (max_tokens as number) > MAX_TOKENS_LIMIT)) {
+    throw new ChatStreamRequestError(`max_tokens must be an integer between 1 and ${MAX_TOKENS_LIMIT}`)
+  }
+
+  return {
+    messages: messages.map(message => ({ role: message.role, content: message.content })),
+    voice: voice as Voice | undefined,
+    temperature: temperature as number | undefined,
+    max_tokens: max_tokens as number | undefined,
+  }
+}
@@ -0,0 +1,298 @@
+// Provider-agnostic chat for edge functions.
+// Mirrors lib/services/llmClient.ts on the app side; the provider and model
+// come from function secrets instead of request literals:
+//
+//   LLM_PROVIDER   openai | anthropic  (defaults to whichever key is set)
+//   LLM_MODEL      overrides the provider's default model for every task
+//   OPENAI_API_KEY / ANTHROPIC_API_KEY
+//   OPENAI_BASE_URL / ANTHROPIC_BASE_URL  point at another server, e.g. a
+//                  local mock upstream when running the function locally
+
+export type LLMProvider = 'openai' | 'anthropic'
+
+// Same tasks as the app's LLMTask; each has its own model and temperature
+export type LLMTask = 'flowchartGeneration' | 'flowchartAnalysis' | 'conversation' | 'conversationSummary' | 'safetyScreening'
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+  // Data URLs (data:image/png;base64,...) sent alongside a user message
+  images?: string[]
+}
+
+export interface LLMTaskSettings {
+  model: string
+  temperature: number
+  maxTokens: number
+}
+
+export interface LLMRequestOptions {
+  task?: LLMTask
+  temperature?: number
+  maxTokens?: number
+  // Ask for a single JSON object
+  json?: boolean
+}
+
+export interface LLMChatResult {
+  content: string
+  model: string
+  usage?: { inputTokens: number; outputTokens: number }
+}
+
+export const LLM_TASKS: LLMTask[] = ['flowchartGeneration', 'flowchartAnalysis', 'conversation', 'conversationSummary', 'safetyScreening']
+
+const TASK_DEFAULTS: Record<LLMProvider, Record<LLMTask, LLMTaskSettings>> = {
+  openai: {
+    flowchartGeneration: { model: 'gpt-4o-mini', temperature: 0.7, maxTokens: 2000 },
+    flowchartAnalysis: { model: 'gpt-4-turbo-preview', temperature: 0.3, maxTokens: 2000 },
+    conversation: { model: 'gpt-4-turbo-preview', temperature: 0.7, maxTokens: 1000 },
+    conversationSummary: { model: 'gpt-4o-mini', temperature: 0.3, maxTokens: 1000 },
+    safetyScreening: { model: 'gpt-4o-mini', temperature: 0, maxTokens: 200 },
+  },
+  anthropic: {
+    flowchartGeneration: { model: 'claude-3-5-sonnet-latest', temperature: 0.7, maxTokens: 2000 },
+    flowchartAnalysis: { model: 'claude-3-5-sonnet-latest', temperature: 0.3, maxTokens: 2000 },
+    conversation: { model: 'claude-3-5-sonnet-latest', temperature: 0.7, maxTokens: 1000 },
+    conversationSummary: { model: 'claude-3-5-sonnet-latest', temperature: 0.3, maxTokens: 1000 },
+    safetyScreening: { model: 'claude-3-5-haiku-latest', temperature: 0, maxTokens: 200 },
+  },
+}
+
+export const getLLMProvider = (): LLMProvider => {
+  const configured = (Deno.env.get('LLM_PROVIDER') || '').toLowerCase().trim()
+  if (configured === 'openai' || configured === 'anthropic') {
+    return configured
+  }
+  return !Deno.env.get('OPENAI_API_KEY') && Deno.env.get('ANTHROPIC_API_KEY') ? 'anthropic' : 'openai'
+}
+
+// Base URL of a provider's API, without a trailing slash
+export const getProviderBaseUrl = (provider: LLMProvider): string =>
+  (Deno.env.get(provider === 'anthropic' ? 'ANTHROPIC_BASE_URL' : 'OPENAI_BASE_URL') ||
+    (provider === 'anthropic' ? 'https://api.anthropic.com/v1' : 'https://api.openai.com/v1')).replace(/\/+$/, '')
+
+// A task's settings, with explicit options taking precedence
+export const getTaskSettings = (
+  task: LLMTask = 'conversation',
+  options: LLMRequestOptions = {},
+  provider: LLMProvider = getLLMProvider()
+): LLMTaskSettings => {
+  const defaults = TASK_DEFAULTS[provider][task]
+  return {
+    model: Deno.env.get('LLM_MODEL') || defaults.model,
+    temperature: options.temperature ?? defaults.temperature,
+    maxTokens: options.maxTokens ?? defaults.maxTokens,
+  }
+}
+
+export const getLLMModel = (provider: LLMProvider = getLLMProvider()): string =>
+  getTaskSettings('conversation', {}, provider).model
+
+const getApiKey = (provider: LLMProvider): string => {
+  const key = Deno.env.get(provider === 'anthropic' ? 'ANTHROPIC_API_KEY' : 'OPENAI_API_KEY')
+  if (!key) {
+    throw new Error(`${provider === 'anthropic' ? 'Anthropic' : 'OpenAI'} API key not configured`)
+  }
+  return key
+}
+
+const toAnthropicImage = (dataUrl: string) => {
+  const match = dataUrl.match(/^data:([^;]+);base64,(.+)$/)
+  if (!match) return null
+  return { type: 'image', source: { type: 'base64', media_type: match[1], data: match[2] } }
+}
+
+const getOpenAIBody = (messages: LLMMessage[], settings: LLMTaskSettings) => ({
+  model: settings.model,
+  temperature: settings.temperature,
+  max_tokens: settings.maxTokens,
+  messages: messages.map(message => message.images?.length
+    ? {
+        role: message.role,
+        content: [
+          { type: 'text', text: message.content },
+          ...message.images.map(url => ({ type: 'image_url', image_url: { url } })),
+        ],
+      }
+    : { role: message.role, content: message.content }
+  ),
+})
+
+const getAnthropicBody = (messages: LLMMessage[], settings: LLMTaskSettings) => {
+  const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n')
+
+  // The Messages API wants alternating turns that start with the user
+  const turns: { role: 'user' | 'assistant'; content: unknown[] }[] = []
+  messages
+    .filter(m => m.role !== 'system')
+    .forEach(message => {
+      const blocks = [
+        ...(message.images || []).map(toAnthropicImage).filter(Boolean),
+        { type: 'text', text: message.content },
+      ]
+      const previous = turns[turns.length - 1]
+      if (previous && previous.role === message.role) {
+        previous.content.push(...blocks)
+      } else {
+        turns.push({ role: message.role as 'user' | 'assistant', content: blocks })
+      }
+    })
+  if (turns[0]?.role === 'assistant') {
+    turns.unshift({ role: 'user', content: [{ type: 'text', text: '(The conversation begins.)' }] })
+  }
+
+  return {
+    model: settings.model,
+    temperature: settings.temperature,
+    max_tokens: settings.maxTokens,
+    ...(system ? { system } : {}),
+    messages: turns,
+  }
+}
+
+const startRequest = (
+  provider: LLMProvider,
+  messages: LLMMessage[],
+  settings: LLMTaskSettings,
+  extra: { stream?: boolean; json?: boolean }
+) => {
+  const apiKey = getApiKey(provider)
+
+  if (provider === 'anthropic') {
+    return fetch(`${getProviderBaseUrl('anthropic')}/messages`, {
+      method: 'POST',
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        ...getAnthropicBody(messages, settings),
+        ...(extra.stream ? { stream: true } : {}),
+      }),
+    })
+  }
+
+  return fetch(`${getProviderBaseUrl('openai')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      ...getOpenAIBody(messages, settings),
+      ...(extra.stream ? { stream: true } : {}),
+      ...(extra.json ? { response_format: { type: 'json_object' } } : {}),
+    }),
+  })
+}
+
+/**
+ * One chat completion from the configured provider. With `json`, OpenAI uses
+ * JSON mode and Claude gets its answer prefilled with "{".
+ */
+export const completeChat = async (
+  messages: LLMMessage[],
+  options: LLMRequestOptions = {}
+): Promise<LLMChatResult> => {
+  const provider = getLLMProvider()
+  const settings = getTaskSettings(options.task, options, provider)
+  const prefill = options.json && provider === 'anthropic'
+  const response = await startRequest(
+    provider,
+    prefill ? [...messages, { role: 'assistant', content: '{' }] : messages,
+    settings,
+    { json: options.json }
+  )
+
+  if (!response.ok) {
+    throw new Error(`${provider} API error: ${response.status} - ${await response.text()}`)
+  }
+
+  const data = await response.json()
+  if (provider === 'anthropic') {
+    const text = (data.content || [])
+      .filter((block: { type: string }) => block.type === 'text')
+      .map((block: { text: string }) => block.text)
+      .join('')
+    if (!text) {
+      throw new Error('No content in anthropic response')
+    }
+    return {
+      content: prefill ? `{${text}` : text,
+      model: data.model || settings.model,
+      usage: data.usage ? { inputTokens: data.usage.input_tokens, outputTokens: data.usage.output_tokens } : undefined,
+    }
+  }
+
+  const content = data.choices?.[0]?.message?.content
+  if (!content) {
+    throw new Error('No content in openai response')
+  }
+  return {
+    content,
+    model: data.model || settings.model,
+    usage: data.usage ? { inputTokens: data.usage.prompt_tokens, outputTokens: data.usage.completion_tokens } : undefined,
+  }
+}
+
+// Text delta carried by one SSE data payload, if any
+const getToken = (provider: LLMProvider, data: string): string | null => {
+  if (data === '[DONE]') return null
+  try {
+    const json = JSON.parse(data)
+    if (provider === 'anthropic') {
+      return json.type === 'content_block_delta' ? json.delta?.text ?? null : null
+    }
+    return json.choices?.[0]?.delta?.content ?? null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Stream a chat completion from the configured provider, calling onToken for
+ * each text delta. Resolves with the full response text.
+ */
+export const streamChat = async (
+  messages: LLMMessage[],
+  onToken: (token: string) => Promise<void> | void,
+  options: LLMRequestOptions = {}
+): Promise<string> => {
+  const provider = getLLMProvider()
+  const response = await startRequest(provider, messages, getTaskSettings(options.task, options, provider), { stream: true })
+
+  if (!response.ok) {
+    throw new Error(`${provider} API error: ${await response.text()}`)
+  }
+
+  const reader = response.body?.getReader()
+  if (!reader) {
+    throw new Error(`No response body from ${provider}`)
+  }
+
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let responseText = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+
+    for (const line of lines) {
+      if (!line.startsWith('data:')) continue
+      const token = getToken(provider, line.slice(5).trim())
+      if (token) {
+        responseText += token
+        await onToken(token)
+      }
+    }
+  }
+
+  return responseText
+}
@@ -0,0 +1,104 @@
+// Crisis screening: the local keyword/regex tier. This is the only copy of the
+// rules - edge functions use it to screen a message even when a client skips
+// its own check, and the app's lib/services/safetyScreening.ts imports it, so
+// it must stay free of Deno APIs and imports.
+
+export type RiskLevel = 'none' | 'elevated' | 'high'
+
+export type RiskCategory = 'suicide' | 'self_harm' | 'harm_to_others' | 'abuse'
+
+export interface SafetyAssessment {
+  level: RiskLevel
+  categories: RiskCategory[]
+  matchedRules: string[]
+}
+
+export interface SafetyRule {
+  id: string
+  category: RiskCategory
+  level: Exclude<RiskLevel, 'none'>
+  pattern: RegExp
+}
+
+export const SAFETY_RULES: SafetyRule[] = [
+  // Suicide
+  { id: 'suicide.kill_myself', category: 'suicide', level: 'high', pattern: /\bkill(ing)?\s+my\s*self\b/ },
+  { id: 'suicide.suicidal', category: 'suicide', level: 'high', pattern: /\bsuicid(e|al)\b/ },
+  { id: 'suicide.end_my_life', category: 'suicide', level: 'high', pattern: /\b(end(ing)?|take|taking)\s+my\s+(own\s+)?life\b/ },
+  { id: 'suicide.end_it_all', category: 'suicide', level: 'high', pattern: /\bend(ing)?\s+it\s+all\b/ },
+  { id: 'suicide.want_to_die', category: 'suicide', level: 'high', pattern: /\b(want|wanna|going|plan(ning)?|ready)\s+(to\s+)?die\b/ },
+  { id: 'suicide.better_off_dead', category: 'suicide', level: 'high', pattern: /\bbetter\s+off\s+dead\b/ },
+  { id: 'suicide.better_off_without_me', category: 'suicide', level: 'high', pattern: /\b(better\s+off|happier)\s+without\s+me\b/ },
+  { id: 'suicide.not_want_to_live', category: 'suicide', level: 'high', pattern: /\b(don't|do\s+not)\s+want\s+to\s+(live|be\s+alive|exist)\s*(anymore|any\s+more)?\b/ },
+  { id: 'suicide.no_reason_to_live', category: 'suicide', level: 'high', pattern: /\bno\s+(reason|point)\s+(to|in)\s+(live|living|going\s+on)\b/ },
+  { id: 'suicide.overdose', category: 'suicide', level: 'high', pattern: /\b(overdose|od)\s+on\b|\btake\s+all\s+(my|the|these|those)\s+pills\b/ },
+  { id: 'suicide.wish_dead', category: 'suicide', level: 'elevated', pattern: /\bwish\s+i\s+(was|were)\s+(dead|never\s+born|gone)\b/ },
+  { id: 'suicide.cant_go_on', category: 'suicide', level: 'elevated', pattern: /\b(can't|cannot|can\s+not)\s+(go\s+on|keep\s+going|do\s+this\s+anymore)\b/ },
+  { id: 'suicide.disappear', category: 'suicide', level: 'elevated', pattern: /\b(disappear|not\s+wake\s+up)\s+(forever|and\s+never\s+come\s+back)\b|\bnever\s+wake\s+up\b/ },
+
+  // Self-harm
+  { id: 'self_harm.hurt_myself', category: 'self_harm', level: 'high', pattern: /\b(cut|cutting|burn|burning|hurt|hurting|harm|harming)\s+my\s*self\b/ },
+  { id: 'self_harm.mention', category: 'self_harm', level: 'elevated', pattern: /\bself[-\s]?(harm|harming|injury|injuring)\b/ },
+
+  // Harm to others
+  { id: 'harm_to_others.kill_or_hurt', category: 'harm_to_others', level: 'high', pattern: /\b(kill|hurt|shoot|stab|strangle)\s+(him|her|them|someone|somebody|people|everyone|my\s+(wife|husband|partner|boyfriend|girlfriend|mom|mother|dad|father|boss|kids?|son|daughter|brother|sister))\b/ },
+
+  // Abuse
+  { id: 'abuse.physical', category: 'abuse', level: 'elevated', pattern: /\b(hits|beats|chokes|kicks|hurts)\s+me\b/ },
+  { id: 'abuse.assault', category: 'abuse', level: 'elevated', pattern: /\b(being|been|was|got|getting)\s+(abused|raped|assaulted|molested)\b/ },
+  { id: 'abuse.unsafe_home', category: 'abuse', level: 'elevated', pattern: /\b(not|don't\s+feel)\s+safe\s+(at\s+home|in\s+my\s+(home|house))\b/ },
+]
+
+// A match is discounted when a negation comes right before it, with at most a
+// few filler words in between: "I would never kill myself", "I'm not really
+// suicidal", "I don't want to die". Any other word ends the negation, so "I'm
+// not okay I want to die" still matches.
+const NEGATION_BEFORE = /\b(not|never|no\s+longer|don't|do\s+not|wouldn't|won't|isn't|aren't)(\s+(really|ever|even|actually|feeling|feel|going\s+to|gonna|want\s+to|wanna|trying\s+to|planning\s+to)){0,3}\s*$/
+
+const LEVEL_ORDER: Record<RiskLevel, number> = { none: 0, elevated: 1, high: 2 }
+
+const normalizeText = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[‘’ʼ]/g, "'")
+    .replace(/\bcan'?t\b/g, "can't")
+    .replace(/\bdon'?t\b/g, "don't")
+    .replace(/\s+/g, ' ')
+    .trim()
+
+// Only the clause the match is in counts for negation
+const isNegated = (text: string, index: number): boolean => {
+  const before = text.slice(0, index).split(/[.!?;,]|\bbut\b/).pop() || ''
+  return NEGATION_BEFORE.test(before)
+}
+
+// Match the rules against one message
+export const screenMessage = (text: string): SafetyAssessment => {
+  const normalized = normalizeText(text)
+  let level: RiskLevel = 'none'
+  const categories = new Set<RiskCategory>()
+  const matchedRules: string[] = []
+
+  for (const rule of SAFETY_RULES) {
+    const pattern = new RegExp(rule.pattern.source, 'g')
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(normalized)) !== null) {
+      if (!isNegated(normalized, match.index)) {
+        if (LEVEL_ORDER[rule.level] > LEVEL_ORDER[level]) {
+          level = rule.level
+        }
+        categories.add(rule.category)
+        matchedRules.push(rule.id)
+        break
+      }
+    }
+  }
+
+  return { level, categories: Array.from(categories), matchedRules }
+}
+
+// Screen the latest user message of a chat request
+export const screenLatestUserMessage = (messages: { role: string; content: string }[]): SafetyAssessment => {
+  const last = messages[messages.length - 1]
+  return last?.role === 'user' ? screenMessage(last.content) : { level: 'none', categories: [], matchedRules: [] }
+}
@@ -0,0 +1,88 @@
+// Text-to-speech for edge functions. Both providers return base64 MP3.
+//
+//   OPENAI_API_KEY       OpenAI TTS (tts-1)
+//   ELEVENLABS_API_KEY   ElevenLabs, optional
+
+import { getProviderBaseUrl } from "./llm.ts"
+
+export type OpenAIVoice = 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer'
+
+export const OPENAI_VOICES: OpenAIVoice[] = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer']
+
+export interface ElevenLabsOptions {
+  voiceId?: string
+  modelId?: string
+  voiceSettings?: {
+    stability?: number
+    similarity_boost?: number
+    style?: number
+    use_speaker_boost?: boolean
+  }
+}
+
+const ELEVENLABS_BASE_URL = 'https://api.elevenlabs.io/v1'
+// Rachel
+const DEFAULT_ELEVENLABS_VOICE = '21m00Tcm4TlvDq8ikWAM'
+const DEFAULT_ELEVENLABS_MODEL = 'eleven_turbo_v2'
+
+export const isElevenLabsConfigured = (): boolean => !!Deno.env.get('ELEVENLABS_API_KEY')
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer)
+  let binary = ''
+  // Chunked so long replies don't overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+// Null when OpenAI isn't configured
+export const synthesizeOpenAISpeech = async (text: string, voice: OpenAIVoice): Promise<string | null> => {
+  const apiKey = Deno.env.get('OPENAI_API_KEY')
+  if (!apiKey) return null
+
+  const response = await fetch(`${getProviderBaseUrl('openai')}/audio/speech`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ model: 'tts-1', input: text, voice, response_format: 'mp3' }),
+  })
+  if (!response.ok) {
+    throw new Error(`TTS error: ${await response.text()}`)
+  }
+
+  return toBase64(await response.arrayBuffer())
+}
+
+// Null when ElevenLabs isn't configured
+export const synthesizeElevenLabsSpeech = async (text: string, options: ElevenLabsOptions = {}): Promise<string | null> => {
+  const apiKey = Deno.env.get('ELEVENLABS_API_KEY')
+  if (!apiKey) return null
+
+  const response = await fetch(`${ELEVENLABS_BASE_URL}/text-to-speech/${options.voiceId || DEFAULT_ELEVENLABS_VOICE}`, {
+    method: 'POST',
+    headers: {
+      'Accept': 'audio/mpeg',
+      'Content-Type': 'application/json',
+      'xi-api-key': apiKey,
+    },
+    body: JSON.stringify({
+      text,
+      model_id: options.modelId || DEFAULT_ELEVENLABS_MODEL,
+      voice_settings: options.voiceSettings || {
+        stability: 0.5,
+        similarity_boost: 0.75,
+        style: 0,
+        use_speaker_boost: true,
+      },
+    }),
+  })
+  if (!response.ok) {
+    throw new Error(`ElevenLabs error: ${response.status} - ${await response.text()}`)
+  }
+
+  return toBase64(await response.arrayBuffer())
+}
@@ -1,207 +1,132 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-
-const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY')
-
+import { streamChat, getLLMProvider, getLLMModel } from "../_shared/llm.ts"
+import { synthesizeOpenAISpeech } from "../_shared/speech.ts"
+import { screenLatestUserMessage } from "../_shared/safety.ts"
+import { withAuth } from "../_shared/auth.ts"
+import {
+  CHAT_STREAM_VERSION,
+  CHAT_STREAM_VERSION_HEADER,
+  ChatStreamErrorCode,
+  ChatStreamEvent,
+  ChatStreamRequest,
+  ChatStreamRequestError,
+  encodeEvent,
+  validateChatStreamRequest,
+} from "../_shared/chatStreamProtocol.ts"
+
+// The one streaming chat endpoint. See ../_shared/chatStreamProtocol.ts for
+// the request shape and the SSE events it sends. Callers must be signed in.
+
+// Bursts of 20 messages, then one every 6 seconds
+const RATE_LIMIT = { bucket: 'chat', capacity: 20, refillPerMinute: 10 }
+
+// CORS origin comes from the auth middleware
 const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': `authorization, x-client-info, apikey, content-type, ${CHAT_STREAM_VERSION_HEADER.toLowerCase()}`,
+  'Access-Control-Expose-Headers': `${CHAT_STREAM_VERSION_HEADER.toLowerCase()}, retry-after`,
+  [CHAT_STREAM_VERSION_HEADER]: CHAT_STREAM_VERSION,
 }
 
-interface ChatStreamRequest {
-  messages: Array<{
-    role: 'system' | 'user' | 'assistant'
-    content: string
-  }>
-  voice?: 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer'
-  model?: string
-  temperature?: number
-  max_tokens?: number
-}
-
-serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders })
+const errorResponse = (code: ChatStreamErrorCode, message: string, status: number) =>
+  new Response(
+    JSON.stringify({ type: 'error', code, message }),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+
+const pumpStream = async (body: ChatStreamRequest, send: (event: ChatStreamEvent) => Promise<void>) => {
+  // Crisis screening: a flagged message gets resources from the app, not a model reply
+  const safety = screenLatestUserMessage(body.messages)
+  if (safety.level !== 'none') {
+    console.log('🛟 Safety concern detected:', safety.level, safety.matchedRules.join(', '))
+    await send({ type: 'tool', name: 'safety', payload: { ...safety, level: safety.level } })
+    await send({ type: 'done', text: '' })
+    return
   }
 
+  let text: string
   try {
-    if (req.method !== 'POST') {
-      throw new Error('Method not allowed. Use POST.')
-    }
-
-    if (!OPENAI_API_KEY) {
-      throw new Error('OpenAI API key not configured')
-    }
-
-    const body: ChatStreamRequest = await req.json()
-    
-    if (!body.messages || !Array.isArray(body.messages)) {
-      throw new Error('Messages array is required')
-    }
+    text = await streamChat(
+      body.messages,
+      (content) => send({ type: 'delta', content }),
+      { task: 'conversation', temperature: body.temperature, maxTokens: body.max_tokens }
+    )
+  } catch (error) {
+    console.error('Upstream error:', error)
+    await send({ type: 'error', code: 'upstream_error', message: (error as Error).message })
+    return
+  }
+  console.log('📝 Stream completed, response length:', text.length)
 
-    const encoder = new TextEncoder()
-    const stream = new TransformStream()
-    const writer = stream.writable.getWriter()
-
-    // Use regular streaming for now since audio modalities may not be available
-    const requestBody = {
-      model: body.model || 'gpt-4-turbo-preview',
-      messages: body.messages,
-      temperature: body.temperature ?? 0.7,
-      max_tokens: body.max_tokens ?? 1000,
-      stream: true,
+  if (text.trim() && body.voice) {
+    try {
+      // Speech is always OpenAI TTS, whichever provider wrote the text
+      const audio = await synthesizeOpenAISpeech(text, body.voice)
+      if (audio) {
+        await send({ type: 'tool', name: 'speech', payload: { audio, format: 'mp3' } })
+      }
+    } catch (error) {
+      // The text already arrived, so a failed TTS doesn't fail the stream
+      console.error('⚠️ TTS generation failed:', error)
     }
+  }
 
-    console.log('🚀 Making OpenAI request with:', JSON.stringify(requestBody, null, 2))
+  await send({ type: 'done', text })
+}
 
-    // Start the OpenAI streaming request
-    const openAIResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
-    })
+const handleChatStream = async (req: Request): Promise<Response> => {
+  if (req.method !== 'POST') {
+    return errorResponse('method_not_allowed', 'Method not allowed. Use POST.', 405)
+  }
 
-    console.log('📡 OpenAI response status:', openAIResponse.status)
-
-    if (!openAIResponse.ok) {
-      const error = await openAIResponse.text()
-      console.error('❌ OpenAI error:', error)
-      await writer.write(encoder.encode(`data: {"error": "OpenAI API error: ${error}"}\n\n`))
-      await writer.close()
-      return new Response(stream.readable, {
-        headers: {
-          ...corsHeaders,
-          'Content-Type': 'text/event-stream',
-          'Cache-Control': 'no-cache',
-          'Connection': 'keep-alive',
-        },
-      })
-    }
+  const requestedVersion = req.headers.get(CHAT_STREAM_VERSION_HEADER)
+  if (requestedVersion && requestedVersion !== CHAT_STREAM_VERSION) {
+    return errorResponse(
+      'unsupported_version',
+      `Protocol version ${requestedVersion} is not supported; this endpoint speaks version ${CHAT_STREAM_VERSION}`,
+      400
+    )
+  }
 
-    const reader = openAIResponse.body?.getReader()
-    if (!reader) {
-      console.error('❌ No response body from OpenAI')
-      await writer.write(encoder.encode(`data: {"error": "No response body from OpenAI"}\n\n`))
-      await writer.close()
-      return new Response(stream.readable, {
-        headers: {
-          ...corsHeaders,
-          'Content-Type': 'text/event-stream',
-          'Cache-Control': 'no-cache',
-          'Connection': 'keep-alive',
-        },
-      })
+  let body: ChatStreamRequest
+  try {
+    body = validateChatStreamRequest(await req.json().catch(() => {
+      throw new ChatStreamRequestError('Request body must be valid JSON')
+    }))
+  } catch (error) {
+    if (error instanceof ChatStreamRequestError) {
+      return errorResponse(error.code, error.message, error.status)
     }
+    console.error('Request error:', error)
+    return errorResponse('internal_error', 'Could not read the request', 500)
+  }
 
-    console.log('✅ Got response reader, starting to process stream...')
+  const provider = getLLMProvider()
+  console.log('🚀 Starting chat stream with', provider, getLLMModel(provider))
 
-    const decoder = new TextDecoder()
-    let buffer = ''
-    let responseText = ''
+  const stream = new TransformStream<Uint8Array, Uint8Array>()
+  const writer = stream.writable.getWriter()
+  const send = (event: ChatStreamEvent) => writer.write(encodeEvent(event))
 
-    try {
-      while (true) {
-        const { done, value } = await reader.read()
-        
-        if (done) {
-          console.log('📝 Stream completed, response length:', responseText.length)
-          
-          // Generate audio using TTS as fallback
-          if (responseText.trim() && body.voice) {
-            console.log('🔊 Generating TTS audio for response...')
-            try {
-              const ttsResponse = await fetch('https://api.openai.com/v1/audio/speech', {
-                method: 'POST',
-                headers: {
-                  'Authorization': `Bearer ${OPENAI_API_KEY}`,
-                  'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                  model: 'tts-1',
-                  input: responseText,
-                  voice: body.voice || 'nova',
-                  response_format: 'mp3'
-                }),
-              })
-
-              if (ttsResponse.ok) {
-                const audioBuffer = await ttsResponse.arrayBuffer()
-                const audioBase64 = btoa(String.fromCharCode(...new Uint8Array(audioBuffer)))
-                
-                await writer.write(encoder.encode(`data: ${JSON.stringify({
-                  type: 'audio',
-                  audio: audioBase64,
-                  format: 'mp3'
-                })}\n\n`))
-                
-                console.log('🎵 TTS audio generated and sent')
-              }
-            } catch (ttsError) {
-              console.error('⚠️ TTS generation failed:', ttsError)
-            }
-          }
-          
-          await writer.write(encoder.encode('data: [DONE]\n\n'))
-          break
-        }
-
-        buffer += decoder.decode(value, { stream: true })
-        const lines = buffer.split('\n')
-        buffer = lines.pop() || ''
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6).trim()
-            
-            if (data === '[DONE]') {
-              continue // We'll handle this after the loop
-            }
-
-            try {
-              const json = JSON.parse(data)
-              const content = json.choices?.[0]?.delta?.content
-              
-              if (content) {
-                responseText += content
-                await writer.write(encoder.encode(`data: ${JSON.stringify({
-                  type: 'text',
-                  content: content
-                })}\n\n`))
-              }
-            } catch (e) {
-              console.warn('Failed to parse chunk:', e)
-            }
-          }
-        }
-      }
-    } catch (error) {
+  // Stream in the background so the response reaches the client right away
+  pumpStream(body, send)
+    .catch(async (error) => {
       console.error('Stream processing error:', error)
-      await writer.write(encoder.encode(`data: {"error": "${error.message}"}\n\n`))
-    } finally {
-      await writer.close()
-    }
-
-    // Return SSE response
-    return new Response(stream.readable, {
-      headers: {
-        ...corsHeaders,
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-      },
+      await send({ type: 'error', code: 'internal_error', message: (error as Error).message }).catch(() => {})
     })
+    .finally(() => writer.close().catch(() => {}))
+
+  return new Response(stream.readable, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  })
+}
 
-  } catch (error) {
-    console.error('Request error:', error)
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      {
-        status: 400,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    )
-  }
-})
\ No newline at end of file
+export const handleRequest = withAuth(handleChatStream, { rateLimit: RATE_LIMIT, headers: corsHeaders })
+
+if (import.meta.main) {
+  serve(handleRequest)
+}
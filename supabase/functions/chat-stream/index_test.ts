@@ -0,0 +1,230 @@
+// Tests for chat-stream against a mock upstream. One local server stands in
+// for OpenAI (chat completions and TTS) and for Supabase (token check and the
+// rate limit RPC), so no keys or network are needed:
+//
+//   deno test --allow-net --allow-env supabase/functions/
+
+// eslint-disable-next-line import/no-unresolved -- Deno resolves URL imports
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts"
+import { handleRequest } from "./index.ts"
+import { CHAT_STREAM_VERSION, CHAT_STREAM_VERSION_HEADER, ChatStreamEvent } from "../_shared/chatStreamProtocol.ts"
+
+const USER_TOKEN = 'test-user-token'
+// A user whose rate limit check fails
+const UNMETERED_TOKEN = 'test-unmetered-token'
+const REPLY_CHUNKS = ['Hel', 'lo ', 'there']
+const SPEECH_BYTES = new Uint8Array([1, 2, 3, 4])
+// Messages containing these make the mock upstream fail
+const FAIL_CHAT = 'upstream-fail'
+const FAIL_SPEECH = 'speech-fail'
+
+interface UpstreamCalls {
+  chat: number
+  speech: number
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+
+const startMockUpstream = (calls: UpstreamCalls) =>
+  Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+    const { pathname } = new URL(req.url)
+
+    if (pathname === '/auth/v1/user') {
+      const authorization = req.headers.get('Authorization')
+      if (authorization === `Bearer ${USER_TOKEN}`) {
+        return jsonResponse({ id: 'user-1', aud: 'authenticated', role: 'authenticated' })
+      }
+      if (authorization === `Bearer ${UNMETERED_TOKEN}`) {
+        return jsonResponse({ id: 'user-2', aud: 'authenticated', role: 'authenticated' })
+      }
+      return jsonResponse({ message: 'invalid JWT' }, 401)
+    }
+
+    if (pathname === '/rest/v1/rpc/consume_usage_tokens') {
+      const body = await req.json()
+      return body.p_user_id === 'user-2'
+        ? jsonResponse({ code: 'PGRST202', message: 'Could not find the function consume_usage_tokens' }, 404)
+        : jsonResponse([{ allowed: true, remaining: 19, retry_after_seconds: 0 }])
+    }
+
+    if (pathname === '/v1/chat/completions') {
+      calls.chat++
+      const body = await req.json()
+      if (JSON.stringify(body.messages).includes(FAIL_CHAT)) {
+        return new Response('model overloaded', { status: 503 })
+      }
+      const sse = REPLY_CHUNKS
+        .map(content => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`)
+        .join('') + 'data: [DONE]\n\n'
+      return new Response(sse, { headers: { 'Content-Type': 'text/event-stream' } })
+    }
+
+    if (pathname === '/v1/audio/speech') {
+      calls.speech++
+      const body = await req.json()
+      return body.input.includes(FAIL_SPEECH)
+        ? new Response('tts unavailable', { status: 500 })
+        : new Response(SPEECH_BYTES, { headers: { 'Content-Type': 'audio/mpeg' } })
+    }
+
+    return new Response('not found', { status: 404 })
+  })
+
+const chatRequest = (body: unknown, headers: Record<string, string> = {}) =>
+  new Request('http://localhost/chat-stream', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${USER_TOKEN}`,
+      'Content-Type': 'application/json',
+      ...headers,
+    },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  })
+
+const userMessage = (content: string) => ({ messages: [{ role: 'user', content }] })
+
+// Every SSE message in the response, checking that the event name matches its type
+const readEvents = async (response: Response): Promise<ChatStreamEvent[]> => {
+  const text = await response.text()
+  return text
+    .split('\n\n')
+    .filter(Boolean)
+    .map(message => {
+      const name = message.match(/^event: (.+)$/m)?.[1]
+      const event = JSON.parse(message.match(/^data: (.+)$/m)?.[1] || 'null') as ChatStreamEvent
+      assertEquals(name, event.type)
+      return event
+    })
+}
+
+const readError = async (response: Response) => (await response.json()) as { type: string; code: string }
+
+Deno.test({
+  name: 'chat-stream',
+  // supabase-js keeps timers and pooled connections alive between steps
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: async (t) => {
+    const calls: UpstreamCalls = { chat: 0, speech: 0 }
+    const upstream = startMockUpstream(calls)
+    const baseUrl = `http://localhost:${upstream.addr.port}`
+
+    Deno.env.set('SUPABASE_URL', baseUrl)
+    Deno.env.set('SUPABASE_SERVICE_ROLE_KEY', 'test-service-role-key')
+    Deno.env.set('OPENAI_BASE_URL', `${baseUrl}/v1`)
+    Deno.env.set('OPENAI_API_KEY', 'test-openai-key')
+    Deno.env.set('LLM_PROVIDER', 'openai')
+    Deno.env.delete('ALLOWED_ORIGINS')
+
+    try {
+      await t.step('streams deltas then done, with the version header', async () => {
+        const response = await handleRequest(chatRequest(userMessage('Hello')))
+
+        assertEquals(response.status, 200)
+        assertEquals(response.headers.get(CHAT_STREAM_VERSION_HEADER), CHAT_STREAM_VERSION)
+        assertEquals(response.headers.get('Content-Type'), 'text/event-stream')
+        assertEquals(await readEvents(response), [
+          ...REPLY_CHUNKS.map(content => ({ type: 'delta', content })),
+          { type: 'done', text: REPLY_CHUNKS.join('') },
+        ])
+      })
+
+      await t.step('sends a speech tool event before done when a voice is requested', async () => {
+        const response = await handleRequest(chatRequest({ ...userMessage('Hello'), voice: 'nova' }))
+        const events = await readEvents(response)
+
+        assertEquals(events.map(event => event.type), ['delta', 'delta', 'delta', 'tool', 'done'])
+        assertEquals(events[3], { type: 'tool', name: 'speech', payload: { audio: btoa('\x01\x02\x03\x04'), format: 'mp3' } })
+      })
+
+      await t.step('still finishes with done when speech fails', async () => {
+        const response = await handleRequest(chatRequest({ ...userMessage(`Hello ${FAIL_SPEECH}`), voice: 'nova' }))
+        const events = await readEvents(response)
+
+        assertEquals(events.map(event => event.type), ['delta', 'delta', 'delta', 'done'])
+      })
+
+      await t.step('answers a flagged message with a safety tool event and no model call', async () => {
+        const before = calls.chat
+        const response = await handleRequest(chatRequest(userMessage('I want to kill myself')))
+        const events = await readEvents(response)
+
+        assertEquals(calls.chat, before)
+        assertEquals(events.map(event => event.type), ['tool', 'done'])
+        const tool = events[0]
+        assert(tool.type === 'tool' && tool.name === 'safety')
+        assertEquals(tool.payload.level, 'high')
+        assertEquals(tool.payload.categories, ['suicide'])
+        assertEquals(events[1], { type: 'done', text: '' })
+      })
+
+      await t.step('ends with an upstream_error event when the model call fails', async () => {
+        const response = await handleRequest(chatRequest(userMessage(`Hello ${FAIL_CHAT}`)))
+        const events = await readEvents(response)
+
+        assertEquals(response.status, 200)
+        assertEquals(events.length, 1)
+        assertEquals(events[0].type, 'error')
+        assert(events[0].type === 'error' && events[0].code === 'upstream_error')
+        assert(events[0].message.includes('model overloaded'))
+      })
+
+      await t.step('rejects invalid requests with a 400', async () => {
+        const invalidBodies: unknown[] = [
+          'not json',
+          [],
+          { messages: [] },
+          { messages: [{ role: 'robot', content: 'hi' }] },
+          { messages: [{ role: 'user', content: 42 }] },
+          { messages: [{ role: 'assistant', content: 'only me' }] },
+          { ...userMessage('Hello'), voice: 'darth' },
+          { ...userMessage('Hello'), temperature: 3 },
+          { ...userMessage('Hello'), max_tokens: 0 },
+        ]
+
+        for (const body of invalidBodies) {
+          const response = await handleRequest(chatRequest(body))
+          assertEquals(response.status, 400, JSON.stringify(body))
+          assertEquals(response.headers.get(CHAT_STREAM_VERSION_HEADER), CHAT_STREAM_VERSION)
+          assertEquals((await readError(response)).code, 'invalid_request')
+        }
+      })
+
+      await t.step('rejects another protocol version with a 400', async () => {
+        const response = await handleRequest(chatRequest(userMessage('Hello'), { [CHAT_STREAM_VERSION_HEADER]: '1' }))
+
+        assertEquals(response.status, 400)
+        assertEquals((await readError(response)).code, 'unsupported_version')
+      })
+
+      await t.step('rejects methods other than POST', async () => {
+        const response = await handleRequest(new Request('http://localhost/chat-stream', {
+          method: 'GET',
+          headers: { 'Authorization': `Bearer ${USER_TOKEN}` },
+        }))
+
+        assertEquals(response.status, 405)
+        assertEquals((await readError(response)).code, 'method_not_allowed')
+      })
+
+      await t.step('rejects requests without a valid session', async () => {
+        const response = await handleRequest(chatRequest(userMessage('Hello'), { 'Authorization': 'Bearer nope' }))
+
+        assertEquals(response.status, 401)
+        assertEquals((await readError(response)).code, 'unauthorized')
+      })
+
+      await t.step('rejects requests with a 503 when the rate limit check fails', async () => {
+        const before = calls.chat
+        const response = await handleRequest(chatRequest(userMessage('Hello'), { 'Authorization': `Bearer ${UNMETERED_TOKEN}` }))
+
+        assertEquals(response.status, 503)
+        assertEquals((await readError(response)).code, 'service_unavailable')
+        assertEquals(calls.chat, before)
+      })
+    } finally {
+      await upstream.shutdown()
+    }
+  },
+})
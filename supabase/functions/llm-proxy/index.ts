@@ -0,0 +1,201 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { completeChat, streamChat, getLLMProvider, getTaskSettings, LLM_TASKS, LLMMessage, LLMTask } from "../_shared/llm.ts"
+import { withAuth } from "../_shared/auth.ts"
+import { screenLatestUserMessage, SafetyAssessment } from "../_shared/safety.ts"
+import { ChatStreamErrorCode, ChatStreamEvent, encodeEvent } from "../_shared/chatStreamProtocol.ts"
+
+// Chat completions for the app's LLM client (lib/services/llmAdapters.ts),
+// so provider keys stay on the server. The app names a task - conversation,
+// flowchart generation or analysis, summaries, safety screening - and the
+// model comes from the function's LLM_* secrets.
+//
+// Request:  { task, messages, temperature?, maxTokens?, json?, stream? }
+// Response: { content, model, usage? }, or with `stream` the chat-stream SSE
+//           events (delta, done, error).
+//
+// Conversation turns are crisis-screened like chat-stream's. A flagged turn
+// gets no model reply: `{ content: "", model, safety }`, or with `stream` a
+// `tool` / `safety` event followed by an empty `done`.
+
+// Incremental analysis runs after every turn, so this is roomier than chat
+const RATE_LIMIT = { bucket: 'llm', capacity: 60, refillPerMinute: 30 }
+
+const ROLES = ['system', 'user', 'assistant']
+const MAX_MESSAGES = 100
+const MAX_CONTENT_LENGTH = 200000
+const MAX_IMAGES = 4
+const MAX_TOKENS_LIMIT = 4000
+
+interface ProxyRequest {
+  task: LLMTask
+  messages: LLMMessage[]
+  temperature?: number
+  maxTokens?: number
+  json?: boolean
+  stream?: boolean
+}
+
+class ProxyRequestError extends Error {}
+
+const corsHeaders = {
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const errorResponse = (code: ChatStreamErrorCode, message: string, status: number) =>
+  new Response(
+    JSON.stringify({ type: 'error', code, message }),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+
+const validateRequest = (body: unknown): ProxyRequest => {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new ProxyRequestError('Request body must be a JSON object')
+  }
+  const { task, messages, temperature, maxTokens, json, stream } = body as Record<string, unknown>
+
+  if (!LLM_TASKS.includes(task as LLMTask)) {
+    throw new ProxyRequestError(`task must be one of ${LLM_TASKS.join(', ')}`)
+  }
+  if (!Array.isArray(messages) || messages.length === 0 || messages.length > MAX_MESSAGES) {
+    throw new ProxyRequestError(`messages must be an array of 1-${MAX_MESSAGES} entries`)
+  }
+
+  let totalLength = 0
+  messages.forEach((message, index) => {
+    if (!message || typeof message !== 'object' || !ROLES.includes(message.role) || typeof message.content !== 'string') {
+      throw new ProxyRequestError(`messages[${index}] must have a role (${ROLES.join(', ')}) and string content`)
+    }
+    totalLength += message.content.length
+    if (message.images !== undefined) {
+      if (
+        !Array.isArray(message.images) ||
+        message.images.length > MAX_IMAGES ||
+        !message.images.every((image: unknown) => typeof image === 'string' && image.startsWith('data:image/'))
+      ) {
+        throw new ProxyRequestError(`messages[${index}].images must be up to ${MAX_IMAGES} image data URLs`)
+      }
+    }
+  })
+  if (totalLength > MAX_CONTENT_LENGTH) {
+    throw new ProxyRequestError(`messages can't be longer than ${MAX_CONTENT_LENGTH} characters in total`)
+  }
+
+  if (temperature !== undefined && (typeof temperature !== 'number' || temperature < 0 || temperature > 2)) {
+    throw new ProxyRequestError('temperature must be a number between 0 and 2')
+  }
+  if (maxTokens !== undefined && (!Number.isInteger(maxTokens) || (maxTokens as number) < 1 || (maxTokens as number) > MAX_TOKENS_LIMIT)) {
+    throw new ProxyRequestError(`maxTokens must be an integer between 1 and ${MAX_TOKENS_LIMIT}`)
+  }
+
+  return {
+    task: task as LLMTask,
+    messages: messages.map(message => ({
+      role: message.role,
+      content: message.content,
+      ...(message.images?.length ? { images: message.images } : {}),
+    })),
+    temperature: temperature as number | undefined,
+    maxTokens: maxTokens as number | undefined,
+    json: json === true,
+    stream: stream === true,
+  }
+}
+
+const streamResponse = (body: ProxyRequest): Response => {
+  const stream = new TransformStream<Uint8Array, Uint8Array>()
+  const writer = stream.writable.getWriter()
+  const send = (event: ChatStreamEvent) => writer.write(encodeEvent(event))
+
+  streamChat(body.messages, (content) => send({ type: 'delta', content }), body)
+    .then(text => send({ type: 'done', text }))
+    .catch(async (error) => {
+      console.error('Upstream error:', error)
+      await send({ type: 'error', code: 'upstream_error', message: (error as Error).message }).catch(() => {})
+    })
+    .finally(() => writer.close().catch(() => {}))
+
+  return new Response(stream.readable, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  })
+}
+
+const safetyResponse = (body: ProxyRequest, safety: SafetyAssessment): Response => {
+  const payload = { ...safety, level: safety.level as 'elevated' | 'high' }
+
+  if (!body.stream) {
+    return new Response(
+      JSON.stringify({ content: '', model: getTaskSettings(body.task).model, safety: payload }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+
+  const events: ChatStreamEvent[] = [
+    { type: 'tool', name: 'safety', payload },
+    { type: 'done', text: '' },
+  ]
+  return new Response(
+    new Blob(events.map(encodeEvent)),
+    {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+      },
+    }
+  )
+}
+
+const handleLLMProxy = async (req: Request): Promise<Response> => {
+  if (req.method !== 'POST') {
+    return errorResponse('method_not_allowed', 'Method not allowed. Use POST.', 405)
+  }
+
+  let body: ProxyRequest
+  try {
+    body = validateRequest(await req.json().catch(() => {
+      throw new ProxyRequestError('Request body must be valid JSON')
+    }))
+  } catch (error) {
+    if (error instanceof ProxyRequestError) {
+      return errorResponse('invalid_request', error.message, 400)
+    }
+    console.error('Request error:', error)
+    return errorResponse('internal_error', 'Could not read the request', 500)
+  }
+
+  // Same screening as chat-stream, so the app's fallback chat can't skip it
+  if (body.task === 'conversation') {
+    const safety = screenLatestUserMessage(body.messages)
+    if (safety.level !== 'none') {
+      console.log('🛟 Safety concern detected:', safety.level, safety.matchedRules.join(', '))
+      return safetyResponse(body, safety)
+    }
+  }
+
+  console.log('🤖 LLM proxy:', body.task, getLLMProvider(), getTaskSettings(body.task).model, body.stream ? '(stream)' : '')
+
+  if (body.stream) {
+    return streamResponse(body)
+  }
+
+  try {
+    const result = await completeChat(body.messages, body)
+    return new Response(JSON.stringify(result), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    })
+  } catch (error) {
+    console.error('Upstream error:', error)
+    return errorResponse('upstream_error', (error as Error).message, 502)
+  }
+}
+
+export const handleRequest = withAuth(handleLLMProxy, { rateLimit: RATE_LIMIT, headers: corsHeaders })
+
+if (import.meta.main) {
+  serve(handleRequest)
+}
@@ -0,0 +1,65 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { withAuth } from "../_shared/auth.ts"
+import { getProviderBaseUrl } from "../_shared/llm.ts"
+import { OPENAI_VOICES, OpenAIVoice } from "../_shared/speech.ts"
+
+// Mints a short-lived OpenAI Realtime token so the app can open the voice
+// WebSocket without holding the API key. The token only opens a session for
+// the model chosen here and expires about a minute after it's issued.
+//
+//   REALTIME_MODEL   overrides the default realtime model
+//
+// Request:  { voice? }
+// Response: { token, expiresAt (unix seconds), model }
+
+const DEFAULT_REALTIME_MODEL = 'gpt-4o-realtime-preview-2024-10-01'
+
+// Opening a session is rare; a burst covers reconnects
+const RATE_LIMIT = { bucket: 'realtime', capacity: 5, refillPerMinute: 2 }
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+
+const errorResponse = (code: string, message: string, status: number) =>
+  jsonResponse({ type: 'error', code, message }, status)
+
+const handleRealtimeSession = async (req: Request): Promise<Response> => {
+  if (req.method !== 'POST') {
+    return errorResponse('method_not_allowed', 'Method not allowed. Use POST.', 405)
+  }
+
+  const apiKey = Deno.env.get('OPENAI_API_KEY')
+  if (!apiKey) {
+    return errorResponse('not_configured', 'OpenAI API key not configured', 503)
+  }
+
+  const body = await req.json().catch(() => ({}))
+  const voice: OpenAIVoice = OPENAI_VOICES.includes(body?.voice) ? body.voice : 'alloy'
+  const model = Deno.env.get('REALTIME_MODEL') || DEFAULT_REALTIME_MODEL
+
+  try {
+    const response = await fetch(`${getProviderBaseUrl('openai')}/realtime/sessions`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ model, voice }),
+    })
+    if (!response.ok) {
+      throw new Error(`Realtime session error: ${response.status} - ${await response.text()}`)
+    }
+
+    const session = await response.json()
+    return jsonResponse({
+      token: session.client_secret?.value,
+      expiresAt: session.client_secret?.expires_at,
+      model,
+    })
+  } catch (error) {
+    console.error('Realtime session error:', error)
+    return errorResponse('upstream_error', (error as Error).message, 502)
+  }
+}
+
+serve(withAuth(handleRealtimeSession, { rateLimit: RATE_LIMIT }))
@@ -1,11 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { withAuth } from "../_shared/auth.ts"
 
 const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY')
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
+// Bursts of 20 recordings, then one every 6 seconds
+const RATE_LIMIT = { bucket: 'transcribe', capacity: 20, refillPerMinute: 10 }
 
 interface TranscriptionRequest {
   audio: string // Base64 encoded audio
@@ -13,12 +12,7 @@ interface TranscriptionRequest {
   language?: string // Optional language hint
 }
 
-serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders })
-  }
-
+const handleTranscribe = async (req: Request): Promise<Response> => {
   try {
     if (req.method !== 'POST') {
       throw new Error('Method not allowed. Use POST.')
@@ -72,10 +66,7 @@ serve(async (req) => {
         language: transcription.language,
       }),
       {
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json' 
-        },
+        headers: { 'Content-Type': 'application/json' },
       }
     )
 
@@ -88,11 +79,10 @@ serve(async (req) => {
       }),
       {
         status: 400,
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json' 
-        },
+        headers: { 'Content-Type': 'application/json' },
       }
     )
   }
-})
\ No newline at end of file
+}
+
+serve(withAuth(handleTranscribe, { rateLimit: RATE_LIMIT }))
@@ -0,0 +1,73 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { withAuth } from "../_shared/auth.ts"
+import {
+  OPENAI_VOICES,
+  OpenAIVoice,
+  ElevenLabsOptions,
+  synthesizeOpenAISpeech,
+  synthesizeElevenLabsSpeech,
+} from "../_shared/speech.ts"
+
+// Text-to-speech for the app, so the OpenAI and ElevenLabs keys stay on the server.
+//
+// Request:  { text, provider?: 'openai' | 'elevenlabs', voice?, voiceId?, modelId?, voiceSettings? }
+//           `voice` is an OpenAI voice; `voiceId` etc. are ElevenLabs options
+// Response: { audio: <base64 mp3>, format: 'mp3', provider }
+
+// Bursts of 20 replies, then one every 6 seconds
+const RATE_LIMIT = { bucket: 'tts', capacity: 20, refillPerMinute: 10 }
+
+// OpenAI TTS takes up to 4096 characters
+const MAX_TEXT_LENGTH = 4096
+
+interface TTSRequest extends ElevenLabsOptions {
+  text: string
+  provider?: 'openai' | 'elevenlabs'
+  voice?: OpenAIVoice
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+
+const errorResponse = (code: string, message: string, status: number) =>
+  jsonResponse({ type: 'error', code, message }, status)
+
+const handleTTS = async (req: Request): Promise<Response> => {
+  if (req.method !== 'POST') {
+    return errorResponse('method_not_allowed', 'Method not allowed. Use POST.', 405)
+  }
+
+  const body: TTSRequest | null = await req.json().catch(() => null)
+  if (!body || typeof body.text !== 'string' || !body.text.trim()) {
+    return errorResponse('invalid_request', 'text is required', 400)
+  }
+  if (body.text.length > MAX_TEXT_LENGTH) {
+    return errorResponse('invalid_request', `text can't be longer than ${MAX_TEXT_LENGTH} characters`, 400)
+  }
+  if (body.voice !== undefined && !OPENAI_VOICES.includes(body.voice)) {
+    return errorResponse('invalid_request', `voice must be one of ${OPENAI_VOICES.join(', ')}`, 400)
+  }
+  if (body.voiceId !== undefined && (typeof body.voiceId !== 'string' || !/^[A-Za-z0-9]+$/.test(body.voiceId))) {
+    return errorResponse('invalid_request', 'voiceId must be an ElevenLabs voice ID', 400)
+  }
+
+  const provider = body.provider === 'elevenlabs' ? 'elevenlabs' : 'openai'
+
+  try {
+    const audio = provider === 'elevenlabs'
+      ? await synthesizeElevenLabsSpeech(body.text, body)
+      : await synthesizeOpenAISpeech(body.text, body.voice || 'nova')
+
+    if (!audio) {
+      // The app falls back to OpenAI when ElevenLabs isn't set up
+      return errorResponse('not_configured', `${provider} TTS is not configured`, 503)
+    }
+
+    return jsonResponse({ audio, format: 'mp3', provider })
+  } catch (error) {
+    console.error('TTS error:', error)
+    return errorResponse('upstream_error', (error as Error).message, 502)
+  }
+}
+
+serve(withAuth(handleTTS, { rateLimit: RATE_LIMIT }))